@@ -0,0 +1,64 @@
+/**
+ * Example: Recording live responses and replaying them offline
+ *
+ * This example demonstrates how to use RecordingAdapter and ReplayAdapter
+ * to run the clients against recorded Yahoo Finance payloads.
+ *
+ * Record once (network required):
+ *   TRADING_DATA_MODE=record npx ts-node --esm examples/trading-data-client/record-replay-example.ts
+ *
+ * Replay afterwards (no network):
+ *   TRADING_DATA_MODE=replay npx ts-node --esm examples/trading-data-client/record-replay-example.ts
+ */
+
+import {
+  MarketDataClient,
+  RecordingAdapter,
+  ReplayAdapter,
+  YahooFinanceAdapter,
+  type IDataSourceAdapter,
+} from '@lc-trading-services/trading-data-client';
+
+const FIXTURE_DIRECTORY = process.env['TRADING_DATA_FIXTURES'] ?? './fixtures/yahoo';
+
+function createAdapter(): IDataSourceAdapter {
+  switch (process.env['TRADING_DATA_MODE']) {
+    case 'record':
+      return new RecordingAdapter(new YahooFinanceAdapter(), { directory: FIXTURE_DIRECTORY });
+    case 'replay':
+      // 'any' keeps the example working on later days, when "last 30 days" no longer matches the recording
+      return new ReplayAdapter({ directory: FIXTURE_DIRECTORY, rangeMatching: 'any' });
+    default:
+      return new YahooFinanceAdapter();
+  }
+}
+
+async function main() {
+  const client = new MarketDataClient(createAdapter());
+
+  console.log(`=== Mode: ${process.env['TRADING_DATA_MODE'] ?? 'live'} ===\n`);
+
+  try {
+    const quote = await client.getQuote('AAPL');
+    console.log(`AAPL: $${quote.price.toFixed(2)} (${quote.timestamp.toISOString()})\n`);
+  } catch (error) {
+    console.error('Error fetching AAPL quote:', error);
+  }
+
+  try {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 30); // Last 30 days
+
+    const data = await client.getHistoricalData({ symbol: 'AAPL', startDate, endDate, interval: '1d' });
+    console.log(`Retrieved ${data.length} daily candles`);
+    data.slice(-5).forEach((point) => {
+      console.log(`  ${point.date.toISOString().split('T')[0]}: Close=$${point.close.toFixed(2)}`);
+    });
+  } catch (error) {
+    console.error('Error fetching historical data:', error);
+  }
+}
+
+// Run the example
+main().catch(console.error);
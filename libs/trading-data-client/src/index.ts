@@ -5,4 +5,77 @@ export * from './lib/adapters/index.js';
 export { TradingDataClient } from './lib/trading-data-client.js';
 export { MarketDataClient } from './lib/market-data-client.js';
 export { NewsClient } from './lib/news-client.js';
-export { normalizeSymbol } from './lib/symbol-normalizer.js';
+export { normalizeSymbol, detectAssetClass } from './lib/symbol-normalizer.js';
+export {
+  TradingDataError,
+  SymbolNotFoundError,
+  RateLimitedError,
+  NetworkError,
+  InsufficientDataError,
+  UnsupportedIntervalError,
+  InvalidParameterError,
+  DataQualityError,
+  DataFormatError,
+  withErrorContext,
+  toTradingDataError,
+} from './lib/errors/index.js';
+export type { ErrorContext, TradingErrorOptions } from './lib/errors/index.js';
+export {
+  resampleCandles,
+  intervalStart,
+  toIntervalSpec,
+  INTERVAL_SPECS,
+  FX_SESSION_ALIGNMENT,
+} from './lib/resampling/index.js';
+export { adjustCandles, NO_CORPORATE_ACTIONS } from './lib/adjustment/index.js';
+export { validateCandles, DEFAULT_SPIKE_THRESHOLD } from './lib/validation/index.js';
+export { runBatch, DEFAULT_BATCH_CONCURRENCY } from './lib/batch/index.js';
+export {
+  QuoteStream,
+  BarBuilder,
+  PollingQuoteTransport,
+  WebSocketQuoteTransport,
+  DEFAULT_BAR_INTERVAL,
+  DEFAULT_POLL_INTERVAL,
+} from './lib/streaming/index.js';
+export {
+  TradingCalendar,
+  TRADING_CALENDARS,
+  getTradingCalendar,
+  calendarForSymbol,
+  easterSunday,
+  nyseHolidays,
+  lseHolidays,
+  xetraHolidays,
+} from './lib/calendar/index.js';
+export {
+  InstrumentRegistry,
+  getInstrumentRegistry,
+  pricePrecision,
+  roundPrice,
+  roundToTick,
+  toPips,
+  fromPips,
+  DEFAULT_INSTRUMENTS,
+  CURRENCY_CODES,
+  SYMBOL_FORMATS,
+  YAHOO_SYMBOL_FORMAT,
+  OANDA_SYMBOL_FORMAT,
+  BINANCE_SYMBOL_FORMAT,
+  STOOQ_SYMBOL_FORMAT,
+} from './lib/instruments/index.js';
+export { CachingMarketDataProvider, DEFAULT_CACHE_TTL } from './lib/caching-market-data-provider.js';
+export { FallbackMarketDataProvider } from './lib/fallback-market-data-provider.js';
+export { MemoryCandleCacheStore, FileCandleCacheStore } from './lib/cache/index.js';
+export { CandleStore, DEFAULT_MAX_CANDLE_GAP, DEFAULT_INITIAL_LOOKBACK_DAYS } from './lib/storage/index.js';
+export {
+  TokenBucket,
+  ConcurrencyLimiter,
+  CircuitBreaker,
+  TimeoutError,
+  CircuitOpenError,
+  retry,
+  backoffDelay,
+  isTransientError,
+  withTimeout,
+} from './lib/resilience/index.js';
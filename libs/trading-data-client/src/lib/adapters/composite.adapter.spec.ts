@@ -0,0 +1,221 @@
+import { CompositeDataSourceAdapter } from './composite.adapter';
+import { MarketDataClient } from '../market-data-client.js';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type { ProviderReport } from '../types/index.js';
+import { InvalidParameterError, SymbolNotFoundError } from '../errors/index.js';
+
+const chartResponse = (close: number) => ({
+  symbol: 'X',
+  bars: [{ date: new Date('2024-01-02T00:00:00Z'), open: close, high: close, low: close, close, volume: 1 }],
+});
+
+const request = { period1: new Date('2024-01-01T00:00:00Z'), interval: '1d' as const };
+
+const mockAdapter = (close: number): jest.Mocked<IDataSourceAdapter> => ({
+  search: jest.fn().mockResolvedValue({ hits: [{ symbol: `HIT${close}` }], news: [] }),
+  chart: jest.fn().mockResolvedValue(chartResponse(close)),
+  quote: jest.fn().mockResolvedValue({ symbol: 'X', price: close }),
+});
+
+describe('CompositeDataSourceAdapter', () => {
+  let primary: jest.Mocked<IDataSourceAdapter>;
+  let secondary: jest.Mocked<IDataSourceAdapter>;
+  let crypto: jest.Mocked<IDataSourceAdapter>;
+  let reports: ProviderReport[];
+  let adapter: CompositeDataSourceAdapter;
+
+  beforeEach(() => {
+    primary = mockAdapter(1);
+    secondary = mockAdapter(2);
+    crypto = mockAdapter(3);
+    reports = [];
+    adapter = new CompositeDataSourceAdapter(
+      [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+        { name: 'crypto', provider: crypto },
+      ],
+      {
+        routes: [{ match: 'crypto', providers: ['crypto', 'primary'] }],
+        onServed: (report) => reports.push(report),
+      }
+    );
+  });
+
+  it('should serve from the first provider when it succeeds', async () => {
+    const result = await adapter.chart('AAPL', request);
+
+    expect(result.bars[0].close).toBe(1);
+    expect(secondary.chart).not.toHaveBeenCalled();
+    expect(adapter.servedBy(result)).toBe('primary');
+    expect(reports).toEqual([
+      { operation: 'chart', symbol: 'AAPL', provider: 'primary', attempts: [{ provider: 'primary' }] },
+    ]);
+  });
+
+  it('should fall back to the next provider on errors', async () => {
+    const error = new Error('503 Service Unavailable');
+    primary.quote.mockRejectedValue(error);
+
+    const result = await adapter.quote('AAPL');
+
+    expect(result.price).toBe(2);
+    expect(reports[0].provider).toBe('secondary');
+    expect(reports[0].attempts).toEqual([{ provider: 'primary', error }, { provider: 'secondary' }]);
+  });
+
+  it('should fall back on empty chart responses and keep the first empty one if nobody has data', async () => {
+    primary.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
+
+    const backfilled = await adapter.chart('AAPL', request);
+    expect(adapter.servedBy(backfilled)).toBe('secondary');
+
+    secondary.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
+    crypto.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
+    const empty = await adapter.chart('AAPL', request);
+
+    expect(empty.bars).toEqual([]);
+    expect(adapter.servedBy(empty)).toBe('primary');
+  });
+
+  it('should route symbols by asset class', async () => {
+    await adapter.chart('BTC-USD', request);
+
+    expect(crypto.chart).toHaveBeenCalledWith('BTC-USD', request, undefined);
+    expect(primary.chart).not.toHaveBeenCalled();
+  });
+
+  it('should only try the providers of a matching route', async () => {
+    crypto.chart.mockRejectedValue(new Error('crypto down'));
+    primary.chart.mockRejectedValue(new Error('primary down'));
+
+    await expect(adapter.chart('BTC-USD', request)).rejects.toThrow(
+      'All providers failed for BTC-USD (crypto: crypto down; primary: primary down)'
+    );
+    expect(secondary.chart).not.toHaveBeenCalled();
+  });
+
+  it('should support regular expressions and predicates as matchers', async () => {
+    const routed = new CompositeDataSourceAdapter(
+      [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+      ],
+      {
+        routes: [
+          { match: /^EUR/, providers: ['secondary'] },
+          { match: (symbol) => symbol.endsWith('.DE'), providers: ['secondary', 'primary'] },
+        ],
+      }
+    );
+
+    await routed.quote('EUR/USD');
+    await routed.quote('SAP.DE');
+
+    expect(secondary.quote.mock.calls.map(([symbol]) => symbol)).toEqual(['EUR/USD', 'SAP.DE']);
+    expect(primary.quote).not.toHaveBeenCalled();
+  });
+
+  it('should keep the kind of the last error when every provider fails', async () => {
+    primary.quote.mockRejectedValue(new Error('Quote not found'));
+    secondary.quote.mockRejectedValue(new SymbolNotFoundError('Unknown symbol'));
+    crypto.quote.mockRejectedValue(new SymbolNotFoundError('Unknown symbol'));
+
+    await expect(adapter.quote('XYZ')).rejects.toBeInstanceOf(SymbolNotFoundError);
+  });
+
+  it('should not fall back when the policy rejects the error', async () => {
+    primary.chart.mockRejectedValue(new InvalidParameterError('Bad range'));
+
+    await expect(adapter.chart('AAPL', request)).rejects.toThrow('Bad range');
+    expect(secondary.chart).not.toHaveBeenCalled();
+  });
+
+  it('should validate provider names and routes', () => {
+    expect(() => new CompositeDataSourceAdapter([])).toThrow(InvalidParameterError);
+    expect(
+      () =>
+        new CompositeDataSourceAdapter([
+          { name: 'a', provider: primary },
+          { name: 'a', provider: secondary },
+        ])
+    ).toThrow('Duplicate provider name: a');
+    expect(
+      () =>
+        new CompositeDataSourceAdapter([{ name: 'a', provider: primary }], {
+          routes: [{ match: 'stock', providers: ['b'] }],
+        })
+    ).toThrow('Unknown provider in route: b');
+  });
+
+  it('should only offer multi-symbol quotes when a source has them', () => {
+    expect(adapter.quotes).toBeUndefined();
+  });
+
+  describe('quotes', () => {
+    let quotes: jest.Mock;
+
+    beforeEach(() => {
+      quotes = jest.fn().mockResolvedValue([{ symbol: 'AAPL', price: 1 }]);
+      adapter = new CompositeDataSourceAdapter(
+        [
+          { name: 'primary', provider: { ...primary, quotes } },
+          { name: 'secondary', provider: secondary },
+        ],
+        { onServed: (report) => reports.push(report) }
+      );
+    });
+
+    it('should request all symbols in one call and fall back for the missing ones', async () => {
+      secondary.quote.mockImplementation(async (symbol) => ({ symbol, price: 2 }));
+
+      const results = await new MarketDataClient(adapter).getQuotes(['AAPL', 'MSFT']);
+
+      expect(results.map((result) => result.data?.price)).toEqual([1, 2]);
+      expect(quotes).toHaveBeenCalledTimes(1);
+      expect(quotes).toHaveBeenCalledWith(['AAPL', 'MSFT'], { signal: undefined });
+      expect(secondary.quote).toHaveBeenCalledTimes(1);
+      expect(secondary.quote).toHaveBeenCalledWith('MSFT', { signal: undefined });
+      expect(reports.map(({ symbol, provider }) => [symbol, provider])).toEqual([
+        ['AAPL', 'primary'],
+        ['MSFT', 'secondary'],
+      ]);
+    });
+
+    it('should report the serving provider of each snapshot', async () => {
+      const [snapshot] = await adapter.quotes!(['AAPL']);
+
+      expect(adapter.servedBy(snapshot)).toBe('primary');
+    });
+
+    it('should fall back for all symbols when the multi-symbol request fails', async () => {
+      quotes.mockRejectedValue(new Error('503 Service Unavailable'));
+      secondary.quote.mockImplementation(async (symbol) => ({ symbol, price: 2 }));
+
+      const snapshots = await adapter.quotes!(['AAPL', 'MSFT']);
+
+      expect(snapshots.map(({ symbol }) => symbol)).toEqual(['AAPL', 'MSFT']);
+      expect(reports[0].attempts).toEqual([
+        { provider: 'primary', error: expect.any(Error) },
+        { provider: 'secondary' },
+      ]);
+    });
+
+    it('should keep the kind of the last error when every provider fails', async () => {
+      quotes.mockRejectedValue(new Error('503 Service Unavailable'));
+      secondary.quote.mockRejectedValue(new SymbolNotFoundError('Unknown symbol'));
+
+      await expect(adapter.quotes!(['XYZ'])).rejects.toBeInstanceOf(SymbolNotFoundError);
+    });
+  });
+
+  it('should drive MarketDataClient', async () => {
+    primary.chart.mockRejectedValue(new Error('ECONNRESET'));
+    const client = new MarketDataClient(adapter);
+
+    const data = await client.getHistoricalData({ symbol: 'AAPL', startDate: new Date('2024-01-01T00:00:00Z') });
+
+    expect(data[0].close).toBe(2);
+    expect(reports[0].provider).toBe('secondary');
+  });
+});
@@ -0,0 +1,140 @@
+import type {
+  DataSourceCallOptions,
+  IDataSourceAdapter,
+} from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  FallbackOptions,
+  NamedProvider,
+  QuoteSnapshot,
+  SearchRequest,
+  SearchResult,
+} from '../types/index.js';
+import { ProviderChain } from '../utils/provider-chain.js';
+
+/**
+ * Adapter that combines several data source adapters with routing and fallback
+ *
+ * - Each request goes to the providers of the first matching route (or all providers
+ *   in registration order) and falls through to the next one on errors or empty responses
+ * - The serving provider of each response is reported through `onServed` and `servedBy`
+ * - Multi-symbol quotes are available when any source has them; each provider is asked for the
+ *   symbols not served yet, in one request if it supports it
+ *
+ * @example
+ * const adapter = new CompositeDataSourceAdapter(
+ *   [
+ *     { name: 'crypto', provider: cryptoAdapter },
+ *     { name: 'yahoo', provider: new YahooFinanceAdapter() },
+ *     { name: 'backfill', provider: new FileDataSourceAdapter({ directory: 'data' }) },
+ *   ],
+ *   {
+ *     routes: [{ match: 'crypto', providers: ['crypto', 'yahoo'] }],
+ *     onServed: ({ operation, symbol, provider }) => console.log(`${operation} ${symbol} <- ${provider}`),
+ *   }
+ * );
+ * const client = new TradingDataClient(new MarketDataClient(adapter));
+ */
+export class CompositeDataSourceAdapter implements IDataSourceAdapter {
+  private readonly chain: ProviderChain<IDataSourceAdapter>;
+  private readonly servedResponses = new WeakMap<object, string>();
+
+  /**
+   * Multi-symbol quotes with routing and fallback, present when any source has them
+   */
+  readonly quotes?: (symbols: string[], callOptions?: DataSourceCallOptions) => Promise<QuoteSnapshot[]>;
+
+  /**
+   * @param sources - Named adapters, in default order of preference
+   * @param options - Routing rules, fallback policy and report callback
+   */
+  constructor(sources: NamedProvider<IDataSourceAdapter>[], options: FallbackOptions = {}) {
+    this.chain = new ProviderChain(sources, options);
+
+    if (sources.some(({ provider }) => provider.quotes)) {
+      this.quotes = (symbols, callOptions) => this.executeQuotes(symbols, callOptions);
+    }
+  }
+
+  /**
+   * Name of the provider that served a response returned by this adapter
+   * @param response - Response of search, chart or quote, or a snapshot returned by quotes
+   * @returns Provider name, or undefined for foreign objects
+   */
+  servedBy(response: unknown): string | undefined {
+    return typeof response === 'object' && response !== null ? this.servedResponses.get(response) : undefined;
+  }
+
+  async search(query: string, request: SearchRequest, callOptions?: DataSourceCallOptions): Promise<SearchResult> {
+    return this.execute(
+      'search',
+      query,
+      (adapter) => adapter.search(query, request, callOptions),
+      (result) => result.hits.length === 0 && result.news.length === 0
+    );
+  }
+
+  async chart(symbol: string, request: ChartRequest, callOptions?: DataSourceCallOptions): Promise<ChartResult> {
+    return this.execute(
+      'chart',
+      symbol,
+      (adapter) => adapter.chart(symbol, request, callOptions),
+      (result) => result.bars.length === 0
+    );
+  }
+
+  async quote(symbol: string, callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot> {
+    return this.execute('quote', symbol, (adapter) => adapter.quote(symbol, callOptions));
+  }
+
+  private async executeQuotes(symbols: string[], callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot[]> {
+    const results = await this.chain.executeMany('quotes', symbols, (adapter, _name, remaining) =>
+      quotesFrom(adapter, remaining, callOptions)
+    );
+
+    return [...results.values()].map(({ data, provider }) => {
+      this.servedResponses.set(data, provider);
+      return data;
+    });
+  }
+
+  private async execute<T extends object>(
+    operation: string,
+    symbol: string,
+    call: (adapter: IDataSourceAdapter) => Promise<T>,
+    isEmpty?: (result: T) => boolean
+  ): Promise<T> {
+    const { data, provider } = await this.chain.execute(operation, symbol, call, isEmpty);
+    this.servedResponses.set(data, provider);
+    return data;
+  }
+}
+
+/**
+ * Quotes of several symbols from one adapter, by symbol
+ * Adapters without multi-symbol quotes are asked one symbol at a time; symbols that fail are
+ * missing, unless all of them fail
+ */
+async function quotesFrom(
+  adapter: IDataSourceAdapter,
+  symbols: string[],
+  callOptions?: DataSourceCallOptions
+): Promise<Map<string, QuoteSnapshot>> {
+  if (adapter.quotes) {
+    const snapshots = await adapter.quotes(symbols, callOptions);
+    return new Map(snapshots.map((snapshot) => [snapshot.symbol, snapshot]));
+  }
+
+  const settled = await Promise.allSettled(symbols.map((symbol) => adapter.quote(symbol, callOptions)));
+  const quotes = new Map<string, QuoteSnapshot>();
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      quotes.set(symbols[i], result.value);
+    }
+  });
+  if (quotes.size === 0 && settled[0]?.status === 'rejected') {
+    throw settled[0].reason;
+  }
+  return quotes;
+}
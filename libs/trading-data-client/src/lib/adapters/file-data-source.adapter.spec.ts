@@ -0,0 +1,360 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileDataSourceAdapter, FILE_FORMAT_PRESETS } from './file-data-source.adapter';
+import { MarketDataClient } from '../market-data-client.js';
+import { DataFormatError, InvalidParameterError, UnsupportedIntervalError } from '../errors/trading-errors.js';
+import { zonedTimeToDate } from '../utils/timezone.js';
+import { describeDataSourceAdapterConformance } from '../../testing/data-source-adapter-conformance.js';
+
+const EPOCH = new Date(0);
+
+describe('FileDataSourceAdapter', () => {
+  let directory: string;
+
+  const write = async (name: string, content: string): Promise<string> => {
+    const path = join(directory, name);
+    await writeFile(path, content, 'utf8');
+    return path;
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'file-adapter-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('CSV files', () => {
+    it('should read common headers and filter by date range', async () => {
+      const path = await write(
+        'AAPL.csv',
+        [
+          'Date,Open,High,Low,Close,Adj Close,Volume',
+          '2024-01-02,10,12,9,11,10.5,1000',
+          '2024-01-03,11,13,10,12,11.5,1100',
+          '2024-01-04,12,14,11,13,12.5,1200',
+        ].join('\n')
+      );
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      const result = await adapter.chart('AAPL', {
+        period1: new Date('2024-01-03T00:00:00Z'),
+        period2: new Date('2024-01-04T00:00:00Z'),
+        interval: '1d',
+      });
+
+      expect(result.bars).toEqual([
+        { date: new Date('2024-01-03T00:00:00Z'), open: 11, high: 13, low: 10, close: 12, volume: 1100, adjClose: 11.5 },
+        { date: new Date('2024-01-04T00:00:00Z'), open: 12, high: 14, low: 11, close: 13, volume: 1200, adjClose: 12.5 },
+      ]);
+    });
+
+    it('should sort rows exported newest first', async () => {
+      const path = await write(
+        'AAPL.csv',
+        ['Date,Open,High,Low,Close,Volume', '2024-01-03,11,13,10,12,0', '2024-01-02,10,12,9,11,0'].join('\n')
+      );
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      const result = await adapter.chart('AAPL', { period1: EPOCH, interval: '1d' });
+
+      expect(result.bars.map((bar) => bar.close)).toEqual([11, 12]);
+    });
+
+    it('should parse MetaTrader exports in the broker timezone', async () => {
+      const path = await write(
+        'EURUSD.csv',
+        [
+          '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>',
+          '2024.07.01\t00:00:00\t1.07\t1.08\t1.06\t1.075\t500\t0\t2',
+          '2024.01.02\t00:00:00\t1.10\t1.11\t1.09\t1.105\t400\t0\t2',
+        ].join('\n')
+      );
+      const adapter = new FileDataSourceAdapter({
+        ...FILE_FORMAT_PRESETS.metatrader,
+        timezone: 'Europe/Athens',
+        interval: '1h',
+        files: { EURUSD: path },
+      });
+
+      const result = await adapter.chart('EURUSD=X', { period1: EPOCH, interval: '1h' });
+
+      // Athens is UTC+2 in winter and UTC+3 in summer
+      expect(result.bars[0].date).toEqual(new Date('2024-01-01T22:00:00Z'));
+      expect(result.bars[0].volume).toBe(400);
+      expect(result.bars[1].date).toEqual(new Date('2024-06-30T21:00:00Z'));
+    });
+
+    it('should parse TradingView exports with unix timestamps', async () => {
+      const path = await write(
+        'BTC.csv',
+        ['time,open,high,low,close,Volume', '1704067200,42000,43000,41000,42500,12'].join('\n')
+      );
+      const adapter = new FileDataSourceAdapter({ ...FILE_FORMAT_PRESETS.tradingview, files: { BTC: path } });
+
+      const result = await adapter.chart('BTC', { period1: EPOCH, interval: '1d' });
+
+      expect(result.bars[0].date).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(result.bars[0].close).toBe(42500);
+    });
+
+    it('should aggregate Dukascopy ticks into candles of the requested interval', async () => {
+      const path = await write(
+        'EURUSD.csv',
+        [
+          'Gmt time,Ask,Bid,AskVolume,BidVolume',
+          '02.01.2024 10:00:01.250,1.1002,1.1000,1,2',
+          '02.01.2024 10:20:00.000,1.1012,1.1010,1,3',
+          '02.01.2024 10:40:00.000,1.0992,1.0990,1,1',
+          '02.01.2024 11:05:00.000,1.1007,1.1005,1,4',
+        ].join('\n')
+      );
+      const adapter = new FileDataSourceAdapter({
+        files: { EURUSD: { path, ...FILE_FORMAT_PRESETS.dukascopyTicks } },
+      });
+
+      const result = await adapter.chart('EURUSD', { period1: EPOCH, interval: '1h' });
+
+      expect(result.bars).toEqual([
+        { date: new Date('2024-01-02T10:00:00Z'), open: 1.1, high: 1.101, low: 1.099, close: 1.099, volume: 6, adjClose: undefined },
+        { date: new Date('2024-01-02T11:00:00Z'), open: 1.1005, high: 1.1005, low: 1.1005, close: 1.1005, volume: 4, adjClose: undefined },
+      ]);
+    });
+
+    it('should resample rows to longer intervals from the start of the first bucket', async () => {
+      const lines = ['Date,Open,High,Low,Close,Volume'];
+      for (let day = 1; day <= 14; day++) {
+        lines.push(`2024-01-${String(day).padStart(2, '0')},${day},${day + 1},${day - 1},${day + 0.5},10`);
+      }
+      const path = await write('AAPL.csv', lines.join('\n'));
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      // 2024-01-01 is a Monday
+      const result = await adapter.chart('AAPL', { period1: new Date('2024-01-03T00:00:00Z'), interval: '1wk' });
+
+      expect(result.bars).toEqual([
+        { date: new Date('2024-01-01T00:00:00Z'), open: 1, high: 8, low: 0, close: 7.5, volume: 70, adjClose: undefined },
+        { date: new Date('2024-01-08T00:00:00Z'), open: 8, high: 15, low: 7, close: 14.5, volume: 70, adjClose: undefined },
+      ]);
+    });
+
+    it('should reject intervals that cannot be built from the rows', async () => {
+      const path = await write('AAPL.csv', 'Date,Close\n2024-01-02,10\n');
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: { path, interval: '1h' } } });
+
+      const hourly = await adapter.chart('AAPL', { period1: EPOCH, interval: '5m' }).catch((e) => e);
+      const daily = await new FileDataSourceAdapter({ files: { AAPL: path } })
+        .chart('AAPL', { period1: EPOCH, interval: '1h' })
+        .catch((e) => e);
+
+      expect(hourly).toBeInstanceOf(UnsupportedIntervalError);
+      expect(hourly.supported).toEqual(['1h', '2h', '3h', '4h', '6h', '8h', '12h', '1d', '2d', '3d', '1wk', '1mo', '3mo']);
+      expect(daily).toBeInstanceOf(UnsupportedIntervalError);
+      expect(daily.supported).toEqual(['1d', '2d', '3d', '1wk', '1mo', '3mo']);
+      await expect(adapter.chart('AAPL', { period1: EPOCH, interval: '1h' })).resolves.toMatchObject({ bars: [{ close: 10 }] });
+    });
+
+    it('should support headerless files with positional columns', async () => {
+      const path = await write('GBPUSD.csv', '2024.01.02,13:00,1.27,1.28,1.26,1.275,10\n');
+      const adapter = new FileDataSourceAdapter({
+        files: {
+          GBPUSD: {
+            path,
+            hasHeader: false,
+            columns: { date: 0, time: 1, open: 2, high: 3, low: 4, close: 5, volume: 6 },
+            dateFormat: 'YYYY.MM.DD',
+            timeFormat: 'HH:mm',
+            interval: '1h',
+          },
+        },
+      });
+
+      const result = await adapter.chart('GBPUSD=X', { period1: EPOCH, interval: '1h' });
+
+      expect(result.bars[0].date).toEqual(new Date('2024-01-02T13:00:00Z'));
+      expect(result.bars[0].close).toBe(1.275);
+    });
+
+    it('should report invalid dates with file and line', async () => {
+      const path = await write('AAPL.csv', 'Date,Close\n2024-01-02,10\nnot-a-date,11\n');
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      const error = await adapter.chart('AAPL', { period1: EPOCH }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DataFormatError);
+      expect(error).toMatchObject({ message: `Invalid date "not-a-date" in ${path} at line 3`, path, line: 3 });
+    });
+
+    it('should fail for unknown columns', async () => {
+      const path = await write('AAPL.csv', 'Date,Close\n2024-01-02,10\n');
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: { path, columns: { date: 'Date', close: 'Last' } } } });
+
+      const error = await adapter.chart('AAPL', { period1: EPOCH }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidParameterError);
+      expect(error).toMatchObject({ message: `Column "Last" not found in ${path}`, parameter: 'columns' });
+    });
+
+    it('should fail for files without a date column', async () => {
+      const path = await write('AAPL.csv', 'Day,Close\n2024-01-02,10\n');
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      await expect(adapter.chart('AAPL', { period1: EPOCH })).rejects.toThrow(InvalidParameterError);
+    });
+  });
+
+  describe('JSON files', () => {
+    it('should read arrays of objects and wrapped arrays', async () => {
+      const array = await write('A.json', JSON.stringify([{ timestamp: '2024-01-02T00:00:00Z', close: 5 }]));
+      const wrapped = await write(
+        'B.json',
+        JSON.stringify({ candles: [{ t: 1704153600000, o: 1, h: 2, l: 0.5, c: 1.5, v: 9 }] })
+      );
+      const adapter = new FileDataSourceAdapter({
+        files: {
+          A: array,
+          B: { path: wrapped, columns: { date: 't', open: 'o', high: 'h', low: 'l', close: 'c', volume: 'v' }, dateFormat: 'unix_ms' },
+        },
+      });
+
+      const a = await adapter.chart('A', { period1: EPOCH });
+      const b = await adapter.chart('B', { period1: EPOCH });
+
+      expect(a.bars[0]).toEqual({ date: new Date('2024-01-02T00:00:00Z'), open: 5, high: 5, low: 5, close: 5, volume: 0, adjClose: undefined });
+      expect(b.bars[0]).toEqual({ date: new Date('2024-01-02T00:00:00Z'), open: 1, high: 2, low: 0.5, close: 1.5, volume: 9, adjClose: undefined });
+    });
+
+    it('should read missing and non-numeric values as absent', async () => {
+      const path = await write('A.json', JSON.stringify([{ date: '2024-01-02', close: 5, volume: null, open: true }]));
+      const adapter = new FileDataSourceAdapter({ files: { A: path } });
+
+      const result = await adapter.chart('A', { period1: EPOCH });
+
+      expect(result.bars[0]).toMatchObject({ open: 5, close: 5, volume: 0 });
+    });
+
+    it('should report malformed files as format errors', async () => {
+      const invalid = await write('A.json', '[{"date": "2024-01-02",');
+      const unwrapped = await write('B.json', JSON.stringify({ rows: [] }));
+      const adapter = new FileDataSourceAdapter({ files: { A: invalid, B: unwrapped } });
+
+      await expect(adapter.chart('A', { period1: EPOCH })).rejects.toThrow(DataFormatError);
+      await expect(adapter.chart('B', { period1: EPOCH })).rejects.toThrow(`No data array found in ${unwrapped}`);
+    });
+  });
+
+  describe('symbol lookup', () => {
+    it('should find files in the directory by symbol', async () => {
+      await write('EURUSD.csv', 'Date,Close\n2024-01-02,1.1\n');
+      const adapter = new FileDataSourceAdapter({ directory });
+
+      const result = await adapter.chart('EURUSD=X', { period1: EPOCH });
+
+      expect(result.bars).toHaveLength(1);
+    });
+
+    it('should throw for unknown symbols', async () => {
+      const adapter = new FileDataSourceAdapter({ directory });
+
+      await expect(adapter.chart('MSFT', { period1: EPOCH })).rejects.toThrow('No data file found for MSFT');
+    });
+
+    it('should list matching symbols in search results', async () => {
+      await write('EURUSD.csv', 'Date,Close\n2024-01-02,1.1\n');
+      await write('GBPUSD.csv', 'Date,Close\n2024-01-02,1.2\n');
+      const adapter = new FileDataSourceAdapter({ directory });
+
+      const result = await adapter.search('eur', {});
+
+      expect(result.hits.map((hit) => hit.symbol)).toEqual(['EURUSD']);
+      expect(result.news).toEqual([]);
+    });
+  });
+
+  describe('quote', () => {
+    it('should build the quote from the last bar', async () => {
+      const path = await write('AAPL.csv', 'Date,Open,High,Low,Close,Volume\n2024-01-02,10,12,9,11,100\n2024-01-03,11,13,10,12,200\n');
+      const adapter = new FileDataSourceAdapter({ files: { AAPL: path } });
+
+      const quote = await adapter.quote('AAPL');
+
+      expect(quote).toEqual({
+        symbol: 'AAPL',
+        price: 12,
+        previousClose: 11,
+        open: 11,
+        dayHigh: 13,
+        dayLow: 10,
+        volume: 200,
+        timestamp: new Date('2024-01-03T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('with MarketDataClient', () => {
+    it('should serve historical data and quotes without network access', async () => {
+      const lines = ['Date,Open,High,Low,Close,Volume'];
+      for (let hour = 0; hour < 8; hour++) {
+        lines.push(`2024-01-02T${String(hour).padStart(2, '0')}:00:00Z,${hour + 1},${hour + 2},${hour + 1},${hour + 1.5},10`);
+      }
+      const path = await write('EURUSD.csv', lines.join('\n'));
+      const client = new MarketDataClient(new FileDataSourceAdapter({ files: { EURUSD: path }, interval: '1h' }));
+
+      const candles = await client.getHistoricalData({
+        symbol: 'EUR/USD',
+        startDate: new Date('2024-01-02T00:00:00Z'),
+        endDate: new Date('2024-01-03T00:00:00Z'),
+        interval: '4h',
+      });
+      const quote = await client.getQuote('EURUSD');
+
+      expect(candles).toHaveLength(2);
+      expect(candles[0]).toMatchObject({ open: 1, high: 5, low: 1, close: 4.5, volume: 40 });
+      expect(quote.price).toBe(8.5);
+    });
+
+    it('should not report file errors as unknown symbols', async () => {
+      const path = await write('AAPL.csv', 'Date,Close\n2024-01-02,10\n');
+      const client = new MarketDataClient(
+        new FileDataSourceAdapter({ files: { AAPL: { path, columns: { date: 'Date', close: 'Last' } } } })
+      );
+
+      const error = await client.getHistoricalData({ symbol: 'AAPL', startDate: EPOCH }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidParameterError);
+      expect(error.parameter).toBe('columns');
+    });
+  });
+});
+
+describeDataSourceAdapterConformance('FileDataSourceAdapter', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'file-conformance-'));
+  await writeFile(
+    join(directory, 'AAPL.csv'),
+    ['Date,Open,High,Low,Close,Adj Close,Volume', '2024-01-02,10,12,9,11,10.5,1000', '2024-01-03,11,13,10,12,11.5,1100'].join('\n'),
+    'utf8'
+  );
+
+  return {
+    adapter: new FileDataSourceAdapter({ directory }),
+    symbol: 'AAPL',
+    unknownSymbol: 'MSFT',
+    chartRequest: { period1: new Date('2024-01-01T00:00:00Z'), period2: new Date('2024-01-31T00:00:00Z'), interval: '1d' },
+    searchQuery: 'aap',
+    dispose: () => rm(directory, { recursive: true, force: true }),
+  };
+});
+
+describe('zonedTimeToDate', () => {
+  it('should resolve wall times in the DST gap forward', () => {
+    // 02:30 does not exist in New York on 2024-03-10
+    expect(zonedTimeToDate(2024, 3, 10, 2, 30, 0, 0, 'America/New_York')).toEqual(new Date('2024-03-10T07:30:00Z'));
+  });
+
+  it('should resolve ambiguous wall times to the earlier instant', () => {
+    expect(zonedTimeToDate(2024, 10, 27, 2, 30, 0, 0, 'Europe/Berlin')).toEqual(new Date('2024-10-27T00:30:00Z'));
+    expect(zonedTimeToDate(2024, 11, 3, 1, 30, 0, 0, 'America/New_York')).toEqual(new Date('2024-11-03T05:30:00Z'));
+  });
+});
@@ -0,0 +1,547 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  FileColumn,
+  FileColumnMapping,
+  FileDataSourceOptions,
+  FileFormatOptions,
+  FileSourceConfig,
+  OHLCVData,
+  QuoteSnapshot,
+  SearchRequest,
+  SearchResult,
+  TimeInterval,
+} from '../types/index.js';
+import {
+  DataFormatError,
+  InvalidParameterError,
+  SymbolNotFoundError,
+  UnsupportedIntervalError,
+} from '../errors/trading-errors.js';
+import { normalizeSymbol } from '../symbol-normalizer.js';
+import { detectDelimiter, parseCsvLine } from '../utils/csv.js';
+import { parseDateValue } from '../utils/date-format.js';
+import { INTERVAL_SPECS, intervalStart, resampleCandles } from '../resampling/resampler.js';
+
+/**
+ * Format presets for common broker exports
+ * Spread a preset into the adapter options or a file config and override what differs
+ *
+ * @example
+ * new FileDataSourceAdapter({
+ *   ...FILE_FORMAT_PRESETS.metatrader,
+ *   timezone: 'Europe/Athens',
+ *   files: { EURUSD: './data/EURUSD_H1.csv' },
+ * });
+ */
+export const FILE_FORMAT_PRESETS = {
+  /** MetaTrader 5 export: <DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> <TICKVOL> <VOL> <SPREAD> */
+  metatrader: {
+    format: 'csv',
+    columns: {
+      date: 'date',
+      time: 'time',
+      open: 'open',
+      high: 'high',
+      low: 'low',
+      close: 'close',
+      volume: 'tickvol',
+    },
+    dateFormat: 'YYYY.MM.DD',
+    timeFormat: 'HH:mm:ss',
+  },
+  /** TradingView chart export: time,open,high,low,close,Volume (unix or ISO time) */
+  tradingview: {
+    format: 'csv',
+    columns: {
+      date: 'time',
+      open: 'open',
+      high: 'high',
+      low: 'low',
+      close: 'close',
+      volume: 'volume',
+    },
+    dateFormat: 'auto',
+  },
+  /** Dukascopy candle export: Gmt time,Open,High,Low,Close,Volume */
+  dukascopy: {
+    format: 'csv',
+    columns: {
+      date: 'gmt time',
+      open: 'open',
+      high: 'high',
+      low: 'low',
+      close: 'close',
+      volume: 'volume',
+    },
+    dateFormat: 'DD.MM.YYYY HH:mm:ss.SSS',
+    timezone: 'UTC',
+  },
+  /** Dukascopy tick export: Gmt time,Ask,Bid,AskVolume,BidVolume (bid prices, aggregated per interval) */
+  dukascopyTicks: {
+    format: 'csv',
+    columns: {
+      date: 'gmt time',
+      price: 'bid',
+      volume: 'bidvolume',
+    },
+    dateFormat: 'DD.MM.YYYY HH:mm:ss.SSS',
+    timezone: 'UTC',
+    aggregate: true,
+  },
+} satisfies Record<string, FileFormatOptions>;
+
+/**
+ * Header names tried for each field when no column mapping is configured
+ */
+const DEFAULT_COLUMN_NAMES: Record<keyof FileColumnMapping, string[]> = {
+  date: ['date', 'datetime', 'timestamp', 'gmttime', 'localtime', 'time'],
+  time: ['time'],
+  open: ['open'],
+  high: ['high'],
+  low: ['low'],
+  close: ['close'],
+  volume: ['volume', 'vol', 'tickvol'],
+  adjClose: ['adjclose'],
+  price: ['price'],
+};
+
+/**
+ * Array keys searched in JSON files holding an object instead of an array
+ */
+const JSON_ARRAY_KEYS = ['quotes', 'candles', 'data', 'bars'];
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.json', '.txt'];
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Length of the fixed interval units in minutes
+ */
+const UNIT_MINUTES = { minute: 1, hour: 60, day: DAY_MINUTES, week: 7 * DAY_MINUTES };
+
+/**
+ * Field indexes of a parsed file
+ */
+type ResolvedColumns = Partial<Record<keyof FileColumnMapping, number | string>>;
+
+/**
+ * Row of a JSON file: an object read by key or an array read by position
+ */
+type JsonRecord = Record<string, unknown> | unknown[];
+
+/**
+ * Adapter for local CSV and JSON files (broker exports, offline datasets)
+ * MarketDataClient and everything built on it work without network access
+ *
+ * Files are parsed once and kept in memory; call clearCache() after they change
+ *
+ * @example
+ * const adapter = new FileDataSourceAdapter({
+ *   files: { EURUSD: { path: './data/eurusd.csv', ...FILE_FORMAT_PRESETS.dukascopy } },
+ * });
+ * const client = new MarketDataClient(adapter);
+ */
+export class FileDataSourceAdapter implements IDataSourceAdapter {
+  private readonly options: FileDataSourceOptions;
+  private readonly loaded = new Map<string, Promise<OHLCVData[]>>();
+
+  constructor(options: FileDataSourceOptions) {
+    if (!options.files && !options.directory) {
+      throw new InvalidParameterError('FileDataSourceAdapter requires files or a directory');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Search available symbols
+   * Returns matching symbols as hits and always an empty news list
+   */
+  async search(query: string, _request?: SearchRequest): Promise<SearchResult> {
+    const needle = query.toUpperCase();
+    const symbols = new Set(Object.keys(this.options.files ?? {}));
+
+    if (this.options.directory) {
+      for (const file of await this.listDirectory()) {
+        symbols.add(basename(file, extname(file)));
+      }
+    }
+
+    const hits = [...symbols]
+      .filter((symbol) => symbol.toUpperCase().includes(needle))
+      .map((symbol) => ({ symbol, name: symbol, type: 'FILE' }));
+
+    return { hits, news: [] };
+  }
+
+  /**
+   * Fetch candles between period1 and period2 (both inclusive)
+   * Rows are resampled to a requested interval longer than the file interval
+   * @throws UnsupportedIntervalError when the interval cannot be built from the rows of the file
+   */
+  async chart(symbol: string, request: ChartRequest): Promise<ChartResult> {
+    const source = await this.resolveSource(symbol);
+    const { period1, period2: end, interval = '1d' } = request;
+    const fileInterval = source.interval ?? '1d';
+    const resample = source.aggregate || interval !== fileInterval;
+
+    if (!source.aggregate && resample && !isWholeMultiple(interval, fileInterval)) {
+      const message = `Cannot build ${interval} bars from the ${fileInterval} rows of ${source.path}`;
+      throw new UnsupportedIntervalError(message, {
+        symbol,
+        interval,
+        supported: (Object.keys(INTERVAL_SPECS) as TimeInterval[]).filter((candidate) =>
+          isWholeMultiple(candidate, fileInterval)
+        ),
+      });
+    }
+
+    const rows = await this.load(source);
+    // Resampled ranges start at a bucket boundary so the first bar is complete
+    const start = period1 && resample ? intervalStart(period1, interval) : period1;
+
+    let candles = rows.filter(
+      (row) => (!start || row.date >= start) && (!end || row.date <= end)
+    );
+    if (resample) {
+      candles = resampleCandles(candles, interval);
+    }
+
+    return {
+      symbol,
+      bars: candles.map((candle) => ({ ...candle })),
+    };
+  }
+
+  /**
+   * Build a quote from the last bar of the file
+   * The previous close is taken from the bar before it; aggregated files are read as daily bars
+   */
+  async quote(symbol: string): Promise<QuoteSnapshot> {
+    const source = await this.resolveSource(symbol);
+    const loaded = await this.load(source);
+    const rows = source.aggregate ? resampleCandles(loaded, '1d') : loaded;
+
+    if (rows.length === 0) {
+      throw new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol });
+    }
+
+    const last = rows[rows.length - 1];
+    const previous = rows.length > 1 ? rows[rows.length - 2] : undefined;
+
+    return {
+      symbol,
+      price: last.close,
+      previousClose: previous?.close,
+      open: last.open,
+      dayHigh: last.high,
+      dayLow: last.low,
+      volume: last.volume,
+      timestamp: last.date,
+    };
+  }
+
+  /**
+   * Drop parsed files so the next request reads them again
+   */
+  clearCache(): void {
+    this.loaded.clear();
+  }
+
+  /**
+   * Find the file config for a symbol
+   * Matches configured symbols directly or after normalization, then looks in the directory
+   */
+  private async resolveSource(symbol: string): Promise<FileSourceConfig> {
+    const { files, directory, ...defaults } = this.options;
+
+    for (const [key, entry] of Object.entries(files ?? {})) {
+      if (key === symbol || normalizeSymbol(key) === symbol) {
+        const config = typeof entry === 'string' ? { path: entry } : entry;
+        return { ...defaults, ...config };
+      }
+    }
+
+    if (directory) {
+      const available = await this.listDirectory();
+      const names = [symbol, symbol.replace(/=X$/, '')];
+      for (const name of names) {
+        for (const extension of SUPPORTED_EXTENSIONS) {
+          if (available.includes(`${name}${extension}`)) {
+            return { ...defaults, path: join(directory, `${name}${extension}`) };
+          }
+        }
+      }
+    }
+
+    throw new SymbolNotFoundError(`No data file found for ${symbol}`, { symbol });
+  }
+
+  private async listDirectory(): Promise<string[]> {
+    try {
+      const entries = await readdir(this.options.directory!);
+      return entries.filter((entry) => SUPPORTED_EXTENSIONS.includes(extname(entry).toLowerCase()));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a file once and share the result between concurrent requests
+   */
+  private load(source: FileSourceConfig): Promise<OHLCVData[]> {
+    const key = JSON.stringify(source);
+    let pending = this.loaded.get(key);
+    if (!pending) {
+      pending = this.parseFile(source);
+      pending.catch(() => this.loaded.delete(key));
+      this.loaded.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async parseFile(source: FileSourceConfig): Promise<OHLCVData[]> {
+    const content = (await readFile(source.path, 'utf8')).replace(/^\uFEFF/, '');
+    const format = source.format ?? (extname(source.path).toLowerCase() === '.json' ? 'json' : 'csv');
+
+    const rows = format === 'json' ? this.parseJson(content, source) : this.parseCsv(content, source);
+    return rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private parseCsv(content: string, source: FileSourceConfig): OHLCVData[] {
+    const lines = content.split(/\r?\n/);
+    const firstLine = lines.find((line) => line.trim() !== '');
+    if (firstLine === undefined) {
+      return [];
+    }
+
+    const delimiter = source.delimiter ?? detectDelimiter(firstLine);
+    const hasHeader = source.hasHeader ?? true;
+    const header = hasHeader ? parseCsvLine(firstLine, delimiter) : undefined;
+    const columns = resolveColumns(source.columns, header, false, source.path);
+
+    const rows: OHLCVData[] = [];
+    let headerSkipped = !hasHeader;
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      if (!headerSkipped) {
+        headerSkipped = true;
+        return;
+      }
+      const fields = parseCsvLine(line, delimiter);
+      rows.push(toCandle((column) => fields[column as number], columns, source, index + 1));
+    });
+
+    return rows;
+  }
+
+  private parseJson(content: string, source: FileSourceConfig): OHLCVData[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new DataFormatError(`Invalid JSON in ${source.path}: ${(error as Error).message}`, {
+        path: source.path,
+        cause: error,
+      });
+    }
+
+    if (!Array.isArray(parsed)) {
+      const wrapper = typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : {};
+      const key = JSON_ARRAY_KEYS.find((candidate) => Array.isArray(wrapper[candidate]));
+      if (!key) {
+        throw new DataFormatError(`No data array found in ${source.path}`, { path: source.path });
+      }
+      parsed = wrapper[key];
+    }
+
+    const records = parsed as JsonRecord[];
+    if (records.length === 0) {
+      return [];
+    }
+
+    const first = records[0];
+    const keys = Array.isArray(first) ? undefined : Object.keys(first);
+    const columns = resolveColumns(source.columns, keys, keys !== undefined, source.path);
+
+    return records.map((record, index) =>
+      toCandle((column) => jsonValue(record, column), columns, source, index + 1)
+    );
+  }
+}
+
+/**
+ * Normalize a header name for matching ('<DATE>' -> 'date', 'Adj Close' -> 'adjclose')
+ */
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[<>\s_-]/g, '');
+}
+
+/**
+ * Whether bars of an interval are made of whole bars of a shorter or equal interval
+ * Months and weeks are built from bars that divide a day (or from months and weeks)
+ */
+function isWholeMultiple(interval: TimeInterval, rowInterval: TimeInterval): boolean {
+  const target = INTERVAL_SPECS[interval];
+  const source = INTERVAL_SPECS[rowInterval];
+
+  if (source.unit === 'month' || (source.unit === 'week' && target.unit !== 'month')) {
+    return target.unit === source.unit && target.count % source.count === 0;
+  }
+
+  const sourceMinutes = UNIT_MINUTES[source.unit] * source.count;
+  if (target.unit === 'month' || target.unit === 'week') {
+    return DAY_MINUTES % sourceMinutes === 0;
+  }
+  return (UNIT_MINUTES[target.unit] * target.count) % sourceMinutes === 0;
+}
+
+/**
+ * Read a field of a JSON record; values other than strings and numbers are read as missing
+ */
+function jsonValue(record: JsonRecord, column: number | string): string | number | undefined {
+  const value = Array.isArray(record) ? (typeof column === 'number' ? record[column] : undefined) : record[column];
+  return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Resolve the configured column mapping against a header
+ * @param mapping - Configured mapping (optional)
+ * @param header - CSV header or JSON object keys, undefined for positional data
+ * @param keyed - Whether rows are read by key (JSON objects) instead of position
+ * @param path - File path used in error messages
+ */
+function resolveColumns(
+  mapping: FileColumnMapping | undefined,
+  header: string[] | undefined,
+  keyed: boolean,
+  path: string
+): ResolvedColumns {
+  const resolved: ResolvedColumns = {};
+  const normalizedHeader = header?.map(normalizeHeader);
+
+  if (!mapping && !normalizedHeader) {
+    throw new InvalidParameterError(`Column mapping required for ${path} (no header)`, { parameter: 'columns' });
+  }
+
+  const toColumn = (index: number): number | string => (keyed ? header![index] : index);
+
+  const lookup = (column: FileColumn): number | string | undefined => {
+    if (typeof column === 'number' || !normalizedHeader) {
+      return typeof column === 'number' ? column : undefined;
+    }
+    const index = normalizedHeader.indexOf(normalizeHeader(column));
+    return index === -1 ? undefined : toColumn(index);
+  };
+
+  const fields = Object.keys(DEFAULT_COLUMN_NAMES) as Array<keyof FileColumnMapping>;
+  for (const field of fields) {
+    const configured = mapping?.[field];
+    if (configured !== undefined) {
+      const column = lookup(configured);
+      if (column === undefined) {
+        throw new InvalidParameterError(`Column "${configured}" not found in ${path}`, { parameter: 'columns' });
+      }
+      resolved[field] = column;
+    } else if (!mapping && normalizedHeader) {
+      const index = DEFAULT_COLUMN_NAMES[field]
+        .map((name) => normalizedHeader.indexOf(name))
+        .find((candidate) => candidate !== -1);
+      if (index !== undefined) {
+        resolved[field] = toColumn(index);
+      }
+    }
+  }
+
+  // 'time' is a date candidate too; it cannot be both
+  if (resolved.time !== undefined && resolved.time === resolved.date) {
+    delete resolved.time;
+  }
+
+  if (resolved.date === undefined) {
+    throw new InvalidParameterError(`No date column found in ${path}`, { parameter: 'columns' });
+  }
+  if (resolved.price === undefined && resolved.close === undefined) {
+    throw new InvalidParameterError(`No close or price column found in ${path}`, { parameter: 'columns' });
+  }
+
+  return resolved;
+}
+
+/**
+ * Build a candle from one row
+ * @param read - Reads a raw value by resolved column
+ * @param columns - Resolved columns
+ * @param source - File config (date format, timezone)
+ * @param line - Line or record number used in error messages
+ */
+function toCandle(
+  read: (column: number | string) => string | number | undefined,
+  columns: ResolvedColumns,
+  source: FileSourceConfig,
+  line: number
+): OHLCVData {
+  const timezone = source.timezone ?? 'UTC';
+  const rawDate = read(columns.date!);
+  let date: Date | null = null;
+
+  if (rawDate !== undefined && rawDate !== '') {
+    if (columns.time !== undefined) {
+      const dateFormat = source.dateFormat && source.dateFormat !== 'auto' ? source.dateFormat : 'YYYY-MM-DD';
+      const timeFormat = source.timeFormat ?? 'HH:mm:ss';
+      date = parseDateValue(`${rawDate} ${read(columns.time) ?? ''}`, `${dateFormat} ${timeFormat}`, timezone);
+    } else {
+      date = parseDateValue(rawDate, source.dateFormat ?? 'auto', timezone);
+    }
+  }
+
+  if (!date) {
+    throw new DataFormatError(`Invalid date "${rawDate}" in ${source.path} at line ${line}`, {
+      path: source.path,
+      line,
+    });
+  }
+
+  const number = (field: keyof FileColumnMapping): number | undefined => {
+    const column = columns[field];
+    if (column === undefined) {
+      return undefined;
+    }
+    const raw = read(column);
+    if (raw === undefined || raw === '' || raw === null) {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      throw new DataFormatError(`Invalid ${field} value "${raw}" in ${source.path} at line ${line}`, {
+        path: source.path,
+        line,
+      });
+    }
+    return value;
+  };
+
+  const price = number('price');
+  const close = number('close') ?? price;
+  if (close === undefined) {
+    throw new DataFormatError(`Missing close value in ${source.path} at line ${line}`, { path: source.path, line });
+  }
+
+  return {
+    date,
+    open: number('open') ?? price ?? close,
+    high: number('high') ?? price ?? close,
+    low: number('low') ?? price ?? close,
+    close,
+    volume: number('volume') ?? 0,
+    adjClose: number('adjClose'),
+  };
+}
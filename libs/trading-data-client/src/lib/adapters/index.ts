@@ -1 +1,6 @@
 export * from './yahoo-finance.adapter.js';
+export * from './file-data-source.adapter.js';
+export * from './recording.adapter.js';
+export * from './replay.adapter.js';
+export * from './resilient.adapter.js';
+export * from './composite.adapter.js';
@@ -0,0 +1,122 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  DataSourceCallOptions,
+  IDataSourceAdapter,
+} from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  FixtureDateResolution,
+  FixtureMethod,
+  FixtureRecord,
+  QuoteSnapshot,
+  RecordingAdapterOptions,
+  SearchRequest,
+  SearchResult,
+} from '../types/index.js';
+import {
+  fixtureKey,
+  fixturePath,
+  normalizeFixtureOptions,
+  quotesTarget,
+  stringifyFixture,
+} from '../utils/fixtures.js';
+
+/**
+ * Adapter that records every request and response of another adapter to fixture files
+ * Pair it with ReplayAdapter to run tests, demos and CI offline against real payloads
+ *
+ * Fixtures are written to `<directory>/<method>/<target>-<hash>.json`; recording
+ * the same request again overwrites its fixture
+ *
+ * @example
+ * const adapter = new RecordingAdapter(new YahooFinanceAdapter(), { directory: './fixtures' });
+ * const client = new MarketDataClient(adapter);
+ * await client.getHistoricalData({ symbol: 'AAPL', startDate: new Date('2024-01-01') });
+ */
+export class RecordingAdapter implements IDataSourceAdapter {
+  private readonly directory: string;
+  private readonly dateResolution: FixtureDateResolution;
+  private readonly recordErrors: boolean;
+
+  /**
+   * Multi-symbol quotes, recorded like quote; present when the wrapped adapter has them
+   */
+  readonly quotes?: (symbols: string[], callOptions?: DataSourceCallOptions) => Promise<QuoteSnapshot[]>;
+
+  constructor(
+    private readonly dataSource: IDataSourceAdapter,
+    options: RecordingAdapterOptions
+  ) {
+    this.directory = options.directory;
+    this.dateResolution = options.dateResolution ?? 'day';
+    this.recordErrors = options.recordErrors ?? true;
+
+    const quotes = dataSource.quotes?.bind(dataSource);
+    if (quotes) {
+      this.quotes = (symbols, callOptions) =>
+        this.record('quotes', quotesTarget(symbols), undefined, () => quotes(symbols, callOptions));
+    }
+  }
+
+  async search(query: string, request: SearchRequest, callOptions?: DataSourceCallOptions): Promise<SearchResult> {
+    return this.record('search', query, request, () =>
+      this.dataSource.search(query, request, callOptions)
+    );
+  }
+
+  async chart(symbol: string, request: ChartRequest, callOptions?: DataSourceCallOptions): Promise<ChartResult> {
+    return this.record('chart', symbol, request, () =>
+      this.dataSource.chart(symbol, request, callOptions)
+    );
+  }
+
+  async quote(symbol: string, callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot> {
+    return this.record('quote', symbol, undefined, () => this.dataSource.quote(symbol, callOptions));
+  }
+
+  /**
+   * Call the wrapped adapter and write the outcome to a fixture
+   */
+  private async record<T>(
+    method: FixtureMethod,
+    target: string,
+    options: unknown,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const normalizedOptions = normalizeFixtureOptions(options, this.dateResolution);
+    const key = fixtureKey(method, target, normalizedOptions);
+    const fixture: FixtureRecord = {
+      key,
+      method,
+      target,
+      options: normalizedOptions,
+      recordedAt: new Date(),
+    };
+
+    let response: T;
+    try {
+      response = await request();
+    } catch (error) {
+      if (this.recordErrors) {
+        fixture.error = {
+          name: error instanceof Error ? error.name : 'Error',
+          message: error instanceof Error ? error.message : String(error),
+        };
+        await this.write(fixture);
+      }
+      throw error;
+    }
+
+    fixture.response = response;
+    await this.write(fixture);
+    return response;
+  }
+
+  private async write(fixture: FixtureRecord): Promise<void> {
+    const path = fixturePath(this.directory, fixture.method, fixture.target, fixture.key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, stringifyFixture(fixture), 'utf8');
+  }
+}
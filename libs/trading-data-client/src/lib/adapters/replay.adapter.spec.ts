@@ -0,0 +1,202 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RecordingAdapter } from './recording.adapter';
+import { ReplayAdapter } from './replay.adapter';
+import { MarketDataClient } from '../market-data-client.js';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+
+describe('RecordingAdapter and ReplayAdapter', () => {
+  let directory: string;
+  let mockDataSource: jest.Mocked<IDataSourceAdapter>;
+  let recorder: RecordingAdapter;
+
+  const chartResponse = {
+    symbol: 'AAPL',
+    bars: [
+      { date: new Date('2024-01-02T14:30:00Z'), open: 10, high: 12, low: 9, close: 11, volume: 100, adjClose: 11 },
+      { date: new Date('2024-01-03T14:30:00Z'), open: 11, high: 13, low: 10, close: 12, volume: 200, adjClose: 12 },
+      { date: new Date('2024-01-04T14:30:00Z'), open: 12, high: 14, low: 11, close: 13, volume: 300, adjClose: 13 },
+    ],
+    currency: 'USD',
+  };
+
+  const searchResponse = {
+    hits: [{ symbol: 'AAPL', name: 'Apple Inc.' }],
+    news: [
+      {
+        uuid: 'news-1',
+        title: 'Apple news',
+        publisher: 'Wire',
+        link: 'https://example.com/news/1',
+        providerPublishTime: new Date('2024-01-05T08:00:00Z'),
+        type: 'STORY',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fixtures-'));
+    mockDataSource = {
+      search: jest.fn().mockResolvedValue(searchResponse),
+      chart: jest.fn().mockResolvedValue(chartResponse),
+      quote: jest.fn().mockResolvedValue({ symbol: 'AAPL', price: 13, timestamp: new Date('2024-01-05T21:00:00Z') }),
+    };
+    recorder = new RecordingAdapter(mockDataSource, { directory });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should pass requests through and write one fixture per request', async () => {
+    const result = await recorder.chart('AAPL', {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T00:00:00Z'),
+      interval: '1d',
+    });
+    await recorder.quote('AAPL');
+    await recorder.search('AAPL', { newsCount: 5 });
+
+    expect(result).toBe(chartResponse);
+    expect(await readdir(join(directory, 'chart'))).toHaveLength(1);
+    expect(await readdir(join(directory, 'quote'))).toHaveLength(1);
+    expect(await readdir(join(directory, 'search'))).toHaveLength(1);
+  });
+
+  it('should replay responses with dates restored', async () => {
+    const options = {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T00:00:00Z'),
+      interval: '1d' as const,
+    };
+    await recorder.chart('AAPL', options);
+    await recorder.quote('AAPL');
+    await recorder.search('AAPL', { newsCount: 5 });
+
+    const replay = new ReplayAdapter({ directory });
+
+    expect(await replay.chart('AAPL', options)).toEqual(chartResponse);
+    expect(await replay.quote('AAPL')).toEqual({ symbol: 'AAPL', price: 13, timestamp: new Date('2024-01-05T21:00:00Z') });
+    expect(await replay.search('AAPL', { newsCount: 5 })).toEqual(searchResponse);
+  });
+
+  it('should match date ranges normalized to the day', async () => {
+    await recorder.chart('AAPL', {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T09:15:00Z'),
+      interval: '1d',
+    });
+
+    const replay = new ReplayAdapter({ directory, rangeMatching: 'exact' });
+    const result = await replay.chart('AAPL', {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T17:45:00Z'),
+      interval: '1d',
+    });
+
+    expect(result.bars).toHaveLength(3);
+  });
+
+  it('should serve narrower ranges from a covering fixture', async () => {
+    await recorder.chart('AAPL', {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T00:00:00Z'),
+      interval: '1d',
+    });
+
+    const replay = new ReplayAdapter({ directory });
+    const result = await replay.chart('AAPL', {
+      period1: new Date('2024-01-03T00:00:00Z'),
+      period2: new Date('2024-01-04T00:00:00Z'),
+      interval: '1d',
+    });
+
+    expect(result.bars.map((bar) => bar.close)).toEqual([12]);
+  });
+
+  it('should not match fixtures with other options or symbols', async () => {
+    await recorder.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z'), interval: '1d' });
+
+    const replay = new ReplayAdapter({ directory });
+
+    await expect(replay.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z'), interval: '1h' })).rejects.toThrow(
+      'No fixture recorded for chart:AAPL:'
+    );
+    await expect(replay.chart('MSFT', { period1: new Date('2024-01-01T00:00:00Z'), interval: '1d' })).rejects.toThrow(
+      'No fixture recorded'
+    );
+  });
+
+  it('should fall back to the latest fixture when range matching is any', async () => {
+    await recorder.chart('AAPL', {
+      period1: new Date('2024-01-01T00:00:00Z'),
+      period2: new Date('2024-01-05T00:00:00Z'),
+      interval: '1d',
+    });
+
+    const covering = new ReplayAdapter({ directory });
+    const any = new ReplayAdapter({ directory, rangeMatching: 'any' });
+    const laterRequest = {
+      period1: new Date('2024-02-01T00:00:00Z'),
+      period2: new Date('2024-03-01T00:00:00Z'),
+      interval: '1d' as const,
+    };
+
+    await expect(covering.chart('AAPL', laterRequest)).rejects.toThrow('No fixture recorded');
+    expect((await any.chart('AAPL', laterRequest)).bars).toHaveLength(3);
+  });
+
+  it('should record and replay errors', async () => {
+    mockDataSource.quote.mockRejectedValue(new Error('Quote not found'));
+
+    await expect(recorder.quote('INVALID')).rejects.toThrow('Quote not found');
+
+    const replay = new ReplayAdapter({ directory });
+    await expect(replay.quote('INVALID')).rejects.toThrow('Quote not found');
+  });
+
+  it('should record and replay multi-symbol quotes in one request', async () => {
+    const quotes = jest.fn().mockResolvedValue([
+      { symbol: 'AAPL', price: 185 },
+      { symbol: 'MSFT', price: 410 },
+    ]);
+    const batchRecorder = new RecordingAdapter({ ...mockDataSource, quotes }, { directory });
+
+    const live = await new MarketDataClient(batchRecorder).getQuotes(['MSFT', 'AAPL']);
+    const replayAdapter = new ReplayAdapter({ directory });
+    jest.spyOn(replayAdapter, 'quote');
+    const replayed = await new MarketDataClient(replayAdapter).getQuotes(['AAPL', 'MSFT']);
+
+    expect(quotes).toHaveBeenCalledTimes(1);
+    expect(await readdir(join(directory, 'quotes'))).toHaveLength(1);
+    expect(replayed.map((result) => result.data?.price)).toEqual([185, 410]);
+    expect(live.map((result) => result.data?.price)).toEqual([410, 185]);
+    expect(replayAdapter.quote).not.toHaveBeenCalled();
+  });
+
+  it('should replay multi-symbol quotes from single-symbol fixtures', async () => {
+    expect(recorder.quotes).toBeUndefined();
+    await recorder.quote('AAPL');
+
+    const replayed = await new ReplayAdapter({ directory }).quotes(['AAPL', 'MSFT']);
+
+    expect(replayed).toEqual([{ symbol: 'AAPL', price: 13, timestamp: new Date('2024-01-05T21:00:00Z') }]);
+    await expect(new ReplayAdapter({ directory }).quotes(['MSFT'])).rejects.toThrow('No fixture recorded');
+  });
+
+  it('should drive MarketDataClient offline', async () => {
+    const startDate = new Date('2024-01-01T00:00:00Z');
+    const endDate = new Date('2024-01-05T00:00:00Z');
+    const live = await new MarketDataClient(recorder).getHistoricalData({ symbol: 'AAPL', startDate, endDate });
+
+    const replayed = await new MarketDataClient(new ReplayAdapter({ directory })).getHistoricalData({
+      symbol: 'AAPL',
+      startDate,
+      endDate,
+    });
+
+    expect(replayed).toEqual(live);
+    expect(replayed[0].date).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,191 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  FixtureDateResolution,
+  FixtureMethod,
+  FixtureRangeMatching,
+  FixtureRecord,
+  QuoteSnapshot,
+  ReplayAdapterOptions,
+  SearchRequest,
+  SearchResult,
+} from '../types/index.js';
+import {
+  fixtureKey,
+  fixtureRangeFreeKey,
+  normalizeFixtureOptions,
+  parseFixture,
+  quotesTarget,
+} from '../utils/fixtures.js';
+
+const FIXTURE_METHODS: FixtureMethod[] = ['search', 'chart', 'quote', 'quotes'];
+
+/**
+ * Adapter that serves responses recorded by RecordingAdapter
+ * Requests are matched by method, symbol, options and normalized date range;
+ * chart requests may also be answered from a fixture covering a wider range
+ *
+ * Multi-symbol quotes are answered from a recorded quotes request for the same symbols, or else
+ * from the single-symbol quote fixtures; symbols without a fixture are missing from the result
+ *
+ * Recorded errors are thrown again with their original name and message
+ *
+ * @example
+ * const client = new MarketDataClient(new ReplayAdapter({ directory: './fixtures' }));
+ */
+export class ReplayAdapter implements IDataSourceAdapter {
+  private readonly directory: string;
+  private readonly dateResolution: FixtureDateResolution;
+  private readonly rangeMatching: FixtureRangeMatching;
+  private fixtures?: Promise<FixtureRecord[]>;
+
+  constructor(options: ReplayAdapterOptions) {
+    this.directory = options.directory;
+    this.dateResolution = options.dateResolution ?? 'day';
+    this.rangeMatching = options.rangeMatching ?? 'covering';
+  }
+
+  async search(query: string, request: SearchRequest): Promise<SearchResult> {
+    return this.replay('search', query, request) as Promise<SearchResult>;
+  }
+
+  async chart(symbol: string, request: ChartRequest): Promise<ChartResult> {
+    return this.replay('chart', symbol, request) as Promise<ChartResult>;
+  }
+
+  async quote(symbol: string): Promise<QuoteSnapshot> {
+    return this.replay('quote', symbol, undefined) as Promise<QuoteSnapshot>;
+  }
+
+  async quotes(symbols: string[]): Promise<QuoteSnapshot[]> {
+    const target = quotesTarget(symbols);
+    const fixtures = await this.load();
+
+    const batch = fixtures.find((fixture) => fixture.key === fixtureKey('quotes', target));
+    if (batch) {
+      return this.respond(batch) as QuoteSnapshot[];
+    }
+
+    const singles = symbols
+      .map((symbol) => fixtures.find((fixture) => fixture.key === fixtureKey('quote', symbol)))
+      .filter((fixture): fixture is FixtureRecord => fixture !== undefined && !fixture.error);
+    if (singles.length === 0) {
+      throw new Error(`No fixture recorded for ${fixtureKey('quotes', target)}`);
+    }
+    return singles.map((fixture) => fixture.response as QuoteSnapshot);
+  }
+
+  /**
+   * Drop loaded fixtures so the next request reads the directory again
+   */
+  reload(): void {
+    this.fixtures = undefined;
+  }
+
+  private async replay(method: FixtureMethod, target: string, options: unknown): Promise<unknown> {
+    const normalizedOptions = normalizeFixtureOptions(options, this.dateResolution);
+    const key = fixtureKey(method, target, normalizedOptions);
+    const fixtures = await this.load();
+
+    const exact = fixtures.find((fixture) => fixture.key === key);
+    if (exact) {
+      return this.respond(exact);
+    }
+
+    if (method === 'chart' && this.rangeMatching !== 'exact') {
+      const rangeFreeKey = fixtureRangeFreeKey(method, target, normalizedOptions);
+      const candidates = fixtures
+        .filter(
+          (fixture) =>
+            fixture.method === 'chart' &&
+            !fixture.error &&
+            fixtureRangeFreeKey(fixture.method, fixture.target, fixture.options) === rangeFreeKey
+        )
+        .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+
+      const start = normalizedOptions?.['period1'] as Date | undefined;
+      const end = normalizedOptions?.['period2'] as Date | undefined;
+      const covering = candidates.find((fixture) => covers(fixture, start, end));
+      if (covering) {
+        const { period1, period2 } = options as ChartRequest;
+        return filterChartResult(covering.response as ChartResult, period1, period2);
+      }
+
+      if (this.rangeMatching === 'any' && candidates.length > 0) {
+        return this.respond(candidates[0]);
+      }
+    }
+
+    throw new Error(`No fixture recorded for ${key}`);
+  }
+
+  private respond(fixture: FixtureRecord): unknown {
+    if (fixture.error) {
+      const error = new Error(fixture.error.message);
+      error.name = fixture.error.name;
+      throw error;
+    }
+    return fixture.response;
+  }
+
+  /**
+   * Read all fixtures once; missing method directories are skipped
+   */
+  private load(): Promise<FixtureRecord[]> {
+    if (!this.fixtures) {
+      this.fixtures = this.readFixtures();
+      this.fixtures.catch(() => (this.fixtures = undefined));
+    }
+    return this.fixtures;
+  }
+
+  private async readFixtures(): Promise<FixtureRecord[]> {
+    const fixtures: FixtureRecord[] = [];
+
+    for (const method of FIXTURE_METHODS) {
+      const methodDirectory = join(this.directory, method);
+      let files: string[];
+      try {
+        files = await readdir(methodDirectory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const file of files.filter((name) => name.endsWith('.json')).sort()) {
+        const content = await readFile(join(methodDirectory, file), 'utf8');
+        fixtures.push(parseFixture<FixtureRecord>(content));
+      }
+    }
+
+    return fixtures;
+  }
+}
+
+/**
+ * Check whether a chart fixture covers a requested date range
+ * A missing bound in the request is only covered by a missing bound in the fixture
+ */
+function covers(fixture: FixtureRecord, start?: Date, end?: Date): boolean {
+  const fixtureStart = fixture.options?.['period1'] as Date | undefined;
+  const fixtureEnd = fixture.options?.['period2'] as Date | undefined;
+
+  const startCovered = !fixtureStart || (start !== undefined && fixtureStart <= start);
+  const endCovered = !fixtureEnd || (end !== undefined && fixtureEnd >= end);
+  return startCovered && endCovered;
+}
+
+/**
+ * Restrict the bars of a chart result to a date range
+ */
+function filterChartResult(result: ChartResult, start?: Date, end?: Date): ChartResult {
+  return {
+    ...result,
+    bars: result.bars.filter((bar) => (!start || bar.date >= start) && (!end || bar.date <= end)),
+  };
+}
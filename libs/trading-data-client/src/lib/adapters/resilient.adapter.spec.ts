@@ -0,0 +1,163 @@
+import { ResilientDataSourceAdapter } from './resilient.adapter';
+import { CircuitOpenError, TimeoutError } from '../resilience/errors.js';
+import { MarketDataClient } from '../market-data-client.js';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+
+describe('ResilientDataSourceAdapter', () => {
+  let mockDataSource: jest.Mocked<IDataSourceAdapter>;
+  let now: number;
+  const clock = () => new Date(now);
+  const fakeSleep = jest.fn(async (ms: number) => {
+    now += ms;
+  });
+
+  beforeEach(() => {
+    now = 0;
+    fakeSleep.mockClear();
+    mockDataSource = {
+      search: jest.fn().mockResolvedValue({ news: [] }),
+      chart: jest.fn().mockResolvedValue({ quotes: [] }),
+      quote: jest.fn().mockResolvedValue({ symbol: 'AAPL' }),
+    };
+  });
+
+  it('should pass calls through with an abort signal', async () => {
+    const adapter = new ResilientDataSourceAdapter(mockDataSource);
+
+    await adapter.chart('AAPL', { interval: '1d' });
+    await adapter.quote('AAPL');
+    await adapter.search('AAPL', { newsCount: 5 });
+
+    expect(mockDataSource.chart).toHaveBeenCalledWith('AAPL', { interval: '1d' }, { signal: expect.any(AbortSignal) });
+    expect(mockDataSource.quote).toHaveBeenCalledWith('AAPL', { signal: expect.any(AbortSignal) });
+    expect(mockDataSource.search).toHaveBeenCalledWith('AAPL', { newsCount: 5 }, { signal: expect.any(AbortSignal) });
+  });
+
+  it('should only offer multi-symbol quotes when the wrapped adapter has them', () => {
+    expect(new ResilientDataSourceAdapter(mockDataSource).quotes).toBeUndefined();
+  });
+
+  it('should keep multi-symbol quotes of the wrapped adapter in one retried call', async () => {
+    const quotes = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Too Many Requests'))
+      .mockResolvedValueOnce([
+        { symbol: 'AAPL', price: 185 },
+        { symbol: 'MSFT', price: 410 },
+      ]);
+    const adapter = new ResilientDataSourceAdapter(
+      { ...mockDataSource, quotes },
+      { retry: { initialDelay: 100, jitter: 'none' }, sleep: fakeSleep }
+    );
+
+    const results = await new MarketDataClient(adapter).getQuotes(['AAPL', 'MSFT']);
+
+    expect(results.map((result) => result.data?.price)).toEqual([185, 410]);
+    expect(quotes).toHaveBeenCalledTimes(2);
+    expect(quotes).toHaveBeenLastCalledWith(['AAPL', 'MSFT'], { signal: expect.any(AbortSignal) });
+    expect(mockDataSource.quote).not.toHaveBeenCalled();
+  });
+
+  it('should retry throttled calls with backoff', async () => {
+    mockDataSource.quote
+      .mockRejectedValueOnce(new Error('Too Many Requests'))
+      .mockResolvedValueOnce({ symbol: 'AAPL' });
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, {
+      retry: { initialDelay: 100, jitter: 'none' },
+      sleep: fakeSleep,
+    });
+
+    await expect(adapter.quote('AAPL')).resolves.toEqual({ symbol: 'AAPL' });
+    expect(mockDataSource.quote).toHaveBeenCalledTimes(2);
+    expect(fakeSleep).toHaveBeenCalledWith(100, undefined);
+  });
+
+  it('should not retry when retries are disabled', async () => {
+    mockDataSource.quote.mockRejectedValue(new Error('Too Many Requests'));
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, { retry: false });
+
+    await expect(adapter.quote('AAPL')).rejects.toThrow('Too Many Requests');
+    expect(mockDataSource.quote).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rate limit upstream calls', async () => {
+    const callTimes: number[] = [];
+    mockDataSource.quote.mockImplementation(async () => {
+      callTimes.push(now);
+      return {};
+    });
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, {
+      rateLimit: { tokensPerInterval: 2, interval: 1000 },
+      now: clock,
+      sleep: fakeSleep,
+    });
+
+    await Promise.all(['A', 'B', 'C', 'D'].map((symbol) => adapter.quote(symbol)));
+
+    expect(callTimes).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('should cap concurrent upstream calls', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockDataSource.chart.mockImplementation(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return { quotes: [] };
+    });
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, { maxConcurrency: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, (_, i) => adapter.chart(`S${i}`, {})));
+
+    expect(maxRunning).toBe(2);
+    expect(mockDataSource.chart).toHaveBeenCalledTimes(6);
+  });
+
+  it('should time out slow calls and retry them', async () => {
+    mockDataSource.quote
+      .mockImplementationOnce(() => new Promise(() => undefined))
+      .mockResolvedValueOnce({ symbol: 'AAPL' });
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, { timeout: 10, sleep: fakeSleep });
+
+    await expect(adapter.quote('AAPL')).resolves.toEqual({ symbol: 'AAPL' });
+    expect(mockDataSource.quote).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail with a TimeoutError once retries are exhausted', async () => {
+    mockDataSource.quote.mockImplementation(() => new Promise(() => undefined));
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, { timeout: 10, retry: { retries: 1 }, sleep: fakeSleep });
+
+    await expect(adapter.quote('AAPL')).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should open the circuit after repeated failures', async () => {
+    mockDataSource.chart.mockRejectedValue(new Error('fetch failed'));
+    const adapter = new ResilientDataSourceAdapter(mockDataSource, {
+      retry: false,
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+      now: clock,
+    });
+
+    await expect(adapter.chart('AAPL', {})).rejects.toThrow('fetch failed');
+    await expect(adapter.chart('AAPL', {})).rejects.toThrow('fetch failed');
+    await expect(adapter.chart('AAPL', {})).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(mockDataSource.chart).toHaveBeenCalledTimes(2);
+    expect(adapter.breaker?.state).toBe('open');
+  });
+
+  it('should stop when the caller aborts', async () => {
+    mockDataSource.quote.mockImplementation(() => new Promise(() => undefined));
+    const adapter = new ResilientDataSourceAdapter(mockDataSource);
+    const controller = new AbortController();
+
+    const pending = adapter.quote('AAPL', { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort(new Error('cancelled'));
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(mockDataSource.quote).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,133 @@
+import type {
+  DataSourceCallOptions,
+  IDataSourceAdapter,
+} from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  QuoteSnapshot,
+  ResilienceOptions,
+  RetryOptions,
+  SearchRequest,
+  SearchResult,
+} from '../types/index.js';
+import { CircuitBreaker } from '../resilience/circuit-breaker.js';
+import { ConcurrencyLimiter } from '../resilience/concurrency-limiter.js';
+import { retry } from '../resilience/retry.js';
+import { sleep as defaultSleep } from '../resilience/sleep.js';
+import { withTimeout } from '../resilience/timeout.js';
+import { TokenBucket } from '../resilience/token-bucket.js';
+
+/**
+ * Default timeout per upstream call in milliseconds
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Adapter that adds resilience to any data source adapter
+ *
+ * Every call passes through, in order:
+ * 1. Circuit breaker (fails fast while the upstream is down)
+ * 2. Retries with exponential backoff and jitter (transient errors only)
+ * 3. Concurrency cap
+ * 4. Token-bucket rate limiter
+ * 5. Timeout, aborting the upstream request via AbortSignal
+ *
+ * @example
+ * const adapter = new ResilientDataSourceAdapter(new YahooFinanceAdapter(), {
+ *   rateLimit: { tokensPerInterval: 5, interval: 1000 },
+ *   maxConcurrency: 4,
+ *   circuitBreaker: { failureThreshold: 10 },
+ * });
+ * const client = new TradingDataClient(new MarketDataClient(adapter), new NewsClient(adapter));
+ */
+export class ResilientDataSourceAdapter implements IDataSourceAdapter {
+  private readonly retryOptions: RetryOptions | false;
+  private readonly timeout: number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private readonly random: () => number;
+  private readonly rateLimiter?: TokenBucket;
+  private readonly concurrencyLimiter?: ConcurrencyLimiter;
+  private readonly circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Multi-symbol quotes through the same protections as quote, present when the wrapped adapter has them
+   */
+  readonly quotes?: (symbols: string[], callOptions?: DataSourceCallOptions) => Promise<QuoteSnapshot[]>;
+
+  constructor(
+    private readonly dataSource: IDataSourceAdapter,
+    options: ResilienceOptions = {}
+  ) {
+    const now = options.now ?? (() => new Date());
+    this.retryOptions = options.retry ?? {};
+    this.timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.random = options.random ?? Math.random;
+
+    if (options.rateLimit) {
+      this.rateLimiter = new TokenBucket(options.rateLimit, now, this.sleep);
+    }
+    if (options.maxConcurrency !== undefined) {
+      this.concurrencyLimiter = new ConcurrencyLimiter(options.maxConcurrency);
+    }
+    if (options.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(options.circuitBreaker, now);
+    }
+
+    const quotes = dataSource.quotes?.bind(dataSource);
+    if (quotes) {
+      this.quotes = (symbols, callOptions) => this.execute((signal) => quotes(symbols, { signal }), callOptions);
+    }
+  }
+
+  /**
+   * Circuit breaker of this adapter (undefined if disabled)
+   */
+  get breaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
+
+  async search(query: string, request: SearchRequest, callOptions?: DataSourceCallOptions): Promise<SearchResult> {
+    return this.execute((signal) => this.dataSource.search(query, request, { signal }), callOptions);
+  }
+
+  async chart(symbol: string, request: ChartRequest, callOptions?: DataSourceCallOptions): Promise<ChartResult> {
+    return this.execute((signal) => this.dataSource.chart(symbol, request, { signal }), callOptions);
+  }
+
+  async quote(symbol: string, callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot> {
+    return this.execute((signal) => this.dataSource.quote(symbol, { signal }), callOptions);
+  }
+
+  private execute<T>(
+    call: (signal: AbortSignal | undefined) => Promise<T>,
+    callOptions?: DataSourceCallOptions
+  ): Promise<T> {
+    const signal = callOptions?.signal;
+    const guarded = () =>
+      this.circuitBreaker
+        ? this.circuitBreaker.execute(() => this.attempt(call, signal))
+        : this.attempt(call, signal);
+
+    if (this.retryOptions === false) {
+      return guarded();
+    }
+    return retry(guarded, this.retryOptions, { signal, sleep: this.sleep, random: this.random });
+  }
+
+  /**
+   * A single upstream call behind the concurrency cap, rate limiter and timeout
+   */
+  private attempt<T>(
+    call: (signal: AbortSignal | undefined) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const limited = async () => {
+      await this.rateLimiter?.acquire(signal);
+      return this.timeout > 0 ? withTimeout(call, this.timeout, signal) : call(signal);
+    };
+
+    return this.concurrencyLimiter ? this.concurrencyLimiter.run(limited, signal) : limited();
+  }
+}
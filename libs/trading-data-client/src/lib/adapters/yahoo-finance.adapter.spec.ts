@@ -0,0 +1,254 @@
+import { YahooFinanceAdapter } from './yahoo-finance.adapter';
+import { UnsupportedIntervalError } from '../errors/trading-errors.js';
+import { describeDataSourceAdapterConformance } from '../../testing/data-source-adapter-conformance.js';
+
+const yahooChart = {
+  meta: { symbol: 'AAPL', currency: 'USD', exchangeTimezoneName: 'America/New_York' },
+  quotes: [
+    { date: new Date('2024-01-02T14:30:00Z'), open: 187.15, high: 188.44, low: 183.89, close: 185.64, volume: 82488700, adjclose: 184.94 },
+    { date: new Date('2024-01-03T14:30:00Z'), open: null, high: 185.88, low: null, close: 184.25, volume: null, adjclose: null },
+  ],
+};
+
+const yahooQuote = {
+  symbol: 'AAPL',
+  currency: 'USD',
+  regularMarketPrice: 185.64,
+  regularMarketPreviousClose: 192.53,
+  regularMarketOpen: 187.15,
+  regularMarketDayHigh: 188.44,
+  regularMarketDayLow: 183.89,
+  regularMarketVolume: 82488700,
+  marketCap: 2870000000000,
+  regularMarketTime: new Date('2024-01-02T21:00:00Z'),
+};
+
+const yahooSearch = {
+  quotes: [
+    { symbol: 'AAPL', isYahooFinance: true, shortname: 'Apple Inc.', quoteType: 'EQUITY', exchange: 'NMS', score: 1 },
+    { name: 'Apple', permalink: 'apple', isYahooFinance: false },
+  ],
+  news: [
+    {
+      uuid: 'news-1',
+      title: 'Apple announces new product',
+      publisher: 'TechNews',
+      link: 'https://example.com/news/1',
+      providerPublishTime: new Date('2024-01-01T12:00:00Z'),
+      type: 'STORY',
+      relatedTickers: ['AAPL'],
+    },
+  ],
+  count: 2,
+  totalTime: 100,
+};
+
+/**
+ * Stand-in for the yahoo-finance2 instance
+ */
+const createYahooFinance = () => ({
+  chart: jest.fn(async (symbol: string, options: { period1: Date; period2: Date }) => {
+    if (symbol !== 'AAPL') {
+      throw new Error('No data found, symbol may be delisted');
+    }
+    return {
+      ...yahooChart,
+      quotes: yahooChart.quotes.filter((quote) => quote.date >= options.period1 && quote.date <= options.period2),
+    };
+  }),
+  quote: jest.fn(async (symbol: string | string[]) =>
+    Array.isArray(symbol) ? (symbol.includes('AAPL') ? [yahooQuote] : []) : symbol === 'AAPL' ? yahooQuote : undefined
+  ),
+  search: jest.fn(async () => yahooSearch),
+});
+
+/**
+ * Adapter over the stand-in, which only implements the methods the adapter calls
+ */
+const createAdapter = (yahooFinance: ReturnType<typeof createYahooFinance>): YahooFinanceAdapter =>
+  new YahooFinanceAdapter(yahooFinance as unknown as ConstructorParameters<typeof YahooFinanceAdapter>[0]);
+
+describe('YahooFinanceAdapter', () => {
+  let yahooFinance: ReturnType<typeof createYahooFinance>;
+  let adapter: YahooFinanceAdapter;
+
+  beforeEach(() => {
+    yahooFinance = createYahooFinance();
+    adapter = createAdapter(yahooFinance);
+  });
+
+  describe('chart', () => {
+    it('should map Yahoo bars and replace missing values', async () => {
+      const result = await adapter.chart('AAPL', {
+        period1: new Date('2024-01-01T00:00:00Z'),
+        period2: new Date('2024-01-05T00:00:00Z'),
+        interval: '1d',
+      });
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        currency: 'USD',
+        exchangeTimezone: 'America/New_York',
+        adjustment: 'splits',
+        actions: { splits: [], dividends: [] },
+        bars: [
+          { date: new Date('2024-01-02T14:30:00Z'), open: 187.15, high: 188.44, low: 183.89, close: 185.64, volume: 82488700, adjClose: 184.94 },
+          { date: new Date('2024-01-03T14:30:00Z'), open: 0, high: 185.88, low: 0, close: 184.25, volume: 0, adjClose: undefined },
+        ],
+      });
+    });
+
+    it('should map splits and report dividends as paid', async () => {
+      yahooFinance.chart.mockResolvedValueOnce({
+        ...yahooChart,
+        events: {
+          dividends: [
+            { date: new Date('2020-08-07T13:30:00Z'), amount: 0.205 },
+            { date: new Date('2020-05-08T13:30:00Z'), amount: 0.205 },
+          ],
+          splits: [{ date: new Date('2020-08-31T13:30:00Z'), numerator: 4, denominator: 1, splitRatio: '4:1' }],
+        },
+      } as unknown as typeof yahooChart);
+
+      const { actions } = await adapter.chart('AAPL', { period1: new Date('2020-01-01T00:00:00Z') });
+
+      expect(actions).toEqual({
+        splits: [{ date: new Date('2020-08-31T13:30:00Z'), numerator: 4, denominator: 1 }],
+        dividends: [
+          { date: new Date('2020-05-08T13:30:00Z'), amount: 0.82 },
+          { date: new Date('2020-08-07T13:30:00Z'), amount: 0.82 },
+        ],
+      });
+    });
+
+    it('should fetch the events after a past window for the split adjustment', async () => {
+      const split = { date: new Date('2020-08-31T13:30:00Z'), numerator: 4, denominator: 1, splitRatio: '4:1' };
+      yahooFinance.chart
+        .mockResolvedValueOnce({
+          ...yahooChart,
+          events: { dividends: [{ date: new Date('2020-05-08T13:30:00Z'), amount: 0.205 }] },
+        } as unknown as typeof yahooChart)
+        .mockResolvedValueOnce({
+          ...yahooChart,
+          quotes: [],
+          events: { splits: [split] },
+        } as unknown as typeof yahooChart);
+
+      const { actions } = await adapter.chart('AAPL', {
+        period1: new Date('2020-05-01T00:00:00Z'),
+        period2: new Date('2020-06-01T00:00:00Z'),
+      });
+
+      expect(yahooFinance.chart).toHaveBeenLastCalledWith('AAPL', {
+        period1: new Date('2020-06-01T00:00:00Z'),
+        period2: expect.any(Date),
+        interval: '1mo',
+      });
+      expect(actions).toEqual({
+        splits: [{ date: new Date('2020-08-31T13:30:00Z'), numerator: 4, denominator: 1 }],
+        dividends: [{ date: new Date('2020-05-08T13:30:00Z'), amount: 0.82 }],
+      });
+    });
+
+    it('should not fetch later events for windows ending now', async () => {
+      await adapter.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z'), period2: new Date() });
+
+      expect(yahooFinance.chart).toHaveBeenCalledTimes(1);
+    });
+
+    it('should default the end date and interval', async () => {
+      await adapter.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z') });
+
+      expect(yahooFinance.chart).toHaveBeenCalledWith('AAPL', {
+        period1: new Date('2024-01-01T00:00:00Z'),
+        period2: expect.any(Date),
+        interval: '1d',
+      });
+    });
+
+    it('should reject intervals Yahoo does not serve', async () => {
+      await expect(
+        adapter.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z'), interval: '4h' })
+      ).rejects.toBeInstanceOf(UnsupportedIntervalError);
+      expect(yahooFinance.chart).not.toHaveBeenCalled();
+    });
+
+    it('should pass the abort signal to fetch', async () => {
+      const { signal } = new AbortController();
+
+      await adapter.chart('AAPL', { period1: new Date('2024-01-01T00:00:00Z') }, { signal });
+
+      expect(yahooFinance.chart).toHaveBeenCalledWith('AAPL', expect.any(Object), { fetchOptions: { signal } });
+    });
+  });
+
+  describe('quote', () => {
+    it('should map Yahoo quote fields', async () => {
+      expect(await adapter.quote('AAPL')).toEqual({
+        symbol: 'AAPL',
+        price: 185.64,
+        previousClose: 192.53,
+        open: 187.15,
+        dayHigh: 188.44,
+        dayLow: 183.89,
+        volume: 82488700,
+        marketCap: 2870000000000,
+        currency: 'USD',
+        timestamp: new Date('2024-01-02T21:00:00Z'),
+      });
+    });
+
+    it('should use 0 for a missing price', async () => {
+      yahooFinance.quote.mockResolvedValueOnce({ ...yahooQuote, regularMarketPrice: null } as unknown as typeof yahooQuote);
+
+      expect((await adapter.quote('AAPL')).price).toBe(0);
+    });
+  });
+
+  describe('quotes', () => {
+    it('should request all symbols at once and leave out unknown ones', async () => {
+      const quotes = await adapter.quotes(['AAPL', 'UNKNOWN']);
+
+      expect(yahooFinance.quote).toHaveBeenCalledTimes(1);
+      expect(yahooFinance.quote).toHaveBeenCalledWith(['AAPL', 'UNKNOWN']);
+      expect(quotes).toEqual([await adapter.quote('AAPL')]);
+    });
+
+    it('should not call Yahoo without symbols', async () => {
+      expect(await adapter.quotes([])).toEqual([]);
+      expect(yahooFinance.quote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it('should map Yahoo symbols to hits and keep only article fields', async () => {
+      const result = await adapter.search('apple', { newsCount: 5 });
+
+      expect(result.hits).toEqual([{ symbol: 'AAPL', name: 'Apple Inc.', type: 'EQUITY', exchange: 'NMS' }]);
+      expect(result.news).toEqual([
+        {
+          uuid: 'news-1',
+          title: 'Apple announces new product',
+          publisher: 'TechNews',
+          link: 'https://example.com/news/1',
+          providerPublishTime: new Date('2024-01-01T12:00:00Z'),
+          type: 'STORY',
+          thumbnail: undefined,
+          relatedTickers: ['AAPL'],
+        },
+      ]);
+    });
+  });
+});
+
+describeDataSourceAdapterConformance('YahooFinanceAdapter', () => ({
+  adapter: createAdapter(createYahooFinance()),
+  symbol: 'AAPL',
+  unknownSymbol: 'NOPE',
+  chartRequest: {
+    period1: new Date('2024-01-01T00:00:00Z'),
+    period2: new Date('2024-01-05T00:00:00Z'),
+    interval: '1d',
+  },
+  searchQuery: 'apple',
+}));
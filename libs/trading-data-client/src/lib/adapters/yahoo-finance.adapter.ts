@@ -1,10 +1,113 @@
 import YahooFinance from 'yahoo-finance2';
-import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type { Quote } from 'yahoo-finance2/modules/quote';
+import type {
+  DataSourceCallOptions,
+  IDataSourceAdapter,
+} from '../interfaces/data-source-adapter.interface.js';
+import type {
+  ChartRequest,
+  ChartResult,
+  CorporateActions,
+  NewsData,
+  QuoteSnapshot,
+  SearchHit,
+  SearchRequest,
+  SearchResult,
+  TimeInterval,
+} from '../types/index.js';
+import { SymbolNotFoundError, UnsupportedIntervalError } from '../errors/trading-errors.js';
+
+/**
+ * Intervals accepted by the yahoo-finance2 chart module
+ */
+type YahooChartInterval = '1m' | '2m' | '5m' | '15m' | '30m' | '60m' | '90m' | '1h' | '1d' | '5d' | '1wk' | '1mo' | '3mo';
+
+/**
+ * Time after which the end of a chart window counts as past, and later events are fetched
+ */
+const LIVE_EDGE_TOLERANCE = 60 * 1000;
+
+/**
+ * Intervals Yahoo Finance serves directly
+ */
+const YAHOO_INTERVALS: readonly TimeInterval[] = ['1m', '2m', '5m', '15m', '30m', '1h', '1d', '1wk', '1mo'];
+
+/**
+ * Map our TimeInterval type to yahoo-finance2's interval format
+ * Yahoo has no 4h bars; callers aggregate 1h bars instead (see MarketDataClient)
+ */
+function toYahooInterval(interval: TimeInterval): YahooChartInterval {
+  if (!YAHOO_INTERVALS.includes(interval)) {
+    throw new UnsupportedIntervalError(`Yahoo Finance does not provide ${interval} bars`, {
+      interval,
+      supported: YAHOO_INTERVALS,
+    });
+  }
+  return interval as YahooChartInterval;
+}
+
+function toQuoteSnapshot(quote: Quote): QuoteSnapshot {
+  return {
+    symbol: quote.symbol,
+    price: quote.regularMarketPrice ?? 0,
+    previousClose: quote.regularMarketPreviousClose,
+    open: quote.regularMarketOpen,
+    dayHigh: quote.regularMarketDayHigh,
+    dayLow: quote.regularMarketDayLow,
+    volume: quote.regularMarketVolume,
+    marketCap: quote.marketCap,
+    currency: quote.currency,
+    timestamp: quote.regularMarketTime,
+  };
+}
+
+/**
+ * Events of a yahoo-finance2 chart response (array mode)
+ */
+interface YahooChartEvents {
+  dividends?: Array<{ date: Date; amount: number }>;
+  splits?: Array<{ date: Date; numerator: number; denominator: number }>;
+}
+
+/**
+ * Splits and dividends of chart responses
+ * Yahoo reports dividends adjusted for later splits; they are converted back to the amounts paid.
+ * The events must reach the present, so all splits a dividend was adjusted for are known.
+ */
+function toCorporateActions(...responses: Array<YahooChartEvents | undefined>): CorporateActions {
+  const events = {
+    splits: responses.flatMap((response) => response?.splits ?? []),
+    dividends: responses.flatMap((response) => response?.dividends ?? []),
+  };
+  const splits = uniqueByDate(events.splits)
+    .map(({ date, numerator, denominator }) => ({ date, numerator, denominator }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const dividends = uniqueByDate(events.dividends)
+    .map(({ date, amount }) => ({
+      date,
+      amount: splits
+        .filter((split) => split.date > date)
+        .reduce((paid, split) => (paid * split.numerator) / split.denominator, amount),
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return { splits, dividends };
+}
+
+/**
+ * Events without the duplicates of overlapping responses
+ */
+function uniqueByDate<T extends { date: Date }>(events: T[]): T[] {
+  return [...new Map(events.map((event) => [event.date.getTime(), event])).values()];
+}
 
 /**
  * Adapter for Yahoo Finance data source
  * Follows the Adapter pattern and Dependency Inversion Principle
  * This allows the system to be extended with other data sources (Open/Closed Principle)
+ *
+ * All Yahoo-specific field names are mapped here, to the provider-neutral types of IDataSourceAdapter
  */
 export class YahooFinanceAdapter implements IDataSourceAdapter {
   private yahooFinance: InstanceType<typeof YahooFinance>;
@@ -13,15 +116,113 @@ export class YahooFinanceAdapter implements IDataSourceAdapter {
     this.yahooFinance = yahooFinance || new YahooFinance();
   }
 
-  async search(query: string, options: any): Promise<any> {
-    return this.yahooFinance.search(query, options);
+  async search(query: string, request: SearchRequest, callOptions?: DataSourceCallOptions): Promise<SearchResult> {
+    const result = callOptions?.signal
+      ? await this.yahooFinance.search(query, request, this.toModuleOptions(callOptions.signal))
+      : await this.yahooFinance.search(query, request);
+
+    const hits: SearchHit[] = [];
+    for (const quote of result.quotes ?? []) {
+      if (quote.isYahooFinance) {
+        hits.push({
+          symbol: quote.symbol,
+          name: quote.longname ?? quote.shortname,
+          type: quote.quoteType,
+          exchange: quote.exchange,
+        });
+      }
+    }
+
+    const news: NewsData[] = (result.news ?? []).map((article) => ({
+      uuid: article.uuid,
+      title: article.title,
+      publisher: article.publisher,
+      link: article.link,
+      providerPublishTime: article.providerPublishTime,
+      type: article.type,
+      thumbnail: article.thumbnail,
+      relatedTickers: article.relatedTickers,
+    }));
+
+    return { hits, news };
+  }
+
+  async chart(symbol: string, request: ChartRequest, callOptions?: DataSourceCallOptions): Promise<ChartResult> {
+    const now = new Date();
+    const options = {
+      period1: request.period1,
+      period2: request.period2 ?? now,
+      interval: toYahooInterval(request.interval ?? '1d'),
+    };
+    const result = await this.fetchChart(symbol, options, callOptions?.signal);
+
+    // Yahoo adjusts the bars for splits up to today, also those after the window
+    const later =
+      options.period2.getTime() < now.getTime() - LIVE_EDGE_TOLERANCE
+        ? await this.fetchChart(
+            symbol,
+            { period1: options.period2, period2: now, interval: '1mo' },
+            callOptions?.signal
+          )
+        : undefined;
+
+    return {
+      symbol: result.meta?.symbol ?? symbol,
+      bars: (result.quotes ?? []).map((item) => ({
+        date: item.date,
+        open: item.open ?? 0,
+        high: item.high ?? 0,
+        low: item.low ?? 0,
+        close: item.close ?? 0,
+        volume: item.volume ?? 0,
+        adjClose: item.adjclose ?? undefined,
+      })),
+      currency: result.meta?.currency,
+      exchangeTimezone: result.meta?.exchangeTimezoneName,
+      // Yahoo prices are split-adjusted, adjclose is also dividend-adjusted
+      adjustment: 'splits',
+      actions: toCorporateActions(result.events, later?.events),
+    };
+  }
+
+  async quote(symbol: string, callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot> {
+    const quote = callOptions?.signal
+      ? await this.yahooFinance.quote(symbol, undefined, this.toModuleOptions(callOptions.signal))
+      : await this.yahooFinance.quote(symbol);
+
+    if (!quote) {
+      throw new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol });
+    }
+
+    return toQuoteSnapshot(quote);
+  }
+
+  async quotes(symbols: string[], callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot[]> {
+    if (symbols.length === 0) {
+      return [];
+    }
+
+    const quotes = callOptions?.signal
+      ? await this.yahooFinance.quote(symbols, undefined, this.toModuleOptions(callOptions.signal))
+      : await this.yahooFinance.quote(symbols);
+
+    return quotes.map(toQuoteSnapshot);
   }
 
-  async chart(symbol: string, options: any): Promise<any> {
-    return this.yahooFinance.chart(symbol, options);
+  private async fetchChart(
+    symbol: string,
+    options: { period1: Date; period2: Date; interval: YahooChartInterval },
+    signal?: AbortSignal
+  ) {
+    return signal
+      ? this.yahooFinance.chart(symbol, options, this.toModuleOptions(signal))
+      : this.yahooFinance.chart(symbol, options);
   }
 
-  async quote(symbol: string): Promise<any> {
-    return this.yahooFinance.quote(symbol);
+  /**
+   * Pass the abort signal through to fetch()
+   */
+  private toModuleOptions(signal: AbortSignal): { fetchOptions: RequestInit } {
+    return { fetchOptions: { signal } };
   }
 }
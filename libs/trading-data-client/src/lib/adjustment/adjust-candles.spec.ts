@@ -0,0 +1,72 @@
+import { adjustCandles, NO_CORPORATE_ACTIONS } from './adjust-candles';
+import type { CorporateActions, OHLCVData } from '../types/index.js';
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n, 14, 30));
+
+const candle = (n: number, close: number, volume = 1000): OHLCVData => ({
+  date: day(n),
+  open: close,
+  high: close + 2,
+  low: close - 2,
+  close,
+  volume,
+});
+
+// Traded prices: 2-for-1 split on day 3, a dividend of 1.00 going ex on day 5
+const unadjusted = [candle(1, 100), candle(2, 100), candle(3, 50, 2000), candle(4, 50, 2000), candle(5, 49, 2000)];
+
+const actions: CorporateActions = {
+  splits: [{ date: day(3), numerator: 2, denominator: 1 }],
+  dividends: [{ date: day(5), amount: 1 }],
+};
+
+const closes = (candles: OHLCVData[]) => candles.map((c) => c.close);
+
+describe('adjustCandles', () => {
+  it('should back-adjust prices and volumes for splits', () => {
+    const adjusted = adjustCandles(unadjusted, actions, 'none', 'splits');
+
+    expect(closes(adjusted)).toEqual([50, 50, 50, 50, 49]);
+    expect(adjusted[0]).toMatchObject({ open: 50, high: 51, low: 49, volume: 2000 });
+    expect(adjusted[4]).toEqual(unadjusted[4]);
+  });
+
+  it('should back-adjust for dividends with the close before the ex-date', () => {
+    const adjusted = adjustCandles(unadjusted, actions, 'none', 'splits+dividends');
+
+    // 1 - 1.00 / 50 = 0.98 before the ex-date
+    expect(closes(adjusted)).toEqual([49, 49, 49, 49, 49]);
+    expect(adjusted[0].high).toBeCloseTo(49.98);
+    expect(adjusted[3].volume).toBe(2000);
+  });
+
+  it('should convert between any two adjustments', () => {
+    const splitAdjusted = adjustCandles(unadjusted, actions, 'none', 'splits');
+    const fullyAdjusted = adjustCandles(splitAdjusted, actions, 'splits', 'splits+dividends');
+    const restored = adjustCandles(fullyAdjusted, actions, 'splits+dividends', 'none');
+
+    expect(closes(fullyAdjusted)).toEqual(closes(adjustCandles(unadjusted, actions, 'none', 'splits+dividends')));
+    restored.forEach((value, i) => {
+      expect(value.open).toBeCloseTo(unadjusted[i].open, 9);
+      expect(value.low).toBeCloseTo(unadjusted[i].low, 9);
+      expect(value.volume).toBeCloseTo(unadjusted[i].volume, 9);
+    });
+  });
+
+  it('should apply events after the last candle to all candles', () => {
+    const adjusted = adjustCandles(
+      unadjusted.slice(0, 2),
+      { splits: [{ date: day(10), numerator: 1, denominator: 10 }], dividends: [] },
+      'none',
+      'splits'
+    );
+
+    expect(closes(adjusted)).toEqual([1000, 1000]);
+    expect(adjusted[0].volume).toBe(100);
+  });
+
+  it('should return the input when there is nothing to adjust', () => {
+    expect(adjustCandles(unadjusted, actions, 'splits', 'splits')).toBe(unadjusted);
+    expect(adjustCandles(unadjusted, NO_CORPORATE_ACTIONS, 'none', 'splits+dividends')).toBe(unadjusted);
+  });
+});
@@ -0,0 +1,97 @@
+import type { CorporateActions, OHLCVData, PriceAdjustment } from '../types/index.js';
+
+/**
+ * Corporate actions without any events
+ */
+export const NO_CORPORATE_ACTIONS: CorporateActions = { splits: [], dividends: [] };
+
+/**
+ * Factor turning unadjusted prices into prices of an adjustment
+ * @param splitFactor - Product of the ratios of all later splits
+ * @param dividendFactor - Product of (1 - dividend / previous close) of all later dividends
+ */
+function priceScale(adjustment: PriceAdjustment, splitFactor: number, dividendFactor: number): number {
+  switch (adjustment) {
+    case 'none':
+      return 1;
+    case 'splits':
+      return 1 / splitFactor;
+    case 'splits+dividends':
+      return dividendFactor / splitFactor;
+  }
+}
+
+function byDate<T extends { date: Date }>(events: readonly T[]): T[] {
+  return [...events].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Re-adjust candles for splits and dividends
+ *
+ * Every price (open, high, low, close) of a bar is scaled by the same factor, so bars stay consistent:
+ * prices before a split are divided by its ratio and volumes multiplied by it, prices before a dividend
+ * ex-date are multiplied by (1 - dividend / close of the last bar before the ex-date). Prices are
+ * back-adjusted, the bars after the last event keep their traded prices. adjClose is passed through.
+ *
+ * @param candles - Candles sorted by date, adjusted as described by `from`
+ * @param actions - Splits and dividends affecting the candles
+ * @param from - Adjustment of the input candles
+ * @param to - Adjustment of the output candles
+ * @returns New candles (the input candles if nothing changes)
+ */
+export function adjustCandles(
+  candles: OHLCVData[],
+  actions: CorporateActions,
+  from: PriceAdjustment,
+  to: PriceAdjustment
+): OHLCVData[] {
+  if (from === to || candles.length === 0 || (actions.splits.length === 0 && actions.dividends.length === 0)) {
+    return candles;
+  }
+
+  const splits = byDate(actions.splits);
+  const dividends = byDate(actions.dividends);
+  const adjusted = new Array<OHLCVData>(candles.length);
+
+  // Walk backwards, accumulating the factors of all events after the current bar
+  let splitFactor = 1;
+  let dividendFactor = 1;
+  let nextSplit = splits.length - 1;
+  let nextDividend = dividends.length - 1;
+
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const candle = candles[i];
+
+    while (nextSplit >= 0 && splits[nextSplit].date > candle.date) {
+      const { numerator, denominator } = splits[nextSplit--];
+      if (numerator > 0 && denominator > 0) {
+        splitFactor *= numerator / denominator;
+      }
+    }
+    while (nextDividend >= 0 && dividends[nextDividend].date > candle.date) {
+      const { amount } = dividends[nextDividend--];
+      // Unadjusted close of the last bar before the ex-date
+      const close =
+        from === 'splits+dividends'
+          ? (candle.close * splitFactor) / dividendFactor + amount
+          : candle.close / priceScale(from, splitFactor, dividendFactor);
+      if (amount > 0 && close > amount) {
+        dividendFactor *= 1 - amount / close;
+      }
+    }
+
+    const scale = priceScale(to, splitFactor, dividendFactor) / priceScale(from, splitFactor, dividendFactor);
+    const volumeScale = (to === 'none' ? 1 : splitFactor) / (from === 'none' ? 1 : splitFactor);
+
+    adjusted[i] = {
+      ...candle,
+      open: candle.open * scale,
+      high: candle.high * scale,
+      low: candle.low * scale,
+      close: candle.close * scale,
+      volume: candle.volume * volumeScale,
+    };
+  }
+
+  return adjusted;
+}
@@ -0,0 +1 @@
+export * from './adjust-candles.js';
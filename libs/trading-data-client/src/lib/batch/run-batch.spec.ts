@@ -0,0 +1,84 @@
+import { runBatch } from './run-batch';
+import { NetworkError, TradingDataError } from '../errors/trading-errors.js';
+import type { BatchProgress } from '../types/index.js';
+
+describe('runBatch', () => {
+  it('should return successes and failures in input order', async () => {
+    const results = await runBatch(
+      ['AAPL', 'FAIL', 'MSFT'],
+      (symbol) => symbol,
+      async (symbol) => {
+        if (symbol === 'FAIL') {
+          throw new Error('boom');
+        }
+        return symbol.length;
+      }
+    );
+
+    expect(results.map((result) => result.symbol)).toEqual(['AAPL', 'FAIL', 'MSFT']);
+    expect(results[0]).toEqual({ symbol: 'AAPL', data: 4 });
+    expect(results[1].error).toBeInstanceOf(TradingDataError);
+    expect(results[1].error).toMatchObject({ symbol: 'FAIL', message: 'Failed to fetch data for FAIL: boom' });
+    expect(results[2]).toEqual({ symbol: 'MSFT', data: 4 });
+  });
+
+  it('should keep typed errors', async () => {
+    const error = new NetworkError('offline', { symbol: 'AAPL' });
+
+    const [result] = await runBatch(['AAPL'], (symbol) => symbol, () => Promise.reject(error));
+
+    expect(result.error).toBe(error);
+  });
+
+  it('should bound the requests in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+    };
+
+    await runBatch(['A', 'B', 'C', 'D', 'E'], (symbol) => symbol, task, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+  });
+
+  it('should report progress after each item', async () => {
+    const progress: BatchProgress[] = [];
+
+    await runBatch(
+      ['A', 'B'],
+      (symbol) => symbol,
+      async (symbol) => {
+        if (symbol === 'B') {
+          throw new Error('boom');
+        }
+      },
+      { concurrency: 1, onProgress: (update) => progress.push(update) }
+    );
+
+    expect(progress).toEqual([
+      { symbol: 'A', completed: 1, failed: 0, total: 2 },
+      { symbol: 'B', completed: 2, failed: 1, total: 2 },
+    ]);
+  });
+
+  it('should fail items not started when aborted', async () => {
+    const controller = new AbortController();
+    const task = jest.fn(async (symbol: string) => {
+      controller.abort(new Error('stopped'));
+      return symbol;
+    });
+
+    const results = await runBatch(['A', 'B'], (symbol) => symbol, task, {
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    expect(results[0]).toEqual({ symbol: 'A', data: 'A' });
+    expect(results[1].error).toBeInstanceOf(TradingDataError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import type { BatchItemResult, BatchOptions } from '../types/index.js';
+import { TradingDataError } from '../errors/trading-errors.js';
+import { toTradingDataError } from '../errors/classify-error.js';
+import { ConcurrencyLimiter } from '../resilience/concurrency-limiter.js';
+
+/**
+ * Default number of requests a batch keeps in flight
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Maximum number of symbols per multi-symbol quote request
+ */
+export const QUOTE_CHUNK_SIZE = 50;
+
+/**
+ * Turn the error of one batch item into a trading error carrying its symbol
+ */
+export function toBatchError(error: unknown, symbol: string): TradingDataError {
+  return error instanceof TradingDataError
+    ? error
+    : toTradingDataError(error, `Failed to fetch data for ${symbol}: ${error instanceof Error ? error.message : String(error)}`, {
+        symbol,
+      });
+}
+
+/**
+ * Create a function that counts settled batch items and reports progress
+ * @param total - Number of items in the batch
+ * @param options - Batch options with the progress callback
+ * @returns Function passing each settled item through
+ */
+export function batchProgress(
+  total: number,
+  options: BatchOptions
+): <T>(result: BatchItemResult<T>) => BatchItemResult<T> {
+  let completed = 0;
+  let failed = 0;
+
+  return (result) => {
+    completed++;
+    if (result.error) {
+      failed++;
+    }
+    options.onProgress?.({ symbol: result.symbol, completed, failed, total });
+    return result;
+  };
+}
+
+/**
+ * Run one request per item with bounded concurrency, collecting successes and failures
+ * A failing item does not affect the others.
+ * @param items - Request parameters
+ * @param symbolOf - Symbol of an item, used in results and progress
+ * @param task - Request of one item
+ * @param options - Concurrency, progress callback and abort signal
+ * @returns One result per item, in item order
+ */
+export async function runBatch<TItem, TResult>(
+  items: readonly TItem[],
+  symbolOf: (item: TItem) => string,
+  task: (item: TItem) => Promise<TResult>,
+  options: BatchOptions = {}
+): Promise<BatchItemResult<TResult>[]> {
+  const limiter = new ConcurrencyLimiter(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+  const settle = batchProgress(items.length, options);
+
+  return Promise.all(
+    items.map(async (item) => {
+      const symbol = symbolOf(item);
+      try {
+        return settle({ symbol, data: await limiter.run(() => task(item), options.signal) });
+      } catch (error) {
+        return settle<TResult>({ symbol, error: toBatchError(error, symbol) });
+      }
+    })
+  );
+}
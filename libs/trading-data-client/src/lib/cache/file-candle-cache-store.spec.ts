@@ -0,0 +1,68 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCandleCacheStore } from './file-candle-cache-store';
+
+describe('FileCandleCacheStore', () => {
+  let directory: string;
+  let store: FileCandleCacheStore;
+
+  const entry = {
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-01-03T00:00:00Z'),
+    fetchedAt: new Date('2024-01-03T01:00:00Z'),
+    data: [
+      {
+        date: new Date('2024-01-02T00:00:00Z'),
+        open: 1.1,
+        high: 1.2,
+        low: 1.0,
+        close: 1.15,
+        volume: 100,
+        adjClose: 1.15,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'candle-cache-'));
+    store = new FileCandleCacheStore(join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip entries with dates', async () => {
+    await store.set('EURUSD=X|1d', entry);
+
+    const restored = await new FileCandleCacheStore(join(directory, 'nested')).get('EURUSD=X|1d');
+
+    expect(restored).toEqual(entry);
+    expect(restored?.data[0].date).toBeInstanceOf(Date);
+  });
+
+  it('should return undefined for missing and corrupt entries', async () => {
+    expect(await store.get('missing')).toBeUndefined();
+
+    await store.set('corrupt', entry);
+    await writeFile(join(directory, 'nested', `${encodeURIComponent('corrupt')}.json`), '{not json');
+
+    expect(await store.get('corrupt')).toBeUndefined();
+  });
+
+  it('should delete and clear entries', async () => {
+    await store.set('a', entry);
+    await store.set('b', entry);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('should clear a directory that does not exist yet', async () => {
+    await expect(new FileCandleCacheStore(join(directory, 'absent')).clear()).resolves.toBeUndefined();
+  });
+});
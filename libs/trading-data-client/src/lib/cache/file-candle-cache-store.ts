@@ -0,0 +1,90 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CandleCacheEntry, OHLCVData } from '../types/index.js';
+import type { ICandleCacheStore } from '../interfaces/candle-cache-store.interface.js';
+
+/**
+ * JSON representation of a cache entry on disk
+ */
+interface SerializedCandleCacheEntry {
+  startDate: string;
+  endDate: string;
+  fetchedAt: string;
+  data: Array<Omit<OHLCVData, 'date'> & { date: string }>;
+}
+
+/**
+ * File-based candle cache
+ * Stores one JSON file per symbol/interval in a directory, so the cache survives restarts
+ */
+export class FileCandleCacheStore implements ICandleCacheStore {
+  private static readonly FILE_EXTENSION = '.json';
+
+  /**
+   * @param directory - Directory holding the cache files (created on first write)
+   */
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CandleCacheEntry | undefined> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath(key), 'utf8');
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return this.deserialize(JSON.parse(content));
+    } catch {
+      // A corrupt cache file is treated as a cache miss
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CandleCacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(FileCandleCacheStore.FILE_EXTENSION))
+        .map((file) => rm(join(this.directory, file), { force: true }))
+    );
+  }
+
+  private filePath(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}${FileCandleCacheStore.FILE_EXTENSION}`);
+  }
+
+  private deserialize(entry: SerializedCandleCacheEntry): CandleCacheEntry {
+    return {
+      startDate: new Date(entry.startDate),
+      endDate: new Date(entry.endDate),
+      fetchedAt: new Date(entry.fetchedAt),
+      data: entry.data.map((candle) => ({ ...candle, date: new Date(candle.date) })),
+    };
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+  }
+}
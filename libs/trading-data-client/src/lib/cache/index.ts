@@ -0,0 +1,2 @@
+export * from './memory-candle-cache-store.js';
+export * from './file-candle-cache-store.js';
@@ -0,0 +1,55 @@
+import type { CandleCacheEntry } from '../types/index.js';
+import type { ICandleCacheStore } from '../interfaces/candle-cache-store.interface.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+/**
+ * In-memory candle cache with least-recently-used eviction
+ * Relies on Map preserving insertion order: the first key is the least recently used
+ */
+export class MemoryCandleCacheStore implements ICandleCacheStore {
+  private readonly entries = new Map<string, CandleCacheEntry>();
+
+  /**
+   * @param maxEntries - Maximum number of symbol/interval entries to keep (default: 500)
+   */
+  constructor(private readonly maxEntries = 500) {
+    if (maxEntries < 1) {
+      throw new InvalidParameterError('maxEntries must be at least 1', { parameter: 'maxEntries' });
+    }
+  }
+
+  async get(key: string): Promise<CandleCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CandleCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently cached
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
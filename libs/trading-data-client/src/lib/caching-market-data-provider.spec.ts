@@ -0,0 +1,277 @@
+import { CachingMarketDataProvider } from './caching-market-data-provider';
+import { MemoryCandleCacheStore } from './cache/memory-candle-cache-store';
+import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
+import type { HistoricalDataParams, OHLCVData } from './types/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const dailyCandles = (from: Date, to: Date): OHLCVData[] => {
+  const candles: OHLCVData[] = [];
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY) {
+    candles.push({ date: new Date(time), open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 });
+  }
+  return candles;
+};
+
+describe('CachingMarketDataProvider', () => {
+  let mockProvider: jest.Mocked<IMarketDataProvider>;
+  let now: Date;
+  let provider: CachingMarketDataProvider;
+
+  beforeEach(() => {
+    now = new Date('2024-03-01T00:00:00Z');
+    mockProvider = {
+      getHistoricalData: jest.fn(async (params: HistoricalDataParams) =>
+        dailyCandles(params.startDate, params.endDate || now)
+      ),
+      getQuote: jest.fn(),
+      getQuotes: jest.fn(),
+      getHistoricalDataBatch: jest.fn(),
+    };
+    provider = new CachingMarketDataProvider(mockProvider, { now: () => now });
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const params = {
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-02-01T00:00:00Z'),
+      interval: '1d' as const,
+    };
+
+    const first = await provider.getHistoricalData(params);
+    const second = await provider.getHistoricalData(params);
+
+    expect(second).toEqual(first);
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share the cache between symbol formats', async () => {
+    const startDate = new Date('2024-01-01T00:00:00Z');
+    const endDate = new Date('2024-01-10T00:00:00Z');
+
+    await provider.getHistoricalData({ symbol: 'EURUSD', startDate, endDate });
+    await provider.getHistoricalData({ symbol: 'EURUSD=X', startDate, endDate });
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return only the requested range from a larger cached range', async () => {
+    await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-02-01T00:00:00Z'),
+    });
+
+    const result = await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-10T00:00:00Z'),
+      endDate: new Date('2024-01-12T00:00:00Z'),
+    });
+
+    expect(result.map((candle) => candle.date.toISOString().slice(0, 10))).toEqual([
+      '2024-01-10',
+      '2024-01-11',
+      '2024-01-12',
+    ]);
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fetch the missing head and tail of overlapping requests', async () => {
+    await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-10T00:00:00Z'),
+      endDate: new Date('2024-01-20T00:00:00Z'),
+    });
+
+    const result = await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-05T00:00:00Z'),
+      endDate: new Date('2024-01-25T00:00:00Z'),
+    });
+
+    expect(result).toHaveLength(21);
+    expect(mockProvider.getHistoricalData).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      startDate: new Date('2024-01-05T00:00:00Z'),
+      endDate: new Date('2024-01-10T00:00:00Z'),
+    }));
+    expect(mockProvider.getHistoricalData).toHaveBeenNthCalledWith(3, expect.objectContaining({
+      startDate: new Date('2024-01-20T00:00:00Z'),
+      endDate: new Date('2024-01-25T00:00:00Z'),
+    }));
+  });
+
+  it('should trust ranges reaching the live edge until the TTL expires', async () => {
+    const startDate = new Date('2024-02-01T00:00:00Z');
+
+    await provider.getHistoricalData({ symbol: 'AAPL', startDate, endDate: now });
+
+    now = new Date(now.getTime() + 30 * 60 * 1000);
+    await provider.getHistoricalData({ symbol: 'AAPL', startDate, endDate: now });
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+
+    now = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    await provider.getHistoricalData({ symbol: 'AAPL', startDate, endDate: now });
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+    expect(mockProvider.getHistoricalData).toHaveBeenLastCalledWith(expect.objectContaining({
+      startDate: new Date('2024-03-01T00:00:00Z'),
+    }));
+  });
+
+  it('should use interval specific TTL overrides', async () => {
+    provider = new CachingMarketDataProvider(mockProvider, { now: () => now, ttl: { '1d': 1000 } });
+    const startDate = new Date('2024-02-01T00:00:00Z');
+
+    await provider.getHistoricalData({ symbol: 'AAPL', startDate, endDate: now });
+    now = new Date(now.getTime() + 2000);
+    await provider.getHistoricalData({ symbol: 'AAPL', startDate, endDate: now });
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cache intervals separately', async () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: now };
+
+    await provider.getHistoricalData({ ...params, interval: '1d' });
+    await provider.getHistoricalData({ ...params, interval: '1h' });
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one fetch between concurrent identical requests', async () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: now };
+
+    await Promise.all([
+      provider.getHistoricalData(params),
+      provider.getHistoricalData(params),
+      provider.getHistoricalData(params),
+    ]);
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cache price adjustments separately', async () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: new Date('2024-02-10T00:00:00Z') };
+
+    await provider.getHistoricalData(params);
+    await provider.getHistoricalData({ ...params, adjustment: 'splits' });
+    await provider.getHistoricalData({ ...params, adjustment: 'splits+dividends' });
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+  });
+
+  describe('validation', () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: new Date('2024-02-10T00:00:00Z') };
+
+    it('should share the cache between validations returning the default bars', async () => {
+      await provider.getHistoricalData(params);
+      await provider.getHistoricalData({ ...params, validation: { policy: 'drop', checkGaps: false } });
+      await provider.getHistoricalData({ ...params, validation: { spikeThreshold: 5 } });
+
+      expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not serve cached bars to the throw policy', async () => {
+      await provider.getHistoricalData(params);
+      mockProvider.getHistoricalData.mockRejectedValueOnce(new Error('Invalid bars'));
+
+      await expect(provider.getHistoricalData({ ...params, validation: { policy: 'throw' } })).rejects.toThrow(
+        'Invalid bars'
+      );
+      expect(mockProvider.getHistoricalData).toHaveBeenLastCalledWith({ ...params, validation: { policy: 'throw' } });
+    });
+
+    it('should not serve cached bars without validation', async () => {
+      await provider.getHistoricalData(params);
+      await provider.getHistoricalData({ ...params, validation: false });
+      await provider.getHistoricalData({ ...params, validation: false });
+
+      expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache bars repaired with another policy', async () => {
+      await provider.getHistoricalData({ ...params, validation: { policy: 'forward-fill' } });
+      await provider.getHistoricalData({ ...params, validation: { repairSpikes: true } });
+      await provider.getHistoricalData(params);
+
+      expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it('should refetch the whole range when new candles were adjusted for a split', async () => {
+    await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-10T00:00:00Z'),
+      endDate: new Date('2024-01-20T00:00:00Z'),
+    });
+
+    // A 2-for-1 split after 2024-01-20 halves all earlier prices
+    mockProvider.getHistoricalData.mockImplementation(async (params) =>
+      dailyCandles(params.startDate, params.endDate || now).map((candle) => ({ ...candle, open: 0.5 }))
+    );
+    const result = await provider.getHistoricalData({
+      symbol: 'AAPL',
+      startDate: new Date('2024-01-10T00:00:00Z'),
+      endDate: new Date('2024-01-25T00:00:00Z'),
+    });
+
+    expect(result).toHaveLength(16);
+    expect(result.every((candle) => candle.open === 0.5)).toBe(true);
+    expect(mockProvider.getHistoricalData).toHaveBeenLastCalledWith(expect.objectContaining({
+      startDate: new Date('2024-01-10T00:00:00Z'),
+      endDate: new Date('2024-01-25T00:00:00Z'),
+    }));
+  });
+
+  it('should refetch after invalidate', async () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: now };
+
+    await provider.getHistoricalData(params);
+    await provider.invalidate('AAPL');
+    await provider.getHistoricalData(params);
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache quotes', async () => {
+    mockProvider.getQuote.mockResolvedValue({ symbol: 'AAPL', price: 1, timestamp: now });
+
+    await provider.getQuote('AAPL');
+    await provider.getQuote('AAPL');
+
+    expect(mockProvider.getQuote).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed requests', async () => {
+    const params = { symbol: 'AAPL', startDate: new Date('2024-02-01T00:00:00Z'), endDate: now };
+    mockProvider.getHistoricalData.mockRejectedValueOnce(new Error('API Error'));
+
+    await expect(provider.getHistoricalData(params)).rejects.toThrow('API Error');
+    await provider.getHistoricalData(params);
+
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MemoryCandleCacheStore', () => {
+  const entry = {
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-01-02'),
+    fetchedAt: new Date('2024-01-02'),
+    data: [],
+  };
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCandleCacheStore(2);
+
+    await store.set('a', entry);
+    await store.set('b', entry);
+    await store.get('a');
+    await store.set('c', entry);
+
+    expect(await store.get('a')).toBe(entry);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(entry);
+    expect(store.size).toBe(2);
+  });
+});
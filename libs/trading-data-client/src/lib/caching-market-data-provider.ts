@@ -0,0 +1,312 @@
+import type {
+  BatchItemResult,
+  BatchOptions,
+  CachingMarketDataProviderOptions,
+  CandleAlignment,
+  CandleCacheEntry,
+  HistoricalDataParams,
+  HistoricalDataValidation,
+  OHLCVData,
+  PriceAdjustment,
+  QuoteData,
+  TimeInterval,
+} from './types/index.js';
+import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
+import type { ICandleCacheStore } from './interfaces/candle-cache-store.interface.js';
+import { MemoryCandleCacheStore } from './cache/memory-candle-cache-store.js';
+import { normalizeSymbol } from './symbol-normalizer.js';
+import { KeyedLock } from './utils/keyed-lock.js';
+import { runBatch } from './batch/run-batch.js';
+
+/**
+ * Price adjustments cached separately per symbol and interval
+ */
+const PRICE_ADJUSTMENTS: readonly PriceAdjustment[] = ['none', 'splits', 'splits+dividends'];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Default time-to-live of the most recent candles per interval
+ * Short intervals change quickly, long intervals rarely
+ */
+export const DEFAULT_CACHE_TTL: Record<TimeInterval, number> = {
+  '1m': MINUTE,
+  '2m': 2 * MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': HOUR,
+  '2h': HOUR,
+  '3h': HOUR,
+  '4h': HOUR,
+  '6h': HOUR,
+  '8h': HOUR,
+  '12h': HOUR,
+  '1d': HOUR,
+  '2d': HOUR,
+  '3d': HOUR,
+  '1wk': 6 * HOUR,
+  '1mo': 24 * HOUR,
+  '3mo': 24 * HOUR,
+};
+
+/**
+ * Caching decorator for any IMarketDataProvider
+ *
+ * Design principles:
+ * - Only adds caching, fetching is delegated to the wrapped provider (single responsibility)
+ * - Implements IMarketDataProvider, so it can be passed wherever a provider is expected (substitutable)
+ * - Cache backend is pluggable through ICandleCacheStore
+ *
+ * Caching behavior:
+ * - One contiguous date range is cached per symbol, interval and price adjustment
+ * - Requests overlapping the cached range only fetch the missing head or tail and merge it
+ * - Back-adjusted ranges are refetched as a whole once a fetched candle no longer matches
+ *   the cached one, i.e. after a split or dividend
+ * - Completed historical candles never expire; the TTL only applies to the live edge,
+ *   i.e. ranges that reached "now" are refetched from the last cached candle once expired
+ * - Only bars validated with the default 'drop' policy are cached; requests with another
+ *   policy, repaired spikes or `validation: false` bypass the cache
+ * - Quotes are not cached
+ *
+ * @example
+ * const provider = new CachingMarketDataProvider(new MarketDataClient(), {
+ *   store: new FileCandleCacheStore('.cache/candles'),
+ *   ttl: { '1d': 15 * 60 * 1000 },
+ * });
+ * const client = new TradingDataClient(provider);
+ */
+export class CachingMarketDataProvider implements IMarketDataProvider {
+  private readonly store: ICandleCacheStore;
+  private readonly ttl: Record<TimeInterval, number>;
+  private readonly now: () => Date;
+  private readonly lock = new KeyedLock();
+
+  /**
+   * @param provider - Provider used on cache misses
+   * @param options - Cache store, TTL overrides and clock
+   */
+  constructor(
+    private readonly provider: IMarketDataProvider,
+    options: CachingMarketDataProviderOptions = {}
+  ) {
+    this.store = options.store || new MemoryCandleCacheStore();
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl } as Record<TimeInterval, number>;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Fetch historical OHLCV data, served from the cache where possible
+   * @param params - Parameters for fetching historical data
+   * @returns Promise resolving to array of OHLCV data points
+   */
+  async getHistoricalData(params: HistoricalDataParams): Promise<OHLCVData[]> {
+    // Cached bars were repaired with the default policy, other policies need the raw bars
+    if (!isDefaultValidation(params.validation)) {
+      return this.provider.getHistoricalData(params);
+    }
+
+    const interval = params.interval || '1d';
+    const key = this.cacheKey(params.symbol, interval, params.alignment, params.adjustment);
+
+    // Requests for the same key run one after another so concurrent callers share a fetch
+    return this.lock.run(key, () => this.getCachedHistoricalData(key, { ...params, interval }));
+  }
+
+  /**
+   * Fetch current quote data (not cached)
+   * @param symbol - Asset symbol
+   * @returns Promise resolving to quote data
+   */
+  async getQuote(symbol: string): Promise<QuoteData> {
+    return this.provider.getQuote(symbol);
+  }
+
+  /**
+   * Fetch current quotes of several assets (not cached)
+   * @param symbols - Asset symbols
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  async getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]> {
+    return this.provider.getQuotes(symbols, options);
+  }
+
+  /**
+   * Fetch historical OHLCV data of several requests, each served from the cache where possible
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  async getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]> {
+    return runBatch(paramsList, (params) => params.symbol, (params) => this.getHistoricalData(params), options);
+  }
+
+  /**
+   * Drop cached data for a symbol (all price adjustments)
+   * @param symbol - Asset symbol
+   * @param interval - Interval to drop (default: all intervals)
+   * @param alignment - Alignment the data was requested with (default: none)
+   */
+  async invalidate(symbol: string, interval?: TimeInterval, alignment?: CandleAlignment): Promise<void> {
+    const intervals = interval ? [interval] : (Object.keys(DEFAULT_CACHE_TTL) as TimeInterval[]);
+    const keys = intervals.flatMap((value) =>
+      PRICE_ADJUSTMENTS.map((adjustment) => this.cacheKey(symbol, value, alignment, adjustment))
+    );
+    await Promise.all(keys.map((key) => this.store.delete(key)));
+  }
+
+  /**
+   * Drop all cached data
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private async getCachedHistoricalData(
+    key: string,
+    params: HistoricalDataParams & { interval: TimeInterval }
+  ): Promise<OHLCVData[]> {
+    const now = this.now();
+    const startDate = params.startDate;
+    const endDate = params.endDate || now;
+    const entry = await this.store.get(key);
+
+    if (!entry) {
+      const data = await this.provider.getHistoricalData({ ...params, endDate });
+      await this.store.set(key, { startDate, endDate, fetchedAt: now, data });
+      return data;
+    }
+
+    let updated: CandleCacheEntry = entry;
+    const coveredEnd = this.coveredEnd(entry, params.interval, now);
+
+    // Missing head: fetch up to the first cached candle, cached candles win on overlap
+    if (startDate < entry.startDate) {
+      const headEnd = entry.data.length > 0 ? entry.data[0].date : entry.startDate;
+      const head = await this.provider.getHistoricalData({ ...params, startDate, endDate: headEnd });
+      if (!this.sameCandle(head[head.length - 1], entry.data[0])) {
+        return this.refetch(key, params, startDate, endDate > entry.endDate ? endDate : entry.endDate, now);
+      }
+      updated = {
+        ...updated,
+        startDate,
+        data: this.merge(head, updated.data),
+      };
+    }
+
+    // Missing tail: refetch from the last cached candle so a partial candle is replaced
+    if (endDate > coveredEnd) {
+      const lastCandle = updated.data[updated.data.length - 1];
+      const tailStart = lastCandle && lastCandle.date < coveredEnd ? lastCandle.date : coveredEnd;
+      const tail = await this.provider.getHistoricalData({ ...params, startDate: tailStart, endDate });
+      if (!this.sameCandle(lastCandle, tail[0])) {
+        return this.refetch(key, params, updated.startDate, endDate, now);
+      }
+      updated = {
+        ...updated,
+        endDate: endDate > updated.endDate ? endDate : updated.endDate,
+        fetchedAt: now,
+        data: this.merge(updated.data, tail),
+      };
+    }
+
+    if (updated !== entry) {
+      await this.store.set(key, updated);
+    }
+
+    return updated.data.filter((candle) => candle.date >= startDate && candle.date <= endDate);
+  }
+
+  /**
+   * Replace a cache entry by a fresh fetch of its whole range
+   * @returns Candles of the requested range
+   */
+  private async refetch(
+    key: string,
+    params: HistoricalDataParams,
+    rangeStart: Date,
+    rangeEnd: Date,
+    now: Date
+  ): Promise<OHLCVData[]> {
+    const data = await this.provider.getHistoricalData({ ...params, startDate: rangeStart, endDate: rangeEnd });
+    await this.store.set(key, { startDate: rangeStart, endDate: rangeEnd, fetchedAt: now, data });
+
+    const endDate = params.endDate || now;
+    return data.filter((candle) => candle.date >= params.startDate && candle.date <= endDate);
+  }
+
+  /**
+   * Whether a cached and a refetched candle agree, i.e. the range was not adjusted for a new split or dividend
+   * Opens are compared, as the close and volume of the live candle keep changing
+   */
+  private sameCandle(cached: OHLCVData | undefined, fetched: OHLCVData | undefined): boolean {
+    if (!cached || !fetched || cached.date.getTime() !== fetched.date.getTime()) {
+      return true;
+    }
+    return Math.abs(cached.open - fetched.open) <= Math.abs(cached.open) * 1e-9;
+  }
+
+  /**
+   * Determine up to which date the cache entry can be trusted
+   * A range that reached the live edge when it was fetched is trusted up to "now"
+   * while fresh, and only up to its last candle once the TTL expired.
+   */
+  private coveredEnd(entry: CandleCacheEntry, interval: TimeInterval, now: Date): Date {
+    const ttl = this.ttl[interval];
+    const reachedLiveEdge = entry.endDate.getTime() >= entry.fetchedAt.getTime() - ttl;
+
+    if (!reachedLiveEdge) {
+      return entry.endDate;
+    }
+
+    const isFresh = now.getTime() - entry.fetchedAt.getTime() < ttl;
+    if (isFresh) {
+      return now;
+    }
+
+    const lastCandle = entry.data[entry.data.length - 1];
+    return lastCandle ? lastCandle.date : entry.startDate;
+  }
+
+  /**
+   * Merge two sorted candle arrays, later array wins on duplicate dates
+   */
+  private merge(older: OHLCVData[], newer: OHLCVData[]): OHLCVData[] {
+    const byTime = new Map<number, OHLCVData>();
+    for (const candle of older) {
+      byTime.set(candle.date.getTime(), candle);
+    }
+    for (const candle of newer) {
+      byTime.set(candle.date.getTime(), candle);
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private cacheKey(
+    symbol: string,
+    interval: TimeInterval,
+    alignment?: CandleAlignment,
+    adjustment: PriceAdjustment = 'splits'
+  ): string {
+    // Keys of the default adjustment are unchanged, so existing file caches stay valid
+    const key = `${normalizeSymbol(symbol)}|${interval}${adjustment === 'splits' ? '' : `|${adjustment}`}`;
+    if (!alignment) {
+      return key;
+    }
+    const { timezone = 'UTC', anchor = '00:00', weekStartsOn = 1 } = alignment;
+    return `${key}|${timezone}@${anchor}/${weekStartsOn}`;
+  }
+}
+
+/**
+ * Whether a validation returns the same bars as the default one
+ * Gap detection and the spike threshold only change the quality report, not the bars.
+ */
+function isDefaultValidation(validation: HistoricalDataValidation = {}): boolean {
+  return validation !== false && (validation.policy ?? 'drop') === 'drop' && !validation.repairSpikes;
+}
@@ -0,0 +1,152 @@
+import type { TradingCalendarDefinition } from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { getInstrumentRegistry } from '../instruments/instrument-registry.js';
+import { lseHolidays, nyseHolidays, xetraHolidays } from './holidays.js';
+import { TradingCalendar } from './trading-calendar.js';
+
+/**
+ * Built-in calendar definitions
+ */
+export const TRADING_CALENDARS: Record<string, TradingCalendarDefinition> = {
+  NYSE: {
+    id: 'NYSE',
+    name: 'New York Stock Exchange',
+    timezone: 'America/New_York',
+    open: '09:30',
+    close: '16:00',
+    holidays: nyseHolidays,
+  },
+  NASDAQ: {
+    id: 'NASDAQ',
+    name: 'Nasdaq',
+    timezone: 'America/New_York',
+    open: '09:30',
+    close: '16:00',
+    holidays: nyseHolidays,
+  },
+  LSE: {
+    id: 'LSE',
+    name: 'London Stock Exchange',
+    timezone: 'Europe/London',
+    open: '08:00',
+    close: '16:30',
+    holidays: lseHolidays,
+  },
+  XETRA: {
+    id: 'XETRA',
+    name: 'Xetra',
+    timezone: 'Europe/Berlin',
+    open: '09:00',
+    close: '17:30',
+    holidays: xetraHolidays,
+  },
+  // Hours only: exchange holidays and lunch breaks are not included in the calendars below
+  EURONEXT: {
+    id: 'EURONEXT',
+    name: 'Euronext',
+    timezone: 'Europe/Paris',
+    open: '09:00',
+    close: '17:30',
+  },
+  SIX: {
+    id: 'SIX',
+    name: 'SIX Swiss Exchange',
+    timezone: 'Europe/Zurich',
+    open: '09:00',
+    close: '17:30',
+  },
+  TSX: {
+    id: 'TSX',
+    name: 'Toronto Stock Exchange',
+    timezone: 'America/Toronto',
+    open: '09:30',
+    close: '16:00',
+  },
+  JPX: {
+    id: 'JPX',
+    name: 'Tokyo Stock Exchange',
+    timezone: 'Asia/Tokyo',
+    open: '09:00',
+    close: '15:30',
+  },
+  HKEX: {
+    id: 'HKEX',
+    name: 'Hong Kong Stock Exchange',
+    timezone: 'Asia/Hong_Kong',
+    open: '09:30',
+    close: '16:00',
+  },
+  ASX: {
+    id: 'ASX',
+    name: 'Australian Securities Exchange',
+    timezone: 'Australia/Sydney',
+    open: '10:00',
+    close: '16:00',
+  },
+  // Sunday 17:00 to Friday 17:00 New York; each session is named after the day it closes
+  FX: {
+    id: 'FX',
+    name: 'Foreign exchange (24/5)',
+    timezone: 'America/New_York',
+    open: '17:00',
+    close: '17:00',
+  },
+  // Globex hours with the daily 16:00-17:00 Chicago maintenance break; hours only
+  CME: {
+    id: 'CME',
+    name: 'CME Globex',
+    timezone: 'America/Chicago',
+    open: '17:00',
+    close: '16:00',
+  },
+  CRYPTO: {
+    id: 'CRYPTO',
+    name: 'Crypto (24/7)',
+    timezone: 'UTC',
+    open: '00:00',
+    close: '24:00',
+    weekdays: [0, 1, 2, 3, 4, 5, 6],
+  },
+  // Listings on exchanges without a calendar: only weekends are known to be closed
+  WEEKDAYS: {
+    id: 'WEEKDAYS',
+    name: 'Weekdays (unknown exchange)',
+    timezone: 'UTC',
+    open: '00:00',
+    close: '24:00',
+  },
+};
+
+const calendars = new Map<string, TradingCalendar>();
+
+/**
+ * Get a built-in trading calendar (instances are shared)
+ * @param id - Calendar id (e.g., 'NYSE', 'FX', 'CRYPTO')
+ * @throws InvalidParameterError for unknown ids
+ */
+export function getTradingCalendar(id: string): TradingCalendar {
+  let calendar = calendars.get(id);
+  if (!calendar) {
+    const definition = TRADING_CALENDARS[id];
+    if (!definition) {
+      throw new InvalidParameterError(`Unknown trading calendar: ${id}`, { parameter: 'calendar' });
+    }
+    calendar = new TradingCalendar(definition);
+    calendars.set(id, calendar);
+  }
+  return calendar;
+}
+
+/**
+ * Trading calendar of a symbol, from its instrument (see InstrumentRegistry)
+ *
+ * - Forex -> FX, crypto -> CRYPTO, futures -> CME
+ * - Stocks and indices by exchange: '.L' -> LSE, '.DE' -> XETRA, '.PA' -> EURONEXT, '^GDAXI' -> XETRA, ...
+ * - Stocks on other exchanges ('.BA', '.NS', ...) -> WEEKDAYS
+ * - Everything else (US stocks, share classes like 'BRK.B', other indices) -> NYSE
+ *
+ * @param symbol - The trading symbol in any format supported by normalizeSymbol
+ */
+export function calendarForSymbol(symbol: string): TradingCalendar {
+  return getTradingCalendar(getInstrumentRegistry().resolve(symbol).calendar);
+}
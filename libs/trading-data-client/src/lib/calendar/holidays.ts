@@ -0,0 +1,164 @@
+import type { CalendarHoliday } from '../types/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * UK substitute days of Christmas and Boxing Day by weekday of December 25
+ */
+const CHRISTMAS_SUBSTITUTES: Record<number, [number, number]> = { 5: [25, 28], 6: [27, 28], 0: [27, 26] };
+
+/**
+ * Format a UTC date as 'YYYY-MM-DD'
+ */
+export function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Easter Sunday of a year (Gregorian computus)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * nth weekday of a month, counting from the end for negative n (-1 = last)
+ * @param month - Month (1-12)
+ * @param weekday - 0 = Sunday ... 6 = Saturday
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1));
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return new Date(first.getTime() + (offset + (n - 1) * 7) * DAY);
+  }
+  const last = new Date(Date.UTC(year, month, 0));
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return new Date(last.getTime() - (offset + (-n - 1) * 7) * DAY);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY);
+}
+
+/**
+ * US observance: Saturday holidays move to Friday, Sunday holidays to Monday
+ */
+function observedUS(date: Date): Date {
+  const weekday = date.getUTCDay();
+  return weekday === 6 ? addDays(date, -1) : weekday === 0 ? addDays(date, 1) : date;
+}
+
+function isWeekday(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+function holiday(date: Date, name: string, earlyClose?: string): CalendarHoliday {
+  return earlyClose ? { date: isoDate(date), name, earlyClose } : { date: isoDate(date), name };
+}
+
+/**
+ * NYSE / Nasdaq holidays and 13:00 early closes
+ */
+export function nyseHolidays(year: number): CalendarHoliday[] {
+  const holidays: CalendarHoliday[] = [];
+
+  // New Year's Day is not moved to Friday when it falls on a Saturday
+  const newYear = new Date(Date.UTC(year, 0, 1));
+  if (newYear.getUTCDay() !== 6) {
+    holidays.push(holiday(observedUS(newYear), "New Year's Day"));
+  }
+  if (year >= 1998) {
+    holidays.push(holiday(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day'));
+  }
+  holidays.push(holiday(nthWeekday(year, 2, 1, 3), "Washington's Birthday"));
+  holidays.push(holiday(addDays(easterSunday(year), -2), 'Good Friday'));
+  holidays.push(holiday(nthWeekday(year, 5, 1, -1), 'Memorial Day'));
+  if (year >= 2022) {
+    holidays.push(holiday(observedUS(new Date(Date.UTC(year, 5, 19))), 'Juneteenth'));
+  }
+  holidays.push(holiday(observedUS(new Date(Date.UTC(year, 6, 4))), 'Independence Day'));
+  holidays.push(holiday(nthWeekday(year, 9, 1, 1), 'Labor Day'));
+  const thanksgiving = nthWeekday(year, 11, 4, 4);
+  holidays.push(holiday(thanksgiving, 'Thanksgiving Day'));
+  holidays.push(holiday(observedUS(new Date(Date.UTC(year, 11, 25))), 'Christmas Day'));
+
+  // Early closes: the day before Independence Day, the day after Thanksgiving, Christmas Eve
+  const july3 = new Date(Date.UTC(year, 6, 3));
+  if (july3.getUTCDay() >= 1 && july3.getUTCDay() <= 4) {
+    holidays.push(holiday(july3, 'Independence Day Eve', '13:00'));
+  }
+  holidays.push(holiday(addDays(thanksgiving, 1), 'Day after Thanksgiving', '13:00'));
+  const christmasEve = new Date(Date.UTC(year, 11, 24));
+  if (christmasEve.getUTCDay() >= 1 && christmasEve.getUTCDay() <= 4) {
+    holidays.push(holiday(christmasEve, 'Christmas Eve', '13:00'));
+  }
+
+  return holidays;
+}
+
+/**
+ * London Stock Exchange holidays (England and Wales bank holidays) and 12:30 early closes
+ * One-off bank holidays (jubilees, coronations, moved May holidays) are not included
+ */
+export function lseHolidays(year: number): CalendarHoliday[] {
+  const easter = easterSunday(year);
+  const newYear = new Date(Date.UTC(year, 0, 1));
+  const holidays: CalendarHoliday[] = [
+    holiday(isWeekday(newYear) ? newYear : nthWeekday(year, 1, 1, 1), "New Year's Day"),
+    holiday(addDays(easter, -2), 'Good Friday'),
+    holiday(addDays(easter, 1), 'Easter Monday'),
+    holiday(nthWeekday(year, 5, 1, 1), 'Early May Bank Holiday'),
+    holiday(nthWeekday(year, 5, 1, -1), 'Spring Bank Holiday'),
+    holiday(nthWeekday(year, 8, 1, -1), 'Summer Bank Holiday'),
+  ];
+
+  // Christmas and Boxing Day falling on a weekend are substituted by the next free weekdays
+  const [christmasDay, boxingDay] = CHRISTMAS_SUBSTITUTES[new Date(Date.UTC(year, 11, 25)).getUTCDay()] ?? [25, 26];
+  holidays.push(holiday(new Date(Date.UTC(year, 11, christmasDay)), 'Christmas Day'));
+  holidays.push(holiday(new Date(Date.UTC(year, 11, boxingDay)), 'Boxing Day'));
+
+  for (const [day, name] of [
+    [24, 'Christmas Eve'],
+    [31, "New Year's Eve"],
+  ] as const) {
+    const date = new Date(Date.UTC(year, 11, day));
+    if (isWeekday(date)) {
+      holidays.push(holiday(date, name, '12:30'));
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Xetra (Deutsche Börse) holidays
+ */
+export function xetraHolidays(year: number): CalendarHoliday[] {
+  const easter = easterSunday(year);
+  return [
+    holiday(new Date(Date.UTC(year, 0, 1)), "New Year's Day"),
+    holiday(addDays(easter, -2), 'Good Friday'),
+    holiday(addDays(easter, 1), 'Easter Monday'),
+    holiday(new Date(Date.UTC(year, 4, 1)), 'Labour Day'),
+    holiday(new Date(Date.UTC(year, 11, 24)), 'Christmas Eve'),
+    holiday(new Date(Date.UTC(year, 11, 25)), 'Christmas Day'),
+    holiday(new Date(Date.UTC(year, 11, 26)), 'Boxing Day'),
+    holiday(new Date(Date.UTC(year, 11, 31)), "New Year's Eve"),
+  ];
+}
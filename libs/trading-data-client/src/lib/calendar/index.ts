@@ -0,0 +1,3 @@
+export * from './trading-calendar.js';
+export * from './calendars.js';
+export { easterSunday, nyseHolidays, lseHolidays, xetraHolidays } from './holidays.js';
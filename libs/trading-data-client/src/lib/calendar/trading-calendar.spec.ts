@@ -0,0 +1,277 @@
+import { TradingCalendar } from './trading-calendar';
+import { calendarForSymbol, getTradingCalendar } from './calendars.js';
+import { easterSunday } from './holidays.js';
+import type { OHLCVData } from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+const bar = (date: string): OHLCVData => ({ date: new Date(date), open: 1, high: 1, low: 1, close: 1, volume: 1 });
+
+describe('TradingCalendar', () => {
+  describe('NYSE', () => {
+    const nyse = getTradingCalendar('NYSE');
+
+    it('should close on the 2024 holidays', () => {
+      const closed = [
+        '2024-01-01',
+        '2024-01-15',
+        '2024-02-19',
+        '2024-03-29',
+        '2024-05-27',
+        '2024-06-19',
+        '2024-07-04',
+        '2024-09-02',
+        '2024-11-28',
+        '2024-12-25',
+      ];
+
+      for (const date of closed) {
+        expect(nyse.isTradingDay(date)).toBe(false);
+      }
+      expect(nyse.getHoliday('2024-11-28')).toEqual({ date: '2024-11-28', name: 'Thanksgiving Day' });
+      expect(nyse.isTradingDay('2024-01-02')).toBe(true);
+      expect(nyse.isTradingDay('2024-01-06')).toBe(false);
+    });
+
+    it('should observe weekend holidays', () => {
+      // Christmas 2021 and New Year 2022 fell on Saturdays: only Christmas is moved to Friday
+      expect(nyse.isTradingDay('2021-12-24')).toBe(false);
+      expect(nyse.isTradingDay('2021-12-31')).toBe(true);
+      // Juneteenth 2022 fell on a Sunday
+      expect(nyse.isTradingDay('2022-06-20')).toBe(false);
+    });
+
+    it('should close early before and after holidays', () => {
+      expect(nyse.getSession('2024-11-29')).toEqual({
+        date: '2024-11-29',
+        open: new Date('2024-11-29T14:30:00Z'),
+        close: new Date('2024-11-29T18:00:00Z'),
+        earlyClose: true,
+      });
+      expect(nyse.isOpen(new Date('2024-07-03T16:30:00Z'))).toBe(true);
+      expect(nyse.isOpen(new Date('2024-07-03T17:30:00Z'))).toBe(false);
+      expect(nyse.getSession('2024-12-24')?.earlyClose).toBe(true);
+    });
+
+    it('should follow daylight saving time', () => {
+      expect(nyse.getSession('2024-03-08')?.open).toEqual(new Date('2024-03-08T14:30:00Z'));
+      expect(nyse.getSession('2024-03-11')?.open).toEqual(new Date('2024-03-11T13:30:00Z'));
+    });
+
+    it('should find the next and previous sessions', () => {
+      expect(nyse.nextSession(new Date('2024-03-28T21:00:00Z')).date).toBe('2024-04-01');
+      expect(nyse.nextSession(new Date('2024-04-01T15:00:00Z')).date).toBe('2024-04-01');
+      expect(nyse.previousSession(new Date('2024-04-01T15:00:00Z')).date).toBe('2024-03-28');
+    });
+
+    it('should list the sessions overlapping a range', () => {
+      const sessions = nyse.sessionsBetween(new Date('2024-01-12T20:00:00Z'), new Date('2024-01-16T15:00:00Z'));
+
+      expect(sessions.map((session) => session.date)).toEqual(['2024-01-12', '2024-01-16']);
+    });
+  });
+
+  describe('FX', () => {
+    const fx = getTradingCalendar('FX');
+
+    it('should open the Monday session on Sunday 17:00 New York', () => {
+      expect(fx.getSession('2024-01-08')).toEqual({
+        date: '2024-01-08',
+        open: new Date('2024-01-07T22:00:00Z'),
+        close: new Date('2024-01-08T22:00:00Z'),
+        earlyClose: false,
+      });
+      expect(fx.isTradingDay('2024-01-07')).toBe(false);
+    });
+
+    it('should be closed from Friday 17:00 to Sunday 17:00 New York', () => {
+      expect(fx.isOpen(new Date('2024-01-05T21:59:00Z'))).toBe(true);
+      expect(fx.isOpen(new Date('2024-01-06T12:00:00Z'))).toBe(false);
+      expect(fx.isOpen(new Date('2024-01-07T22:30:00Z'))).toBe(true);
+    });
+  });
+
+  describe('CRYPTO', () => {
+    it('should trade around the clock every day', () => {
+      const crypto = getTradingCalendar('CRYPTO');
+
+      expect(crypto.isOpen(new Date('2024-01-06T12:00:00Z'))).toBe(true);
+      expect(crypto.getSession('2024-01-06')).toMatchObject({
+        open: new Date('2024-01-06T00:00:00Z'),
+        close: new Date('2024-01-07T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('LSE and XETRA', () => {
+    it('should substitute Christmas and Boxing Day falling on weekends', () => {
+      const lse = getTradingCalendar('LSE');
+
+      // 2020: Christmas on Friday, Boxing Day on Saturday
+      expect(lse.isTradingDay('2020-12-28')).toBe(false);
+      // 2022: Christmas on Sunday
+      expect(lse.isTradingDay('2022-12-26')).toBe(false);
+      expect(lse.isTradingDay('2022-12-27')).toBe(false);
+      expect(lse.getSession('2024-12-24')?.close).toEqual(new Date('2024-12-24T12:30:00Z'));
+    });
+
+    it('should close Xetra on Labour Day', () => {
+      const xetra = getTradingCalendar('XETRA');
+
+      expect(xetra.isTradingDay('2024-05-01')).toBe(false);
+      expect(xetra.getSession('2024-05-02')?.open).toEqual(new Date('2024-05-02T07:00:00Z'));
+    });
+  });
+
+  describe('lookbackStart', () => {
+    const nyse = getTradingCalendar('NYSE');
+    const end = new Date('2024-01-17T21:00:00Z');
+
+    it('should count trading days, skipping weekends and holidays', () => {
+      // 2024-01-17, 16, 12, 11 and 10 (2024-01-15 is Martin Luther King Jr. Day)
+      expect(nyse.lookbackStart(end, 5, '1d')).toEqual(new Date('2024-01-10T00:00:00Z'));
+    });
+
+    it('should count intraday bars from the session open', () => {
+      // 7 hourly bars per session (14:30 to 20:30 UTC), 3 more from 2024-01-16
+      expect(nyse.lookbackStart(end, 10, '1h')).toEqual(new Date('2024-01-16T18:30:00Z'));
+    });
+
+    it('should count weeks with at least one session', () => {
+      expect(nyse.lookbackStart(end, 2, '1wk')).toEqual(new Date('2024-01-08T00:00:00Z'));
+    });
+
+    it('should use the hours of 24/5 and 24/7 markets', () => {
+      expect(getTradingCalendar('FX').lookbackStart(new Date('2024-01-08T00:30:00Z'), 3, '1h')).toEqual(
+        new Date('2024-01-07T22:00:00Z')
+      );
+      expect(getTradingCalendar('CRYPTO').lookbackStart(new Date('2024-01-07T12:00:00Z'), 3, '1d')).toEqual(
+        new Date('2024-01-05T00:00:00Z')
+      );
+    });
+
+    it('should reject invalid bar counts', () => {
+      expect(() => nyse.lookbackStart(end, 0, '1d')).toThrow(InvalidParameterError);
+    });
+  });
+
+  describe('nextBars', () => {
+    const nyse = getTradingCalendar('NYSE');
+
+    it('should project trading days, skipping weekends and holidays', () => {
+      // 2024-01-15 is Martin Luther King Jr. Day
+      expect(nyse.nextBars(new Date('2024-01-12T14:30:00Z'), 2, '1d')).toEqual([
+        new Date('2024-01-16T00:00:00Z'),
+        new Date('2024-01-17T00:00:00Z'),
+      ]);
+      expect(nyse.nextBars(new Date('2024-01-10T00:00:00Z'), 1, '1wk')).toEqual([new Date('2024-01-15T00:00:00Z')]);
+    });
+
+    it('should continue intraday bars at the next session open', () => {
+      expect(nyse.nextBars(new Date('2024-01-16T19:30:00Z'), 3, '1h')).toEqual([
+        new Date('2024-01-16T20:30:00Z'),
+        new Date('2024-01-17T14:30:00Z'),
+        new Date('2024-01-17T15:30:00Z'),
+      ]);
+      expect(getTradingCalendar('FX').nextBars(new Date('2024-01-05T21:00:00Z'), 1, '4h')).toEqual([
+        new Date('2024-01-07T20:00:00Z'),
+      ]);
+    });
+
+    it('should reject invalid bar counts', () => {
+      expect(() => nyse.nextBars(new Date('2024-01-12T14:30:00Z'), 0, '1d')).toThrow(InvalidParameterError);
+    });
+  });
+
+  describe('findMissingBars', () => {
+    const nyse = getTradingCalendar('NYSE');
+
+    it('should report missing intraday bars', () => {
+      const hours = ['14:30', '15:30', '17:30', '18:30', '19:30', '20:30'];
+      const candles = hours.map((hour) => bar(`2024-01-16T${hour}:00Z`));
+
+      expect(nyse.findMissingBars(candles, '1h')).toEqual([new Date('2024-01-16T16:30:00Z')]);
+    });
+
+    it('should match daily bars dated at UTC midnight or at the session open', () => {
+      const midnight = ['2024-01-02', '2024-01-03', '2024-01-05', '2024-01-08'].map((date) => bar(`${date}T00:00:00Z`));
+      const sessionOpen = [bar('2024-01-02T14:30:00Z'), bar('2024-01-05T14:30:00Z')];
+
+      expect(nyse.findMissingBars(midnight, '1d')).toEqual([new Date('2024-01-04T00:00:00Z')]);
+      expect(nyse.findMissingBars(sessionOpen, '1d')).toEqual([
+        new Date('2024-01-03T00:00:00Z'),
+        new Date('2024-01-04T00:00:00Z'),
+      ]);
+    });
+
+    it('should check an explicit range', () => {
+      const candles = [bar('2024-01-03T00:00:00Z')];
+
+      expect(
+        nyse.findMissingBars(candles, '1d', {
+          start: new Date('2024-01-01T00:00:00Z'),
+          end: new Date('2024-01-04T00:00:00Z'),
+        })
+      ).toEqual([new Date('2024-01-02T00:00:00Z'), new Date('2024-01-04T00:00:00Z')]);
+    });
+  });
+
+  it('should validate definitions and dates', () => {
+    const definition = { id: 'TEST', name: 'Test', timezone: 'UTC', open: '09:00', close: '17:00' };
+
+    expect(() => new TradingCalendar({ ...definition, timezone: 'Mars/Olympus' })).toThrow('Invalid timezone');
+    expect(() => new TradingCalendar({ ...definition, open: '9:00' })).toThrow('Invalid time "9:00"');
+    expect(() => new TradingCalendar({ ...definition, weekdays: [] })).toThrow(InvalidParameterError);
+    expect(() => new TradingCalendar(definition).getSession('2024-02-30')).toThrow('Invalid trading date');
+  });
+});
+
+describe('calendarForSymbol', () => {
+  it('should pick the calendar from the asset class and exchange', () => {
+    const ids = ['AAPL', 'EURUSD', 'BTC-USD', 'ES=F', 'SAP.DE', 'VOD.L', '^GDAXI', '^GSPC'].map(
+      (symbol) => calendarForSymbol(symbol).id
+    );
+
+    expect(ids).toEqual(['NYSE', 'FX', 'CRYPTO', 'CME', 'XETRA', 'LSE', 'XETRA', 'NYSE']);
+  });
+
+  it('should pick the calendar of other exchanges by suffix', () => {
+    const ids = ['MC.PA', 'ASML.AS', 'NESN.SW', 'RY.TO', '0700.HK', 'BHP.AX', '7203.T'].map(
+      (symbol) => calendarForSymbol(symbol).id
+    );
+
+    expect(ids).toEqual(['EURONEXT', 'EURONEXT', 'SIX', 'TSX', 'HKEX', 'ASX', 'JPX']);
+  });
+
+  it('should only assume weekdays for unknown exchanges', () => {
+    const calendar = calendarForSymbol('RELIANCE.NS');
+
+    expect(calendar.id).toBe('WEEKDAYS');
+    expect(calendar.isTradingDay('2024-01-05')).toBe(true);
+    expect(calendar.isTradingDay('2024-01-06')).toBe(false);
+    expect(calendarForSymbol('BRK.B').id).toBe('NYSE');
+  });
+
+  it('should know the hours but not the holidays of JPX, CME and the other hours-only calendars', () => {
+    // New Year's Day and Christmas close all of these exchanges
+    for (const id of ['JPX', 'EURONEXT', 'SIX', 'TSX', 'HKEX', 'ASX']) {
+      expect(getTradingCalendar(id).getHoliday('2024-01-01')).toBeUndefined();
+      expect(getTradingCalendar(id).isTradingDay('2024-01-01')).toBe(true);
+    }
+    expect(getTradingCalendar('CME').isTradingDay('2024-12-25')).toBe(true);
+    expect(getTradingCalendar('JPX').getSession('2024-01-04')).toMatchObject({
+      open: new Date('2024-01-04T00:00:00Z'),
+      close: new Date('2024-01-04T06:30:00Z'),
+    });
+  });
+
+  it('should reject unknown calendar ids', () => {
+    expect(() => getTradingCalendar('NOPE')).toThrow('Unknown trading calendar: NOPE');
+  });
+});
+
+describe('easterSunday', () => {
+  it('should compute Easter dates', () => {
+    expect(easterSunday(2024)).toEqual(new Date('2024-03-31T00:00:00Z'));
+    expect(easterSunday(2025)).toEqual(new Date('2025-04-20T00:00:00Z'));
+  });
+});
@@ -0,0 +1,457 @@
+import type {
+  CalendarHoliday,
+  MissingBarsOptions,
+  OHLCVData,
+  TimeInterval,
+  TradingCalendarDefinition,
+  TradingSession,
+} from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { getZonedParts, isValidTimeZone, zonedTimeToDate } from '../utils/timezone.js';
+import { intervalStart, toIntervalSpec } from '../resampling/resampler.js';
+import { isoDate } from './holidays.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Consecutive days without a session after which a search gives up
+ */
+const MAX_CLOSED_DAYS = 366;
+
+const DEFAULT_WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Trading sessions, holidays and early closes of an exchange or market
+ *
+ * Sessions are identified by their trading date ('YYYY-MM-DD'). Times are local to the
+ * calendar's timezone, so sessions follow daylight saving time changes. A session whose
+ * close is at or before its open starts the evening before its trading date (e.g. FX:
+ * the Monday session opens Sunday 17:00 New York).
+ *
+ * @example
+ * const nyse = getTradingCalendar('NYSE');
+ * nyse.isOpen();                                      // is the market open now?
+ * nyse.getSession('2024-11-29');                      // early close at 13:00
+ * nyse.lookbackStart(new Date(), 200, '1d');          // start date for 200 daily bars
+ * nyse.nextBars(lastCandle.date, 26, '1d');          // dates of the next 26 daily bars
+ * nyse.findMissingBars(candles, '1h');                // bars the data source did not deliver
+ */
+export class TradingCalendar {
+  readonly id: string;
+  readonly name: string;
+  readonly timezone: string;
+  private readonly openMinutes: number;
+  private readonly closeMinutes: number;
+  private readonly overnight: boolean;
+  private readonly weekdays: ReadonlySet<number>;
+  private readonly holidayRule?: (year: number) => CalendarHoliday[];
+  private readonly holidaysByYear = new Map<number, Map<string, CalendarHoliday>>();
+  private readonly sessions = new Map<number, TradingSession | null>();
+
+  /**
+   * @param definition - Timezone, session hours, weekdays and holidays
+   * @throws InvalidParameterError for invalid timezones, times or weekdays
+   */
+  constructor(definition: TradingCalendarDefinition) {
+    if (!isValidTimeZone(definition.timezone)) {
+      throw new InvalidParameterError(`Invalid timezone: ${definition.timezone}`, { parameter: 'timezone' });
+    }
+    const weekdays = definition.weekdays ?? DEFAULT_WEEKDAYS;
+    if (weekdays.length === 0 || weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new InvalidParameterError(`Invalid weekdays for calendar ${definition.id}`, { parameter: 'weekdays' });
+    }
+
+    this.id = definition.id;
+    this.name = definition.name;
+    this.timezone = definition.timezone;
+    this.openMinutes = parseTime(definition.open, 'open');
+    this.closeMinutes = parseTime(definition.close, 'close');
+    this.overnight = this.closeMinutes <= this.openMinutes;
+    this.weekdays = new Set(weekdays);
+    this.holidayRule = definition.holidays;
+  }
+
+  /**
+   * Holiday or early close on a trading date
+   * @param date - Trading date, 'YYYY-MM-DD'
+   */
+  getHoliday(date: string): CalendarHoliday | undefined {
+    return this.holidaysOf(new Date(parseDate(date)).getUTCFullYear()).get(date);
+  }
+
+  /**
+   * Check whether there is a session on a trading date
+   * @param date - Trading date, 'YYYY-MM-DD'
+   */
+  isTradingDay(date: string): boolean {
+    return this.sessionOn(parseDate(date)) !== undefined;
+  }
+
+  /**
+   * Session of a trading date
+   * @param date - Trading date, 'YYYY-MM-DD'
+   * @returns The session, or undefined on weekends and holidays
+   */
+  getSession(date: string): TradingSession | undefined {
+    return this.sessionOn(parseDate(date));
+  }
+
+  /**
+   * Session open at an instant
+   * @returns The session, or undefined while the market is closed
+   */
+  sessionAt(at: Date): TradingSession | undefined {
+    const day = this.localDay(at);
+    for (const candidate of [day - DAY, day, day + DAY]) {
+      const session = this.sessionOn(candidate);
+      if (session && session.open <= at && at < session.close) {
+        return session;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether the market is open
+   * @param at - Instant to check (default: now)
+   */
+  isOpen(at: Date = new Date()): boolean {
+    return this.sessionAt(at) !== undefined;
+  }
+
+  /**
+   * The session open at an instant, or else the next one to open
+   */
+  nextSession(at: Date = new Date()): TradingSession {
+    return this.findSession(this.localDay(at) - DAY, 1, (session) => session.close > at);
+  }
+
+  /**
+   * The last session closed at or before an instant
+   */
+  previousSession(at: Date = new Date()): TradingSession {
+    return this.findSession(this.localDay(at) + DAY, -1, (session) => session.close <= at);
+  }
+
+  /**
+   * Sessions overlapping a range, oldest first
+   */
+  sessionsBetween(start: Date, end: Date): TradingSession[] {
+    const sessions: TradingSession[] = [];
+    for (let day = this.localDay(start) - DAY; day <= this.localDay(end) + DAY; day += DAY) {
+      const session = this.sessionOn(day);
+      if (session && session.close > start && session.open < end) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Earliest start date that yields a number of bars up to an end date
+   *
+   * Intraday bars start at the session open; longer intervals count trading dates or
+   * buckets of them, so weekends, holidays and early closes are accounted for exactly.
+   *
+   * @param end - End of the range (e.g. now)
+   * @param bars - Number of bars needed
+   * @param interval - Bar interval
+   */
+  lookbackStart(end: Date, bars: number, interval: TimeInterval): Date {
+    if (!Number.isInteger(bars) || bars < 1) {
+      throw new InvalidParameterError(`Bar count must be a positive integer, got ${bars}`, { parameter: 'bars' });
+    }
+
+    let counted = 0;
+    let closedDays = 0;
+    let currentBucket: number | undefined;
+    let start: Date | undefined;
+
+    for (let day = this.localDay(end) + DAY; closedDays < MAX_CLOSED_DAYS; day -= DAY) {
+      const session = this.sessionOn(day);
+      if (!session || session.open > end) {
+        closedDays++;
+        continue;
+      }
+      closedDays = 0;
+
+      if (isIntraday(interval)) {
+        const starts = this.barStarts(session, interval).filter((barStart) => barStart <= end.getTime());
+        if (counted + starts.length >= bars) {
+          return new Date(starts[starts.length - (bars - counted)]);
+        }
+        counted += starts.length;
+        continue;
+      }
+
+      const bucket = dailyBucket(session.date, interval);
+      if (bucket !== currentBucket) {
+        if (counted === bars) {
+          return start!;
+        }
+        counted++;
+        currentBucket = bucket;
+      }
+      start = new Date(Math.min(session.open.getTime(), this.localMidnight(session.date), bucket));
+    }
+
+    if (start && counted === bars) {
+      return start;
+    }
+    throw new InvalidParameterError(`Calendar ${this.id} has no sessions before ${end.toISOString()}`, {
+      parameter: 'bars',
+    });
+  }
+
+  /**
+   * Start dates of the bars that follow an instant, e.g. to plot values ahead of the last candle
+   *
+   * Intraday bars start at the session open. Daily and longer bars are returned as UTC
+   * midnight of their (bucket) date, like findMissingBars; the bar containing the instant
+   * is not included.
+   *
+   * @param after - Instant to count from (e.g. the date of the last candle)
+   * @param bars - Number of bars needed
+   * @param interval - Bar interval
+   * @returns Start dates of the next bars, oldest first
+   */
+  nextBars(after: Date, bars: number, interval: TimeInterval): Date[] {
+    if (!Number.isInteger(bars) || bars < 1) {
+      throw new InvalidParameterError(`Bar count must be a positive integer, got ${bars}`, { parameter: 'bars' });
+    }
+
+    const starts: number[] = [];
+    const afterBucket = isIntraday(interval) ? after.getTime() : dailyBucket(this.tradingDateOf(after), interval);
+    let closedDays = 0;
+
+    for (let day = this.localDay(after) - DAY; closedDays < MAX_CLOSED_DAYS; day += DAY) {
+      const session = this.sessionOn(day);
+      if (!session) {
+        closedDays++;
+        continue;
+      }
+      closedDays = 0;
+
+      const sessionStarts = isIntraday(interval)
+        ? this.barStarts(session, interval)
+        : [dailyBucket(session.date, interval)];
+      for (const start of sessionStarts) {
+        if (start > afterBucket && start !== starts[starts.length - 1]) {
+          starts.push(start);
+          if (starts.length === bars) {
+            return starts.map((time) => new Date(time));
+          }
+        }
+      }
+    }
+
+    throw new InvalidParameterError(`Calendar ${this.id} has no sessions after ${after.toISOString()}`, {
+      parameter: 'bars',
+    });
+  }
+
+  /**
+   * Bars the calendar expects between two instants but the candles do not contain
+   *
+   * Intraday bars are matched by start time. Daily and longer bars are matched by trading
+   * date and returned as UTC midnight of their (bucket) date. A daily candle belongs to the
+   * session it falls in; outside sessions, to its local date at local midnight and else
+   * to its UTC date (covering providers that date daily bars at UTC midnight).
+   *
+   * @param candles - Candles sorted by date
+   * @param interval - Candle interval
+   * @param options - Range to check (default: first to last candle)
+   * @returns Start dates of the missing bars, oldest first
+   */
+  findMissingBars(candles: OHLCVData[], interval: TimeInterval, options: MissingBarsOptions = {}): Date[] {
+    const start = options.start ?? candles[0]?.date;
+    const end = options.end ?? candles[candles.length - 1]?.date;
+    if (!start || !end || start > end) {
+      return [];
+    }
+
+    if (isIntraday(interval)) {
+      const present = new Set(candles.map((candle) => candle.date.getTime()));
+      return this.sessionsBetween(start, new Date(end.getTime() + 1))
+        .flatMap((session) => this.barStarts(session, interval))
+        .filter((barStart) => barStart >= start.getTime() && barStart <= end.getTime() && !present.has(barStart))
+        .map((barStart) => new Date(barStart));
+    }
+
+    const present = new Set(candles.map((candle) => dailyBucket(this.tradingDateOf(candle.date), interval)));
+    const first = this.tradingDateOf(start);
+    const last = this.tradingDateOf(end);
+    const missing = new Set<number>();
+    for (let day = parseDate(first); day <= parseDate(last); day += DAY) {
+      const session = this.sessionOn(day);
+      if (session) {
+        const bucket = dailyBucket(session.date, interval);
+        if (!present.has(bucket)) {
+          missing.add(bucket);
+        }
+      }
+    }
+    return [...missing].map((bucket) => new Date(bucket));
+  }
+
+  private findSession(
+    from: number,
+    step: 1 | -1,
+    matches: (session: TradingSession) => boolean
+  ): TradingSession {
+    let closedDays = 0;
+    for (let day = from; closedDays < MAX_CLOSED_DAYS; day += step * DAY) {
+      const session = this.sessionOn(day);
+      if (session && matches(session)) {
+        return session;
+      }
+      closedDays = session ? 0 : closedDays + 1;
+    }
+    throw new InvalidParameterError(`Calendar ${this.id} has no sessions within ${MAX_CLOSED_DAYS} days`);
+  }
+
+  /**
+   * Session of a trading date given as UTC midnight, cached
+   */
+  private sessionOn(day: number): TradingSession | undefined {
+    const cached = this.sessions.get(day);
+    if (cached !== undefined) {
+      return cached ?? undefined;
+    }
+
+    const date = new Date(day);
+    const holiday = this.holidaysOf(date.getUTCFullYear()).get(isoDate(date));
+    let session: TradingSession | null = null;
+
+    if (this.weekdays.has(date.getUTCDay()) && (!holiday || holiday.earlyClose)) {
+      const closeMinutes = holiday?.earlyClose ? parseTime(holiday.earlyClose, 'earlyClose') : this.closeMinutes;
+      session = {
+        date: isoDate(date),
+        open: this.localTime(this.overnight ? day - DAY : day, this.openMinutes),
+        close: this.localTime(day, closeMinutes),
+        earlyClose: holiday?.earlyClose !== undefined,
+      };
+    }
+
+    this.sessions.set(day, session);
+    return session ?? undefined;
+  }
+
+  private holidaysOf(year: number): Map<string, CalendarHoliday> {
+    let holidays = this.holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = new Map();
+      for (const holiday of this.holidayRule?.(year) ?? []) {
+        // A full closure wins over an early close on the same date
+        if (!holidays.get(holiday.date) || !holiday.earlyClose) {
+          holidays.set(holiday.date, holiday);
+        }
+      }
+      this.holidaysByYear.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /**
+   * Bar start times of a session, in milliseconds
+   * Bars up to an hour start at the session open; longer intraday bars are hourly bars
+   * grouped like MarketDataClient resamples them
+   */
+  private barStarts(session: TradingSession, interval: TimeInterval): number[] {
+    const spec = toIntervalSpec(interval);
+    const step = spec.count * (spec.unit === 'minute' ? MINUTE : HOUR);
+    const baseStep = Math.min(step, HOUR);
+    const starts: number[] = [];
+
+    for (let time = session.open.getTime(); time < session.close.getTime(); time += baseStep) {
+      const barStart = step > HOUR ? intervalStart(new Date(time), interval).getTime() : time;
+      if (starts[starts.length - 1] !== barStart) {
+        starts.push(barStart);
+      }
+    }
+    return starts;
+  }
+
+  /**
+   * Trading date of a daily candle: its session, else its local date at local midnight, else its UTC date
+   */
+  private tradingDateOf(date: Date): string {
+    const session = this.sessionAt(date);
+    if (session) {
+      return session.date;
+    }
+    const parts = getZonedParts(date, this.timezone);
+    if (parts.hour === 0 && parts.minute === 0) {
+      return isoDate(new Date(Date.UTC(parts.year, parts.month - 1, parts.day)));
+    }
+    return isoDate(date);
+  }
+
+  /**
+   * Local date of an instant as UTC midnight
+   */
+  private localDay(at: Date): number {
+    const parts = getZonedParts(at, this.timezone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day);
+  }
+
+  private localMidnight(date: string): number {
+    return this.localTime(parseDate(date), 0).getTime();
+  }
+
+  /**
+   * Instant of a local time (minutes after midnight, up to 24:00) on a date given as UTC midnight
+   */
+  private localTime(day: number, minutes: number): Date {
+    const date = new Date(day + Math.floor(minutes / (24 * 60)) * DAY);
+    const minuteOfDay = minutes % (24 * 60);
+    return zonedTimeToDate(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      Math.floor(minuteOfDay / 60),
+      minuteOfDay % 60,
+      0,
+      0,
+      this.timezone
+    );
+  }
+}
+
+function isIntraday(interval: TimeInterval): boolean {
+  const { unit } = toIntervalSpec(interval);
+  return unit === 'minute' || unit === 'hour';
+}
+
+/**
+ * Bucket of a trading date for daily and longer intervals, as UTC midnight of the bucket start
+ */
+function dailyBucket(date: string, interval: TimeInterval): number {
+  return intervalStart(new Date(parseDate(date)), interval).getTime();
+}
+
+/**
+ * Parse 'YYYY-MM-DD' to UTC midnight
+ */
+function parseDate(date: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const day = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+  if (isNaN(day) || isoDate(new Date(day)) !== date) {
+    throw new InvalidParameterError(`Invalid trading date "${date}", expected YYYY-MM-DD`, { parameter: 'date' });
+  }
+  return day;
+}
+
+/**
+ * Parse 'HH:mm' (up to '24:00') to minutes after midnight
+ */
+function parseTime(time: string, parameter: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) >= 60 || !(minutes <= 24 * 60)) {
+    throw new InvalidParameterError(`Invalid time "${time}", expected HH:mm`, { parameter });
+  }
+  return minutes;
+}
@@ -0,0 +1,72 @@
+import { isTransientError } from '../resilience/retry.js';
+import {
+  DataFormatError,
+  DataQualityError,
+  InsufficientDataError,
+  InvalidParameterError,
+  NetworkError,
+  RateLimitedError,
+  SymbolNotFoundError,
+  TradingDataError,
+  UnsupportedIntervalError,
+  type ErrorContext,
+} from './trading-errors.js';
+
+const RATE_LIMIT_PATTERN = /\b429\b|too many requests|rate limit/i;
+const NOT_FOUND_PATTERN = /\b404\b|not found|no data found|delisted|invalid symbol|unknown symbol/i;
+
+/**
+ * Wrap an error from a data source in the matching trading error
+ * The original error becomes the cause; typed errors keep their kind and fields
+ * @param error - Caught error
+ * @param message - Message of the new error
+ * @param context - Symbol and interval of the failed request
+ */
+export function toTradingDataError(
+  error: unknown,
+  message: string,
+  context: ErrorContext
+): TradingDataError {
+  const options = { ...context, cause: error };
+
+  if (error instanceof RateLimitedError) {
+    return new RateLimitedError(message, { ...options, retryAfter: error.retryAfter });
+  }
+  if (error instanceof InsufficientDataError) {
+    return new InsufficientDataError(message, { ...options, required: error.required, actual: error.actual });
+  }
+  if (error instanceof UnsupportedIntervalError) {
+    return new UnsupportedIntervalError(message, {
+      ...options,
+      interval: error.interval ?? context.interval,
+      supported: error.supported,
+    });
+  }
+  if (error instanceof InvalidParameterError) {
+    return new InvalidParameterError(message, { ...options, parameter: error.parameter });
+  }
+  if (error instanceof DataQualityError) {
+    return new DataQualityError(message, { ...options, report: error.report });
+  }
+  if (error instanceof DataFormatError) {
+    return new DataFormatError(message, { ...options, path: error.path, line: error.line });
+  }
+  if (error instanceof SymbolNotFoundError) {
+    return new SymbolNotFoundError(message, options);
+  }
+  if (error instanceof NetworkError) {
+    return new NetworkError(message, options);
+  }
+
+  const text = error instanceof Error ? `${(error as NodeJS.ErrnoException).code ?? ''} ${error.message}` : String(error);
+  if (RATE_LIMIT_PATTERN.test(text)) {
+    return new RateLimitedError(message, options);
+  }
+  if (NOT_FOUND_PATTERN.test(text)) {
+    return new SymbolNotFoundError(message, options);
+  }
+  if (isTransientError(error)) {
+    return new NetworkError(message, options);
+  }
+  return new TradingDataError(message, options);
+}
@@ -0,0 +1,2 @@
+export * from './trading-errors.js';
+export * from './classify-error.js';
@@ -0,0 +1,96 @@
+import {
+  DataFormatError,
+  InsufficientDataError,
+  InvalidParameterError,
+  NetworkError,
+  RateLimitedError,
+  SymbolNotFoundError,
+  TradingDataError,
+  UnsupportedIntervalError,
+  withErrorContext,
+} from './trading-errors';
+import { toTradingDataError } from './classify-error';
+import { CircuitOpenError, TimeoutError } from '../resilience/errors.js';
+
+describe('trading errors', () => {
+  it('should share a common base class with name, context and cause', () => {
+    const cause = new Error('upstream');
+    const error = new SymbolNotFoundError('Unknown symbol XYZ', { symbol: 'XYZ', interval: '1d', cause });
+
+    expect(error).toBeInstanceOf(TradingDataError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('SymbolNotFoundError');
+    expect(error.symbol).toBe('XYZ');
+    expect(error.interval).toBe('1d');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should carry error specific fields', () => {
+    expect(new InsufficientDataError('Not enough', { required: 20, actual: 5 })).toMatchObject({ required: 20, actual: 5 });
+    expect(new RateLimitedError('Slow down', { retryAfter: 1000 }).retryAfter).toBe(1000);
+    expect(new UnsupportedIntervalError('Nope', { supported: ['1d'] }).supported).toEqual(['1d']);
+    expect(new InvalidParameterError('Bad', { parameter: 'period' }).parameter).toBe('period');
+    expect(new DataFormatError('Invalid date', { path: 'a.csv', line: 3 })).toMatchObject({ path: 'a.csv', line: 3 });
+  });
+
+  it('should treat timeouts and open circuits as network errors', () => {
+    expect(new TimeoutError('Request timed out after 10ms', 10)).toBeInstanceOf(NetworkError);
+    expect(new CircuitOpenError('Circuit breaker is open', new Date())).toBeInstanceOf(NetworkError);
+  });
+
+  describe('withErrorContext', () => {
+    it('should fill in missing symbol and interval only', () => {
+      const error = new InsufficientDataError('Not enough', { required: 20, actual: 5, interval: '1h' });
+
+      const result = withErrorContext(error, { symbol: 'AAPL', interval: '1d' });
+
+      expect(result).toBe(error);
+      expect(error.symbol).toBe('AAPL');
+      expect(error.interval).toBe('1h');
+    });
+
+    it('should leave other errors untouched', () => {
+      const error = new Error('plain');
+
+      expect(withErrorContext(error, { symbol: 'AAPL' })).toBe(error);
+      expect(error).not.toHaveProperty('symbol');
+    });
+  });
+
+  describe('toTradingDataError', () => {
+    const context = { symbol: 'AAPL', interval: '1d' };
+
+    it.each([
+      [new Error('Too Many Requests'), RateLimitedError],
+      [new Error('HTTP 429'), RateLimitedError],
+      [new Error('Quote not found for symbol: AAPL'), SymbolNotFoundError],
+      [Object.assign(new Error('getaddrinfo failed'), { code: 'ENOTFOUND' }), NetworkError],
+      [new TimeoutError('Request timed out after 10ms', 10), NetworkError],
+      [new Error('Unexpected response'), TradingDataError],
+    ])('should map %p', (cause, expected) => {
+      const error = toTradingDataError(cause, 'Failed', context);
+
+      expect(error).toBeInstanceOf(expected);
+      expect(error.cause).toBe(cause);
+      expect(error.symbol).toBe('AAPL');
+    });
+
+    it('should keep the kind and fields of typed errors', () => {
+      const cause = new InsufficientDataError('Not enough', { required: 20, actual: 5 });
+
+      const error = toTradingDataError(cause, 'Failed', context);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ required: 20, actual: 5, message: 'Failed' });
+    });
+
+    it('should not read file format errors as unknown symbols', () => {
+      const cause = new DataFormatError('No data array found in a.json', { path: 'a.json' });
+
+      const error = toTradingDataError(cause, 'Failed', context);
+
+      expect(error).toBeInstanceOf(DataFormatError);
+      expect(error).toMatchObject({ path: 'a.json', message: 'Failed' });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import type { DataQualityReport, TimeInterval } from '../types/index.js';
+
+/**
+ * Context attached to trading errors
+ */
+export interface ErrorContext {
+  /** Symbol as passed by the caller */
+  symbol?: string;
+  /** Requested interval */
+  interval?: TimeInterval | string;
+}
+
+/**
+ * Options shared by all trading errors
+ */
+export interface TradingErrorOptions extends ErrorContext {
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of all errors thrown by the trading libraries
+ * Catch this to handle any data or indicator failure; use the subclasses to tell cases apart
+ */
+export class TradingDataError extends Error {
+  /** Symbol as passed by the caller */
+  symbol?: string;
+  /** Requested interval */
+  interval?: TimeInterval | string;
+
+  constructor(message: string, options: TradingErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'TradingDataError';
+    this.symbol = options.symbol;
+    this.interval = options.interval;
+  }
+}
+
+/**
+ * The data source does not know the symbol or has no data for it
+ */
+export class SymbolNotFoundError extends TradingDataError {
+  constructor(message: string, options: TradingErrorOptions = {}) {
+    super(message, options);
+    this.name = 'SymbolNotFoundError';
+  }
+}
+
+/**
+ * The data source rejected the request because of rate limiting
+ */
+export class RateLimitedError extends TradingDataError {
+  /** Suggested wait before the next request in milliseconds (if known) */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: TradingErrorOptions & { retryAfter?: number } = {}) {
+    super(message, options);
+    this.name = 'RateLimitedError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The data source could not be reached or failed to answer (connection errors, timeouts, 5xx)
+ */
+export class NetworkError extends TradingDataError {
+  constructor(message: string, options: TradingErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Not enough data points for a calculation
+ */
+export class InsufficientDataError extends TradingDataError {
+  /** Data points needed */
+  readonly required: number;
+  /** Data points available */
+  readonly actual: number;
+
+  constructor(message: string, options: TradingErrorOptions & { required: number; actual: number }) {
+    super(message, options);
+    this.name = 'InsufficientDataError';
+    this.required = options.required;
+    this.actual = options.actual;
+  }
+}
+
+/**
+ * The requested interval is not supported by the data source or calculation
+ */
+export class UnsupportedIntervalError extends TradingDataError {
+  /** Intervals that are supported (if known) */
+  readonly supported?: ReadonlyArray<TimeInterval | string>;
+
+  constructor(
+    message: string,
+    options: TradingErrorOptions & { supported?: ReadonlyArray<TimeInterval | string> } = {}
+  ) {
+    super(message, options);
+    this.name = 'UnsupportedIntervalError';
+    this.supported = options.supported;
+  }
+}
+
+/**
+ * A parameter is invalid (e.g., a non-positive period or fast period >= slow period)
+ */
+export class InvalidParameterError extends TradingDataError {
+  /** Name of the invalid parameter (if known) */
+  readonly parameter?: string;
+
+  constructor(message: string, options: TradingErrorOptions & { parameter?: string } = {}) {
+    super(message, options);
+    this.name = 'InvalidParameterError';
+    this.parameter = options.parameter;
+  }
+}
+
+/**
+ * Historical data failed validation under the 'throw' data quality policy
+ */
+export class DataQualityError extends TradingDataError {
+  /** Quality report of the rejected bars */
+  readonly report: DataQualityReport;
+
+  constructor(message: string, options: TradingErrorOptions & { report: DataQualityReport }) {
+    super(message, options);
+    this.name = 'DataQualityError';
+    this.report = options.report;
+  }
+}
+
+/**
+ * A data file cannot be parsed (malformed JSON, invalid dates or prices)
+ */
+export class DataFormatError extends TradingDataError {
+  /** Path of the file */
+  readonly path: string;
+  /** Line or record number of the invalid row (if known) */
+  readonly line?: number;
+
+  constructor(message: string, options: TradingErrorOptions & { path: string; line?: number }) {
+    super(message, options);
+    this.name = 'DataFormatError';
+    this.path = options.path;
+    this.line = options.line;
+  }
+}
+
+/**
+ * Fill in missing symbol and interval of a trading error
+ * Other values are returned unchanged
+ * @param error - Caught error
+ * @param context - Symbol and interval of the failed operation
+ * @returns The same error
+ */
+export function withErrorContext<T>(error: T, context: ErrorContext): T {
+  if (error instanceof TradingDataError) {
+    error.symbol ??= context.symbol;
+    error.interval ??= context.interval;
+  }
+  return error;
+}
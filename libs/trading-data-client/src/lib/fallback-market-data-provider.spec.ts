@@ -0,0 +1,108 @@
+import { FallbackMarketDataProvider } from './fallback-market-data-provider';
+import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
+import type { OHLCVData } from './types/index.js';
+import { NetworkError } from './errors/index.js';
+
+const candles = (close: number): OHLCVData[] => [
+  { date: new Date('2024-01-02T00:00:00Z'), open: close, high: close, low: close, close, volume: 1 },
+];
+
+describe('FallbackMarketDataProvider', () => {
+  let live: jest.Mocked<IMarketDataProvider>;
+  let backfill: jest.Mocked<IMarketDataProvider>;
+  let provider: FallbackMarketDataProvider;
+  const params = { symbol: 'EURUSD', startDate: new Date('2024-01-01T00:00:00Z') };
+
+  beforeEach(() => {
+    live = {
+      getHistoricalData: jest.fn().mockResolvedValue(candles(1)),
+      getQuote: jest.fn().mockResolvedValue({ symbol: 'EURUSD=X', price: 1.1, timestamp: new Date() }),
+      getQuotes: jest.fn(),
+      getHistoricalDataBatch: jest.fn(),
+    };
+    backfill = {
+      getHistoricalData: jest.fn().mockResolvedValue(candles(2)),
+      getQuote: jest.fn().mockResolvedValue({ symbol: 'EURUSD=X', price: 1.2, timestamp: new Date() }),
+      getQuotes: jest.fn(),
+      getHistoricalDataBatch: jest.fn(),
+    };
+    provider = new FallbackMarketDataProvider([
+      { name: 'live', provider: live },
+      { name: 'backfill', provider: backfill },
+    ]);
+  });
+
+  it('should report the serving provider', async () => {
+    const result = await provider.getHistoricalDataWithProvider(params);
+
+    expect(result.provider).toBe('live');
+    expect(result.data).toEqual(candles(1));
+    expect(backfill.getHistoricalData).not.toHaveBeenCalled();
+  });
+
+  it('should fall back on errors and empty results', async () => {
+    live.getHistoricalData.mockResolvedValueOnce([]);
+    live.getQuote.mockRejectedValueOnce(new NetworkError('Failed to fetch quote'));
+
+    const history = await provider.getHistoricalDataWithProvider(params);
+    const quote = await provider.getQuoteWithProvider('EURUSD');
+
+    expect(history).toMatchObject({ provider: 'backfill', attempts: [{ provider: 'live', empty: true }, { provider: 'backfill' }] });
+    expect(quote.provider).toBe('backfill');
+    expect(quote.data.price).toBe(1.2);
+  });
+
+  it('should return empty results when fallback on empty is disabled', async () => {
+    live.getHistoricalData.mockResolvedValue([]);
+    const strict = new FallbackMarketDataProvider(
+      [
+        { name: 'live', provider: live },
+        { name: 'backfill', provider: backfill },
+      ],
+      { fallbackOnEmpty: false }
+    );
+
+    expect(await strict.getHistoricalData(params)).toEqual([]);
+    expect(backfill.getHistoricalData).not.toHaveBeenCalled();
+  });
+
+  it('should route by asset class of the user symbol', async () => {
+    const routed = new FallbackMarketDataProvider(
+      [
+        { name: 'live', provider: live },
+        { name: 'backfill', provider: backfill },
+      ],
+      { routes: [{ match: ['forex', 'crypto'], providers: ['backfill', 'live'] }] }
+    );
+
+    expect((await routed.getQuoteWithProvider('EUR/USD')).provider).toBe('backfill');
+    expect((await routed.getQuoteWithProvider('AAPL')).provider).toBe('live');
+  });
+
+  it('should fall back per symbol in batches', async () => {
+    live.getQuote.mockImplementation(async (symbol) => {
+      if (symbol === 'GBPUSD') {
+        throw new NetworkError('live down');
+      }
+      return { symbol, price: 1.1, timestamp: new Date() };
+    });
+    backfill.getQuote.mockRejectedValue(new NetworkError('backfill down'));
+
+    const results = await provider.getQuotes(['EURUSD', 'GBPUSD']);
+
+    expect(results[0].data?.price).toBe(1.1);
+    expect(results[1].error).toBeInstanceOf(NetworkError);
+    expect(results[1].error?.message).toBe('All providers failed for GBPUSD (live: live down; backfill: backfill down)');
+  });
+
+  it('should throw a typed error when all providers fail', async () => {
+    live.getQuote.mockRejectedValue(new NetworkError('live down'));
+    backfill.getQuote.mockRejectedValue(new NetworkError('backfill down'));
+
+    const error = await provider.getQuote('EURUSD').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('All providers failed for EURUSD (live: live down; backfill: backfill down)');
+    expect(error.symbol).toBe('EURUSD');
+  });
+});
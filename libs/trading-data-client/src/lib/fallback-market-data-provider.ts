@@ -0,0 +1,110 @@
+import type {
+  BatchItemResult,
+  BatchOptions,
+  FallbackOptions,
+  HistoricalDataParams,
+  NamedProvider,
+  OHLCVData,
+  ProviderResult,
+  QuoteData,
+} from './types/index.js';
+import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
+import { ProviderChain } from './utils/provider-chain.js';
+import { runBatch } from './batch/run-batch.js';
+
+/**
+ * Market data provider that tries several providers in turn
+ *
+ * Design principles:
+ * - Implements IMarketDataProvider, so it can be passed wherever a provider is expected (substitutable)
+ * - Composes providers instead of adapters, so each one keeps its own caching, resilience and symbol handling
+ *
+ * Fallback behavior:
+ * - Routes select the providers and their order per symbol, e.g. by asset class
+ * - Errors and empty results fall through to the next provider (configurable)
+ * - The serving provider is reported through `onServed` and the `*WithProvider` methods
+ *
+ * @example
+ * const provider = new FallbackMarketDataProvider(
+ *   [
+ *     { name: 'yahoo', provider: new MarketDataClient() },
+ *     { name: 'backfill', provider: new MarketDataClient(new FileDataSourceAdapter({ directory: 'data' })) },
+ *   ],
+ *   { routes: [{ match: 'crypto', providers: ['backfill'] }] }
+ * );
+ * const { data, provider: servedBy } = await provider.getHistoricalDataWithProvider(params);
+ */
+export class FallbackMarketDataProvider implements IMarketDataProvider {
+  private readonly chain: ProviderChain<IMarketDataProvider>;
+
+  /**
+   * @param providers - Named providers, in default order of preference
+   * @param options - Routing rules, fallback policy and report callback
+   */
+  constructor(providers: NamedProvider<IMarketDataProvider>[], options: FallbackOptions = {}) {
+    this.chain = new ProviderChain(providers, options);
+  }
+
+  /**
+   * Fetch historical OHLCV data from the first provider that has it
+   * @param params - Parameters for fetching historical data
+   * @returns Promise resolving to array of OHLCV data points
+   */
+  async getHistoricalData(params: HistoricalDataParams): Promise<OHLCVData[]> {
+    return (await this.getHistoricalDataWithProvider(params)).data;
+  }
+
+  /**
+   * Fetch current quote data from the first provider that has it
+   * @param symbol - Asset symbol
+   * @returns Promise resolving to quote data
+   */
+  async getQuote(symbol: string): Promise<QuoteData> {
+    return (await this.getQuoteWithProvider(symbol)).data;
+  }
+
+  /**
+   * Fetch current quotes of several assets, each from the first provider that has it
+   * Symbols are routed and fall back one by one, so multi-symbol quote requests of the providers are not used.
+   * @param symbols - Asset symbols
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  async getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]> {
+    return runBatch(symbols, (symbol) => symbol, (symbol) => this.getQuote(symbol), options);
+  }
+
+  /**
+   * Fetch historical OHLCV data of several requests, each from the first provider that has it
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  async getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]> {
+    return runBatch(paramsList, (params) => params.symbol, (params) => this.getHistoricalData(params), options);
+  }
+
+  /**
+   * Fetch historical OHLCV data together with the provider that served it
+   * @param params - Parameters for fetching historical data
+   */
+  async getHistoricalDataWithProvider(params: HistoricalDataParams): Promise<ProviderResult<OHLCVData[]>> {
+    return this.chain.execute(
+      'getHistoricalData',
+      params.symbol,
+      (provider) => provider.getHistoricalData(params),
+      (data) => data.length === 0
+    );
+  }
+
+  /**
+   * Fetch current quote data together with the provider that served it
+   * @param symbol - Asset symbol
+   */
+  async getQuoteWithProvider(symbol: string): Promise<ProviderResult<QuoteData>> {
+    return this.chain.execute('getQuote', symbol, (provider) => provider.getQuote(symbol));
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Currency and crypto asset codes used to recognize currency and crypto pairs
+ */
+
+/**
+ * Active ISO 4217 currency codes, the offshore yuan (CNH) and precious metals (XAU, XAG, XPT, XPD)
+ */
+export const CURRENCY_CODES: ReadonlySet<string> = new Set([
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN',
+  'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF',
+  'CLP', 'CNH', 'CNY', 'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN',
+  'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD', 'GNF', 'GTQ', 'GYD', 'HKD', 'HNL',
+  'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR',
+  'KMF', 'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL', 'LYD', 'MAD', 'MDL',
+  'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN',
+  'NIO', 'NOK', 'NPR', 'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR', 'RON',
+  'RSD', 'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP',
+  'STN', 'SVC', 'SYP', 'SZL', 'THB', 'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH',
+  'UGX', 'USD', 'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XOF', 'XPF', 'YER', 'ZAR',
+  'ZMW', 'ZWL', 'XAU', 'XAG', 'XPT', 'XPD',
+]);
+
+/**
+ * Crypto assets recognized without a separator (e.g., 'BTCUSDT')
+ * Pairs written with a separator ('XYZ-USD', 'XYZ/USDT') are recognized for any asset
+ */
+export const CRYPTO_ASSETS: ReadonlySet<string> = new Set([
+  'BTC', 'ETH', 'USDT', 'USDC', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'TRX', 'DOT', 'MATIC', 'LTC',
+  'SHIB', 'AVAX', 'LINK', 'BCH', 'XLM', 'ATOM', 'UNI', 'ETC', 'XMR', 'FIL', 'APT', 'ARB', 'OP', 'NEAR',
+]);
+
+/**
+ * Quote currencies of crypto pairs, longest first so that 'BTCUSDT' is not read as 'BTCUSD' + 'T'
+ */
+export const CRYPTO_QUOTES: readonly string[] = ['USDT', 'USDC', 'USD', 'EUR', 'GBP', 'JPY', 'BTC', 'ETH'];
+
+/**
+ * Pip sizes of precious metals quoted against a currency (e.g., XAUUSD)
+ */
+export const METAL_PIP_SIZES: Readonly<Record<string, number>> = { XAU: 0.1, XAG: 0.01, XPT: 0.1, XPD: 0.1 };
+
+/**
+ * Quote currencies with a pip size of 0.01 instead of 0.0001
+ */
+export const LARGE_UNIT_QUOTES: ReadonlySet<string> = new Set(['JPY', 'HUF']);
@@ -0,0 +1,69 @@
+import type { InstrumentDefinition } from '../types/index.js';
+
+/**
+ * Built-in instruments whose details cannot be inferred from their symbol
+ *
+ * Currency pairs, crypto pairs with a separator and stocks are inferred, so only
+ * futures contracts, indices, aliases and symbols of providers without a regular
+ * convention (index CFDs, index tickers) are listed here.
+ */
+export const DEFAULT_INSTRUMENTS: readonly InstrumentDefinition[] = [
+  // Crypto majors quoted in cents rather than satoshi-sized increments
+  { symbol: 'BTCUSD', name: 'Bitcoin', tickSize: 0.01 },
+  { symbol: 'ETHUSD', name: 'Ether', tickSize: 0.01 },
+
+  // Indices
+  {
+    symbol: '^GSPC',
+    name: 'S&P 500',
+    aliases: ['SPX'],
+    providerSymbols: { oanda: 'SPX500_USD', stooq: '^spx' },
+  },
+  {
+    symbol: '^NDX',
+    name: 'Nasdaq 100',
+    aliases: ['NDX'],
+    providerSymbols: { oanda: 'NAS100_USD', stooq: '^ndx' },
+  },
+  { symbol: '^IXIC', name: 'Nasdaq Composite', providerSymbols: { stooq: '^ndq' } },
+  {
+    symbol: '^DJI',
+    name: 'Dow Jones Industrial Average',
+    aliases: ['DJI', 'DJIA'],
+    providerSymbols: { oanda: 'US30_USD', stooq: '^dji' },
+  },
+  { symbol: '^RUT', name: 'Russell 2000', aliases: ['RUT'] },
+  { symbol: '^VIX', name: 'CBOE Volatility Index', aliases: ['VIX'] },
+  {
+    symbol: '^FTSE',
+    name: 'FTSE 100',
+    calendar: 'LSE',
+    quoteCurrency: 'GBP',
+    providerSymbols: { oanda: 'UK100_GBP', stooq: '^ukx' },
+  },
+  { symbol: '^FTMC', name: 'FTSE 250', calendar: 'LSE', quoteCurrency: 'GBP' },
+  {
+    symbol: '^GDAXI',
+    name: 'DAX',
+    calendar: 'XETRA',
+    quoteCurrency: 'EUR',
+    providerSymbols: { oanda: 'DE30_EUR', stooq: '^dax' },
+  },
+  { symbol: '^MDAXI', name: 'MDAX', calendar: 'XETRA', quoteCurrency: 'EUR' },
+  { symbol: '^N225', name: 'Nikkei 225', calendar: 'JPX', quoteCurrency: 'JPY', providerSymbols: { stooq: '^nkx' } },
+
+  // Futures (front month continuous contracts)
+  { symbol: '/ES', name: 'E-mini S&P 500', exchange: 'CME', tickSize: 0.25, contractMultiplier: 50 },
+  { symbol: '/MES', name: 'Micro E-mini S&P 500', exchange: 'CME', tickSize: 0.25, contractMultiplier: 5 },
+  { symbol: '/NQ', name: 'E-mini Nasdaq 100', exchange: 'CME', tickSize: 0.25, contractMultiplier: 20 },
+  { symbol: '/MNQ', name: 'Micro E-mini Nasdaq 100', exchange: 'CME', tickSize: 0.25, contractMultiplier: 2 },
+  { symbol: '/YM', name: 'E-mini Dow', exchange: 'CBOT', tickSize: 1, contractMultiplier: 5 },
+  { symbol: '/RTY', name: 'E-mini Russell 2000', exchange: 'CME', tickSize: 0.1, contractMultiplier: 50 },
+  { symbol: '/CL', name: 'Crude Oil', exchange: 'NYMEX', tickSize: 0.01, contractMultiplier: 1000 },
+  { symbol: '/NG', name: 'Natural Gas', exchange: 'NYMEX', tickSize: 0.001, contractMultiplier: 10000 },
+  { symbol: '/GC', name: 'Gold', exchange: 'COMEX', tickSize: 0.1, contractMultiplier: 100 },
+  { symbol: '/SI', name: 'Silver', exchange: 'COMEX', tickSize: 0.005, contractMultiplier: 5000 },
+  { symbol: '/ZN', name: '10-Year T-Note', exchange: 'CBOT', tickSize: 0.015625, contractMultiplier: 1000 },
+  { symbol: '/ZB', name: 'U.S. Treasury Bond', exchange: 'CBOT', tickSize: 0.03125, contractMultiplier: 1000 },
+  { symbol: '/6E', name: 'Euro FX', exchange: 'CME', tickSize: 0.00005, contractMultiplier: 125000 },
+];
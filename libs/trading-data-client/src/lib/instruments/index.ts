@@ -0,0 +1,4 @@
+export * from './instrument-registry.js';
+export * from './symbol-formats.js';
+export { DEFAULT_INSTRUMENTS } from './default-instruments.js';
+export { CURRENCY_CODES } from './currencies.js';
@@ -0,0 +1,190 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InstrumentRegistry, fromPips, pricePrecision, roundPrice, roundToTick, toPips } from './instrument-registry';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+describe('InstrumentRegistry', () => {
+  const registry = new InstrumentRegistry();
+
+  describe('resolve', () => {
+    it('should resolve currency pairs in any format to one instrument', () => {
+      const inputs = ['EURUSD', 'EUR/USD', 'eur-usd', ' EURUSD=X ', 'EUR_USD'];
+
+      for (const input of inputs) {
+        expect(registry.resolve(input)).toEqual({
+          symbol: 'EURUSD',
+          assetClass: 'forex',
+          calendar: 'FX',
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          tickSize: 0.00001,
+          pipSize: 0.0001,
+          contractMultiplier: 1,
+          providerSymbols: { yahoo: 'EURUSD=X' },
+          aliases: [],
+        });
+      }
+    });
+
+    it('should recognize every ISO 4217 currency and size pips by quote currency', () => {
+      expect(registry.resolve('USDPLN')).toMatchObject({ assetClass: 'forex', pipSize: 0.0001 });
+      expect(registry.resolve('EURHUF')).toMatchObject({ pipSize: 0.01, tickSize: 0.001 });
+      expect(registry.resolve('GBPJPY')).toMatchObject({ pipSize: 0.01 });
+      expect(registry.resolve('JPY=X')).toMatchObject({ symbol: 'USDJPY', providerSymbols: { yahoo: 'USDJPY=X' } });
+      expect(registry.resolve('XAUUSD')).toMatchObject({ pipSize: 0.1, tickSize: 0.01 });
+      expect(registry.resolve('GOOGLA').assetClass).toBe('stock');
+    });
+
+    it('should resolve crypto pairs with and without separator', () => {
+      expect(registry.resolve('BTC/USD')).toMatchObject({
+        symbol: 'BTCUSD',
+        assetClass: 'crypto',
+        calendar: 'CRYPTO',
+        tickSize: 0.01,
+        providerSymbols: { yahoo: 'BTC-USD' },
+      });
+      expect(registry.resolve('btcusdt')).toMatchObject({ symbol: 'BTCUSDT', baseCurrency: 'BTC', quoteCurrency: 'USDT' });
+      expect(registry.resolve('PEPE-USD')).toMatchObject({ assetClass: 'crypto', tickSize: 0.00000001 });
+      expect(registry.resolve('ETHBTC').providerSymbols.yahoo).toBe('ETH-BTC');
+    });
+
+    it('should resolve futures with contract specifications', () => {
+      expect(registry.resolve('ES=F')).toMatchObject({
+        symbol: '/ES',
+        assetClass: 'future',
+        exchange: 'CME',
+        calendar: 'CME',
+        tickSize: 0.25,
+        contractMultiplier: 50,
+      });
+      expect(registry.resolve('/CL')).toMatchObject({ tickSize: 0.01, contractMultiplier: 1000 });
+      expect(registry.resolve('LBS=F')).toMatchObject({ symbol: '/LBS', providerSymbols: { yahoo: 'LBS=F' } });
+    });
+
+    it('should resolve indices and their aliases', () => {
+      expect(registry.resolve('SPX')).toMatchObject({ symbol: '^GSPC', assetClass: 'index', calendar: 'NYSE' });
+      expect(registry.resolve('^GDAXI')).toMatchObject({ calendar: 'XETRA', quoteCurrency: 'EUR' });
+      expect(registry.resolve('^N225')).toMatchObject({ assetClass: 'index', providerSymbols: { yahoo: '^N225' } });
+    });
+
+    it('should list stocks by exchange suffix', () => {
+      expect(registry.resolve('VOD.L')).toMatchObject({
+        symbol: 'VOD.L',
+        assetClass: 'stock',
+        exchange: 'LSE',
+        calendar: 'LSE',
+        quoteCurrency: 'GBp',
+      });
+      expect(registry.resolve('SAP.DE')).toMatchObject({ calendar: 'XETRA', quoteCurrency: 'EUR' });
+      expect(registry.resolve('MC.PA')).toMatchObject({
+        exchange: 'EURONEXT',
+        calendar: 'EURONEXT',
+        quoteCurrency: 'EUR',
+      });
+      expect(registry.resolve('RELIANCE.NS')).toMatchObject({ calendar: 'WEEKDAYS' });
+      expect(registry.resolve('BRK.B')).toMatchObject({ calendar: 'NYSE' });
+      expect(registry.resolve('BRK-B')).toMatchObject({ symbol: 'BRK-B', calendar: 'NYSE', tickSize: 0.01 });
+      expect(registry.resolve('aapl')).toMatchObject({ symbol: 'AAPL', providerSymbols: { yahoo: 'aapl' } });
+    });
+
+    it('should reject empty symbols', () => {
+      expect(() => registry.resolve('  ')).toThrow(InvalidParameterError);
+    });
+  });
+
+  describe('register', () => {
+    it('should infer omitted fields and index aliases and provider symbols', () => {
+      const custom = new InstrumentRegistry([]);
+      const [instrument] = custom.register({
+        symbol: 'GOLD',
+        assetClass: 'future',
+        tickSize: 0.1,
+        contractMultiplier: 100,
+        providerSymbols: { yahoo: 'GC=F', stooq: 'GC.F' },
+        aliases: ['XAUFUT'],
+      });
+
+      expect(instrument).toMatchObject({ symbol: '/GOLD', calendar: 'CME', quoteCurrency: 'USD' });
+      expect(custom.get('xaufut')).toBe(instrument);
+      expect(custom.resolve('GC=F')).toBe(instrument);
+      expect(custom.providerSymbol('GOLD', 'stooq')).toBe('GC.F');
+      expect(custom.list()).toEqual([instrument]);
+    });
+
+    it('should replace instruments with the same canonical symbol', () => {
+      const custom = new InstrumentRegistry([{ symbol: '^GSPC', aliases: ['SPX'] }]);
+      custom.register({ symbol: '^GSPC', aliases: ['US500'] });
+
+      expect(custom.get('SPX')).toBeUndefined();
+      expect(custom.resolve('US500').symbol).toBe('^GSPC');
+    });
+
+    it('should override inferred instruments', () => {
+      const custom = new InstrumentRegistry([]);
+      custom.register({ symbol: 'EURUSD', tickSize: 0.0001, providerSymbols: { oanda: 'EUR_USD' } });
+
+      expect(custom.resolve('EUR/USD')).toMatchObject({
+        tickSize: 0.0001,
+        providerSymbols: { yahoo: 'EURUSD=X', oanda: 'EUR_USD' },
+      });
+    });
+
+    it('should validate definitions', () => {
+      const custom = new InstrumentRegistry([]);
+
+      expect(() => custom.register({ symbol: '' })).toThrow(InvalidParameterError);
+      expect(() => custom.register({ symbol: 'AAPL', tickSize: 0 })).toThrow('Invalid tickSize for AAPL: 0');
+      expect(() => custom.register({ symbol: 'AAPL', assetClass: 'bond' as never })).toThrow('Invalid asset class');
+    });
+  });
+
+  describe('loadFile', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'instruments-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should register the instruments of a JSON file', async () => {
+      const path = join(directory, 'instruments.json');
+      await writeFile(
+        path,
+        JSON.stringify({ instruments: [{ symbol: 'SHOP.TO', exchange: 'TSX', quoteCurrency: 'CAD' }] })
+      );
+      const custom = new InstrumentRegistry([]);
+
+      await expect(custom.loadFile(path)).resolves.toHaveLength(1);
+      expect(custom.resolve('shop.to')).toMatchObject({ exchange: 'TSX', quoteCurrency: 'CAD', tickSize: 0.01 });
+    });
+
+    it('should reject files without instruments', async () => {
+      const path = join(directory, 'instruments.json');
+      await writeFile(path, JSON.stringify({ symbols: [] }));
+
+      await expect(new InstrumentRegistry([]).loadFile(path)).rejects.toThrow('No instruments array found');
+    });
+  });
+});
+
+describe('price helpers', () => {
+  const registry = new InstrumentRegistry();
+
+  it('should round to the instrument precision and tick', () => {
+    expect(pricePrecision(registry.resolve('EURUSD'))).toBe(5);
+    expect(pricePrecision(registry.resolve('/ZN'))).toBe(6);
+    expect(roundPrice(registry.resolve('AAPL'), 101.666667)).toBe(101.67);
+    expect(roundToTick(registry.resolve('/ES'), 4500.13)).toBe(4500.25);
+  });
+
+  it('should convert between price distances and pips', () => {
+    expect(toPips(registry.resolve('USDJPY'), 0.153)).toBe(15.3);
+    expect(toPips(registry.resolve('EURUSD'), 0.00125)).toBe(12.5);
+    expect(fromPips(registry.resolve('EURUSD'), 20)).toBe(0.002);
+    expect(() => toPips(registry.resolve('AAPL'), 1)).toThrow('AAPL has no pip size');
+  });
+});
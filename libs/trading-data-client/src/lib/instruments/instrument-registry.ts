@@ -0,0 +1,450 @@
+import { readFile } from 'node:fs/promises';
+import type { AssetClass, Instrument, InstrumentDefinition, InstrumentFile, SymbolFormat } from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { CRYPTO_ASSETS, CRYPTO_QUOTES, CURRENCY_CODES, LARGE_UNIT_QUOTES, METAL_PIP_SIZES } from './currencies.js';
+import { DEFAULT_INSTRUMENTS } from './default-instruments.js';
+import { SYMBOL_FORMATS } from './symbol-formats.js';
+
+const ASSET_CLASSES: readonly AssetClass[] = ['stock', 'forex', 'crypto', 'index', 'future'];
+
+/**
+ * Listing of stocks by exchange suffix (e.g., 'VOD.L', 'SAP.DE')
+ */
+const STOCK_SUFFIXES: Record<string, Pick<Instrument, 'exchange' | 'calendar' | 'quoteCurrency'>> = {
+  L: { exchange: 'LSE', calendar: 'LSE', quoteCurrency: 'GBp' },
+  IL: { exchange: 'LSE', calendar: 'LSE', quoteCurrency: 'USD' },
+  DE: { exchange: 'XETRA', calendar: 'XETRA', quoteCurrency: 'EUR' },
+  F: { exchange: 'FRA', calendar: 'XETRA', quoteCurrency: 'EUR' },
+  PA: { exchange: 'EURONEXT', calendar: 'EURONEXT', quoteCurrency: 'EUR' },
+  AS: { exchange: 'EURONEXT', calendar: 'EURONEXT', quoteCurrency: 'EUR' },
+  SW: { exchange: 'SIX', calendar: 'SIX', quoteCurrency: 'CHF' },
+  TO: { exchange: 'TSX', calendar: 'TSX', quoteCurrency: 'CAD' },
+  V: { exchange: 'TSXV', calendar: 'TSX', quoteCurrency: 'CAD' },
+  T: { exchange: 'TSE', calendar: 'JPX', quoteCurrency: 'JPY' },
+  HK: { exchange: 'HKEX', calendar: 'HKEX', quoteCurrency: 'HKD' },
+  AX: { exchange: 'ASX', calendar: 'ASX', quoteCurrency: 'AUD' },
+};
+
+/**
+ * Pairs written with a separator: 'EUR/USD', 'EUR-USD', 'BTC_USDT'
+ */
+const SEPARATED_PAIR = /^([A-Z0-9]{2,10})[/_-]([A-Z]{3,4})$/;
+
+/**
+ * Resolves user input to canonical instruments
+ *
+ * Registered instruments are found by their canonical symbol, aliases and provider symbols
+ * (case-insensitive). Anything else is inferred from the symbol:
+ *
+ * - Currency pairs: "EURUSD", "EUR/USD", "eur-usd", "EURUSD=X" -> EURUSD (any ISO 4217 codes)
+ * - Crypto pairs: "BTC-USD", "BTC/USDT", "BTCUSDT" -> BTCUSD, BTCUSDT
+ * - Futures: "ES=F", "/ES" -> /ES
+ * - Indices: "^GSPC"
+ * - Everything else is a stock, listed by its exchange suffix ("VOD.L", "SAP.DE", "7203.T")
+ *
+ * Provider symbols are translated both ways with symbol formats (see SYMBOL_FORMATS),
+ * unless an instrument lists its own symbol for the provider.
+ *
+ * @example
+ * const registry = getInstrumentRegistry();
+ * await registry.loadFile('./instruments.json');     // add or override instruments
+ * registry.resolve('eur/usd');                        // { symbol: 'EURUSD', pipSize: 0.0001, ... }
+ * registry.providerSymbol('ES=F');                    // 'ES=F'
+ * registry.translateSymbol('EUR_USD', 'oanda', 'yahoo'); // 'EURUSD=X'
+ * toPips(registry.resolve('USDJPY'), 0.153);          // 15.3
+ */
+export class InstrumentRegistry {
+  private readonly instruments = new Map<string, Instrument>();
+  private readonly lookup = new Map<string, Instrument>();
+  private readonly providerLookup = new Map<string, Map<string, Instrument>>();
+  private readonly formats = new Map<string, SymbolFormat>();
+
+  /**
+   * @param definitions - Instruments to register (default: the built-in instruments)
+   * @param formats - Provider symbol formats (default: SYMBOL_FORMATS)
+   */
+  constructor(
+    definitions: readonly InstrumentDefinition[] = DEFAULT_INSTRUMENTS,
+    formats: readonly SymbolFormat[] = SYMBOL_FORMATS
+  ) {
+    formats.forEach((format) => this.registerFormat(format));
+    this.register(definitions);
+  }
+
+  /**
+   * Add or replace the symbol format of a provider
+   */
+  registerFormat(format: SymbolFormat): void {
+    this.formats.set(format.name, format);
+  }
+
+  /**
+   * Register instruments, replacing registered instruments with the same canonical symbol
+   * Aliases and provider symbols of later registrations take precedence
+   * @param definitions - Instrument definition or list of definitions
+   * @returns The registered instruments
+   * @throws InvalidParameterError for invalid definitions
+   */
+  register(definitions: InstrumentDefinition | readonly InstrumentDefinition[]): Instrument[] {
+    const list = Array.isArray(definitions) ? definitions : [definitions as InstrumentDefinition];
+    return list.map((definition) => {
+      const instrument = toInstrument(definition);
+
+      const previous = this.instruments.get(instrument.symbol);
+      if (previous) {
+        for (const lookup of [this.lookup, ...this.providerLookup.values()]) {
+          for (const [key, registered] of lookup) {
+            if (registered === previous) {
+              lookup.delete(key);
+            }
+          }
+        }
+      }
+
+      this.instruments.set(instrument.symbol, instrument);
+      const keys = [definition.symbol, instrument.symbol, ...instrument.aliases, ...Object.values(instrument.providerSymbols)];
+      for (const key of keys) {
+        this.lookup.set(lookupKey(key), instrument);
+      }
+      for (const [provider, symbol] of Object.entries(instrument.providerSymbols)) {
+        let lookup = this.providerLookup.get(provider);
+        if (!lookup) {
+          lookup = new Map();
+          this.providerLookup.set(provider, lookup);
+        }
+        lookup.set(lookupKey(symbol), instrument);
+      }
+      return instrument;
+    });
+  }
+
+  /**
+   * Register the instruments of a JSON file
+   * The file contains a list of definitions or an object with an `instruments` list
+   * @param path - Path of the JSON file
+   * @returns The registered instruments
+   * @throws InvalidParameterError if the file has no instrument list or invalid definitions
+   */
+  async loadFile(path: string): Promise<Instrument[]> {
+    const content = (await readFile(path, 'utf8')).replace(/^\uFEFF/, '');
+    const parsed = JSON.parse(content) as InstrumentFile;
+    const definitions = Array.isArray(parsed) ? parsed : parsed?.instruments;
+    if (!Array.isArray(definitions)) {
+      throw new InvalidParameterError(`No instruments array found in ${path}`, { parameter: 'path' });
+    }
+    return this.register(definitions);
+  }
+
+  /**
+   * Find a registered instrument by canonical symbol, alias or provider symbol
+   * @param input - Symbol in any case, surrounding whitespace is ignored
+   */
+  get(input: string): Instrument | undefined {
+    return this.lookup.get(lookupKey(input));
+  }
+
+  /**
+   * Resolve user input to an instrument: a registered one, or else one inferred from the symbol
+   * @param input - Symbol in any supported format (e.g., 'EURUSD', 'EUR/USD', 'BTC-USD', 'ES=F', 'AAPL')
+   * @throws InvalidParameterError for empty input
+   */
+  resolve(input: string): Instrument {
+    if (input.trim() === '') {
+      throw new InvalidParameterError('Symbol must not be empty', { parameter: 'symbol' });
+    }
+
+    const registered = this.get(input);
+    if (registered) {
+      return registered;
+    }
+    const inferred = inferInstrument(input);
+    return this.get(inferred.symbol) ?? inferred;
+  }
+
+  /**
+   * Symbol of an instrument at a data provider
+   * Uses the instrument's own provider symbol, else the provider's symbol format
+   * @param input - Instrument, or symbol in any supported format
+   * @param provider - Provider name (default: 'yahoo')
+   * @returns The provider symbol, or the canonical symbol if the provider does not list the instrument
+   */
+  providerSymbol(input: string | Instrument, provider = 'yahoo'): string {
+    const instrument = typeof input === 'string' ? this.resolve(input) : input;
+    return instrument.providerSymbols[provider] ?? this.formats.get(provider)?.format(instrument) ?? instrument.symbol;
+  }
+
+  /**
+   * Resolve a symbol in a provider's format to an instrument
+   * @param symbol - Provider symbol (e.g., 'EUR_USD' for 'oanda', 'vod.uk' for 'stooq')
+   * @param provider - Provider name (default: 'yahoo')
+   * @throws InvalidParameterError for empty symbols
+   */
+  fromProviderSymbol(symbol: string, provider = 'yahoo'): Instrument {
+    const registered = this.providerLookup.get(provider)?.get(lookupKey(symbol));
+    if (registered) {
+      return registered;
+    }
+    return this.resolve(this.formats.get(provider)?.parse(symbol.trim()) ?? symbol);
+  }
+
+  /**
+   * Translate a symbol from one provider's format to another's
+   * @example registry.translateSymbol('BTC-USDT', 'yahoo', 'binance') // 'BTCUSDT'
+   */
+  translateSymbol(symbol: string, from: string, to: string): string {
+    return this.providerSymbol(this.fromProviderSymbol(symbol, from), to);
+  }
+
+  /**
+   * All registered instruments
+   */
+  list(): Instrument[] {
+    return Array.from(this.instruments.values());
+  }
+}
+
+let defaultRegistry: InstrumentRegistry | undefined;
+
+/**
+ * Shared registry used by normalizeSymbol, detectAssetClass and calendarForSymbol
+ * Register instruments on it to extend symbol resolution across the library
+ */
+export function getInstrumentRegistry(): InstrumentRegistry {
+  defaultRegistry ??= new InstrumentRegistry();
+  return defaultRegistry;
+}
+
+/**
+ * Number of decimals of an instrument's prices (e.g., 5 for EURUSD, 2 for AAPL and /ES)
+ */
+export function pricePrecision(instrument: Pick<Instrument, 'tickSize'>): number {
+  return decimals(instrument.tickSize);
+}
+
+/**
+ * Round a price-valued number (price, level, average, range) to the instrument's precision
+ */
+export function roundPrice(instrument: Pick<Instrument, 'tickSize'>, value: number): number {
+  return Number(value.toFixed(pricePrecision(instrument)));
+}
+
+/**
+ * Round a price to the nearest valid tick (e.g., 4500.13 -> 4500.25 for /ES)
+ */
+export function roundToTick(instrument: Pick<Instrument, 'tickSize'>, price: number): number {
+  return roundPrice(instrument, Math.round(price / instrument.tickSize) * instrument.tickSize);
+}
+
+/**
+ * Convert a price distance to pips, with one decimal for fractional pips
+ * @throws InvalidParameterError if the instrument has no pip size
+ */
+export function toPips(instrument: Pick<Instrument, 'symbol' | 'pipSize'>, distance: number): number {
+  if (instrument.pipSize === undefined) {
+    throw new InvalidParameterError(`${instrument.symbol} has no pip size`, { parameter: 'pipSize' });
+  }
+  return Number((distance / instrument.pipSize).toFixed(1));
+}
+
+/**
+ * Convert pips to a price distance
+ * @throws InvalidParameterError if the instrument has no pip size
+ */
+export function fromPips(instrument: Pick<Instrument, 'symbol' | 'pipSize' | 'tickSize'>, pips: number): number {
+  if (instrument.pipSize === undefined) {
+    throw new InvalidParameterError(`${instrument.symbol} has no pip size`, { parameter: 'pipSize' });
+  }
+  return roundPrice(instrument, pips * instrument.pipSize);
+}
+
+function lookupKey(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+/**
+ * Smallest number of decimals representing a value exactly (1e-8 -> 8, 0.25 -> 2)
+ */
+function decimals(value: number): number {
+  let places = 0;
+  while (places < 12 && Math.abs(Math.round(value * 10 ** places) - value * 10 ** places) > 1e-9) {
+    places++;
+  }
+  return places;
+}
+
+/**
+ * Build an instrument from a definition, inferring omitted fields from its symbol
+ */
+function toInstrument(definition: InstrumentDefinition): Instrument {
+  if (typeof definition?.symbol !== 'string' || definition.symbol.trim() === '') {
+    throw new InvalidParameterError('Instrument symbol must be a non-empty string', { parameter: 'symbol' });
+  }
+  if (definition.assetClass !== undefined && !ASSET_CLASSES.includes(definition.assetClass)) {
+    throw new InvalidParameterError(`Invalid asset class for ${definition.symbol}: ${definition.assetClass}`, {
+      parameter: 'assetClass',
+    });
+  }
+
+  const inferred = inferInstrument(definition.symbol, definition.assetClass);
+  const instrument: Instrument = {
+    ...inferred,
+    ...definition,
+    symbol: inferred.symbol,
+    providerSymbols: { ...inferred.providerSymbols, ...definition.providerSymbols },
+    aliases: definition.aliases ?? [],
+  };
+
+  for (const field of ['tickSize', 'contractMultiplier', 'pipSize'] as const) {
+    const value = instrument[field];
+    if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value > 0)) {
+      throw new InvalidParameterError(`Invalid ${field} for ${instrument.symbol}: ${value}`, { parameter: field });
+    }
+  }
+  return instrument;
+}
+
+/**
+ * Infer an instrument from a symbol
+ * @param input - Symbol as entered by the user
+ * @param assetClass - Asset class to infer the details of, instead of detecting it
+ */
+function inferInstrument(input: string, assetClass?: AssetClass): Instrument {
+  const raw = input.trim();
+  const symbol = raw.toUpperCase();
+
+  if (assetClass === undefined || assetClass === 'index') {
+    if (symbol.startsWith('^') || assetClass === 'index') {
+      return indexInstrument(symbol);
+    }
+  }
+
+  if (assetClass === undefined || assetClass === 'future') {
+    const root = /^\/([A-Z0-9]+)$/.exec(symbol)?.[1] ?? /^([A-Z0-9]+)=F$/.exec(symbol)?.[1];
+    if (root || assetClass === 'future') {
+      return futureInstrument(root ?? symbol);
+    }
+  }
+
+  if (symbol.endsWith('=X') && (assetClass === undefined || assetClass === 'forex')) {
+    // Yahoo lists USD pairs both as 'USDJPY=X' and 'JPY=X'
+    const pair = symbol.slice(0, -2);
+    return pair.length === 3 ? forexInstrument('USD', pair) : forexInstrument(pair.slice(0, 3), pair.slice(3));
+  }
+
+  const pair = parsePair(symbol);
+  if (pair && (assetClass === undefined || assetClass === pair.assetClass)) {
+    return pair.assetClass === 'forex'
+      ? forexInstrument(pair.base, pair.quote)
+      : cryptoInstrument(pair.base, pair.quote);
+  }
+
+  switch (assetClass) {
+    case 'forex':
+      return forexInstrument(symbol.slice(0, 3), symbol.slice(3));
+    case 'crypto':
+      return cryptoInstrument(symbol, 'USD');
+    default:
+      return stockInstrument(raw);
+  }
+}
+
+/**
+ * Split a currency or crypto pair into base and quote
+ */
+function parsePair(symbol: string): { assetClass: 'forex' | 'crypto'; base: string; quote: string } | undefined {
+  const separated = SEPARATED_PAIR.exec(symbol);
+  if (separated) {
+    const [, base, quote] = separated;
+    if (CURRENCY_CODES.has(base) && CURRENCY_CODES.has(quote)) {
+      return { assetClass: 'forex', base, quote };
+    }
+    return CRYPTO_QUOTES.includes(quote) ? { assetClass: 'crypto', base, quote } : undefined;
+  }
+
+  if (/^[A-Z]{6}$/.test(symbol) && CURRENCY_CODES.has(symbol.slice(0, 3)) && CURRENCY_CODES.has(symbol.slice(3))) {
+    return { assetClass: 'forex', base: symbol.slice(0, 3), quote: symbol.slice(3) };
+  }
+
+  const quote = CRYPTO_QUOTES.find((candidate) => symbol.endsWith(candidate));
+  const base = quote && symbol.slice(0, -quote.length);
+  return quote && base && CRYPTO_ASSETS.has(base) ? { assetClass: 'crypto', base, quote } : undefined;
+}
+
+function forexInstrument(base: string, quote: string): Instrument {
+  const pipSize = METAL_PIP_SIZES[base] ?? (LARGE_UNIT_QUOTES.has(quote) ? 0.01 : 0.0001);
+  return {
+    symbol: `${base}${quote}`,
+    assetClass: 'forex',
+    calendar: 'FX',
+    baseCurrency: base,
+    quoteCurrency: quote,
+    // Fractional pips
+    tickSize: pipSize / 10,
+    pipSize,
+    contractMultiplier: 1,
+    providerSymbols: { yahoo: `${base}${quote}=X` },
+    aliases: [],
+  };
+}
+
+function cryptoInstrument(base: string, quote: string): Instrument {
+  return {
+    symbol: `${base}${quote}`,
+    assetClass: 'crypto',
+    calendar: 'CRYPTO',
+    baseCurrency: base,
+    quoteCurrency: quote,
+    tickSize: 0.00000001,
+    contractMultiplier: 1,
+    providerSymbols: { yahoo: `${base}-${quote}` },
+    aliases: [],
+  };
+}
+
+function futureInstrument(root: string): Instrument {
+  return {
+    symbol: `/${root}`,
+    assetClass: 'future',
+    calendar: 'CME',
+    quoteCurrency: 'USD',
+    tickSize: 0.01,
+    contractMultiplier: 1,
+    providerSymbols: { yahoo: `${root}=F` },
+    aliases: [],
+  };
+}
+
+function indexInstrument(symbol: string): Instrument {
+  return {
+    symbol,
+    assetClass: 'index',
+    calendar: 'NYSE',
+    quoteCurrency: 'USD',
+    tickSize: 0.01,
+    contractMultiplier: 1,
+    providerSymbols: { yahoo: symbol },
+    aliases: [],
+  };
+}
+
+/**
+ * Stocks keep the user's spelling as provider symbol
+ */
+function stockInstrument(raw: string): Instrument {
+  const symbol = raw.toUpperCase();
+  const suffix = /\.([A-Z]+)$/.exec(symbol)?.[1];
+  // Single letters after a dot are US share classes ('BRK.B'), longer unknown suffixes other exchanges
+  const listing = (suffix && STOCK_SUFFIXES[suffix]) || {
+    calendar: suffix && suffix.length > 1 ? 'WEEKDAYS' : 'NYSE',
+    quoteCurrency: 'USD',
+  };
+  return {
+    symbol,
+    assetClass: 'stock',
+    ...listing,
+    tickSize: 0.01,
+    contractMultiplier: 1,
+    providerSymbols: { yahoo: raw },
+    aliases: [],
+  };
+}
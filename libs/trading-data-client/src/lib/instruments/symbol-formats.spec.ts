@@ -0,0 +1,80 @@
+import { OANDA_SYMBOL_FORMAT, STOOQ_SYMBOL_FORMAT } from './symbol-formats';
+import { InstrumentRegistry } from './instrument-registry.js';
+
+describe('symbol formats', () => {
+  const registry = new InstrumentRegistry();
+
+  // [provider, canonical symbol, provider symbol]
+  const cases: Array<[string, string, string]> = [
+    ['yahoo', 'EURUSD', 'EURUSD=X'],
+    ['yahoo', 'BTCUSD', 'BTC-USD'],
+    ['yahoo', '/ES', 'ES=F'],
+    ['yahoo', '^GSPC', '^GSPC'],
+    ['yahoo', 'SAP.DE', 'SAP.DE'],
+    ['yahoo', '7203.T', '7203.T'],
+    ['oanda', 'EURUSD', 'EUR_USD'],
+    ['oanda', 'XAUUSD', 'XAU_USD'],
+    ['oanda', '^GSPC', 'SPX500_USD'],
+    ['binance', 'BTCUSDT', 'BTCUSDT'],
+    ['binance', 'ETHBTC', 'ETHBTC'],
+    ['binance', 'SOLUSDC', 'SOLUSDC'],
+    ['stooq', 'AAPL', 'aapl.us'],
+    ['stooq', 'BRK-B', 'brk-b.us'],
+    ['stooq', 'VOD.L', 'vod.uk'],
+    ['stooq', 'SAP.DE', 'sap.de'],
+    ['stooq', '7203.T', '7203.jp'],
+    ['stooq', '/ES', 'es.f'],
+    ['stooq', 'EURUSD', 'eurusd'],
+    ['stooq', '^GSPC', '^spx'],
+  ];
+
+  it.each(cases)('%s: should map %s to %s and back', (provider, canonical, providerSymbol) => {
+    expect(registry.providerSymbol(canonical, provider)).toBe(providerSymbol);
+    expect(registry.fromProviderSymbol(providerSymbol, provider).symbol).toBe(canonical);
+  });
+
+  it('should parse currency pairs of all providers to the canonical symbol', () => {
+    const oanda = OANDA_SYMBOL_FORMAT.parse('EUR_USD');
+    const stooq = STOOQ_SYMBOL_FORMAT.parse('eurusd');
+
+    expect(oanda).toBe('EURUSD');
+    expect(stooq).toBe('EURUSD');
+    expect(registry.resolve('EURUSD').symbol).toBe('EURUSD');
+    expect(registry.providerSymbol('EURUSD', 'oanda')).toBe('EUR_USD');
+    expect(registry.providerSymbol('EURUSD', 'stooq')).toBe('eurusd');
+  });
+
+  it('should round-trip crypto pairs of any asset', () => {
+    const instrument = registry.fromProviderSymbol('PEPEUSDT', 'binance');
+
+    expect(instrument).toMatchObject({ symbol: 'PEPEUSDT', baseCurrency: 'PEPE', quoteCurrency: 'USDT' });
+    expect(registry.providerSymbol(instrument, 'binance')).toBe('PEPEUSDT');
+    expect(registry.providerSymbol(instrument, 'yahoo')).toBe('PEPE-USDT');
+  });
+
+  it('should translate between providers', () => {
+    expect(registry.translateSymbol('EUR_USD', 'oanda', 'yahoo')).toBe('EURUSD=X');
+    expect(registry.translateSymbol('vod.uk', 'stooq', 'yahoo')).toBe('VOD.L');
+    expect(registry.translateSymbol('BTC-USDT', 'yahoo', 'binance')).toBe('BTCUSDT');
+    expect(registry.translateSymbol('ES=F', 'yahoo', 'stooq')).toBe('es.f');
+    expect(registry.translateSymbol('US30_USD', 'oanda', 'stooq')).toBe('^dji');
+  });
+
+  it('should prefer the provider symbols of registered instruments', () => {
+    const custom = new InstrumentRegistry([{ symbol: 'EURUSD', providerSymbols: { oanda: 'EURUSD.PRO' } }]);
+
+    expect(custom.providerSymbol('EUR/USD', 'oanda')).toBe('EURUSD.PRO');
+    expect(custom.fromProviderSymbol('EURUSD.PRO', 'oanda').symbol).toBe('EURUSD');
+  });
+
+  it('should fall back to the canonical symbol for instruments a provider does not list', () => {
+    expect(registry.providerSymbol('AAPL', 'oanda')).toBe('AAPL');
+    expect(registry.providerSymbol('EURUSD', 'unknown')).toBe('EURUSD');
+  });
+
+  it('should not parse symbols outside the provider convention', () => {
+    expect(STOOQ_SYMBOL_FORMAT.parse('aapl.xx')).toBeUndefined();
+    expect(STOOQ_SYMBOL_FORMAT.parse('abcdef')).toBeUndefined();
+    expect(registry.fromProviderSymbol('AAPL', 'stooq').symbol).toBe('AAPL');
+  });
+});
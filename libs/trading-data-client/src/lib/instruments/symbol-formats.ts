@@ -0,0 +1,124 @@
+import type { Instrument, SymbolFormat } from '../types/index.js';
+import { CRYPTO_QUOTES, CURRENCY_CODES } from './currencies.js';
+
+/**
+ * Stooq market suffixes by canonical exchange suffix ('' for US listings)
+ */
+const STOOQ_MARKETS: Record<string, string> = { '': 'us', L: 'uk', DE: 'de', T: 'jp' };
+
+/**
+ * Ticker and exchange suffix of a canonical stock symbol ('SAP.DE' -> ['SAP', 'DE'])
+ */
+function splitListing(symbol: string): [string, string] {
+  const match = /^(.+)\.([A-Z]+)$/.exec(symbol);
+  return match ? [match[1], match[2]] : [symbol, ''];
+}
+
+function isCurrencyPair(base: string, quote: string): boolean {
+  return CURRENCY_CODES.has(base) && CURRENCY_CODES.has(quote);
+}
+
+function futureRoot(instrument: Instrument): string {
+  return instrument.symbol.replace(/^\//, '');
+}
+
+/**
+ * Yahoo Finance: 'EURUSD=X', 'BTC-USD', 'ES=F', '^GSPC', 'SAP.DE', '7203.T'
+ * Instruments usually carry their Yahoo symbol; the registry infers instruments from Yahoo symbols.
+ */
+export const YAHOO_SYMBOL_FORMAT: SymbolFormat = {
+  name: 'yahoo',
+  format(instrument) {
+    switch (instrument.assetClass) {
+      case 'forex':
+        return `${instrument.baseCurrency}${instrument.quoteCurrency}=X`;
+      case 'crypto':
+        return `${instrument.baseCurrency}-${instrument.quoteCurrency}`;
+      case 'future':
+        return `${futureRoot(instrument)}=F`;
+      default:
+        return instrument.symbol;
+    }
+  },
+  parse: (symbol) => symbol,
+};
+
+/**
+ * OANDA: currency pairs and metals as 'EUR_USD', 'XAU_USD'
+ * Index CFDs ('SPX500_USD') are listed as provider symbols of the built-in indices.
+ */
+export const OANDA_SYMBOL_FORMAT: SymbolFormat = {
+  name: 'oanda',
+  format(instrument) {
+    return instrument.assetClass === 'forex' ? `${instrument.baseCurrency}_${instrument.quoteCurrency}` : undefined;
+  },
+  parse(symbol) {
+    const match = /^([A-Z]{3})_([A-Z]{3})$/.exec(symbol.toUpperCase());
+    return match && isCurrencyPair(match[1], match[2]) ? `${match[1]}${match[2]}` : undefined;
+  },
+};
+
+/**
+ * Crypto exchanges (Binance and most others): 'BTCUSDT', 'ETHBTC'
+ */
+export const BINANCE_SYMBOL_FORMAT: SymbolFormat = {
+  name: 'binance',
+  format(instrument) {
+    return instrument.assetClass === 'crypto' ? `${instrument.baseCurrency}${instrument.quoteCurrency}` : undefined;
+  },
+  parse(symbol) {
+    const upper = symbol.toUpperCase();
+    const quote = CRYPTO_QUOTES.find((candidate) => upper.endsWith(candidate) && upper.length > candidate.length);
+    return quote ? `${upper.slice(0, -quote.length)}-${quote}` : undefined;
+  },
+};
+
+/**
+ * Stooq: lower case with market suffixes, 'aapl.us', 'vod.uk', 'sap.de', '7203.jp', 'es.f', 'eurusd'
+ * Indices ('^spx') are listed as provider symbols of the built-in indices.
+ */
+export const STOOQ_SYMBOL_FORMAT: SymbolFormat = {
+  name: 'stooq',
+  format(instrument) {
+    switch (instrument.assetClass) {
+      case 'forex':
+        return `${instrument.baseCurrency}${instrument.quoteCurrency}`.toLowerCase();
+      case 'future':
+        return `${futureRoot(instrument)}.f`.toLowerCase();
+      case 'stock': {
+        const [ticker, suffix] = splitListing(instrument.symbol);
+        const market = STOOQ_MARKETS[suffix];
+        return market ? `${ticker}.${market}`.toLowerCase() : undefined;
+      }
+      default:
+        return undefined;
+    }
+  },
+  parse(symbol) {
+    const match = /^(.+)\.([a-z]+)$/.exec(symbol.toLowerCase());
+    if (!match) {
+      const upper = symbol.toUpperCase();
+      return /^[A-Z]{6}$/.test(upper) && isCurrencyPair(upper.slice(0, 3), upper.slice(3)) ? upper : undefined;
+    }
+
+    const [, ticker, market] = match;
+    if (market === 'f') {
+      return `/${ticker.toUpperCase()}`;
+    }
+    const suffix = Object.keys(STOOQ_MARKETS).find((key) => STOOQ_MARKETS[key] === market);
+    if (suffix === undefined) {
+      return undefined;
+    }
+    return suffix ? `${ticker.toUpperCase()}.${suffix}` : ticker.toUpperCase();
+  },
+};
+
+/**
+ * Built-in symbol formats
+ */
+export const SYMBOL_FORMATS: readonly SymbolFormat[] = [
+  YAHOO_SYMBOL_FORMAT,
+  OANDA_SYMBOL_FORMAT,
+  BINANCE_SYMBOL_FORMAT,
+  STOOQ_SYMBOL_FORMAT,
+];
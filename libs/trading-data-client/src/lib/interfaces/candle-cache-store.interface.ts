@@ -0,0 +1,32 @@
+import type { CandleCacheEntry } from '../types/index.js';
+
+/**
+ * Interface for candle cache backends
+ * Implementations decide where entries live (memory, disk, ...) and how many are kept
+ */
+export interface ICandleCacheStore {
+  /**
+   * Read a cache entry
+   * @param key - Cache key (symbol and interval)
+   * @returns The entry, or undefined when not cached
+   */
+  get(key: string): Promise<CandleCacheEntry | undefined>;
+
+  /**
+   * Write a cache entry, replacing any existing entry for the key
+   * @param key - Cache key (symbol and interval)
+   * @param entry - Entry to store
+   */
+  set(key: string, entry: CandleCacheEntry): Promise<void>;
+
+  /**
+   * Remove a cache entry
+   * @param key - Cache key (symbol and interval)
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all cache entries
+   */
+  clear(): Promise<void>;
+}
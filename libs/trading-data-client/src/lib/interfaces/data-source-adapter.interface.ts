@@ -1,21 +1,49 @@
+import type {
+  ChartRequest,
+  ChartResult,
+  QuoteSnapshot,
+  SearchRequest,
+  SearchResult,
+} from '../types/index.js';
+
+/**
+ * Per-call options for data source adapters
+ */
+export interface DataSourceCallOptions {
+  /** Aborts the underlying request (e.g., on timeout) */
+  signal?: AbortSignal;
+}
+
 /**
  * Interface for data source adapters
  * Follows the Dependency Inversion Principle
  * This abstracts the underlying data source (e.g., Yahoo Finance)
+ *
+ * Requests and responses are provider-neutral; each adapter maps its provider's payloads.
+ * Symbols are passed in Yahoo Finance format (see normalizeSymbol). Adapters of other providers translate them,
+ * e.g. with getInstrumentRegistry().translateSymbol(symbol, 'yahoo', 'oanda').
+ * Unknown symbols reject with SymbolNotFoundError (or an error toTradingDataError classifies as such).
  */
 export interface IDataSourceAdapter {
   /**
-   * Search for financial data and news
+   * Search for symbols and news
+   */
+  search(query: string, request: SearchRequest, callOptions?: DataSourceCallOptions): Promise<SearchResult>;
+
+  /**
+   * Fetch historical bars between period1 and period2
    */
-  search(query: string, options: any): Promise<any>;
+  chart(symbol: string, request: ChartRequest, callOptions?: DataSourceCallOptions): Promise<ChartResult>;
 
   /**
-   * Fetch chart/historical data
+   * Fetch the latest quote
    */
-  chart(symbol: string, options: any): Promise<any>;
+  quote(symbol: string, callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot>;
 
   /**
-   * Fetch quote data
+   * Fetch the latest quotes of several symbols in one request (optional)
+   * Symbols the provider does not know are missing from the result, in which order snapshots come back is up to the provider.
+   * Without it, MarketDataClient.getQuotes requests one quote per symbol.
    */
-  quote(symbol: string): Promise<any>;
+  quotes?(symbols: string[], callOptions?: DataSourceCallOptions): Promise<QuoteSnapshot[]>;
 }
@@ -1,3 +1,5 @@
 export * from './news-provider.interface.js';
 export * from './market-data-provider.interface.js';
 export * from './data-source-adapter.interface.js';
+export * from './candle-cache-store.interface.js';
+export * from './quote-stream-transport.interface.js';
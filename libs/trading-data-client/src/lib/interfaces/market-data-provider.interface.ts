@@ -1,4 +1,10 @@
-import type { HistoricalDataParams, OHLCVData, QuoteData } from '../types/index.js';
+import type {
+  BatchItemResult,
+  BatchOptions,
+  HistoricalDataParams,
+  OHLCVData,
+  QuoteData,
+} from '../types/index.js';
 
 /**
  * Interface for market data providers
@@ -18,4 +24,25 @@ export interface IMarketDataProvider {
    * @returns Promise resolving to quote data
    */
   getQuote(symbol: string): Promise<QuoteData>;
+
+  /**
+   * Fetch current quotes of several assets
+   * A failing symbol does not fail the others.
+   * @param symbols - Asset symbols
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]>;
+
+  /**
+   * Fetch historical OHLCV data of several requests with bounded concurrency
+   * A failing request does not fail the others.
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]>;
 }
@@ -0,0 +1,39 @@
+import type { QuoteSnapshot } from '../types/index.js';
+import type { TradingDataError } from '../errors/trading-errors.js';
+
+/**
+ * Receives what a quote stream transport delivers
+ */
+export interface QuoteTransportListener {
+  /** A quote arrived (symbol in Yahoo format) */
+  onQuote(quote: QuoteSnapshot): void;
+  /** A request or the connection failed, for one symbol (Yahoo format) or all of them */
+  onError(error: TradingDataError, symbol?: string): void;
+}
+
+/**
+ * Interface for live quote transports
+ * Implementations pull (PollingQuoteTransport) or receive pushed quotes (WebSocketQuoteTransport);
+ * QuoteStream decides which symbols are followed. Symbols are in Yahoo format (see normalizeSymbol).
+ */
+export interface IQuoteStreamTransport {
+  /**
+   * Start delivering quotes to a listener (connect, start polling)
+   */
+  start(listener: QuoteTransportListener): void;
+
+  /**
+   * Follow additional symbols
+   */
+  subscribe(symbols: string[]): void;
+
+  /**
+   * Stop following symbols
+   */
+  unsubscribe(symbols: string[]): void;
+
+  /**
+   * Stop delivering quotes and release connections and timers
+   */
+  stop(): void;
+}
@@ -1,5 +1,14 @@
 import { MarketDataClient } from './market-data-client';
 import type { IDataSourceAdapter } from './interfaces/data-source-adapter.interface.js';
+import type { PriceAdjustment, QuoteSnapshot, TimeInterval } from './types/index.js';
+import {
+  DataQualityError,
+  InvalidParameterError,
+  NetworkError,
+  RateLimitedError,
+  SymbolNotFoundError,
+  UnsupportedIntervalError,
+} from './errors/trading-errors.js';
 
 describe('MarketDataClient', () => {
   let client: MarketDataClient;
@@ -21,7 +30,8 @@ describe('MarketDataClient', () => {
   describe('getHistoricalData', () => {
     it('should fetch historical data successfully', async () => {
       const mockChartData = {
-        quotes: [
+        symbol: 'AAPL',
+        bars: [
           {
             date: new Date('2024-01-01'),
             open: 1.0850,
@@ -29,7 +39,7 @@ describe('MarketDataClient', () => {
             low: 1.0800,
             close: 1.0875,
             volume: 1000000,
-            adjclose: 1.0875,
+            adjClose: 1.0875,
           },
           {
             date: new Date('2024-01-02'),
@@ -38,7 +48,7 @@ describe('MarketDataClient', () => {
             low: 1.0850,
             close: 1.0920,
             volume: 1100000,
-            adjclose: 1.0920,
+            adjClose: 1.0920,
           },
         ],
       };
@@ -64,8 +74,8 @@ describe('MarketDataClient', () => {
       expect(result[0].date).toBeInstanceOf(Date);
     });
 
-    it('should return empty array when no quotes available', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+    it('should return empty array when no bars available', async () => {
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       const result = await client.getHistoricalData({
         symbol: 'INVALID',
@@ -75,38 +85,8 @@ describe('MarketDataClient', () => {
       expect(result).toEqual([]);
     });
 
-    it('should handle null values in OHLCV data', async () => {
-      const mockChartData = {
-        quotes: [
-          {
-            date: new Date('2024-01-01'),
-            open: null,
-            high: 1.0900,
-            low: null,
-            close: 1.0875,
-            volume: null,
-            adjclose: null,
-          },
-        ],
-      };
-
-      mockDataSource.chart.mockResolvedValue(mockChartData);
-
-      const result = await client.getHistoricalData({
-        symbol: 'TEST',
-        startDate: new Date('2024-01-01'),
-      });
-
-      expect(result).toHaveLength(1);
-      expect(result[0].open).toBe(0);
-      expect(result[0].high).toBe(1.0900);
-      expect(result[0].low).toBe(0);
-      expect(result[0].volume).toBe(0);
-      expect(result[0].adjClose).toBeUndefined();
-    });
-
     it('should use default interval when not specified', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       await client.getHistoricalData({
         symbol: 'AAPL',
@@ -121,7 +101,7 @@ describe('MarketDataClient', () => {
     });
 
     it('should use endDate when provided', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       const startDate = new Date('2024-01-01');
       const endDate = new Date('2024-01-31');
@@ -152,8 +132,53 @@ describe('MarketDataClient', () => {
       ).rejects.toThrow('Failed to fetch historical data for INVALID');
     });
 
+    it('should throw typed errors carrying symbol, interval and cause', async () => {
+      const cause = new Error('Too Many Requests');
+      mockDataSource.chart.mockRejectedValue(cause);
+
+      const error = await client
+        .getHistoricalData({ symbol: 'AAPL', startDate: new Date('2024-01-01'), interval: '1h' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect(error.message).toBe('Failed to fetch historical data for AAPL: Too Many Requests');
+      expect(error.symbol).toBe('AAPL');
+      expect(error.interval).toBe('1h');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should classify unknown symbols and network failures', async () => {
+      mockDataSource.chart.mockRejectedValueOnce(new Error('No data found, symbol may be delisted'));
+      mockDataSource.chart.mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+      const params = { symbol: 'XYZ', startDate: new Date('2024-01-01') };
+
+      await expect(client.getHistoricalData(params)).rejects.toBeInstanceOf(SymbolNotFoundError);
+      await expect(client.getHistoricalData(params)).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should reject unsupported intervals and invalid dates before fetching', async () => {
+      await expect(
+        client.getHistoricalData({
+          symbol: 'AAPL',
+          startDate: new Date('2024-01-01'),
+          interval: '7h' as unknown as TimeInterval,
+        })
+      ).rejects.toBeInstanceOf(UnsupportedIntervalError);
+      await expect(
+        client.getHistoricalData({ symbol: 'AAPL', startDate: new Date('invalid') })
+      ).rejects.toBeInstanceOf(InvalidParameterError);
+      await expect(
+        client.getHistoricalData({
+          symbol: 'AAPL',
+          startDate: new Date('2024-01-01'),
+          adjustment: 'total' as unknown as PriceAdjustment,
+        })
+      ).rejects.toMatchObject({ parameter: 'adjustment' });
+      expect(mockDataSource.chart).not.toHaveBeenCalled();
+    });
+
     it('should support different time intervals', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       const intervals: Array<
         '1m' | '2m' | '5m' | '15m' | '30m' | '1h' | '1d' | '1wk' | '1mo'
@@ -178,7 +203,8 @@ describe('MarketDataClient', () => {
     it('should support 4h interval by fetching 1h data and aggregating', async () => {
       // Create mock 1-hour data spanning 8 hours (should create 2 4-hour candles)
       const mockChartData = {
-        quotes: [
+        symbol: 'AAPL',
+        bars: [
           // First 4-hour candle (hours 0-3)
           {
             date: new Date('2024-01-01T00:00:00Z'),
@@ -187,7 +213,7 @@ describe('MarketDataClient', () => {
             low: 99,
             close: 102,
             volume: 1000,
-            adjclose: 102,
+            adjClose: 102,
           },
           {
             date: new Date('2024-01-01T01:00:00Z'),
@@ -196,7 +222,7 @@ describe('MarketDataClient', () => {
             low: 101,
             close: 104,
             volume: 1500,
-            adjclose: 104,
+            adjClose: 104,
           },
           {
             date: new Date('2024-01-01T02:00:00Z'),
@@ -205,7 +231,7 @@ describe('MarketDataClient', () => {
             low: 103,
             close: 105,
             volume: 2000,
-            adjclose: 105,
+            adjClose: 105,
           },
           {
             date: new Date('2024-01-01T03:00:00Z'),
@@ -214,7 +240,7 @@ describe('MarketDataClient', () => {
             low: 104,
             close: 106,
             volume: 1200,
-            adjclose: 106,
+            adjClose: 106,
           },
           // Second 4-hour candle (hours 4-7)
           {
@@ -224,7 +250,7 @@ describe('MarketDataClient', () => {
             low: 105,
             close: 108,
             volume: 1800,
-            adjclose: 108,
+            adjClose: 108,
           },
           {
             date: new Date('2024-01-01T05:00:00Z'),
@@ -233,7 +259,7 @@ describe('MarketDataClient', () => {
             low: 107,
             close: 109,
             volume: 1600,
-            adjclose: 109,
+            adjClose: 109,
           },
           {
             date: new Date('2024-01-01T06:00:00Z'),
@@ -242,7 +268,7 @@ describe('MarketDataClient', () => {
             low: 108,
             close: 110,
             volume: 1400,
-            adjclose: 110,
+            adjClose: 110,
           },
           {
             date: new Date('2024-01-01T07:00:00Z'),
@@ -251,7 +277,7 @@ describe('MarketDataClient', () => {
             low: 109,
             close: 111,
             volume: 1300,
-            adjclose: 111,
+            adjClose: 111,
           },
         ],
       };
@@ -303,7 +329,8 @@ describe('MarketDataClient', () => {
     it('should handle 4h interval with incomplete 4-hour periods', async () => {
       // Create mock 1-hour data with only 3 hours (incomplete 4-hour period)
       const mockChartData = {
-        quotes: [
+        symbol: 'AAPL',
+        bars: [
           {
             date: new Date('2024-01-01T00:00:00Z'),
             open: 100,
@@ -311,7 +338,7 @@ describe('MarketDataClient', () => {
             low: 99,
             close: 102,
             volume: 1000,
-            adjclose: 102,
+            adjClose: 102,
           },
           {
             date: new Date('2024-01-01T01:00:00Z'),
@@ -320,7 +347,7 @@ describe('MarketDataClient', () => {
             low: 101,
             close: 104,
             volume: 1500,
-            adjclose: 104,
+            adjClose: 104,
           },
           {
             date: new Date('2024-01-01T02:00:00Z'),
@@ -329,7 +356,7 @@ describe('MarketDataClient', () => {
             low: 103,
             close: 105,
             volume: 2000,
-            adjclose: 105,
+            adjClose: 105,
           },
         ],
       };
@@ -356,7 +383,8 @@ describe('MarketDataClient', () => {
     it('should handle 4h interval across different 4-hour periods', async () => {
       // Test data that spans different 4-hour periods (0-3, 4-7, 8-11, 12-15, 16-19, 20-23)
       const mockChartData = {
-        quotes: [
+        symbol: 'AAPL',
+        bars: [
           {
             date: new Date('2024-01-01T02:00:00Z'),
             open: 100,
@@ -364,7 +392,7 @@ describe('MarketDataClient', () => {
             low: 99,
             close: 102,
             volume: 1000,
-            adjclose: 102,
+            adjClose: 102,
           },
           {
             date: new Date('2024-01-01T03:00:00Z'),
@@ -373,7 +401,7 @@ describe('MarketDataClient', () => {
             low: 101,
             close: 104,
             volume: 1500,
-            adjclose: 104,
+            adjClose: 104,
           },
           {
             date: new Date('2024-01-01T04:00:00Z'),
@@ -382,7 +410,7 @@ describe('MarketDataClient', () => {
             low: 103,
             close: 105,
             volume: 2000,
-            adjclose: 105,
+            adjClose: 105,
           },
           {
             date: new Date('2024-01-01T08:00:00Z'),
@@ -391,7 +419,7 @@ describe('MarketDataClient', () => {
             low: 104,
             close: 108,
             volume: 1800,
-            adjclose: 108,
+            adjClose: 108,
           },
         ],
       };
@@ -433,8 +461,158 @@ describe('MarketDataClient', () => {
     });
 
 
+    it('should resample intervals the data source does not serve from the start of the first bucket', async () => {
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'AAPL',
+        bars: [
+          { date: new Date('2024-01-02T00:00:00Z'), open: 1, high: 2, low: 1, close: 2, volume: 10 },
+          { date: new Date('2024-01-03T00:00:00Z'), open: 2, high: 3, low: 2, close: 3, volume: 10 },
+          { date: new Date('2024-01-04T00:00:00Z'), open: 3, high: 4, low: 3, close: 4, volume: 10 },
+        ],
+      });
+
+      const result = await client.getHistoricalData({
+        symbol: 'AAPL',
+        startDate: new Date('2024-01-03T12:00:00Z'),
+        endDate: new Date('2024-01-05T00:00:00Z'),
+        interval: '2d',
+      });
+
+      expect(mockDataSource.chart).toHaveBeenCalledWith('AAPL', {
+        period1: new Date('2024-01-02T00:00:00Z'),
+        period2: new Date('2024-01-05T00:00:00Z'),
+        interval: '1d',
+      });
+      expect(result).toEqual([
+        { date: new Date('2024-01-02T00:00:00Z'), open: 1, high: 3, low: 1, close: 3, volume: 20 },
+        { date: new Date('2024-01-04T00:00:00Z'), open: 3, high: 4, low: 3, close: 4, volume: 10 },
+      ]);
+    });
+
+    it('should build session-aligned daily bars from hourly data', async () => {
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'EURUSD=X',
+        bars: [
+          { date: new Date('2024-01-02T21:00:00Z'), open: 1, high: 1, low: 1, close: 1, volume: 0 },
+          { date: new Date('2024-01-02T22:00:00Z'), open: 2, high: 2, low: 2, close: 2, volume: 0 },
+          { date: new Date('2024-01-03T21:00:00Z'), open: 3, high: 3, low: 3, close: 3, volume: 0 },
+        ],
+      });
+
+      const result = await client.getHistoricalData({
+        symbol: 'EURUSD',
+        startDate: new Date('2024-01-02T00:00:00Z'),
+        interval: '1d',
+        alignment: { timezone: 'America/New_York', anchor: '17:00' },
+      });
+
+      expect(mockDataSource.chart).toHaveBeenCalledWith(
+        'EURUSD=X',
+        expect.objectContaining({ period1: new Date('2024-01-01T22:00:00Z'), interval: '1h' })
+      );
+      expect(result.map((candle) => [candle.date.toISOString(), candle.open, candle.close])).toEqual([
+        ['2024-01-01T22:00:00.000Z', 1, 1],
+        ['2024-01-02T22:00:00.000Z', 2, 3],
+      ]);
+    });
+
+    it('should build weeks not starting on Monday from daily data', async () => {
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
+
+      await client.getHistoricalData({
+        symbol: 'AAPL',
+        startDate: new Date('2024-01-03T00:00:00Z'),
+        interval: '1wk',
+        alignment: { weekStartsOn: 0 },
+      });
+
+      expect(mockDataSource.chart).toHaveBeenCalledWith(
+        'AAPL',
+        expect.objectContaining({ period1: new Date('2023-12-31T00:00:00Z'), interval: '1d' })
+      );
+    });
+
+    it('should adjust all prices for splits and dividends as requested', async () => {
+      // Split-adjusted bars around a 2-for-1 split and a 1.00 dividend
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'AAPL',
+        adjustment: 'splits',
+        actions: {
+          splits: [{ date: new Date('2024-01-03T00:00:00Z'), numerator: 2, denominator: 1 }],
+          dividends: [{ date: new Date('2024-01-04T00:00:00Z'), amount: 1 }],
+        },
+        bars: [
+          { date: new Date('2024-01-02T00:00:00Z'), open: 50, high: 52, low: 48, close: 50, volume: 200 },
+          { date: new Date('2024-01-03T00:00:00Z'), open: 50, high: 51, low: 49, close: 50, volume: 100 },
+          { date: new Date('2024-01-04T00:00:00Z'), open: 49, high: 50, low: 48, close: 49, volume: 100 },
+        ],
+      });
+      const params = { symbol: 'AAPL', startDate: new Date('2024-01-02T00:00:00Z') };
+
+      const splits = await client.getHistoricalData(params);
+      const none = await client.getHistoricalData({ ...params, adjustment: 'none' });
+      const total = await client.getHistoricalData({ ...params, adjustment: 'splits+dividends' });
+
+      expect(splits.map((candle) => candle.high)).toEqual([52, 51, 50]);
+      expect(none.map((candle) => [candle.high, candle.volume])).toEqual([[104, 100], [51, 100], [50, 100]]);
+      expect(total.map((candle) => Number(candle.high.toFixed(6)))).toEqual([50.96, 49.98, 50]);
+    });
+
+    it('should return the corporate actions reported with the bars', async () => {
+      const actions = {
+        splits: [{ date: new Date('2024-03-01T00:00:00Z'), numerator: 2, denominator: 1 }],
+        dividends: [],
+      };
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', adjustment: 'splits', actions, bars: [] });
+
+      const result = await client.getHistoricalDataWithQuality({
+        symbol: 'AAPL',
+        startDate: new Date('2024-01-02T00:00:00Z'),
+        endDate: new Date('2024-02-01T00:00:00Z'),
+      });
+
+      expect(result.actions).toEqual(actions);
+      expect(mockDataSource.chart).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop zero-filled bars and report them', async () => {
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'AAPL',
+        bars: [
+          { date: new Date('2024-01-02T14:30:00Z'), open: 187.15, high: 188.44, low: 183.89, close: 185.64, volume: 100 },
+          { date: new Date('2024-01-03T14:30:00Z'), open: 0, high: 185.88, low: 0, close: 184.25, volume: 0 },
+          { date: new Date('2024-01-04T14:30:00Z'), open: 184.22, high: 185.88, low: 183.43, close: 184.25, volume: 100 },
+        ],
+      });
+      const params = { symbol: 'AAPL', startDate: new Date('2024-01-02T00:00:00Z') };
+
+      const { data, quality } = await client.getHistoricalDataWithQuality(params);
+      const unchecked = await client.getHistoricalData({ ...params, validation: false });
+
+      expect(data.map((candle) => candle.close)).toEqual([185.64, 184.25]);
+      expect(quality).toMatchObject({ received: 3, returned: 2, dropped: 1 });
+      expect(quality.issues).toEqual([expect.objectContaining({ type: 'zero-price' }), expect.objectContaining({ type: 'gap' })]);
+      expect(unchecked).toHaveLength(3);
+    });
+
+    it('should reject invalid bars under the throw policy', async () => {
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'AAPL',
+        bars: [{ date: new Date('2024-01-02T14:30:00Z'), open: 1, high: 0.5, low: 2, close: 1, volume: 0 }],
+      });
+
+      const request = client.getHistoricalData({
+        symbol: 'AAPL',
+        startDate: new Date('2024-01-02T00:00:00Z'),
+        validation: { policy: 'throw', checkGaps: false },
+      });
+
+      await expect(request).rejects.toBeInstanceOf(DataQualityError);
+      await expect(request).rejects.toMatchObject({ symbol: 'AAPL', report: { received: 1 } });
+    });
+
     it('should normalize simple forex format (EURUSD) for historical data', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       await client.getHistoricalData({
         symbol: 'EURUSD',
@@ -448,7 +626,7 @@ describe('MarketDataClient', () => {
     });
 
     it('should normalize forex format with slash (EUR/USD) for historical data', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       await client.getHistoricalData({
         symbol: 'EUR/USD',
@@ -462,7 +640,7 @@ describe('MarketDataClient', () => {
     });
 
     it('should not modify stock symbols for historical data', async () => {
-      mockDataSource.chart.mockResolvedValue({ quotes: [] });
+      mockDataSource.chart.mockResolvedValue({ symbol: 'AAPL', bars: [] });
 
       await client.getHistoricalData({
         symbol: 'AAPL',
@@ -480,14 +658,13 @@ describe('MarketDataClient', () => {
     it('should fetch quote data successfully', async () => {
       const mockQuote = {
         symbol: 'EURUSD=X',
-        regularMarketPrice: 1.0850,
-        regularMarketPreviousClose: 1.0825,
-        regularMarketOpen: 1.0830,
-        regularMarketDayHigh: 1.0900,
-        regularMarketDayLow: 1.0800,
-        regularMarketVolume: 1000000,
-        marketCap: null,
-        regularMarketTime: new Date('2024-01-01T12:00:00Z'),
+        price: 1.0850,
+        previousClose: 1.0825,
+        open: 1.0830,
+        dayHigh: 1.0900,
+        dayLow: 1.0800,
+        volume: 1000000,
+        timestamp: new Date('2024-01-01T12:00:00Z'),
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
@@ -506,25 +683,11 @@ describe('MarketDataClient', () => {
       expect(result.timestamp).toBeInstanceOf(Date);
     });
 
-    it('should handle null regularMarketPrice', async () => {
-      const mockQuote = {
-        symbol: 'TEST',
-        regularMarketPrice: null,
-        regularMarketTime: new Date(),
-      };
-
-      mockDataSource.quote.mockResolvedValue(mockQuote);
-
-      const result = await client.getQuote('TEST');
-
-      expect(result.price).toBe(0);
-    });
-
     it('should handle missing optional fields', async () => {
       const mockQuote = {
         symbol: 'TEST',
-        regularMarketPrice: 100,
-        regularMarketTime: new Date(),
+        price: 100,
+        timestamp: new Date(),
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
@@ -537,11 +700,10 @@ describe('MarketDataClient', () => {
       expect(result.open).toBeUndefined();
     });
 
-    it('should use current date if regularMarketTime is missing', async () => {
+    it('should use current date if the timestamp is missing', async () => {
       const mockQuote = {
         symbol: 'TEST',
-        regularMarketPrice: 100,
-        regularMarketTime: null,
+        price: 100,
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
@@ -552,11 +714,12 @@ describe('MarketDataClient', () => {
     });
 
     it('should throw error when quote is null', async () => {
-      mockDataSource.quote.mockResolvedValue(null);
+      mockDataSource.quote.mockResolvedValue(null as unknown as QuoteSnapshot);
 
       await expect(client.getQuote('INVALID')).rejects.toThrow(
         'No quote data found for INVALID'
       );
+      await expect(client.getQuote('INVALID')).rejects.toBeInstanceOf(SymbolNotFoundError);
     });
 
     it('should throw error when quote API fails', async () => {
@@ -574,8 +737,8 @@ describe('MarketDataClient', () => {
       for (const symbol of forexPairs) {
         const mockQuote = {
           symbol,
-          regularMarketPrice: 1.0,
-          regularMarketTime: new Date(),
+          price: 1.0,
+          timestamp: new Date(),
         };
 
         mockDataSource.quote.mockResolvedValue(mockQuote);
@@ -590,38 +753,38 @@ describe('MarketDataClient', () => {
     it('should normalize simple forex format (EURUSD) to Yahoo Finance format', async () => {
       const mockQuote = {
         symbol: 'EURUSD=X',
-        regularMarketPrice: 1.0850,
-        regularMarketTime: new Date(),
+        price: 1.0850,
+        timestamp: new Date(),
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
 
       const result = await client.getQuote('EURUSD');
 
-      expect(result.symbol).toBe('EURUSD=X');
+      expect(result.symbol).toBe('EURUSD');
       expect(mockDataSource.quote).toHaveBeenCalledWith('EURUSD=X');
     });
 
     it('should normalize forex format with slash (EUR/USD) to Yahoo Finance format', async () => {
       const mockQuote = {
         symbol: 'EURUSD=X',
-        regularMarketPrice: 1.0850,
-        regularMarketTime: new Date(),
+        price: 1.0850,
+        timestamp: new Date(),
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
 
       const result = await client.getQuote('EUR/USD');
 
-      expect(result.symbol).toBe('EURUSD=X');
+      expect(result.symbol).toBe('EUR/USD');
       expect(mockDataSource.quote).toHaveBeenCalledWith('EURUSD=X');
     });
 
     it('should not modify stock symbols', async () => {
       const mockQuote = {
         symbol: 'AAPL',
-        regularMarketPrice: 150.0,
-        regularMarketTime: new Date(),
+        price: 150.0,
+        timestamp: new Date(),
       };
 
       mockDataSource.quote.mockResolvedValue(mockQuote);
@@ -633,6 +796,122 @@ describe('MarketDataClient', () => {
     });
   });
 
+  describe('getCorporateActions', () => {
+    it('should return the splits and dividends within the range reported with the chart', async () => {
+      const split = { date: new Date('2024-01-03T00:00:00Z'), numerator: 2, denominator: 1 };
+      const laterSplit = { date: new Date('2024-03-01T00:00:00Z'), numerator: 3, denominator: 1 };
+      mockDataSource.chart.mockResolvedValue({
+        symbol: 'AAPL',
+        bars: [],
+        actions: { splits: [split, laterSplit], dividends: [] },
+      });
+      const startDate = new Date('2024-01-01T00:00:00Z');
+      const endDate = new Date('2024-02-01T00:00:00Z');
+
+      const result = await client.getCorporateActions('AAPL', startDate, endDate);
+
+      expect(result).toEqual({ splits: [split], dividends: [] });
+      expect(mockDataSource.chart).toHaveBeenCalledWith('AAPL', { period1: startDate, period2: endDate, interval: '1d' });
+    });
+
+    it('should return no actions for data sources that do not report them', async () => {
+      mockDataSource.chart.mockResolvedValue({ symbol: 'EURUSD=X', bars: [] });
+
+      const result = await client.getCorporateActions('EURUSD', new Date('2024-01-01T00:00:00Z'));
+
+      expect(result).toEqual({ splits: [], dividends: [] });
+    });
+
+    it('should classify failures', async () => {
+      mockDataSource.chart.mockRejectedValue(new Error('HTTP 429'));
+
+      await expect(client.getCorporateActions('AAPL', new Date('2024-01-01T00:00:00Z'))).rejects.toThrow(
+        RateLimitedError
+      );
+    });
+  });
+
+  describe('getQuotes', () => {
+    const snapshot = (symbol: string, price: number) => ({ symbol, price, timestamp: new Date('2024-01-01T12:00:00Z') });
+
+    it('should fetch all symbols in one request and report them as requested', async () => {
+      const quotes = jest.fn().mockResolvedValue([snapshot('AAPL', 185), snapshot('EURUSD=X', 1.08)]);
+      client = new MarketDataClient({ ...mockDataSource, quotes });
+
+      const results = await client.getQuotes(['EUR/USD', 'AAPL', 'EURUSD', 'UNKNOWN']);
+
+      expect(quotes).toHaveBeenCalledTimes(1);
+      expect(quotes).toHaveBeenCalledWith(['EURUSD=X', 'AAPL', 'UNKNOWN'], { signal: undefined });
+      expect(results.map((result) => [result.symbol, result.data?.price])).toEqual([
+        ['EUR/USD', 1.08],
+        ['AAPL', 185],
+        ['EURUSD', 1.08],
+        ['UNKNOWN', undefined],
+      ]);
+      expect(results[0].data?.symbol).toBe('EUR/USD');
+      expect(results[3].error).toBeInstanceOf(SymbolNotFoundError);
+      expect(mockDataSource.quote).not.toHaveBeenCalled();
+    });
+
+    it('should pass the abort signal to the multi-symbol request', async () => {
+      const quotes = jest.fn().mockResolvedValue([snapshot('AAPL', 185)]);
+      client = new MarketDataClient({ ...mockDataSource, quotes });
+      const controller = new AbortController();
+
+      await client.getQuotes(['AAPL'], { signal: controller.signal });
+
+      expect(quotes).toHaveBeenCalledWith(['AAPL'], { signal: controller.signal });
+    });
+
+    it('should fail only the symbols of a failed request', async () => {
+      const quotes = jest.fn().mockRejectedValue(new Error('ECONNRESET'));
+      client = new MarketDataClient({ ...mockDataSource, quotes });
+      const onProgress = jest.fn();
+
+      const results = await client.getQuotes(['AAPL', 'MSFT'], { onProgress });
+
+      expect(results.map((result) => result.error)).toEqual([expect.any(NetworkError), expect.any(NetworkError)]);
+      expect(results[1].error?.symbol).toBe('MSFT');
+      expect(onProgress).toHaveBeenLastCalledWith({ symbol: 'MSFT', completed: 2, failed: 2, total: 2 });
+    });
+
+    it('should request one quote per symbol without multi-symbol support', async () => {
+      mockDataSource.quote.mockImplementation(async (symbol) => {
+        if (symbol === 'UNKNOWN') {
+          throw new Error('Quote not found for symbol: UNKNOWN');
+        }
+        return snapshot(symbol, 100);
+      });
+
+      const results = await client.getQuotes(['AAPL', 'UNKNOWN']);
+
+      expect(mockDataSource.quote).toHaveBeenCalledTimes(2);
+      expect(results[0].data).toMatchObject({ symbol: 'AAPL', price: 100 });
+      expect(results[1].error).toBeInstanceOf(SymbolNotFoundError);
+    });
+  });
+
+  describe('getHistoricalDataBatch', () => {
+    it('should return the candles or the error of each request', async () => {
+      const bar = { date: new Date('2024-01-02'), open: 1, high: 2, low: 1, close: 2, volume: 100 };
+      mockDataSource.chart.mockImplementation(async (symbol) => {
+        if (symbol === 'MSFT') {
+          throw new Error('Too Many Requests');
+        }
+        return { symbol, bars: [bar] };
+      });
+      const range = { startDate: new Date('2024-01-01'), endDate: new Date('2024-01-03'), validation: false as const };
+
+      const results = await client.getHistoricalDataBatch([
+        { symbol: 'AAPL', ...range },
+        { symbol: 'MSFT', ...range },
+      ]);
+
+      expect(results[0]).toEqual({ symbol: 'AAPL', data: [bar] });
+      expect(results[1].error).toBeInstanceOf(RateLimitedError);
+    });
+  });
+
   describe('constructor', () => {
     it('should create an instance with default adapter when no parameter provided', () => {
       const defaultClient = new MarketDataClient();
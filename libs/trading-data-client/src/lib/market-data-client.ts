@@ -1,13 +1,94 @@
 import type {
+  BatchItemResult,
+  BatchOptions,
+  CandleAlignment,
+  CorporateActions,
+  DataQualityReport,
   HistoricalDataParams,
+  HistoricalDataResult,
   OHLCVData,
   QuoteData,
+  PriceAdjustment,
   TimeInterval,
 } from './types/index.js';
 import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
 import type { IDataSourceAdapter } from './interfaces/data-source-adapter.interface.js';
 import { normalizeSymbol } from './symbol-normalizer.js';
 import { YahooFinanceAdapter } from './adapters/yahoo-finance.adapter.js';
+import {
+  InvalidParameterError,
+  SymbolNotFoundError,
+  UnsupportedIntervalError,
+} from './errors/trading-errors.js';
+import { toTradingDataError } from './errors/classify-error.js';
+import { intervalStart, isSessionAligned, resampleCandles } from './resampling/resampler.js';
+import { adjustCandles, NO_CORPORATE_ACTIONS } from './adjustment/adjust-candles.js';
+import { validateCandles } from './validation/validate-candles.js';
+import { calendarForSymbol } from './calendar/calendars.js';
+import {
+  batchProgress,
+  DEFAULT_BATCH_CONCURRENCY,
+  QUOTE_CHUNK_SIZE,
+  runBatch,
+  toBatchError,
+} from './batch/run-batch.js';
+import { ConcurrencyLimiter } from './resilience/concurrency-limiter.js';
+import { toQuoteData } from './utils/quote-data.js';
+
+/**
+ * Intervals supported by getHistoricalData
+ */
+const SUPPORTED_INTERVALS: readonly TimeInterval[] = [
+  '1m', '2m', '5m', '15m', '30m',
+  '1h', '2h', '3h', '4h', '6h', '8h', '12h',
+  '1d', '2d', '3d', '1wk', '1mo', '3mo',
+];
+
+/**
+ * Price adjustments supported by getHistoricalData
+ */
+const PRICE_ADJUSTMENTS: readonly PriceAdjustment[] = ['none', 'splits', 'splits+dividends'];
+
+/**
+ * Intervals built by resampling a shorter interval fetched from the data source
+ */
+const SOURCE_INTERVALS: Partial<Record<TimeInterval, TimeInterval>> = {
+  '2h': '1h',
+  '3h': '1h',
+  '4h': '1h',
+  '6h': '1h',
+  '8h': '1h',
+  '12h': '1h',
+  '2d': '1d',
+  '3d': '1d',
+  '3mo': '1mo',
+};
+
+/**
+ * Interval to fetch for a requested interval and alignment, or undefined to serve the source bars as-is
+ * Daily and longer bars aligned to a session other than UTC midnight are built from hourly bars,
+ * weeks not starting on Monday from daily bars
+ */
+function sourceIntervalFor(interval: TimeInterval, alignment: CandleAlignment = {}): TimeInterval | undefined {
+  const daily = interval === '1d' || interval === '2d' || interval === '3d';
+  const weekly = interval === '1wk';
+  const monthly = interval === '1mo' || interval === '3mo';
+
+  if ((daily || weekly || monthly) && isSessionAligned(alignment)) {
+    return '1h';
+  }
+  if (weekly && (alignment.weekStartsOn ?? 1) !== 1) {
+    return '1d';
+  }
+  return SOURCE_INTERVALS[interval];
+}
+
+/**
+ * Quality report of bars returned without validation
+ */
+function uncheckedReport(bars: OHLCVData[]): DataQualityReport {
+  return { received: bars.length, returned: bars.length, dropped: 0, filled: 0, issues: [] };
+}
 
 /**
  * Client for fetching market data (historical data and quotes)
@@ -43,50 +124,113 @@ export class MarketDataClient implements IMarketDataProvider {
    * Fetch historical OHLCV data for an asset
    * @param params - Parameters for fetching historical data
    * @returns Promise resolving to array of OHLCV data points
+   * @throws UnsupportedIntervalError or InvalidParameterError for invalid parameters
+   * @throws DataQualityError for invalid bars under the 'throw' validation policy
+   * @throws SymbolNotFoundError, RateLimitedError, NetworkError or TradingDataError when the request fails
    */
   async getHistoricalData(params: HistoricalDataParams): Promise<OHLCVData[]> {
-    const { symbol, startDate, endDate, interval = '1d' } = params;
+    return (await this.getHistoricalDataWithQuality(params)).data;
+  }
+
+  /**
+   * Fetch historical OHLCV data together with the quality report and corporate actions of the fetched bars
+   * The report describes the bars as delivered by the data source, before adjustment and resampling.
+   * @param params - Parameters for fetching historical data
+   * @returns Promise resolving to the validated data and its quality report
+   * @throws Same errors as getHistoricalData
+   */
+  async getHistoricalDataWithQuality(params: HistoricalDataParams): Promise<HistoricalDataResult> {
+    const { symbol, startDate, endDate, interval = '1d', alignment, adjustment = 'splits', validation = {} } = params;
+
+    if (!SUPPORTED_INTERVALS.includes(interval)) {
+      throw new UnsupportedIntervalError(`Unsupported interval: ${interval}`, {
+        symbol,
+        interval,
+        supported: SUPPORTED_INTERVALS,
+      });
+    }
+    if (!(startDate instanceof Date) || isNaN(startDate.getTime())) {
+      throw new InvalidParameterError(`Invalid start date for ${symbol}`, {
+        symbol,
+        interval,
+        parameter: 'startDate',
+      });
+    }
+    if (!PRICE_ADJUSTMENTS.includes(adjustment)) {
+      throw new InvalidParameterError(`Invalid price adjustment for ${symbol}: ${adjustment}`, {
+        symbol,
+        interval,
+        parameter: 'adjustment',
+      });
+    }
 
     // Normalize the symbol to Yahoo Finance format
     const normalizedSymbol = normalizeSymbol(symbol);
 
     try {
-      // For 4h interval, fetch 1h data and aggregate it
-      const fetchInterval = interval === '4h' ? '1h' : interval;
+      // Intervals the data source does not serve are resampled from a shorter one,
+      // fetched from the start of the first bucket so it is complete
+      const sourceInterval = sourceIntervalFor(interval, alignment);
 
-      const queryOptions = {
-        period1: startDate,
+      const result = await this.dataSource.chart(normalizedSymbol, {
+        period1: sourceInterval ? intervalStart(startDate, interval, alignment) : startDate,
         period2: endDate || new Date(),
-        interval: this.mapInterval(fetchInterval),
-      };
-
-      // Use chart module for full interval support
-      const result = await this.dataSource.chart(normalizedSymbol, queryOptions);
+        interval: sourceInterval ?? interval,
+      });
 
-      // Check if result contains quotes
-      if (!result.quotes || result.quotes.length === 0) {
-        return [];
+      const actions = result.actions ?? NO_CORPORATE_ACTIONS;
+      if (result.bars.length === 0) {
+        return { data: [], quality: uncheckedReport([]), actions };
       }
 
-      const ohlcvData = result.quotes.map((item: any) => ({
-        date: item.date,
-        open: item.open ?? 0,
-        high: item.high ?? 0,
-        low: item.low ?? 0,
-        close: item.close ?? 0,
-        volume: item.volume ?? 0,
-        adjClose: item.adjclose ?? undefined,
-      }));
-
-      // If 4h interval was requested, aggregate the 1h data
-      if (interval === '4h') {
-        return this.aggregateTo4HourCandles(ohlcvData);
-      }
+      // Repair the source bars before adjusting and resampling them
+      const { data: validated, quality } =
+        validation === false
+          ? { data: result.bars, quality: uncheckedReport(result.bars) }
+          : validateCandles(result.bars, {
+              ...validation,
+              calendar: validation.checkGaps === false ? undefined : calendarForSymbol(symbol),
+              interval: sourceInterval ?? interval,
+            });
+
+      // Adjust the source bars, so resampled bars combine consistently adjusted prices
+      const bars = adjustCandles(validated, actions, result.adjustment ?? 'none', adjustment);
+
+      return { data: sourceInterval ? resampleCandles(bars, interval, alignment) : bars, quality, actions };
+    } catch (error) {
+      throw toTradingDataError(
+        error,
+        `Failed to fetch historical data for ${symbol}: ${error instanceof Error ? error.message : String(error)}`,
+        { symbol, interval }
+      );
+    }
+  }
 
-      return ohlcvData;
+  /**
+   * Fetch the splits and dividends of an asset
+   * Data sources that do not report corporate actions return none.
+   * @param symbol - Asset symbol
+   * @param startDate - Start of the range
+   * @param endDate - End of the range (default: now)
+   * @returns Splits and dividends with an ex-date in the range
+   * @throws SymbolNotFoundError, RateLimitedError, NetworkError or TradingDataError when the request fails
+   */
+  async getCorporateActions(symbol: string, startDate: Date, endDate: Date = new Date()): Promise<CorporateActions> {
+    try {
+      const result = await this.dataSource.chart(normalizeSymbol(symbol), {
+        period1: startDate,
+        period2: endDate,
+        interval: '1d',
+      });
+      // Data sources report the events after the range the bars were adjusted for as well
+      const inRange = ({ date }: { date: Date }) => date >= startDate && date <= endDate;
+      const actions = result.actions ?? NO_CORPORATE_ACTIONS;
+      return { splits: actions.splits.filter(inRange), dividends: actions.dividends.filter(inRange) };
     } catch (error) {
-      throw new Error(
-        `Failed to fetch historical data for ${symbol}: ${error instanceof Error ? error.message : String(error)}`
+      throw toTradingDataError(
+        error,
+        `Failed to fetch corporate actions for ${symbol}: ${error instanceof Error ? error.message : String(error)}`,
+        { symbol }
       );
     }
   }
@@ -95,6 +239,7 @@ export class MarketDataClient implements IMarketDataProvider {
    * Fetch current quote data for an asset
    * @param symbol - Asset symbol (e.g., 'EURUSD', 'EUR/USD', or 'EURUSD=X' for Forex)
    * @returns Promise resolving to quote data
+   * @throws SymbolNotFoundError, RateLimitedError, NetworkError or TradingDataError when the request fails
    */
   async getQuote(symbol: string): Promise<QuoteData> {
     // Normalize the symbol to Yahoo Finance format
@@ -104,99 +249,89 @@ export class MarketDataClient implements IMarketDataProvider {
       const quote = await this.dataSource.quote(normalizedSymbol);
 
       if (!quote) {
-        throw new Error(`No quote data found for ${symbol}`);
+        throw new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol });
       }
 
-      return {
-        symbol: quote.symbol,
-        price: quote.regularMarketPrice ?? 0,
-        previousClose: quote.regularMarketPreviousClose,
-        open: quote.regularMarketOpen,
-        dayHigh: quote.regularMarketDayHigh,
-        dayLow: quote.regularMarketDayLow,
-        volume: quote.regularMarketVolume,
-        marketCap: quote.marketCap,
-        timestamp: quote.regularMarketTime || new Date(),
-      };
+      return toQuoteData(symbol, quote);
     } catch (error) {
-      throw new Error(
-        `Failed to fetch quote for ${symbol}: ${error instanceof Error ? error.message : String(error)}`
+      throw toTradingDataError(
+        error,
+        `Failed to fetch quote for ${symbol}: ${error instanceof Error ? error.message : String(error)}`,
+        { symbol }
       );
     }
   }
 
   /**
-   * Aggregate 1-hour OHLCV data into 4-hour candles
-   * @param hourlyData - Array of 1-hour OHLCV data points
-   * @returns Array of 4-hour OHLCV data points
+   * Fetch current quotes of several assets
+   * Uses the data source's multi-symbol quote request (in chunks of 50 symbols) when it has one,
+   * otherwise one quote request per symbol.
+   * @param symbols - Asset symbols, in any format getQuote accepts
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns One result per symbol, in input order, with either the quote or the error
    */
-  private aggregateTo4HourCandles(hourlyData: OHLCVData[]): OHLCVData[] {
-    if (hourlyData.length === 0) {
-      return [];
+  async getQuotes(symbols: string[], options: BatchOptions = {}): Promise<BatchItemResult<QuoteData>[]> {
+    const quotes = this.dataSource.quotes?.bind(this.dataSource);
+    if (!quotes) {
+      return runBatch(symbols, (symbol) => symbol, (symbol) => this.getQuote(symbol), options);
     }
 
-    const fourHourCandles: OHLCVData[] = [];
-    let currentCandle: OHLCVData | null = null;
-    let candleStartHour = -1;
-
-    for (const hourData of hourlyData) {
-      const hour = hourData.date.getUTCHours();
-      
-      // Determine if this hour starts a new 4-hour period (0, 4, 8, 12, 16, 20)
-      const periodStartHour = Math.floor(hour / 4) * 4;
-      
-      if (candleStartHour !== periodStartHour) {
-        // Start a new 4-hour candle
-        if (currentCandle !== null) {
-          fourHourCandles.push(currentCandle);
-        }
-        
-        // Create a date normalized to the start of the 4-hour period
-        const normalizedDate = new Date(hourData.date);
-        normalizedDate.setUTCHours(periodStartHour, 0, 0, 0);
-        
-        currentCandle = {
-          date: normalizedDate,
-          open: hourData.open,
-          high: hourData.high,
-          low: hourData.low,
-          close: hourData.close,
-          volume: hourData.volume,
-          adjClose: hourData.adjClose,
-        };
-        candleStartHour = periodStartHour;
-      } else {
-        // Update the current 4-hour candle
-        currentCandle!.high = Math.max(currentCandle!.high, hourData.high);
-        currentCandle!.low = Math.min(currentCandle!.low, hourData.low);
-        currentCandle!.close = hourData.close;
-        currentCandle!.volume += hourData.volume;
-        // For adjClose, use the most recent value if available
-        if (hourData.adjClose !== undefined) {
-          currentCandle!.adjClose = hourData.adjClose;
-        }
-      }
-    }
+    const limiter = new ConcurrencyLimiter(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+    const settle = batchProgress(symbols.length, options);
+    const results = new Map<string, BatchItemResult<QuoteData>>();
 
-    // Don't forget to add the last candle
-    if (currentCandle !== null) {
-      fourHourCandles.push(currentCandle);
+    // Symbols that normalize to the same provider symbol are requested once
+    const requested = new Map<string, string[]>();
+    for (const symbol of symbols) {
+      const normalizedSymbol = normalizeSymbol(symbol);
+      requested.set(normalizedSymbol, [...(requested.get(normalizedSymbol) ?? []), symbol]);
     }
+    const normalizedSymbols = [...requested.keys()];
+    const chunks: string[][] = [];
+    for (let i = 0; i < normalizedSymbols.length; i += QUOTE_CHUNK_SIZE) {
+      chunks.push(normalizedSymbols.slice(i, i + QUOTE_CHUNK_SIZE));
+    }
+
+    await Promise.all(
+      chunks.map(async (chunk) => {
+        const callers = chunk.flatMap((normalizedSymbol) => requested.get(normalizedSymbol) ?? []);
+        try {
+          const snapshots = await limiter.run(() => quotes(chunk, { signal: options.signal }), options.signal);
+          const bySymbol = new Map(snapshots.map((snapshot) => [snapshot.symbol, snapshot]));
+          for (const normalizedSymbol of chunk) {
+            const snapshot = bySymbol.get(normalizedSymbol);
+            for (const symbol of requested.get(normalizedSymbol) ?? []) {
+              results.set(
+                symbol,
+                settle(
+                  snapshot
+                    ? { symbol, data: toQuoteData(symbol, snapshot) }
+                    : { symbol, error: new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol }) }
+                )
+              );
+            }
+          }
+        } catch (error) {
+          for (const symbol of callers) {
+            results.set(symbol, settle<QuoteData>({ symbol, error: toBatchError(error, symbol) }));
+          }
+        }
+      })
+    );
 
-    return fourHourCandles;
+    return symbols.map((symbol) => results.get(symbol)!);
   }
 
   /**
-   * Map our TimeInterval type to yahoo-finance2's interval format
-   * @param interval - Our time interval type
-   * @returns yahoo-finance2 compatible interval string
+   * Fetch historical data of several requests with bounded concurrency
+   * @param paramsList - Parameters of each request, as for getHistoricalData
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns One result per request, in input order, with either the candles or the error
    */
-  private mapInterval(
-    interval: TimeInterval
-  ): '1m' | '2m' | '5m' | '15m' | '30m' | '60m' | '90m' | '1h' | '1d' | '5d' | '1wk' | '1mo' | '3mo' {
-    // yahoo-finance2 chart accepts: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 5d, 1wk, 1mo, 3mo
-    // Our interface uses: 1m, 2m, 5m, 15m, 30m, 1h, 4h, 1d, 1wk, 1mo
-    // Note: 4h is handled by fetching 1h data and aggregating it, so it won't reach this method as 4h
-    return interval as '1m' | '2m' | '5m' | '15m' | '30m' | '60m' | '90m' | '1h' | '1d' | '5d' | '1wk' | '1mo' | '3mo';
+  async getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options: BatchOptions = {}
+  ): Promise<BatchItemResult<OHLCVData[]>[]> {
+    return runBatch(paramsList, (params) => params.symbol, (params) => this.getHistoricalData(params), options);
   }
 }
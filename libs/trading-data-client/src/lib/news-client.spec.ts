@@ -51,23 +51,7 @@ describe('NewsClient', () => {
             relatedTickers: ['AAPL', 'NASDAQ'],
           },
         ],
-        quotes: [],
-        count: 0,
-        explains: [],
-        nav: [],
-        lists: [],
-        researchReports: [],
-        totalTime: 100,
-        timeTakenForQuotes: 0,
-        timeTakenForNews: 50,
-        timeTakenForAlgowatchlist: 0,
-        timeTakenForPredefinedScreener: 0,
-        timeTakenForCrunchbase: 0,
-        timeTakenForNav: 0,
-        timeTakenForResearchReports: 0,
-        timeTakenForScreenerField: 0,
-        timeTakenForCulturalAssets: 0,
-        timeTakenForSearchLists: 0,
+        hits: [],
       };
 
       mockDataSource.search.mockResolvedValue(mockSearchResult);
@@ -95,7 +79,7 @@ describe('NewsClient', () => {
     });
 
     it('should use default count when not specified', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       await client.getNews({ query: 'AAPL' });
 
@@ -106,7 +90,7 @@ describe('NewsClient', () => {
     });
 
     it('should use custom count when specified', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       await client.getNews({ query: 'TSLA', count: 20 });
 
@@ -117,21 +101,13 @@ describe('NewsClient', () => {
     });
 
     it('should return empty array when no news available', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       const result = await client.getNews({ query: 'INVALID' });
 
       expect(result).toEqual([]);
     });
 
-    it('should handle missing news property', async () => {
-      mockDataSource.search.mockResolvedValue({ quotes: [] });
-
-      const result = await client.getNews({ query: 'TEST' });
-
-      expect(result).toEqual([]);
-    });
-
     it('should throw error when search API fails', async () => {
       const errorMessage = 'API Error';
       mockDataSource.search.mockRejectedValue(new Error(errorMessage));
@@ -142,7 +118,7 @@ describe('NewsClient', () => {
     });
 
     it('should normalize forex symbols', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       await client.getNews({ query: 'EURUSD' });
 
@@ -153,7 +129,7 @@ describe('NewsClient', () => {
     });
 
     it('should normalize forex symbols with slash', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       await client.getNews({ query: 'EUR/USD' });
 
@@ -164,7 +140,7 @@ describe('NewsClient', () => {
     });
 
     it('should not modify stock symbols', async () => {
-      mockDataSource.search.mockResolvedValue({ news: [], quotes: [] });
+      mockDataSource.search.mockResolvedValue({ hits: [], news: [] });
 
       await client.getNews({ query: 'AAPL' });
 
@@ -186,7 +162,7 @@ describe('NewsClient', () => {
             type: 'STORY',
           },
         ],
-        quotes: [],
+        hits: [],
       };
 
       mockDataSource.search.mockResolvedValue(mockSearchResult);
@@ -226,7 +202,7 @@ describe('NewsClient', () => {
             },
           },
         ],
-        quotes: [],
+        hits: [],
       };
 
       mockDataSource.search.mockResolvedValue(mockSearchResult);
@@ -3,6 +3,7 @@ import type { INewsProvider } from './interfaces/news-provider.interface.js';
 import type { IDataSourceAdapter } from './interfaces/data-source-adapter.interface.js';
 import { normalizeSymbol } from './symbol-normalizer.js';
 import { YahooFinanceAdapter } from './adapters/yahoo-finance.adapter.js';
+import { toTradingDataError } from './errors/classify-error.js';
 
 /**
  * Client for fetching news articles
@@ -51,23 +52,12 @@ export class NewsClient implements INewsProvider {
         quotesCount: 0, // We only want news, not quotes
       });
 
-      if (!searchResult.news || searchResult.news.length === 0) {
-        return [];
-      }
-
-      return searchResult.news.map((article: any) => ({
-        uuid: article.uuid,
-        title: article.title,
-        publisher: article.publisher,
-        link: article.link,
-        providerPublishTime: article.providerPublishTime,
-        type: article.type,
-        thumbnail: article.thumbnail,
-        relatedTickers: article.relatedTickers,
-      }));
+      return searchResult.news;
     } catch (error) {
-      throw new Error(
-        `Failed to fetch news for ${query}: ${error instanceof Error ? error.message : String(error)}`
+      throw toTradingDataError(
+        error,
+        `Failed to fetch news for ${query}: ${error instanceof Error ? error.message : String(error)}`,
+        { symbol: query }
       );
     }
   }
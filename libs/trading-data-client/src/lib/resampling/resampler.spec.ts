@@ -0,0 +1,188 @@
+import { FX_SESSION_ALIGNMENT, intervalStart, resampleCandles, toIntervalSpec } from './resampler';
+import type { OHLCVData, TimeInterval } from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Hourly candles with close = index, starting at the given instant
+ */
+const hourly = (start: string, count: number): OHLCVData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    date: new Date(new Date(start).getTime() + i * HOUR),
+    open: i,
+    high: i + 0.5,
+    low: i - 0.5,
+    close: i,
+    volume: 10,
+  }));
+
+const daily = (dates: string[]): OHLCVData[] =>
+  dates.map((date, i) => ({
+    date: new Date(`${date}T00:00:00Z`),
+    open: i,
+    high: i + 1,
+    low: i - 1,
+    close: i + 0.5,
+    volume: 100,
+  }));
+
+const isoDates = (candles: OHLCVData[]) => candles.map((candle) => candle.date.toISOString());
+
+describe('resampleCandles', () => {
+  it('should aggregate OHLCV values per bucket', () => {
+    const result = resampleCandles(hourly('2024-01-01T00:00:00Z', 8), '4h');
+
+    expect(result).toEqual([
+      { date: new Date('2024-01-01T00:00:00Z'), open: 0, high: 3.5, low: -0.5, close: 3, volume: 40 },
+      { date: new Date('2024-01-01T04:00:00Z'), open: 4, high: 7.5, low: 3.5, close: 7, volume: 40 },
+    ]);
+  });
+
+  it('should keep the last defined adjusted close', () => {
+    const candles = hourly('2024-01-01T00:00:00Z', 3).map((candle, i) => ({
+      ...candle,
+      adjClose: i < 2 ? i * 10 : undefined,
+    }));
+
+    expect(resampleCandles(candles, '3h')[0].adjClose).toBe(10);
+  });
+
+  it('should align hour buckets to UTC midnight', () => {
+    const candles = hourly('2024-01-01T01:00:00Z', 24);
+
+    expect(isoDates(resampleCandles(candles, '3h')).slice(0, 2)).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T03:00:00.000Z',
+    ]);
+    expect(isoDates(resampleCandles(candles, '6h'))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T06:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+      '2024-01-01T18:00:00.000Z',
+      '2024-01-02T00:00:00.000Z',
+    ]);
+    expect(isoDates(resampleCandles(candles, '12h'))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+      '2024-01-02T00:00:00.000Z',
+    ]);
+  });
+
+  it('should skip buckets without candles', () => {
+    const candles = [...hourly('2024-01-01T00:00:00Z', 2), ...hourly('2024-01-01T10:00:00Z', 1)];
+
+    expect(isoDates(resampleCandles(candles, '2h'))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T10:00:00.000Z',
+    ]);
+  });
+
+  it('should build FX daily bars from 17:00 New York across the DST change', () => {
+    // US daylight saving time starts on 2024-03-10: sessions open at 22:00 UTC before, 21:00 UTC after
+    const candles = hourly('2024-03-07T20:00:00Z', 5 * 24);
+
+    const result = resampleCandles(candles, '1d', FX_SESSION_ALIGNMENT);
+
+    expect(isoDates(result)).toEqual([
+      '2024-03-06T22:00:00.000Z',
+      '2024-03-07T22:00:00.000Z',
+      '2024-03-08T22:00:00.000Z',
+      '2024-03-09T22:00:00.000Z',
+      '2024-03-10T21:00:00.000Z',
+      '2024-03-11T21:00:00.000Z',
+    ]);
+    // The Sunday session is 23 hours long
+    expect(result[3].volume).toBe(23 * 10);
+    expect(result[4].volume).toBe(24 * 10);
+  });
+
+  it('should start FX weeks with the Sunday 17:00 New York session', () => {
+    // Friday 15:00-16:00 New York and Sunday 17:00 New York
+    const candles = [...hourly('2024-01-05T20:00:00Z', 2), ...hourly('2024-01-07T22:00:00Z', 1)];
+
+    expect(isoDates(resampleCandles(candles, '1wk', FX_SESSION_ALIGNMENT))).toEqual([
+      '2023-12-31T22:00:00.000Z',
+      '2024-01-07T22:00:00.000Z',
+    ]);
+  });
+
+  it('should count intraday buckets from the session anchor', () => {
+    const candles = hourly('2024-01-02T22:00:00Z', 8);
+
+    expect(isoDates(resampleCandles(candles, '4h', FX_SESSION_ALIGNMENT))).toEqual([
+      '2024-01-02T22:00:00.000Z',
+      '2024-01-03T02:00:00.000Z',
+    ]);
+  });
+
+  it('should build multi-day and weekly bars from daily bars', () => {
+    const candles = daily(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08']);
+
+    expect(isoDates(resampleCandles(candles, '2d'))).toEqual([
+      '2023-12-31T00:00:00.000Z',
+      '2024-01-02T00:00:00.000Z',
+      '2024-01-04T00:00:00.000Z',
+      '2024-01-08T00:00:00.000Z',
+    ]);
+    expect(resampleCandles(candles, '3d').map((candle) => candle.volume)).toEqual([200, 300, 100]);
+    expect(isoDates(resampleCandles(candles, '1wk'))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-08T00:00:00.000Z',
+    ]);
+    expect(isoDates(resampleCandles(candles, '1wk', { weekStartsOn: 0 }))).toEqual([
+      '2023-12-31T00:00:00.000Z',
+      '2024-01-07T00:00:00.000Z',
+    ]);
+  });
+
+  it('should build quarterly bars', () => {
+    const candles = daily(['2024-01-31', '2024-03-28', '2024-04-01', '2024-06-28', '2024-12-31']);
+
+    const result = resampleCandles(candles, '3mo');
+
+    expect(isoDates(result)).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-04-01T00:00:00.000Z',
+      '2024-10-01T00:00:00.000Z',
+    ]);
+    expect(result[0]).toMatchObject({ open: 0, close: 1.5, high: 2, low: -1, volume: 200 });
+  });
+
+  it('should accept custom interval specs', () => {
+    const candles = hourly('2024-01-01T00:00:00Z', 3);
+
+    expect(isoDates(resampleCandles(candles, { unit: 'minute', count: 90 }))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T01:30:00.000Z',
+    ]);
+  });
+
+  it('should return an empty array for no candles', () => {
+    expect(resampleCandles([], '4h')).toEqual([]);
+  });
+});
+
+describe('intervalStart', () => {
+  it('should return the start of the bucket containing a date', () => {
+    expect(intervalStart(new Date('2024-05-15T13:30:00Z'), '4h')).toEqual(new Date('2024-05-15T12:00:00Z'));
+    expect(intervalStart(new Date('2024-05-15T13:30:00Z'), '3mo')).toEqual(new Date('2024-04-01T00:00:00Z'));
+    expect(intervalStart(new Date('2024-05-15T13:30:00Z'), '1d', { timezone: 'Europe/Berlin' })).toEqual(
+      new Date('2024-05-14T22:00:00Z')
+    );
+  });
+});
+
+describe('toIntervalSpec', () => {
+  it('should resolve time intervals', () => {
+    expect(toIntervalSpec('12h')).toEqual({ unit: 'hour', count: 12 });
+  });
+
+  it('should reject invalid specs and alignments', () => {
+    expect(() => toIntervalSpec({ unit: 'hour', count: 0 })).toThrow(InvalidParameterError);
+    expect(() => toIntervalSpec('7h' as unknown as TimeInterval)).toThrow('Unknown interval: 7h');
+    expect(() => resampleCandles([], '1d', { timezone: 'Mars/Olympus' })).toThrow('Invalid timezone');
+    expect(() => resampleCandles([], '1d', { anchor: '25:00' })).toThrow('Invalid session anchor');
+    expect(() => resampleCandles([], '1wk', { weekStartsOn: 7 })).toThrow(InvalidParameterError);
+  });
+});
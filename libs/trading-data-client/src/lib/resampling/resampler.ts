@@ -0,0 +1,243 @@
+import type {
+  CandleAlignment,
+  IntervalSpec,
+  OHLCVData,
+  TimeInterval,
+} from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { getZonedParts, isValidTimeZone, zonedTimeToDate } from '../utils/timezone.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/**
+ * Interval spec of each TimeInterval
+ */
+export const INTERVAL_SPECS: Record<TimeInterval, IntervalSpec> = {
+  '1m': { unit: 'minute', count: 1 },
+  '2m': { unit: 'minute', count: 2 },
+  '5m': { unit: 'minute', count: 5 },
+  '15m': { unit: 'minute', count: 15 },
+  '30m': { unit: 'minute', count: 30 },
+  '1h': { unit: 'hour', count: 1 },
+  '2h': { unit: 'hour', count: 2 },
+  '3h': { unit: 'hour', count: 3 },
+  '4h': { unit: 'hour', count: 4 },
+  '6h': { unit: 'hour', count: 6 },
+  '8h': { unit: 'hour', count: 8 },
+  '12h': { unit: 'hour', count: 12 },
+  '1d': { unit: 'day', count: 1 },
+  '2d': { unit: 'day', count: 2 },
+  '3d': { unit: 'day', count: 3 },
+  '1wk': { unit: 'week', count: 1 },
+  '1mo': { unit: 'month', count: 1 },
+  '3mo': { unit: 'month', count: 3 },
+};
+
+/**
+ * FX convention: trading days run from 17:00 to 17:00 New York time
+ */
+export const FX_SESSION_ALIGNMENT: CandleAlignment = { timezone: 'America/New_York', anchor: '17:00' };
+
+/**
+ * Alignment with defaults applied and the anchor in minutes
+ */
+interface ResolvedAlignment {
+  timezone: string;
+  anchorMinutes: number;
+  weekStartsOn: number;
+}
+
+/**
+ * Resolve a TimeInterval or validate an interval spec
+ * @throws InvalidParameterError for unknown intervals or invalid counts
+ */
+export function toIntervalSpec(interval: TimeInterval | IntervalSpec): IntervalSpec {
+  const spec = typeof interval === 'string' ? INTERVAL_SPECS[interval] : interval;
+  if (!spec) {
+    throw new InvalidParameterError(`Unknown interval: ${interval}`, { parameter: 'interval' });
+  }
+  if (!Number.isInteger(spec.count) || spec.count < 1) {
+    throw new InvalidParameterError(`Interval count must be a positive integer, got ${spec.count}`, {
+      parameter: 'interval',
+    });
+  }
+  return spec;
+}
+
+/**
+ * Check whether an alignment differs from UTC midnight sessions
+ */
+export function isSessionAligned(alignment: CandleAlignment = {}): boolean {
+  const { timezone, anchorMinutes } = resolveAlignment(alignment);
+  return timezone !== 'UTC' || anchorMinutes !== 0;
+}
+
+/**
+ * Start of the bucket containing a date
+ * @param date - Any instant
+ * @param interval - Bucket interval
+ * @param alignment - Timezone, session anchor and week start (default: UTC midnight, Monday)
+ */
+export function intervalStart(
+  date: Date,
+  interval: TimeInterval | IntervalSpec,
+  alignment: CandleAlignment = {}
+): Date {
+  return new Date(bucketStart(date.getTime(), toIntervalSpec(interval), resolveAlignment(alignment)));
+}
+
+/**
+ * Aggregate candles into buckets of a longer interval
+ *
+ * Buckets take the open of their first candle, the close of their last, the extreme
+ * high and low, the summed volume and the last adjusted close, and are dated at the
+ * bucket start. Empty buckets are skipped.
+ *
+ * @param candles - Candles sorted by date, shorter than the target interval
+ * @param interval - Target interval
+ * @param alignment - Timezone, session anchor and week start (default: UTC midnight, Monday)
+ * @returns Resampled candles, oldest first
+ *
+ * @example
+ * // 6h bars from 1h bars
+ * resampleCandles(hourly, '6h');
+ * // FX daily bars closing at 17:00 New York
+ * resampleCandles(hourly, '1d', FX_SESSION_ALIGNMENT);
+ * // Custom interval
+ * resampleCandles(daily, { unit: 'day', count: 5 });
+ */
+export function resampleCandles(
+  candles: OHLCVData[],
+  interval: TimeInterval | IntervalSpec,
+  alignment: CandleAlignment = {}
+): OHLCVData[] {
+  const spec = toIntervalSpec(interval);
+  const resolved = resolveAlignment(alignment);
+  const resampled: OHLCVData[] = [];
+  let current: OHLCVData | undefined;
+  let currentStart: number | undefined;
+
+  for (const candle of candles) {
+    const start = bucketStart(candle.date.getTime(), spec, resolved);
+
+    if (current && start === currentStart) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+      if (candle.adjClose !== undefined) {
+        current.adjClose = candle.adjClose;
+      }
+    } else {
+      current = { ...candle, date: new Date(start) };
+      currentStart = start;
+      resampled.push(current);
+    }
+  }
+
+  return resampled;
+}
+
+function resolveAlignment(alignment: CandleAlignment): ResolvedAlignment {
+  const timezone = alignment.timezone ?? 'UTC';
+  if (!isValidTimeZone(timezone)) {
+    throw new InvalidParameterError(`Invalid timezone: ${timezone}`, { parameter: 'timezone' });
+  }
+
+  const anchor = alignment.anchor ?? '00:00';
+  const match = /^(\d{1,2}):(\d{2})$/.exec(anchor);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours < 24 && minutes < 60)) {
+    throw new InvalidParameterError(`Invalid session anchor "${anchor}", expected HH:mm`, { parameter: 'anchor' });
+  }
+
+  const weekStartsOn = alignment.weekStartsOn ?? 1;
+  if (!Number.isInteger(weekStartsOn) || weekStartsOn < 0 || weekStartsOn > 6) {
+    throw new InvalidParameterError(`Invalid week start: ${weekStartsOn}`, { parameter: 'weekStartsOn' });
+  }
+
+  return { timezone, anchorMinutes: hours * 60 + minutes, weekStartsOn };
+}
+
+function bucketStart(time: number, spec: IntervalSpec, alignment: ResolvedAlignment): number {
+  const session = sessionStart(time, alignment);
+
+  switch (spec.unit) {
+    case 'minute':
+    case 'hour': {
+      const step = spec.count * (spec.unit === 'minute' ? MINUTE : HOUR);
+      return session + Math.floor((time - session) / step) * step;
+    }
+    case 'day': {
+      const day = tradingDay(session, alignment) / DAY;
+      return sessionOfTradingDay(Math.floor(day / spec.count) * spec.count * DAY, alignment);
+    }
+    case 'week': {
+      const day = tradingDay(session, alignment);
+      const weekStart = day - ((new Date(day).getUTCDay() - alignment.weekStartsOn + 7) % 7) * DAY;
+      // Weeks are counted from the first week start after the epoch (a Thursday)
+      const reference = ((alignment.weekStartsOn - 4 + 7) % 7) * DAY;
+      const week = Math.floor((weekStart - reference) / WEEK);
+      return sessionOfTradingDay(reference + Math.floor(week / spec.count) * spec.count * WEEK, alignment);
+    }
+    case 'month': {
+      const day = new Date(tradingDay(session, alignment));
+      const month = day.getUTCFullYear() * 12 + day.getUTCMonth();
+      const first = Math.floor(month / spec.count) * spec.count;
+      return sessionOfTradingDay(Date.UTC(Math.floor(first / 12), first % 12, 1), alignment);
+    }
+  }
+}
+
+/**
+ * Start of the session containing an instant: the latest local anchor time at or before it
+ */
+function sessionStart(time: number, alignment: ResolvedAlignment): number {
+  const { timezone, anchorMinutes } = alignment;
+  if (timezone === 'UTC') {
+    return Math.floor((time - anchorMinutes * MINUTE) / DAY) * DAY + anchorMinutes * MINUTE;
+  }
+
+  const parts = getZonedParts(new Date(time), timezone);
+  const today = Date.UTC(parts.year, parts.month - 1, parts.day);
+  const start = anchorOn(today, alignment);
+  return start <= time ? start : anchorOn(today - DAY, alignment);
+}
+
+/**
+ * Trading day of a session as UTC midnight of its local date
+ * Afternoon and evening anchors belong to the next day
+ */
+function tradingDay(session: number, alignment: ResolvedAlignment): number {
+  const parts = getZonedParts(new Date(session), alignment.timezone);
+  const day = Date.UTC(parts.year, parts.month - 1, parts.day);
+  return alignment.anchorMinutes >= 12 * 60 ? day + DAY : day;
+}
+
+/**
+ * Start of the session of a trading day (UTC midnight of its local date)
+ */
+function sessionOfTradingDay(day: number, alignment: ResolvedAlignment): number {
+  return anchorOn(alignment.anchorMinutes >= 12 * 60 ? day - DAY : day, alignment);
+}
+
+/**
+ * Instant of the anchor time on a local date (UTC midnight of the date)
+ */
+function anchorOn(day: number, alignment: ResolvedAlignment): number {
+  const date = new Date(day);
+  return zonedTimeToDate(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    Math.floor(alignment.anchorMinutes / 60),
+    alignment.anchorMinutes % 60,
+    0,
+    0,
+    alignment.timezone
+  ).getTime();
+}
@@ -0,0 +1,96 @@
+import type { CircuitBreakerOptions, CircuitState } from '../types/index.js';
+import { CircuitOpenError } from './errors.js';
+import { isTransientError } from './retry.js';
+
+/**
+ * Circuit breaker
+ * Opens after consecutive failures, rejects calls while open and lets a single
+ * trial call through once the reset timeout has passed (half-open)
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialRunning = false;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.isFailure = options.isFailure ?? isTransientError;
+  }
+
+  /**
+   * Current state, moving from open to half-open once the reset timeout has passed
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.now().getTime() - this.openedAt >= this.resetTimeout) {
+      this.currentState = 'half-open';
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Run a task through the breaker
+   * @throws CircuitOpenError while the circuit is open or a trial call is running
+   */
+  async execute<T>(task: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialRunning)) {
+      throw new CircuitOpenError(
+        'Circuit breaker is open',
+        new Date(this.openedAt + this.resetTimeout)
+      );
+    }
+
+    const trial = state === 'half-open';
+    if (trial) {
+      this.trialRunning = true;
+    }
+
+    try {
+      const result = await task();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure(trial);
+      } else if (trial) {
+        // The upstream answered, so it is reachable again
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialRunning = false;
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and forget past failures
+   */
+  reset(): void {
+    this.currentState = 'closed';
+    this.failures = 0;
+    this.trialRunning = false;
+  }
+
+  private onSuccess(): void {
+    this.currentState = 'closed';
+    this.failures = 0;
+  }
+
+  private onFailure(trial: boolean): void {
+    this.failures++;
+    if (trial || this.failures >= this.failureThreshold) {
+      this.currentState = 'open';
+      this.openedAt = this.now().getTime();
+    }
+  }
+}
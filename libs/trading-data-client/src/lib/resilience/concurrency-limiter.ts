@@ -0,0 +1,74 @@
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+/**
+ * Caps the number of tasks running at the same time
+ * Waiting tasks start in FIFO order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new InvalidParameterError('maxConcurrency must be a positive integer', { parameter: 'maxConcurrency' });
+    }
+  }
+
+  /**
+   * Number of running tasks
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   * @param task - Task to run
+   * @param signal - Aborts waiting for a slot (not the running task)
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiting.indexOf(start);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      this.waiting.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
@@ -0,0 +1,27 @@
+import { NetworkError } from '../errors/trading-errors.js';
+
+/**
+ * Thrown when an upstream call exceeds its timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(
+    message: string,
+    public readonly timeout: number
+  ) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown while a circuit breaker is open
+ */
+export class CircuitOpenError extends NetworkError {
+  constructor(
+    message: string,
+    public readonly retryAt: Date
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
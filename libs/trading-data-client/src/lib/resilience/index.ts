@@ -0,0 +1,7 @@
+export * from './errors.js';
+export * from './sleep.js';
+export * from './retry.js';
+export * from './token-bucket.js';
+export * from './concurrency-limiter.js';
+export * from './circuit-breaker.js';
+export * from './timeout.js';
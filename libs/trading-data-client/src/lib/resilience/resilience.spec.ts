@@ -0,0 +1,213 @@
+import { backoffDelay, isTransientError, retry } from './retry';
+import { TokenBucket } from './token-bucket';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { CircuitBreaker } from './circuit-breaker';
+import { withTimeout } from './timeout';
+import { CircuitOpenError, TimeoutError } from './errors';
+
+describe('resilience', () => {
+  let now: number;
+  const clock = () => new Date(now);
+  const fakeSleep = jest.fn(async (ms: number) => {
+    now += ms;
+  });
+
+  beforeEach(() => {
+    now = 0;
+    fakeSleep.mockClear();
+  });
+
+  describe('backoffDelay', () => {
+    it('should grow exponentially up to the maximum delay', () => {
+      const options = { initialDelay: 100, factor: 2, maxDelay: 500, jitter: 'none' as const };
+
+      expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, options))).toEqual([100, 200, 400, 500]);
+    });
+
+    it('should apply full and equal jitter', () => {
+      expect(backoffDelay(2, { initialDelay: 100, jitter: 'full' }, () => 0.5)).toBe(100);
+      expect(backoffDelay(2, { initialDelay: 100, jitter: 'equal' }, () => 0.5)).toBe(150);
+    });
+  });
+
+  describe('isTransientError', () => {
+    it('should classify throttling, network errors and timeouts as transient', () => {
+      expect(isTransientError(new Error('Too Many Requests'))).toBe(true);
+      expect(isTransientError(new Error('HTTP 503 Service Unavailable'))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('socket closed'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isTransientError(new TimeoutError('Request timed out after 10ms', 10))).toBe(true);
+    });
+
+    it('should not retry permanent errors', () => {
+      expect(isTransientError(new Error('Quote not found for symbol: INVALID'))).toBe(false);
+      expect(isTransientError(new CircuitOpenError('Circuit breaker is open', new Date()))).toBe(false);
+      expect(isTransientError('oops')).toBe(false);
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry transient errors until the task succeeds', async () => {
+      const task = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Too Many Requests'))
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValue('ok');
+
+      const result = await retry(task, { initialDelay: 100, jitter: 'none' }, { sleep: fakeSleep });
+
+      expect(result).toBe('ok');
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(fakeSleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const task = jest.fn().mockRejectedValue(new Error('Too Many Requests'));
+
+      await expect(retry(task, { retries: 2 }, { sleep: fakeSleep })).rejects.toThrow('Too Many Requests');
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry permanent errors', async () => {
+      const task = jest.fn().mockRejectedValue(new Error('Invalid symbol'));
+
+      await expect(retry(task, {}, { sleep: fakeSleep })).rejects.toThrow('Invalid symbol');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should allow a burst and then wait for refills', async () => {
+      const bucket = new TokenBucket({ tokensPerInterval: 2, interval: 1000 }, clock, fakeSleep);
+
+      await bucket.acquire();
+      await bucket.acquire();
+      expect(now).toBe(0);
+
+      await bucket.acquire();
+      expect(now).toBe(500);
+    });
+
+    it('should not exceed the burst capacity after idle time', () => {
+      const bucket = new TokenBucket({ tokensPerInterval: 1, interval: 100, burst: 3 }, clock, fakeSleep);
+      now = 10000;
+
+      expect(bucket.available).toBe(3);
+      expect([bucket.tryRemove(), bucket.tryRemove(), bucket.tryRemove(), bucket.tryRemove()]).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe('ConcurrencyLimiter', () => {
+    it('should cap running tasks and start waiting tasks in order', async () => {
+      const limiter = new ConcurrencyLimiter(2);
+      const started: number[] = [];
+      const releases: Array<() => void> = [];
+      const task = (id: number) => () =>
+        new Promise<number>((resolve) => {
+          started.push(id);
+          releases.push(() => resolve(id));
+        });
+
+      const results = [1, 2, 3].map((id) => limiter.run(task(id)));
+      await Promise.resolve();
+
+      expect(started).toEqual([1, 2]);
+      expect(limiter.pending).toBe(1);
+
+      releases[0]();
+      await results[0];
+      await Promise.resolve();
+
+      expect(started).toEqual([1, 2, 3]);
+      releases[1]();
+      releases[2]();
+      expect(await Promise.all(results)).toEqual([1, 2, 3]);
+      expect(limiter.running).toBe(0);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      const limiter = new ConcurrencyLimiter(1);
+      const blocker = limiter.run(() => new Promise<void>((resolve) => setTimeout(resolve, 10)));
+      const controller = new AbortController();
+
+      const waiting = limiter.run(async () => 'late', controller.signal);
+      controller.abort(new Error('cancelled'));
+
+      await expect(waiting).rejects.toThrow('cancelled');
+      expect(limiter.pending).toBe(0);
+      await blocker;
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    const failing = () => Promise.reject(new Error('fetch failed'));
+
+    it('should open after consecutive failures and fail fast', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, clock);
+
+      await expect(breaker.execute(failing)).rejects.toThrow('fetch failed');
+      await expect(breaker.execute(failing)).rejects.toThrow('fetch failed');
+      expect(breaker.state).toBe('open');
+
+      const task = jest.fn().mockResolvedValue('ok');
+      await expect(breaker.execute(task)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should close after a successful trial call', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, clock);
+      await expect(breaker.execute(failing)).rejects.toThrow();
+
+      now = 1000;
+      expect(breaker.state).toBe('half-open');
+      await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should reopen when the trial call fails', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, clock);
+      await expect(breaker.execute(failing)).rejects.toThrow();
+
+      now = 1000;
+      await expect(breaker.execute(failing)).rejects.toThrow('fetch failed');
+      expect(breaker.state).toBe('open');
+    });
+
+    it('should ignore permanent errors', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 }, clock);
+
+      await expect(breaker.execute(() => Promise.reject(new Error('Invalid symbol')))).rejects.toThrow();
+      expect(breaker.state).toBe('closed');
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should abort slow tasks with a TimeoutError', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const slow = (signal: AbortSignal) => {
+        receivedSignal = signal;
+        return new Promise((resolve) => setTimeout(resolve, 1000));
+      };
+
+      await expect(withTimeout(slow, 10)).rejects.toBeInstanceOf(TimeoutError);
+      expect(receivedSignal?.aborted).toBe(true);
+    });
+
+    it('should return results of fast tasks', async () => {
+      await expect(withTimeout(async () => 'ok', 1000)).resolves.toBe('ok');
+    });
+
+    it('should forward aborts of the caller', async () => {
+      const controller = new AbortController();
+      const pending = withTimeout(() => new Promise(() => undefined), 1000, controller.signal);
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(pending).rejects.toThrow('cancelled');
+    });
+  });
+});
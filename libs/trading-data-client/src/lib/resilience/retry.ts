@@ -0,0 +1,92 @@
+import type { RetryOptions } from '../types/index.js';
+import { NetworkError, RateLimitedError, TradingDataError } from '../errors/trading-errors.js';
+import { CircuitOpenError } from './errors.js';
+import { sleep as defaultSleep } from './sleep.js';
+
+/**
+ * Messages of errors that usually go away on retry (throttling, network, server errors)
+ */
+const TRANSIENT_ERROR_PATTERN =
+  /\b(429|502|503|504)\b|internal server error|service unavailable|too many requests|rate limit|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|fetch failed|network/i;
+
+/**
+ * Check whether an error is likely transient and worth retrying
+ * Rate limits, network errors and timeouts count as transient; open circuits,
+ * other trading errors and caller aborts do not
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+  if (error instanceof RateLimitedError || error instanceof NetworkError) {
+    return true;
+  }
+  if (error instanceof TradingDataError) {
+    return false;
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return false;
+    }
+    const code = (error as NodeJS.ErrnoException).code;
+    return TRANSIENT_ERROR_PATTERN.test(`${code ?? ''} ${error.message}`);
+  }
+  return false;
+}
+
+/**
+ * Delay before a retry
+ * @param attempt - Retry number (1 for the first retry)
+ * @param options - Retry options
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const { initialDelay = 250, maxDelay = 10000, factor = 2, jitter = 'full' } = options;
+  const base = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+
+  switch (jitter) {
+    case 'none':
+      return base;
+    case 'equal':
+      return base / 2 + random() * (base / 2);
+    default:
+      return random() * base;
+  }
+}
+
+/**
+ * Run a task and retry transient failures with exponential backoff
+ * @param task - Task receiving the attempt number (0 for the first attempt)
+ * @param options - Retry options
+ * @param context - Abort signal and injectable sleep / random functions
+ * @returns Result of the first successful attempt
+ */
+export async function retry<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  context: {
+    signal?: AbortSignal;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+    random?: () => number;
+  } = {}
+): Promise<T> {
+  const { retries = 3, shouldRetry = isTransientError } = options;
+  const { signal, sleep = defaultSleep, random = Math.random } = context;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error, attempt + 1)) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt + 1, options, random), signal);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { TimeoutError } from './errors.js';
+
+/**
+ * Run a task with a timeout
+ * The task receives a signal that aborts on timeout or when the parent signal aborts;
+ * the returned promise settles at that point even if the task ignores the signal
+ * @param task - Task receiving the combined abort signal
+ * @param timeout - Timeout in milliseconds
+ * @param parentSignal - Caller signal
+ * @throws TimeoutError when the timeout expires first
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeout: number,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  parentSignal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parentSignal!.reason);
+  parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`Request timed out after ${timeout}ms`, timeout)),
+    timeout
+  );
+
+  const aborted = new Promise<never>((_resolve, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener('abort', onParentAbort);
+  }
+}
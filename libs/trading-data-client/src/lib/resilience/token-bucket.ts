@@ -0,0 +1,82 @@
+import type { RateLimitOptions } from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { sleep as defaultSleep } from './sleep.js';
+
+/**
+ * Token-bucket rate limiter
+ * Tokens refill continuously; callers wait in FIFO order until a token is available
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly tokensPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    options: RateLimitOptions,
+    private readonly now: () => Date = () => new Date(),
+    private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void> = defaultSleep
+  ) {
+    const { tokensPerInterval, interval = 1000, burst = tokensPerInterval } = options;
+    if (tokensPerInterval <= 0 || interval <= 0 || burst < 1) {
+      throw new InvalidParameterError(
+        'Rate limit requires positive tokensPerInterval and interval and a burst of at least 1',
+        { parameter: 'rateLimit' }
+      );
+    }
+    this.capacity = burst;
+    this.tokensPerMs = tokensPerInterval / interval;
+    this.tokens = burst;
+    this.lastRefill = this.now().getTime();
+  }
+
+  /**
+   * Currently available tokens
+   */
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take a token without waiting
+   * @returns Whether a token was taken
+   */
+  tryRemove(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Wait for a token and take it
+   * @param signal - Aborts waiting
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.take(signal));
+    // A caller giving up must not block the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      if (this.tryRemove()) {
+        return;
+      }
+      await this.sleep(Math.ceil((1 - this.tokens) / this.tokensPerMs), signal);
+    }
+  }
+
+  private refill(): void {
+    const now = this.now().getTime();
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.tokensPerMs);
+    this.lastRefill = now;
+  }
+}
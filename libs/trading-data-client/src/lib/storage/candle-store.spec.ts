@@ -0,0 +1,256 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CandleStore } from './candle-store';
+import { calendarForSymbol } from '../calendar/calendars.js';
+import { MarketDataClient } from '../market-data-client.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import type { IMarketDataProvider } from '../interfaces/market-data-provider.interface.js';
+import type { CorporateActions, HistoricalDataParams, OHLCVData } from '../types/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('CandleStore', () => {
+  let directory: string;
+  let upstream: OHLCVData[];
+  let mockProvider: jest.Mocked<IMarketDataProvider>;
+  let now: Date;
+  let store: CandleStore;
+
+  const candle = (isoDate: string, close: number): OHLCVData => ({
+    date: new Date(isoDate),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'candle-store-'));
+    now = new Date('2024-01-05T12:00:00Z');
+    upstream = [
+      candle('2024-01-01T00:00:00Z', 10),
+      candle('2024-01-02T00:00:00Z', 11),
+      candle('2024-01-03T00:00:00Z', 12),
+    ];
+    mockProvider = {
+      getHistoricalData: jest.fn(async (params: HistoricalDataParams) =>
+        upstream.filter(
+          (item) => item.date >= params.startDate && item.date <= (params.endDate || now)
+        )
+      ),
+      getQuote: jest.fn(),
+      getQuotes: jest.fn(),
+      getHistoricalDataBatch: jest.fn(),
+    };
+    store = new CandleStore({ directory, now: () => now }, mockProvider);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should fetch the initial lookback on the first sync', async () => {
+    const result = await store.sync('AAPL', '1d');
+
+    expect(result.added).toBe(3);
+    expect(mockProvider.getHistoricalData).toHaveBeenCalledWith({
+      symbol: 'AAPL',
+      startDate: new Date(now.getTime() - 20 * 365 * DAY),
+      endDate: now,
+      interval: '1d',
+      adjustment: 'splits',
+    });
+    expect(await store.query('AAPL', '1d')).toEqual(upstream);
+  });
+
+  it('should only fetch the missing tail and refresh the last candle', async () => {
+    await store.sync('AAPL', '1d');
+
+    upstream[2] = candle('2024-01-03T00:00:00Z', 12.5);
+    upstream.push(candle('2024-01-04T00:00:00Z', 13));
+    now = new Date('2024-01-06T12:00:00Z');
+    const result = await store.sync('AAPL', '1d');
+
+    expect(result.added).toBe(1);
+    expect(mockProvider.getHistoricalData).toHaveBeenLastCalledWith(
+      expect.objectContaining({ startDate: new Date('2024-01-03T00:00:00Z') })
+    );
+
+    const stored = await store.query('AAPL', '1d');
+    expect(stored.map((item) => item.close)).toEqual([10, 11, 12.5, 13]);
+    expect(result.metadata.lastDate).toEqual(new Date('2024-01-04T00:00:00Z'));
+    expect(result.metadata.lastSyncedAt).toEqual(now);
+  });
+
+  it('should record gaps between candles', async () => {
+    upstream.push(candle('2024-01-20T00:00:00Z', 15));
+    now = new Date('2024-01-21T00:00:00Z');
+
+    const result = await store.sync('AAPL', '1d');
+
+    expect(result.newGaps).toEqual([
+      { from: new Date('2024-01-03T00:00:00Z'), to: new Date('2024-01-20T00:00:00Z') },
+    ]);
+    expect((await store.getMetadata('AAPL', '1d')).gaps).toHaveLength(1);
+  });
+
+  it('should record gaps where the trading calendar expects bars', async () => {
+    // 2024-01-04 is missing; weekends and Martin Luther King Jr. Day (2024-01-15) are not gaps
+    upstream = ['02', '03', '05', '08', '09', '10', '11', '12', '16'].map((day, i) =>
+      candle(`2024-01-${day}T00:00:00Z`, 10 + i)
+    );
+    now = new Date('2024-01-17T00:00:00Z');
+    store = new CandleStore({ directory, now: () => now, calendar: calendarForSymbol }, mockProvider);
+
+    const result = await store.sync('AAPL', '1d');
+
+    expect(result.newGaps).toEqual([
+      { from: new Date('2024-01-03T00:00:00Z'), to: new Date('2024-01-05T00:00:00Z') },
+    ]);
+  });
+
+  it('should answer getHistoricalData from disk without network access', async () => {
+    await store.sync('EUR/USD', '1d');
+    mockProvider.getHistoricalData.mockClear();
+
+    const result = await store.getHistoricalData({
+      symbol: 'EURUSD',
+      startDate: new Date('2024-01-02T00:00:00Z'),
+      endDate: new Date('2024-01-03T00:00:00Z'),
+    });
+
+    expect(result.map((item) => item.close)).toEqual([11, 12]);
+    expect(mockProvider.getHistoricalData).not.toHaveBeenCalled();
+  });
+
+  it('should return an empty array for series that were never synced', async () => {
+    expect(await store.query('MSFT', '1h')).toEqual([]);
+    expect(await store.getMetadata('MSFT', '1h')).toEqual({ symbol: 'MSFT', interval: '1h', gaps: [] });
+  });
+
+  it('should keep superseded lines until compacted', async () => {
+    await store.sync('AAPL', '1d');
+    await store.sync('AAPL', '1d');
+    const path = join(directory, 'AAPL', '1d.jsonl');
+
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(4);
+
+    await store.compact('AAPL', '1d');
+
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(3);
+    expect(await store.query('AAPL', '1d')).toEqual(upstream);
+  });
+
+  describe('price adjustment', () => {
+    // 2-for-1 split on 2024-01-02 and a 1.10 dividend on 2024-01-03
+    const actions: CorporateActions = {
+      splits: [{ date: new Date('2024-01-02T00:00:00Z'), numerator: 2, denominator: 1 }],
+      dividends: [{ date: new Date('2024-01-03T00:00:00Z'), amount: 1.1 }],
+    };
+    const params = { symbol: 'AAPL', startDate: new Date('2024-01-01T00:00:00Z') };
+    let corporateActions: jest.Mock<Promise<CorporateActions>, [string, Date, Date]>;
+
+    beforeEach(() => {
+      corporateActions = jest.fn(async () => actions);
+      store = new CandleStore({ directory, now: () => now, corporateActions }, mockProvider);
+    });
+
+    it('should store unadjusted candles and apply the requested adjustment when reading', async () => {
+      await store.sync('AAPL', '1d');
+
+      expect(mockProvider.getHistoricalData).toHaveBeenCalledWith(expect.objectContaining({ adjustment: 'none' }));
+      expect(corporateActions).toHaveBeenCalledWith('AAPL', new Date(now.getTime() - 20 * 365 * DAY), now);
+      expect((await store.getMetadata('AAPL', '1d')).adjustment).toBe('none');
+
+      const none = await store.getHistoricalData({ ...params, adjustment: 'none' });
+      const splits = await store.getHistoricalData(params);
+      const total = await store.getHistoricalData({ ...params, adjustment: 'splits+dividends' });
+
+      expect(none.map((item) => item.close)).toEqual([10, 11, 12]);
+      expect(splits.map((item) => item.close)).toEqual([5, 11, 12]);
+      // Dividend factor 1 - 1.10 / 11 = 0.9
+      expect(total.map((item) => Number(item.close.toFixed(6)))).toEqual([4.5, 9.9, 12]);
+    });
+
+    it('should fetch the actions of the missing tail and merge them', async () => {
+      await store.sync('AAPL', '1d');
+      const dividend = { date: new Date('2024-01-04T00:00:00Z'), amount: 1 };
+      corporateActions.mockResolvedValue({ splits: [], dividends: [dividend] });
+      now = new Date('2024-01-06T12:00:00Z');
+
+      await store.sync('AAPL', '1d');
+
+      expect(corporateActions).toHaveBeenLastCalledWith('AAPL', new Date('2024-01-03T00:00:00Z'), now);
+      const stored = JSON.parse(await readFile(join(directory, 'AAPL', 'actions.json'), 'utf8'));
+      expect(stored.splits).toHaveLength(1);
+      expect(stored.dividends).toHaveLength(2);
+    });
+
+    it('should adjust series stored split-adjusted from the first sync with actions on', async () => {
+      await new CandleStore({ directory, now: () => now }, mockProvider).sync('AAPL', '1d');
+      await writeFile(
+        join(directory, 'AAPL', '1d.meta.json'),
+        JSON.stringify({ symbol: 'AAPL', interval: '1d', gaps: [] }),
+        'utf8'
+      );
+
+      await store.sync('AAPL', '1d');
+
+      expect(corporateActions).toHaveBeenCalledWith('AAPL', new Date('2024-01-03T00:00:00Z'), now);
+      expect(mockProvider.getHistoricalData).toHaveBeenLastCalledWith(expect.objectContaining({ adjustment: 'splits' }));
+      // The split of 2024-01-02 is not known to the store
+      await expect(store.getHistoricalData({ ...params, adjustment: 'none' })).rejects.toThrow(InvalidParameterError);
+      const none = await store.getHistoricalData({
+        ...params,
+        startDate: new Date('2024-01-03T00:00:00Z'),
+        adjustment: 'none',
+      });
+      expect(none.map((item) => item.close)).toEqual([12]);
+    });
+
+    it('should derive the dividend adjustment from adjClose without a source of corporate actions', async () => {
+      upstream = upstream.map((item) => ({ ...item, adjClose: item.close * 0.9 }));
+      store = new CandleStore({ directory, now: () => now }, mockProvider);
+      await store.sync('AAPL', '1d');
+
+      const total = await store.getHistoricalData({ ...params, adjustment: 'splits+dividends' });
+
+      expect(total.map((item) => Number(item.close.toFixed(6)))).toEqual([9, 9.9, 10.8]);
+      expect(total.map((item) => Number(item.high.toFixed(6)))).toEqual([9.9, 10.8, 11.7]);
+    });
+
+    it('should reject other adjustments without a source of corporate actions', async () => {
+      store = new CandleStore({ directory, now: () => now }, mockProvider);
+      await store.sync('AAPL', '1d');
+
+      const error = await store.getHistoricalData({ ...params, adjustment: 'splits+dividends' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidParameterError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1d', parameter: 'adjustment' });
+      expect(await store.getHistoricalData(params)).toEqual(upstream);
+    });
+
+    it('should store the actions reported with the candles of a MarketDataClient provider', async () => {
+      const chart = jest.fn(async () => ({ symbol: 'AAPL', bars: upstream, actions }));
+      const client = new MarketDataClient({ search: jest.fn(), chart, quote: jest.fn() });
+      store = new CandleStore({ directory, now: () => now }, client);
+
+      await store.sync('AAPL', '1d');
+
+      // Candles and actions come from the same chart request
+      expect(chart).toHaveBeenCalledTimes(1);
+      expect((await store.getMetadata('AAPL', '1d')).adjustment).toBe('none');
+      expect((await store.getHistoricalData(params)).map((item) => item.close)).toEqual([5, 11, 12]);
+    });
+  });
+
+  it('should delegate quotes to the upstream provider', async () => {
+    mockProvider.getQuote.mockResolvedValue({ symbol: 'AAPL', price: 1, timestamp: now });
+
+    await store.getQuote('AAPL');
+
+    expect(mockProvider.getQuote).toHaveBeenCalledWith('AAPL');
+  });
+});
@@ -0,0 +1,536 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  BatchItemResult,
+  BatchOptions,
+  CandleGap,
+  CandleSeriesMetadata,
+  CandleStoreOptions,
+  CandleSyncResult,
+  CorporateActions,
+  HistoricalDataParams,
+  OHLCVData,
+  PriceAdjustment,
+  QuoteData,
+  TimeInterval,
+} from '../types/index.js';
+import type { IMarketDataProvider } from '../interfaces/market-data-provider.interface.js';
+import { MarketDataClient } from '../market-data-client.js';
+import { normalizeSymbol } from '../symbol-normalizer.js';
+import { KeyedLock } from '../utils/keyed-lock.js';
+import { runBatch } from '../batch/run-batch.js';
+import type { TradingCalendar } from '../calendar/trading-calendar.js';
+import { adjustCandles } from '../adjustment/adjust-candles.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Default maximum spacing between two candles before a gap is recorded
+ * Calendar-agnostic: generous enough to skip weekends and single holidays
+ */
+export const DEFAULT_MAX_CANDLE_GAP: Record<TimeInterval, number> = {
+  '1m': 4 * DAY,
+  '2m': 4 * DAY,
+  '5m': 4 * DAY,
+  '15m': 4 * DAY,
+  '30m': 4 * DAY,
+  '1h': 4 * DAY,
+  '2h': 4 * DAY,
+  '3h': 4 * DAY,
+  '4h': 4 * DAY,
+  '6h': 4 * DAY,
+  '8h': 4 * DAY,
+  '12h': 4 * DAY,
+  '1d': 5 * DAY,
+  '2d': 6 * DAY,
+  '3d': 7 * DAY,
+  '1wk': 15 * DAY,
+  '1mo': 45 * DAY,
+  '3mo': 120 * DAY,
+};
+
+/**
+ * Default history fetched on the first sync of a series
+ * Intraday values follow the limits of the Yahoo Finance chart API
+ */
+export const DEFAULT_INITIAL_LOOKBACK_DAYS: Record<TimeInterval, number> = {
+  '1m': 7,
+  '2m': 59,
+  '5m': 59,
+  '15m': 59,
+  '30m': 59,
+  '1h': 729,
+  '2h': 729,
+  '3h': 729,
+  '4h': 729,
+  '6h': 729,
+  '8h': 729,
+  '12h': 729,
+  '1d': 20 * 365,
+  '2d': 20 * 365,
+  '3d': 20 * 365,
+  '1wk': 20 * 365,
+  '1mo': 20 * 365,
+  '3mo': 20 * 365,
+};
+
+/**
+ * JSON representation of the series metadata on disk
+ */
+interface SerializedMetadata {
+  symbol: string;
+  interval: TimeInterval;
+  adjustment?: PriceAdjustment;
+  firstDate?: string;
+  lastDate?: string;
+  lastSyncedAt?: string;
+  gaps: Array<{ from: string; to: string }>;
+}
+
+/**
+ * JSON representation of the corporate actions on disk
+ */
+interface SerializedActions {
+  from?: string;
+  splits: Array<{ date: string; numerator: number; denominator: number }>;
+  dividends: Array<{ date: string; amount: number }>;
+}
+
+/**
+ * Corporate actions stored for a symbol
+ */
+interface StoredActions extends CorporateActions {
+  /** Start of the range the events were fetched for (missing: the whole stored range) */
+  from?: Date;
+}
+
+/**
+ * Local persistent candle store with incremental sync
+ *
+ * Candles are kept per symbol and interval as append-only JSONL files:
+ * `<directory>/<symbol>/<interval>.jsonl`, with metadata (last sync, gaps) in
+ * `<interval>.meta.json`. A sync appends only the missing tail. The last stored
+ * candle is fetched again because it may have been incomplete; when reading,
+ * the latest line for a date wins.
+ *
+ * With a source of corporate actions (a MarketDataClient provider, which reports them with the candles,
+ * or the corporateActions option), new series are stored unadjusted and the splits and dividends are
+ * kept in `<symbol>/actions.json`; getHistoricalData applies the requested price adjustment when reading.
+ * Without, series are stored split-adjusted; 'splits+dividends' is derived from the provider's adjClose and
+ * 'none' is rejected. Series stored split-adjusted are not re-adjusted when appending, so delete and re-sync
+ * them after a split or dividend; those synced before actions were stored are only re-adjusted from the first
+ * sync with actions on.
+ *
+ * Implements IMarketDataProvider, so it can replace the network provider:
+ * historical data is answered from disk, quotes are delegated upstream.
+ *
+ * @example
+ * const store = new CandleStore({ directory: './data/candles' });
+ * await store.sync('AAPL', '1d');
+ * const indicators = new TradingIndicators(new TradingDataClient(store));
+ * await indicators.allTimeHighLow.calculateAllTimeHighLow('AAPL'); // local query
+ */
+export class CandleStore implements IMarketDataProvider {
+  private readonly directory: string;
+  private readonly maxGap: Record<TimeInterval, number>;
+  private readonly initialLookbackDays: Record<TimeInterval, number>;
+  private readonly calendar?: (symbol: string) => TradingCalendar;
+  private readonly corporateActions?: (symbol: string, startDate: Date, endDate: Date) => Promise<CorporateActions>;
+  private readonly storesActions: boolean;
+  private readonly now: () => Date;
+  private readonly lock = new KeyedLock();
+
+  /**
+   * @param options - Store directory, gap thresholds, corporate actions, initial lookback and clock
+   * @param provider - Upstream provider used by sync() and getQuote() (defaults to MarketDataClient)
+   */
+  constructor(
+    options: CandleStoreOptions,
+    private readonly provider: IMarketDataProvider = new MarketDataClient()
+  ) {
+    this.directory = options.directory;
+    this.maxGap = { ...DEFAULT_MAX_CANDLE_GAP, ...options.maxGap } as Record<TimeInterval, number>;
+    this.initialLookbackDays = {
+      ...DEFAULT_INITIAL_LOOKBACK_DAYS,
+      ...options.initialLookbackDays,
+    } as Record<TimeInterval, number>;
+    this.calendar = options.calendar;
+    this.corporateActions = options.corporateActions;
+    this.storesActions = this.corporateActions !== undefined || provider instanceof MarketDataClient;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Fetch the missing tail of a series from the upstream provider and store it
+   * @param symbol - Asset symbol
+   * @param interval - Time interval (default: '1d')
+   * @param startDate - Start date for the first sync (default: interval specific lookback)
+   * @returns Sync result with the number of new candles and detected gaps
+   */
+  async sync(symbol: string, interval: TimeInterval = '1d', startDate?: Date): Promise<CandleSyncResult> {
+    const normalizedSymbol = normalizeSymbol(symbol);
+
+    return this.lock.run(this.seriesKey(normalizedSymbol, interval), async () => {
+      const now = this.now();
+      const metadata = await this.readMetadata(normalizedSymbol, interval);
+      const stored = await this.readCandles(normalizedSymbol, interval);
+      const lastStored = stored[stored.length - 1];
+
+      const fetchStart = lastStored
+        ? lastStored.date
+        : startDate || new Date(now.getTime() - this.initialLookbackDays[interval] * DAY);
+      // Unadjusted candles stay valid after later splits and dividends, so they can be appended to
+      const adjustment = metadata.adjustment ?? (lastStored || !this.storesActions ? 'splits' : 'none');
+
+      const { data, actions } = await this.fetchCandles({
+        symbol: normalizedSymbol,
+        startDate: fetchStart,
+        endDate: now,
+        interval,
+        adjustment,
+      });
+      const fetched = data
+        .filter((candle) => !lastStored || candle.date >= lastStored.date)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      const added = fetched.filter((candle) => !lastStored || candle.date > lastStored.date);
+      const newGaps = this.detectGaps(normalizedSymbol, lastStored ? [lastStored, ...added] : added, interval);
+
+      if (actions) {
+        await this.syncActions(normalizedSymbol, actions, fetchStart);
+      }
+      if (fetched.length > 0) {
+        await this.appendCandles(normalizedSymbol, interval, fetched);
+      }
+
+      const updated: CandleSeriesMetadata = {
+        symbol: normalizedSymbol,
+        interval,
+        adjustment,
+        firstDate: stored[0]?.date ?? fetched[0]?.date,
+        lastDate: fetched[fetched.length - 1]?.date ?? lastStored?.date,
+        lastSyncedAt: now,
+        gaps: [...metadata.gaps, ...newGaps],
+      };
+      await this.writeMetadata(updated);
+
+      return {
+        symbol: normalizedSymbol,
+        interval,
+        added: added.length,
+        newGaps,
+        metadata: updated,
+      };
+    });
+  }
+
+  /**
+   * Read stored candles of a series, in the adjustment they are stored with (see getMetadata)
+   * @param symbol - Asset symbol
+   * @param interval - Time interval (default: '1d')
+   * @param startDate - Only candles on or after this date
+   * @param endDate - Only candles on or before this date
+   * @returns Stored candles sorted by date
+   */
+  async query(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<OHLCVData[]> {
+    const candles = await this.readCandles(normalizeSymbol(symbol), interval);
+    return candles.filter(
+      (candle) => (!startDate || candle.date >= startDate) && (!endDate || candle.date <= endDate)
+    );
+  }
+
+  /**
+   * Read the metadata of a series (last sync time, gaps, stored range)
+   * @param symbol - Asset symbol
+   * @param interval - Time interval (default: '1d')
+   */
+  async getMetadata(symbol: string, interval: TimeInterval = '1d'): Promise<CandleSeriesMetadata> {
+    return this.readMetadata(normalizeSymbol(symbol), interval);
+  }
+
+  /**
+   * Rewrite a series file without superseded lines
+   * @param symbol - Asset symbol
+   * @param interval - Time interval (default: '1d')
+   */
+  async compact(symbol: string, interval: TimeInterval = '1d'): Promise<void> {
+    const normalizedSymbol = normalizeSymbol(symbol);
+
+    await this.lock.run(this.seriesKey(normalizedSymbol, interval), async () => {
+      const candles = await this.readCandles(normalizedSymbol, interval);
+      if (candles.length === 0) {
+        return;
+      }
+
+      const path = this.candlesPath(normalizedSymbol, interval);
+      await this.writeAtomically(path, candles.map((candle) => JSON.stringify(candle)).join('\n') + '\n');
+    });
+  }
+
+  /**
+   * Fetch historical OHLCV data from the local store (no network access)
+   * Stored candles are adjusted to the requested price adjustment with the stored corporate actions.
+   * Without stored corporate actions, split-adjusted candles are dividend-adjusted with their adjClose.
+   * @param params - Parameters for fetching historical data
+   * @returns Promise resolving to array of stored OHLCV data points
+   * @throws InvalidParameterError when the candles cannot be converted to the adjustment: no corporate actions
+   *   are stored since the first candle, nor adjClose for 'splits+dividends'
+   */
+  async getHistoricalData(params: HistoricalDataParams): Promise<OHLCVData[]> {
+    const { symbol, interval = '1d', adjustment = 'splits' } = params;
+    const normalizedSymbol = normalizeSymbol(symbol);
+    const candles = await this.query(symbol, interval, params.startDate, params.endDate);
+    const { adjustment: stored = 'splits' } = await this.readMetadata(normalizedSymbol, interval);
+
+    if (adjustment === stored || candles.length === 0) {
+      return candles;
+    }
+
+    const actions = await this.readActions(normalizedSymbol);
+    // Events between the first candle and the start of the stored actions are unknown
+    if (actions && (!actions.from || actions.from <= candles[0].date)) {
+      return adjustCandles(candles, actions, stored, adjustment);
+    }
+    // The provider's adjClose of split-adjusted candles carries the dividend adjustment
+    if (stored === 'splits' && adjustment === 'splits+dividends' && candles.every((candle) => candle.adjClose)) {
+      return candles.map(toAdjustedClose);
+    }
+    throw new InvalidParameterError(
+      `${symbol} is stored with '${stored}' adjustment and without corporate actions to adjust it to '${adjustment}'`,
+      { symbol, interval, parameter: 'adjustment' }
+    );
+  }
+
+  /**
+   * Fetch current quote data from the upstream provider
+   * @param symbol - Asset symbol
+   * @returns Promise resolving to quote data
+   */
+  async getQuote(symbol: string): Promise<QuoteData> {
+    return this.provider.getQuote(symbol);
+  }
+
+  /**
+   * Fetch current quotes of several assets from the upstream provider
+   * @param symbols - Asset symbols
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  async getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]> {
+    return this.provider.getQuotes(symbols, options);
+  }
+
+  /**
+   * Fetch historical OHLCV data of several requests from the local store (no network access)
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  async getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]> {
+    return runBatch(paramsList, (params) => params.symbol, (params) => this.getHistoricalData(params), options);
+  }
+
+  private detectGaps(symbol: string, candles: OHLCVData[], interval: TimeInterval): CandleGap[] {
+    const gaps: CandleGap[] = [];
+
+    if (this.calendar) {
+      // Each missing bar lies between two stored candles; consecutive missing bars share a gap
+      const missing = this.calendar(symbol).findMissingBars(candles, interval);
+      let next = 0;
+      for (let i = 1; i < candles.length && next < missing.length; i++) {
+        if (missing[next] < candles[i].date) {
+          gaps.push({ from: candles[i - 1].date, to: candles[i].date });
+          while (next < missing.length && missing[next] < candles[i].date) {
+            next++;
+          }
+        }
+      }
+      return gaps;
+    }
+
+    for (let i = 1; i < candles.length; i++) {
+      if (candles[i].date.getTime() - candles[i - 1].date.getTime() > this.maxGap[interval]) {
+        gaps.push({ from: candles[i - 1].date, to: candles[i].date });
+      }
+    }
+    return gaps;
+  }
+
+  /**
+   * Fetch candles of a sync, with the corporate actions from their start if there is a source
+   */
+  private async fetchCandles(
+    params: HistoricalDataParams & { endDate: Date }
+  ): Promise<{ data: OHLCVData[]; actions?: CorporateActions }> {
+    if (this.corporateActions) {
+      const data = await this.provider.getHistoricalData(params);
+      return { data, actions: await this.corporateActions(params.symbol, params.startDate, params.endDate) };
+    }
+    if (this.provider instanceof MarketDataClient) {
+      // The actions come with the chart response of the candles
+      const { data, actions } = await this.provider.getHistoricalDataWithQuality(params);
+      return { data, actions };
+    }
+    return { data: await this.provider.getHistoricalData(params) };
+  }
+
+  /**
+   * Merge the corporate actions of a sync into the stored ones
+   * Every sync reports the events up to now, so the stored events cover one range.
+   */
+  private async syncActions(symbol: string, fetched: CorporateActions, from: Date): Promise<void> {
+    // Actions are shared by all intervals of a symbol
+    await this.lock.run(`${symbol}|actions`, async () => {
+      const stored = await this.readActions(symbol);
+
+      const actions: StoredActions = {
+        from: stored && (!stored.from || stored.from < from) ? stored.from : from,
+        splits: mergeEvents(stored?.splits ?? [], fetched.splits),
+        dividends: mergeEvents(stored?.dividends ?? [], fetched.dividends),
+      };
+      await mkdir(this.seriesDirectory(symbol), { recursive: true });
+      await this.writeAtomically(this.actionsPath(symbol), JSON.stringify(actions, null, 2));
+    });
+  }
+
+  private async readActions(symbol: string): Promise<StoredActions | undefined> {
+    const content = await this.readOptional(this.actionsPath(symbol));
+    if (content === undefined) {
+      return undefined;
+    }
+
+    const raw = JSON.parse(content) as SerializedActions;
+    return {
+      from: raw.from ? new Date(raw.from) : undefined,
+      splits: raw.splits.map((split) => ({ ...split, date: new Date(split.date) })),
+      dividends: raw.dividends.map((dividend) => ({ ...dividend, date: new Date(dividend.date) })),
+    };
+  }
+
+  private async readCandles(symbol: string, interval: TimeInterval): Promise<OHLCVData[]> {
+    const content = await this.readOptional(this.candlesPath(symbol, interval));
+    if (content === undefined) {
+      return [];
+    }
+
+    // Later lines supersede earlier lines with the same date
+    const byTime = new Map<number, OHLCVData>();
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      const raw = JSON.parse(line) as Omit<OHLCVData, 'date'> & { date: string };
+      const candle = { ...raw, date: new Date(raw.date) };
+      byTime.set(candle.date.getTime(), candle);
+    }
+
+    return Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private async appendCandles(symbol: string, interval: TimeInterval, candles: OHLCVData[]): Promise<void> {
+    await mkdir(this.seriesDirectory(symbol), { recursive: true });
+    await appendFile(
+      this.candlesPath(symbol, interval),
+      candles.map((candle) => JSON.stringify(candle)).join('\n') + '\n',
+      'utf8'
+    );
+  }
+
+  private async readMetadata(symbol: string, interval: TimeInterval): Promise<CandleSeriesMetadata> {
+    const content = await this.readOptional(this.metadataPath(symbol, interval));
+    if (content === undefined) {
+      return { symbol, interval, gaps: [] };
+    }
+
+    const raw = JSON.parse(content) as SerializedMetadata;
+    return {
+      symbol: raw.symbol,
+      interval: raw.interval,
+      // Series synced before the adjustment was recorded hold the provider's split-adjusted candles
+      adjustment: raw.adjustment ?? 'splits',
+      firstDate: raw.firstDate ? new Date(raw.firstDate) : undefined,
+      lastDate: raw.lastDate ? new Date(raw.lastDate) : undefined,
+      lastSyncedAt: raw.lastSyncedAt ? new Date(raw.lastSyncedAt) : undefined,
+      gaps: raw.gaps.map((gap) => ({ from: new Date(gap.from), to: new Date(gap.to) })),
+    };
+  }
+
+  private async writeMetadata(metadata: CandleSeriesMetadata): Promise<void> {
+    await mkdir(this.seriesDirectory(metadata.symbol), { recursive: true });
+    await this.writeAtomically(
+      this.metadataPath(metadata.symbol, metadata.interval),
+      JSON.stringify(metadata, null, 2)
+    );
+  }
+
+  private async writeAtomically(path: string, content: string): Promise<void> {
+    const temporaryPath = `${path}.tmp`;
+    await writeFile(temporaryPath, content, 'utf8');
+    await rename(temporaryPath, path);
+  }
+
+  private async readOptional(path: string): Promise<string | undefined> {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private seriesKey(symbol: string, interval: TimeInterval): string {
+    return `${symbol}|${interval}`;
+  }
+
+  private seriesDirectory(symbol: string): string {
+    return join(this.directory, encodeURIComponent(symbol));
+  }
+
+  private candlesPath(symbol: string, interval: TimeInterval): string {
+    return join(this.seriesDirectory(symbol), `${interval}.jsonl`);
+  }
+
+  private metadataPath(symbol: string, interval: TimeInterval): string {
+    return join(this.seriesDirectory(symbol), `${interval}.meta.json`);
+  }
+
+  private actionsPath(symbol: string): string {
+    return join(this.seriesDirectory(symbol), 'actions.json');
+  }
+}
+
+/**
+ * Scale the prices of a candle to its adjusted close (dividends are then adjusted like splits)
+ */
+function toAdjustedClose(candle: OHLCVData): OHLCVData {
+  const scale = candle.adjClose && candle.close > 0 ? candle.adjClose / candle.close : 1;
+  return {
+    ...candle,
+    open: candle.open * scale,
+    high: candle.high * scale,
+    low: candle.low * scale,
+    close: candle.close * scale,
+  };
+}
+
+/**
+ * Merge stored and fetched events, fetched events win on the same date
+ */
+function mergeEvents<T extends { date: Date }>(stored: T[], fetched: T[]): T[] {
+  const byTime = new Map<number, T>();
+  for (const event of [...stored, ...fetched]) {
+    byTime.set(event.date.getTime(), event);
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1 @@
+export * from './candle-store.js';
@@ -0,0 +1,71 @@
+import { BarBuilder } from './bar-builder';
+import { getTradingCalendar } from '../calendar/calendars.js';
+import { resampleCandles } from '../resampling/resampler.js';
+import type { BarEvent, OHLCVData } from '../types/index.js';
+
+const at = (time: string) => new Date(`2024-01-02T${time}Z`);
+
+const summary = (events: BarEvent[]) =>
+  events.map(({ interval, bar, closed }) => `${interval} ${bar.date.toISOString().slice(11, 16)} ${bar.close}${closed ? ' closed' : ''}`);
+
+describe('BarBuilder', () => {
+  it('should build bars of several intervals and close them with the first update of a later bar', () => {
+    const builder = new BarBuilder({ intervals: ['1m', '5m'] });
+
+    builder.update({ price: 100, volume: 5, timestamp: at('10:00:10') });
+    builder.update({ price: 103, volume: 2, timestamp: at('10:00:50') });
+    const events = builder.update({ price: 101, volume: 1, timestamp: at('10:01:20') });
+
+    expect(summary(events)).toEqual(['1m 10:00 103 closed', '1m 10:01 101', '5m 10:00 101']);
+    expect(events[0].bar).toEqual({ date: at('10:00:00'), open: 100, high: 103, low: 100, close: 103, volume: 7 });
+    expect(builder.current('5m')).toEqual({ date: at('10:00:00'), open: 100, high: 103, low: 100, close: 101, volume: 8 });
+  });
+
+  it('should match bars resampled from the same prices', () => {
+    const builder = new BarBuilder({ intervals: ['1h'], alignment: { timezone: 'America/New_York', anchor: '09:30' } });
+    const ticks = [at('14:35:00'), at('15:10:00'), at('15:29:59'), at('15:30:00'), at('16:00:00'), at('16:31:00')];
+    const closed: OHLCVData[] = [];
+
+    ticks.forEach((timestamp, i) => {
+      closed.push(...builder.update({ price: 100 + i, volume: 1, timestamp }).filter((e) => e.closed).map((e) => e.bar));
+    });
+    const candles = ticks.map((date, i) => ({ date, open: 100 + i, high: 100 + i, low: 100 + i, close: 100 + i, volume: 1 }));
+
+    expect(closed).toEqual(
+      resampleCandles(candles, '1h', { timezone: 'America/New_York', anchor: '09:30' }).slice(0, -1)
+    );
+  });
+
+  it('should close bars on advance once their interval has ended', () => {
+    const builder = new BarBuilder({ intervals: ['1m', '1h'] });
+    builder.update({ price: 100, timestamp: at('10:00:10') });
+
+    expect(builder.advance(at('10:00:59'))).toEqual([]);
+    expect(summary(builder.advance(at('10:01:00')))).toEqual(['1m 10:00 100 closed']);
+    expect(builder.current('1m')).toBeUndefined();
+    // Late updates of closed bars are ignored
+    expect(summary(builder.update({ price: 99, timestamp: at('10:00:30') }))).toEqual(['1h 10:00 99']);
+  });
+
+  it('should use session volume increases in session mode', () => {
+    const builder = new BarBuilder({ intervals: ['1m'], volume: 'session' });
+
+    builder.update({ price: 100, volume: 1000, timestamp: at('10:00:00') });
+    builder.update({ price: 100, volume: 1400, timestamp: at('10:00:20') });
+    const events = builder.update({ price: 100, volume: 1450, timestamp: at('10:00:40') });
+
+    expect(events[0].bar.volume).toBe(450);
+  });
+
+  it('should align to the session and close bars at the session close with a calendar', () => {
+    // NYSE opens 14:30 UTC and closes 21:00 UTC in winter
+    const builder = new BarBuilder({ intervals: ['1h', '1d'], calendar: getTradingCalendar('NYSE') });
+
+    expect(builder.update({ price: 99, timestamp: at('14:00:00') })).toEqual([]);
+    expect(summary(builder.update({ price: 100, timestamp: at('14:45:00') }))).toEqual(['1h 14:30 100', '1d 00:00 100']);
+    builder.update({ price: 101, timestamp: at('20:59:00') });
+
+    expect(builder.advance(at('20:59:59'))).toEqual([]);
+    expect(summary(builder.advance(at('21:00:00')))).toEqual(['1h 20:30 101 closed', '1d 00:00 101 closed']);
+  });
+});
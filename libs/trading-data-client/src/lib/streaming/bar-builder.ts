@@ -0,0 +1,190 @@
+import type {
+  BarBuilderOptions,
+  BarEvent,
+  OHLCVData,
+  PriceUpdate,
+  TimeInterval,
+  TradingSession,
+} from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { intervalStart, toIntervalSpec } from '../resampling/resampler.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Bar that is still forming
+ */
+interface FormingBar {
+  bar: OHLCVData;
+  /** Session close, for bars that end with their session */
+  closesAt?: number;
+}
+
+/**
+ * Builds live candles from ticks or quotes, for several intervals at once
+ *
+ * Every update returns the bars it changed: in-progress bars with `closed: false`, and bars of
+ * earlier buckets with `closed: true` once an update for a later bucket arrives. advance()
+ * closes bars whose interval has ended without waiting for the next update, e.g. on a timer.
+ * Buckets are aligned like resampleCandles, so closed bars match resampled history.
+ * Updates older than the current bar are ignored.
+ *
+ * @example
+ * const builder = new BarBuilder({ intervals: ['1m', '5m', '1h'], volume: 'session' });
+ * for (const { interval, bar, closed } of builder.update({ price, volume, timestamp })) {
+ *   if (closed) ema.update(bar);
+ * }
+ * setInterval(() => builder.advance().forEach(({ bar }) => ema.update(bar)), 1000);
+ */
+export class BarBuilder {
+  private readonly intervals: TimeInterval[];
+  private readonly bars = new Map<TimeInterval, FormingBar>();
+  /** Start of the last closed bar per interval */
+  private readonly closedUntil = new Map<TimeInterval, number>();
+  private lastVolume?: number;
+
+  /**
+   * @param options - Intervals, alignment, calendar and volume mode
+   * @throws InvalidParameterError if no or unknown intervals are given
+   */
+  constructor(private readonly options: BarBuilderOptions) {
+    if (options.intervals.length === 0) {
+      throw new InvalidParameterError('intervals must not be empty', { parameter: 'intervals' });
+    }
+    options.intervals.forEach((interval) => toIntervalSpec(interval));
+    this.intervals = [...new Set(options.intervals)];
+  }
+
+  /**
+   * Bar of an interval that is still forming
+   */
+  current(interval: TimeInterval): OHLCVData | undefined {
+    const forming = this.bars.get(interval);
+    return forming && { ...forming.bar };
+  }
+
+  /**
+   * Apply a price update to the bars of all intervals
+   * @param update - Price, volume and time
+   * @returns Closed bars, then the updated in-progress bars
+   */
+  update(update: PriceUpdate): BarEvent[] {
+    const { price, timestamp } = update;
+    const calendar = this.options.calendar;
+    const session = calendar?.sessionAt(timestamp);
+    if (!Number.isFinite(price) || (calendar && !session)) {
+      return [];
+    }
+
+    const volume = this.volumeOf(update);
+    const closed: BarEvent[] = [];
+    const updated: BarEvent[] = [];
+
+    for (const interval of this.intervals) {
+      const start = this.barStart(timestamp, interval, session)!;
+      if (start <= (this.closedUntil.get(interval) ?? -Infinity)) {
+        continue;
+      }
+
+      const forming = this.bars.get(interval);
+      if (forming && start < forming.bar.date.getTime()) {
+        continue;
+      }
+      if (forming && start === forming.bar.date.getTime()) {
+        const bar = forming.bar;
+        bar.high = Math.max(bar.high, price);
+        bar.low = Math.min(bar.low, price);
+        bar.close = price;
+        bar.volume += volume;
+        updated.push({ interval, bar: { ...bar }, closed: false });
+        continue;
+      }
+
+      if (forming) {
+        closed.push(this.close(interval, forming));
+      }
+      const bar = { date: new Date(start), open: price, high: price, low: price, close: price, volume };
+      this.bars.set(interval, { bar, closesAt: this.closeTime(interval, session) });
+      updated.push({ interval, bar: { ...bar }, closed: false });
+    }
+
+    return [...closed, ...updated];
+  }
+
+  /**
+   * Close the bars whose interval or session has ended
+   * @param now - Current time (default: now)
+   * @returns The closed bars
+   */
+  advance(now: Date = new Date()): BarEvent[] {
+    const session = this.options.calendar?.sessionAt(now);
+    const closed: BarEvent[] = [];
+
+    for (const interval of this.intervals) {
+      const forming = this.bars.get(interval);
+      if (!forming) {
+        continue;
+      }
+      const start = this.barStart(now, interval, session);
+      const sessionEnded = forming.closesAt !== undefined && now.getTime() >= forming.closesAt;
+      if (sessionEnded || start === undefined || start > forming.bar.date.getTime()) {
+        closed.push(this.close(interval, forming));
+      }
+    }
+    return closed;
+  }
+
+  private close(interval: TimeInterval, forming: FormingBar): BarEvent {
+    this.bars.delete(interval);
+    this.closedUntil.set(interval, forming.bar.date.getTime());
+    return { interval, bar: { ...forming.bar }, closed: true };
+  }
+
+  /**
+   * Start of the bar containing an instant, undefined outside the calendar's sessions
+   * With a calendar, bars up to an hour are counted from the session open (like findMissingBars)
+   */
+  private barStart(at: Date, interval: TimeInterval, session: TradingSession | undefined): number | undefined {
+    const spec = toIntervalSpec(interval);
+    const step = spec.unit === 'minute' ? spec.count * MINUTE : spec.unit === 'hour' ? spec.count * HOUR : undefined;
+
+    if (this.options.calendar && step !== undefined && step <= HOUR) {
+      if (!session) {
+        return undefined;
+      }
+      const open = session.open.getTime();
+      return open + Math.floor((at.getTime() - open) / step) * step;
+    }
+    return intervalStart(at, interval, this.options.alignment).getTime();
+  }
+
+  /**
+   * Session close for intraday and daily bars when a calendar is used
+   */
+  private closeTime(interval: TimeInterval, session: TradingSession | undefined): number | undefined {
+    const unit = toIntervalSpec(interval).unit;
+    const endsWithSession = unit === 'minute' || unit === 'hour' || interval === '1d';
+    return session && endsWithSession ? session.close.getTime() : undefined;
+  }
+
+  /**
+   * Volume an update adds to the bars
+   */
+  private volumeOf(update: PriceUpdate): number {
+    if (update.volume === undefined) {
+      return 0;
+    }
+    if (this.options.volume !== 'session') {
+      return update.volume;
+    }
+
+    const previous = this.lastVolume;
+    this.lastVolume = update.volume;
+    if (previous === undefined) {
+      return 0;
+    }
+    // A lower session volume means a new session started
+    return update.volume >= previous ? update.volume - previous : update.volume;
+  }
+}
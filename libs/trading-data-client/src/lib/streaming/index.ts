@@ -0,0 +1,4 @@
+export * from './quote-stream.js';
+export * from './polling-quote.transport.js';
+export * from './websocket-quote.transport.js';
+export * from './bar-builder.js';
@@ -0,0 +1,250 @@
+import type { PollingQuoteTransportOptions, QuoteSnapshot, RetryOptions } from '../types/index.js';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type { IMarketDataProvider } from '../interfaces/market-data-provider.interface.js';
+import type { IQuoteStreamTransport, QuoteTransportListener } from '../interfaces/quote-stream-transport.interface.js';
+import {
+  InvalidParameterError,
+  RateLimitedError,
+  SymbolNotFoundError,
+  TradingDataError,
+} from '../errors/trading-errors.js';
+import { toTradingDataError } from '../errors/classify-error.js';
+import { DEFAULT_BATCH_CONCURRENCY, QUOTE_CHUNK_SIZE } from '../batch/run-batch.js';
+import { ConcurrencyLimiter } from '../resilience/concurrency-limiter.js';
+import { backoffDelay } from '../resilience/retry.js';
+import { sleep as defaultSleep } from '../resilience/sleep.js';
+
+/**
+ * Default delay between polls in milliseconds
+ */
+export const DEFAULT_POLL_INTERVAL = 5000;
+
+const DEFAULT_MAX_BACKOFF = 5 * 60 * 1000;
+
+/**
+ * Polling state of a symbol
+ */
+interface PolledSymbol {
+  /** Last quote delivered */
+  last?: QuoteSnapshot;
+  /** Consecutive failed polls */
+  failures: number;
+  /** Time before which the symbol is not polled (after failures) */
+  retryAt: number;
+}
+
+/**
+ * Whether a quote repeats the previous one (nothing traded since)
+ */
+function sameQuote(previous: QuoteSnapshot | undefined, quote: QuoteSnapshot): boolean {
+  return (
+    previous !== undefined &&
+    previous.price === quote.price &&
+    previous.volume === quote.volume &&
+    previous.timestamp?.getTime() === quote.timestamp?.getTime()
+  );
+}
+
+function isMarketDataProvider(source: IMarketDataProvider | IDataSourceAdapter): source is IMarketDataProvider {
+  return 'getQuotes' in source;
+}
+
+function quoteError(error: unknown, symbol: string): TradingDataError {
+  return toTradingDataError(
+    error,
+    `Failed to fetch quote for ${symbol}: ${error instanceof Error ? error.message : String(error)}`,
+    { symbol }
+  );
+}
+
+/**
+ * Quote stream transport polling a market data provider or a data source
+ *
+ * - All followed symbols are polled every `interval` milliseconds: through getQuotes of a market
+ *   data provider, or with multi-symbol requests of up to 50 symbols if the data source supports
+ *   them, otherwise one quote request per symbol
+ * - Data sources get at most 4 requests in flight, as in MarketDataClient.getQuotes
+ * - Quotes that repeat the previous one (same price, volume and time) are not delivered; a
+ *   provider stamping quotes without a time with the current time delivers every poll
+ * - A failing symbol is polled again after an exponential backoff (at least the retry-after
+ *   time of rate limits); the other symbols keep their pace
+ *
+ * Wrap the data source in ResilientDataSourceAdapter to cap the rate.
+ *
+ * @example
+ * const provider = new MarketDataClient(new YahooFinanceAdapter());
+ * const stream = new QuoteStream(new PollingQuoteTransport(provider, { interval: 10_000 }));
+ */
+export class PollingQuoteTransport implements IQuoteStreamTransport {
+  private readonly symbols = new Map<string, PolledSymbol>();
+  private readonly interval: number;
+  private readonly backoff: Omit<RetryOptions, 'retries' | 'shouldRetry'>;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private listener?: QuoteTransportListener;
+  private controller?: AbortController;
+
+  /**
+   * @param source - Market data provider or data source to poll
+   * @param options - Poll interval, backoff and test hooks
+   */
+  constructor(
+    private readonly source: IMarketDataProvider | IDataSourceAdapter,
+    options: PollingQuoteTransportOptions = {}
+  ) {
+    this.interval = options.interval ?? DEFAULT_POLL_INTERVAL;
+    if (!Number.isFinite(this.interval) || this.interval <= 0) {
+      throw new InvalidParameterError('interval must be a positive number of milliseconds', { parameter: 'interval' });
+    }
+    this.backoff = { initialDelay: this.interval, maxDelay: DEFAULT_MAX_BACKOFF, jitter: 'none', ...options.backoff };
+    this.now = options.now || Date.now;
+    this.sleep = options.sleep || defaultSleep;
+  }
+
+  start(listener: QuoteTransportListener): void {
+    if (this.controller) {
+      return;
+    }
+    this.listener = listener;
+    this.controller = new AbortController();
+    void this.run(this.controller.signal);
+  }
+
+  subscribe(symbols: string[]): void {
+    for (const symbol of symbols) {
+      if (!this.symbols.has(symbol)) {
+        this.symbols.set(symbol, { failures: 0, retryAt: 0 });
+      }
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    for (const symbol of symbols) {
+      this.symbols.delete(symbol);
+    }
+  }
+
+  stop(): void {
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+
+  /**
+   * Poll until stopped
+   */
+  private async run(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await this.poll(signal);
+      try {
+        await this.sleep(this.interval, signal);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fetch the quotes of all symbols not backing off and deliver the new ones
+   */
+  private async poll(signal: AbortSignal): Promise<void> {
+    const now = this.now();
+    const due = [...this.symbols].filter(([, state]) => state.retryAt <= now).map(([symbol]) => symbol);
+    if (due.length === 0) {
+      return;
+    }
+
+    const results = await this.fetch(due, signal);
+    if (signal.aborted) {
+      return;
+    }
+
+    for (const symbol of due) {
+      // Unsubscribed while the request was running
+      const state = this.symbols.get(symbol);
+      const result = results.get(symbol);
+      if (!state || !result) {
+        continue;
+      }
+
+      if (result instanceof TradingDataError) {
+        state.failures++;
+        const retryAfter = result instanceof RateLimitedError ? result.retryAfter ?? 0 : 0;
+        state.retryAt = this.now() + Math.max(backoffDelay(state.failures, this.backoff), retryAfter);
+        this.listener?.onError(result, symbol);
+      } else {
+        state.failures = 0;
+        state.retryAt = 0;
+        if (!sameQuote(state.last, result)) {
+          state.last = result;
+          this.listener?.onQuote(result);
+        }
+      }
+    }
+  }
+
+  /**
+   * Quote or error of each symbol
+   */
+  private async fetch(symbols: string[], signal: AbortSignal): Promise<Map<string, QuoteSnapshot | TradingDataError>> {
+    const results = new Map<string, QuoteSnapshot | TradingDataError>();
+    const source = this.source;
+
+    if (isMarketDataProvider(source)) {
+      try {
+        for (const { symbol, data, error } of await source.getQuotes(symbols, { signal })) {
+          results.set(
+            symbol,
+            data ?? error ?? new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol })
+          );
+        }
+      } catch (error) {
+        for (const symbol of symbols) {
+          results.set(symbol, quoteError(error, symbol));
+        }
+      }
+      return results;
+    }
+
+    const limiter = new ConcurrencyLimiter(DEFAULT_BATCH_CONCURRENCY);
+    const quotes = source.quotes?.bind(source);
+
+    if (quotes) {
+      const chunks: string[][] = [];
+      for (let i = 0; i < symbols.length; i += QUOTE_CHUNK_SIZE) {
+        chunks.push(symbols.slice(i, i + QUOTE_CHUNK_SIZE));
+      }
+
+      await Promise.all(
+        chunks.map(async (chunk) => {
+          try {
+            for (const quote of await limiter.run(() => quotes(chunk, { signal }), signal)) {
+              results.set(quote.symbol, quote);
+            }
+            for (const symbol of chunk) {
+              if (!results.has(symbol)) {
+                results.set(symbol, new SymbolNotFoundError(`No quote data found for ${symbol}`, { symbol }));
+              }
+            }
+          } catch (error) {
+            for (const symbol of chunk) {
+              results.set(symbol, quoteError(error, symbol));
+            }
+          }
+        })
+      );
+      return results;
+    }
+
+    await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          const quote = await limiter.run(() => source.quote(symbol, { signal }), signal);
+          results.set(symbol, { ...quote, symbol });
+        } catch (error) {
+          results.set(symbol, quoteError(error, symbol));
+        }
+      })
+    );
+    return results;
+  }
+}
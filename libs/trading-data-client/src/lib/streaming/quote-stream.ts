@@ -0,0 +1,189 @@
+import type {
+  QuoteSnapshot,
+  QuoteStreamEvent,
+  QuoteStreamHandler,
+  QuoteSubscription,
+  SubscribeQuotesOptions,
+  TimeInterval,
+} from '../types/index.js';
+import type { IQuoteStreamTransport } from '../interfaces/quote-stream-transport.interface.js';
+import { InvalidParameterError, TradingDataError } from '../errors/trading-errors.js';
+import { normalizeSymbol } from '../symbol-normalizer.js';
+import { toQuoteData } from '../utils/quote-data.js';
+import { BarBuilder } from './bar-builder.js';
+
+/**
+ * Default interval of bar-update events
+ */
+export const DEFAULT_BAR_INTERVAL: TimeInterval = '1m';
+
+/**
+ * A subscribeQuotes call
+ */
+interface Subscriber {
+  handler: QuoteStreamHandler;
+  /** Symbols as requested, by Yahoo symbol */
+  symbols: Map<string, string[]>;
+  /** Bars by Yahoo symbol (none without bar intervals) */
+  bars: Map<string, BarBuilder>;
+}
+
+/**
+ * Live quotes for any number of subscribers over one transport
+ *
+ * - Symbols are normalized; events carry the symbol as the subscriber passed it
+ * - The transport follows each symbol once, however many subscribers want it, and is stopped
+ *   when the last subscription ends
+ * - Every quote also updates the subscriber's bars (see BarBuilder), emitted as bar events
+ * - A throwing handler does not affect the transport or other subscribers
+ *
+ * @example
+ * const stream = new QuoteStream(new PollingQuoteTransport(new YahooFinanceAdapter()));
+ * const subscription = stream.subscribe(['EUR/USD', 'AAPL'], (event) => {
+ *   if (event.type === 'quote') console.log(event.symbol, event.quote.price);
+ * });
+ * subscription.unsubscribe();
+ */
+export class QuoteStream {
+  private readonly subscribers = new Set<Subscriber>();
+  /** Number of subscribers by Yahoo symbol */
+  private readonly followers = new Map<string, number>();
+  private started = false;
+
+  /**
+   * @param transport - Transport delivering the quotes
+   */
+  constructor(private readonly transport: IQuoteStreamTransport) {}
+
+  /**
+   * Receive quote and bar-update events of symbols until unsubscribed
+   * @param symbols - Asset symbols, in any format getQuote accepts
+   * @param handler - Receives quote, bar and error events
+   * @param options - Bar intervals and alignment
+   * @returns Handle to end the subscription
+   * @throws InvalidParameterError if no symbols or unknown bar intervals are given
+   */
+  subscribe(symbols: string[], handler: QuoteStreamHandler, options: SubscribeQuotesOptions = {}): QuoteSubscription {
+    if (symbols.length === 0) {
+      throw new InvalidParameterError('symbols must not be empty', { parameter: 'symbols' });
+    }
+
+    const barInterval = options.barInterval ?? DEFAULT_BAR_INTERVAL;
+    const intervals = barInterval === false ? [] : Array.isArray(barInterval) ? barInterval : [barInterval];
+    const subscriber: Subscriber = { handler, symbols: new Map(), bars: new Map() };
+    for (const symbol of symbols) {
+      const normalizedSymbol = normalizeSymbol(symbol);
+      subscriber.symbols.set(normalizedSymbol, [...(subscriber.symbols.get(normalizedSymbol) ?? []), symbol]);
+      if (intervals.length > 0 && !subscriber.bars.has(normalizedSymbol)) {
+        // Quotes carry the session volume
+        subscriber.bars.set(
+          normalizedSymbol,
+          new BarBuilder({ intervals, alignment: options.alignment, volume: 'session' })
+        );
+      }
+    }
+    this.subscribers.add(subscriber);
+
+    const added = [...subscriber.symbols.keys()].filter((symbol) => {
+      const count = this.followers.get(symbol) ?? 0;
+      this.followers.set(symbol, count + 1);
+      return count === 0;
+    });
+    if (added.length > 0) {
+      this.transport.subscribe(added);
+    }
+    if (!this.started) {
+      this.started = true;
+      this.transport.start({
+        onQuote: (quote) => this.dispatchQuote(quote),
+        onError: (error, symbol) => this.dispatchError(error, symbol),
+      });
+    }
+
+    let active = true;
+    return {
+      symbols: [...symbols],
+      unsubscribe: () => {
+        if (active) {
+          active = false;
+          this.remove(subscriber);
+        }
+      },
+    };
+  }
+
+  /**
+   * End all subscriptions and stop the transport
+   */
+  close(): void {
+    this.subscribers.clear();
+    this.followers.clear();
+    if (this.started) {
+      this.started = false;
+      this.transport.stop();
+    }
+  }
+
+  private remove(subscriber: Subscriber): void {
+    if (!this.subscribers.delete(subscriber)) {
+      return;
+    }
+
+    const removed = [...subscriber.symbols.keys()].filter((symbol) => {
+      const count = (this.followers.get(symbol) ?? 1) - 1;
+      if (count > 0) {
+        this.followers.set(symbol, count);
+        return false;
+      }
+      this.followers.delete(symbol);
+      return true;
+    });
+    if (removed.length > 0) {
+      this.transport.unsubscribe(removed);
+    }
+    if (this.subscribers.size === 0 && this.started) {
+      this.started = false;
+      this.transport.stop();
+    }
+  }
+
+  private dispatchQuote(quote: QuoteSnapshot): void {
+    for (const subscriber of this.subscribers) {
+      const requested = subscriber.symbols.get(quote.symbol);
+      if (!requested) {
+        continue;
+      }
+
+      const bars =
+        subscriber.bars
+          .get(quote.symbol)
+          ?.update({ price: quote.price, volume: quote.volume, timestamp: quote.timestamp ?? new Date() }) ?? [];
+      for (const symbol of requested) {
+        this.emit(subscriber, { type: 'quote', symbol, quote: toQuoteData(symbol, quote) });
+        for (const event of bars) {
+          this.emit(subscriber, { type: 'bar', symbol, ...event, bar: { ...event.bar } });
+        }
+      }
+    }
+  }
+
+  private dispatchError(error: TradingDataError, symbol?: string): void {
+    for (const subscriber of this.subscribers) {
+      if (symbol === undefined) {
+        this.emit(subscriber, { type: 'error', error });
+        continue;
+      }
+      for (const requested of subscriber.symbols.get(symbol) ?? []) {
+        this.emit(subscriber, { type: 'error', symbol: requested, error });
+      }
+    }
+  }
+
+  private emit(subscriber: Subscriber, event: QuoteStreamEvent): void {
+    try {
+      subscriber.handler(event);
+    } catch {
+      // A failing handler must not stop the transport or starve the other subscribers
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { QuoteStream } from './quote-stream';
+import { PollingQuoteTransport } from './polling-quote.transport.js';
+import { WebSocketQuoteTransport } from './websocket-quote.transport.js';
+import { MockQuoteServer } from '../../testing/mock-quote-server.js';
+import type { IDataSourceAdapter } from '../interfaces/data-source-adapter.interface.js';
+import type { IMarketDataProvider } from '../interfaces/market-data-provider.interface.js';
+import type { IQuoteStreamTransport, QuoteTransportListener } from '../interfaces/quote-stream-transport.interface.js';
+import type { QuoteSnapshot, QuoteStreamEvent, QuoteStreamProtocol } from '../types/index.js';
+import { NetworkError, SymbolNotFoundError, TradingDataError } from '../errors/trading-errors.js';
+
+const at = (time: string) => new Date(`2024-01-02T${time}Z`);
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('QuoteStream', () => {
+  let transport: jest.Mocked<IQuoteStreamTransport>;
+  let listener: QuoteTransportListener;
+  let stream: QuoteStream;
+
+  beforeEach(() => {
+    transport = {
+      start: jest.fn((started: QuoteTransportListener) => {
+        listener = started;
+      }),
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn(),
+      stop: jest.fn(),
+    };
+    stream = new QuoteStream(transport);
+  });
+
+  it('should follow each symbol once and report quotes under the requested symbol', () => {
+    const first: QuoteStreamEvent[] = [];
+    const second: QuoteStreamEvent[] = [];
+
+    const a = stream.subscribe(['EUR/USD', 'AAPL'], (event) => first.push(event), { barInterval: false });
+    const b = stream.subscribe(['EURUSD'], (event) => second.push(event), { barInterval: false });
+    listener.onQuote({ symbol: 'EURUSD=X', price: 1.1, timestamp: at('10:00:00') });
+
+    expect(transport.subscribe.mock.calls).toEqual([[['EURUSD=X', 'AAPL']]]);
+    expect(transport.start).toHaveBeenCalledTimes(1);
+    expect(first).toEqual([
+      { type: 'quote', symbol: 'EUR/USD', quote: expect.objectContaining({ symbol: 'EUR/USD', price: 1.1 }) },
+    ]);
+    expect(second[0]).toMatchObject({ type: 'quote', symbol: 'EURUSD' });
+
+    a.unsubscribe();
+    expect(transport.unsubscribe).toHaveBeenCalledWith(['AAPL']);
+    expect(transport.stop).not.toHaveBeenCalled();
+
+    b.unsubscribe();
+    b.unsubscribe();
+    expect(transport.unsubscribe).toHaveBeenLastCalledWith(['EURUSD=X']);
+    expect(transport.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should update the current bar with every quote and close it with the next one', () => {
+    const bars: QuoteStreamEvent[] = [];
+    stream.subscribe(['AAPL'], (event) => event.type === 'bar' && bars.push(event));
+
+    listener.onQuote({ symbol: 'AAPL', price: 100, volume: 1000, timestamp: at('10:00:10') });
+    listener.onQuote({ symbol: 'AAPL', price: 102, volume: 1500, timestamp: at('10:00:40') });
+    listener.onQuote({ symbol: 'AAPL', price: 101, volume: 1600, timestamp: at('10:01:05') });
+
+    expect(bars.map((event) => event.type === 'bar' && [event.bar, event.closed])).toEqual([
+      [{ date: at('10:00:00'), open: 100, high: 100, low: 100, close: 100, volume: 0 }, false],
+      [{ date: at('10:00:00'), open: 100, high: 102, low: 100, close: 102, volume: 500 }, false],
+      [{ date: at('10:00:00'), open: 100, high: 102, low: 100, close: 102, volume: 500 }, true],
+      [{ date: at('10:01:00'), open: 101, high: 101, low: 101, close: 101, volume: 100 }, false],
+    ]);
+    expect(bars[0]).toMatchObject({ symbol: 'AAPL', interval: '1m' });
+  });
+
+  it('should deliver errors and isolate failing handlers', () => {
+    const events: QuoteStreamEvent[] = [];
+    stream.subscribe(['AAPL'], () => {
+      throw new Error('handler bug');
+    });
+    stream.subscribe(['AAPL', 'MSFT'], (event) => events.push(event));
+    const error = new NetworkError('offline');
+
+    listener.onError(error, 'MSFT');
+    listener.onError(error);
+    listener.onQuote({ symbol: 'AAPL', price: 100 });
+
+    expect(events.map((event) => [event.type, event.symbol])).toEqual([
+      ['error', 'MSFT'],
+      ['error', undefined],
+      ['quote', 'AAPL'],
+      ['bar', 'AAPL'],
+    ]);
+  });
+});
+
+describe('PollingQuoteTransport', () => {
+  let dataSource: jest.Mocked<IDataSourceAdapter>;
+  let listener: jest.Mocked<QuoteTransportListener>;
+
+  beforeEach(() => {
+    dataSource = { search: jest.fn(), chart: jest.fn(), quote: jest.fn() };
+    listener = { onQuote: jest.fn(), onError: jest.fn() };
+  });
+
+  /**
+   * Poll a number of times with a fake clock
+   */
+  const poll = async (
+    symbols: string[],
+    polls: number,
+    source: IMarketDataProvider | IDataSourceAdapter = dataSource
+  ) => {
+    let clock = 0;
+    let done!: () => void;
+    const finished = new Promise<void>((resolve) => (done = resolve));
+    const transport: PollingQuoteTransport = new PollingQuoteTransport(source, {
+      interval: 1000,
+      now: () => clock,
+      sleep: async (ms) => {
+        clock += ms;
+        if (--polls === 0) {
+          transport.stop();
+          done();
+        }
+      },
+    });
+    transport.subscribe(symbols);
+    transport.start(listener);
+    await finished;
+  };
+
+  it('should poll every symbol and skip repeated quotes', async () => {
+    const quotes: QuoteSnapshot[] = [
+      { symbol: 'AAPL', price: 100, volume: 10, timestamp: at('10:00:00') },
+      { symbol: 'AAPL', price: 100, volume: 10, timestamp: at('10:00:00') },
+      { symbol: 'AAPL', price: 101, volume: 12, timestamp: at('10:00:02') },
+    ];
+    dataSource.quote.mockImplementation(async () => quotes.shift()!);
+
+    await poll(['AAPL'], 3);
+
+    expect(dataSource.quote).toHaveBeenCalledTimes(3);
+    expect(listener.onQuote.mock.calls.map(([quote]) => quote.price)).toEqual([100, 101]);
+  });
+
+  it('should back off failing symbols without slowing down the others', async () => {
+    dataSource.quote.mockImplementation(async (symbol) => {
+      if (symbol === 'BAD') {
+        throw new Error('ECONNRESET');
+      }
+      return { symbol, price: 100 };
+    });
+
+    // Polls at 0 to 4 seconds; BAD is retried after 1 and 2 seconds
+    await poll(['AAPL', 'BAD'], 5);
+
+    const calls = (symbol: string) => dataSource.quote.mock.calls.filter(([called]) => called === symbol).length;
+    expect(calls('AAPL')).toBe(5);
+    expect(calls('BAD')).toBe(3);
+    expect(listener.onError).toHaveBeenCalledWith(expect.any(NetworkError), 'BAD');
+  });
+
+  it('should use one multi-symbol request per poll when available', async () => {
+    const quotes = jest.fn().mockResolvedValue([{ symbol: 'AAPL', price: 100 }]);
+    dataSource = { ...dataSource, quotes };
+
+    await poll(['AAPL', 'NOPE'], 1);
+
+    expect(quotes).toHaveBeenCalledWith(['AAPL', 'NOPE'], { signal: expect.any(AbortSignal) });
+    expect(dataSource.quote).not.toHaveBeenCalled();
+    expect(listener.onQuote).toHaveBeenCalledWith({ symbol: 'AAPL', price: 100 });
+    expect(listener.onError).toHaveBeenCalledWith(expect.any(SymbolNotFoundError), 'NOPE');
+  });
+
+  it('should split multi-symbol requests into chunks of 50 symbols', async () => {
+    const symbols = Array.from({ length: 120 }, (_, i) => `S${i}`);
+    const quotes = jest.fn(async (chunk: string[]) => chunk.map((symbol) => ({ symbol, price: 100 })));
+    dataSource = { ...dataSource, quotes };
+
+    await poll(symbols, 1);
+
+    expect(quotes.mock.calls.map(([chunk]) => chunk.length)).toEqual([50, 50, 20]);
+    expect(listener.onQuote).toHaveBeenCalledTimes(120);
+  });
+
+  it('should poll a market data provider through getQuotes', async () => {
+    const provider: jest.Mocked<IMarketDataProvider> = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+      getQuotes: jest.fn().mockResolvedValue([
+        { symbol: 'AAPL', data: { symbol: 'AAPL', price: 100, timestamp: at('10:00:00') } },
+        { symbol: 'NOPE', error: new SymbolNotFoundError('No quote data found for NOPE', { symbol: 'NOPE' }) },
+      ]),
+      getHistoricalDataBatch: jest.fn(),
+    };
+
+    await poll(['AAPL', 'NOPE'], 2, provider);
+
+    expect(provider.getQuotes).toHaveBeenCalledWith(['AAPL', 'NOPE'], { signal: expect.any(AbortSignal) });
+    expect(listener.onQuote).toHaveBeenCalledTimes(1);
+    expect(listener.onQuote).toHaveBeenCalledWith({ symbol: 'AAPL', price: 100, timestamp: at('10:00:00') });
+    expect(listener.onError).toHaveBeenCalledWith(expect.any(SymbolNotFoundError), 'NOPE');
+  });
+});
+
+describe('WebSocketQuoteTransport', () => {
+  const protocol: QuoteStreamProtocol = {
+    subscribe: (symbols) => JSON.stringify({ action: 'subscribe', symbols }),
+    unsubscribe: (symbols) => JSON.stringify({ action: 'unsubscribe', symbols }),
+    parse: (data) => JSON.parse(String(data)).quotes ?? [],
+  };
+
+  let server: MockQuoteServer;
+  let listener: jest.Mocked<QuoteTransportListener>;
+  let delays: number[];
+  let transport: WebSocketQuoteTransport;
+
+  beforeEach(() => {
+    server = new MockQuoteServer();
+    listener = { onQuote: jest.fn(), onError: jest.fn() };
+    delays = [];
+    transport = new WebSocketQuoteTransport({
+      url: 'ws://quotes.test',
+      protocol,
+      createSocket: server.createSocket,
+      reconnect: { jitter: 'none' },
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+  });
+
+  afterEach(() => transport.stop());
+
+  it('should subscribe on open and deliver pushed quotes of followed symbols', async () => {
+    transport.subscribe(['AAPL', 'MSFT']);
+    transport.start(listener);
+    await flush();
+
+    server.broadcast(JSON.stringify({ quotes: [{ symbol: 'AAPL', price: 185 }, { symbol: 'TSLA', price: 250 }] }));
+    transport.unsubscribe(['MSFT']);
+    transport.subscribe(['EURUSD=X']);
+
+    expect(server.connections).toHaveLength(1);
+    expect(server.received.map((message) => JSON.parse(message))).toEqual([
+      { action: 'subscribe', symbols: ['AAPL', 'MSFT'] },
+      { action: 'unsubscribe', symbols: ['MSFT'] },
+      { action: 'subscribe', symbols: ['EURUSD=X'] },
+    ]);
+    expect(listener.onQuote.mock.calls).toEqual([[{ symbol: 'AAPL', price: 185 }]]);
+  });
+
+  it('should reconnect with backoff and subscribe again', async () => {
+    transport.subscribe(['AAPL']);
+    transport.start(listener);
+    await flush();
+
+    server.refuseConnections = true;
+    server.disconnect();
+    await flush();
+    server.refuseConnections = false;
+    await flush();
+    await flush();
+
+    expect(listener.onError).toHaveBeenCalledWith(expect.any(NetworkError));
+    expect(delays).toEqual([1000, 2000]);
+    expect(server.connections).toHaveLength(3);
+    expect(server.openConnections).toHaveLength(1);
+    expect(server.openConnections[0].received).toEqual([protocol.subscribe(['AAPL'])]);
+  });
+
+  it('should report invalid messages and not reconnect once stopped', async () => {
+    transport.subscribe(['AAPL']);
+    transport.start(listener);
+    await flush();
+
+    server.broadcast('not json');
+    transport.stop();
+    await flush();
+
+    expect(listener.onError).toHaveBeenCalledTimes(1);
+    expect(listener.onError.mock.calls[0][0]).toBeInstanceOf(TradingDataError);
+    expect(listener.onError.mock.calls[0][0].message).toMatch(/^Invalid quote stream message/);
+    expect(server.openConnections).toHaveLength(0);
+    expect(server.connections).toHaveLength(1);
+  });
+});
@@ -0,0 +1,158 @@
+import type { RetryOptions, WebSocketLike, WebSocketQuoteTransportOptions } from '../types/index.js';
+import type { IQuoteStreamTransport, QuoteTransportListener } from '../interfaces/quote-stream-transport.interface.js';
+import { InvalidParameterError, NetworkError, TradingDataError } from '../errors/trading-errors.js';
+import { backoffDelay } from '../resilience/retry.js';
+import { sleep as defaultSleep } from '../resilience/sleep.js';
+
+const OPEN = 1;
+
+/**
+ * Constructor of the global WebSocket (browsers, Node.js 22+), if any
+ */
+function globalWebSocket(): (new (url: string) => WebSocketLike) | undefined {
+  return (globalThis as { WebSocket?: new (url: string) => WebSocketLike }).WebSocket;
+}
+
+/**
+ * Quote stream transport receiving quotes pushed over a WebSocket
+ *
+ * The provider's message format is supplied as a QuoteStreamProtocol. Followed symbols are
+ * subscribed when the connection opens, so they survive reconnects. A closed connection is
+ * reported as NetworkError and reopened after an exponential backoff until stop() is called.
+ *
+ * @example
+ * const transport = new WebSocketQuoteTransport({
+ *   url: 'wss://stream.example.com/quotes',
+ *   protocol: {
+ *     subscribe: (symbols) => JSON.stringify({ action: 'subscribe', symbols }),
+ *     unsubscribe: (symbols) => JSON.stringify({ action: 'unsubscribe', symbols }),
+ *     parse: (data) => JSON.parse(String(data)).quotes ?? [],
+ *   },
+ *   createSocket: (url) => new WebSocket(url), // e.g. from the ws package on Node.js 20
+ * });
+ */
+export class WebSocketQuoteTransport implements IQuoteStreamTransport {
+  private readonly symbols = new Set<string>();
+  private readonly createSocket: (url: string) => WebSocketLike;
+  private readonly reconnectOptions: Omit<RetryOptions, 'retries' | 'shouldRetry'>;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private listener?: QuoteTransportListener;
+  private controller?: AbortController;
+  private socket?: WebSocketLike;
+  private reconnects = 0;
+
+  /**
+   * @param options - Server URL, protocol, socket factory and reconnect backoff
+   * @throws InvalidParameterError if no createSocket is given and there is no global WebSocket
+   */
+  constructor(private readonly options: WebSocketQuoteTransportOptions) {
+    const WebSocketClass = globalWebSocket();
+    if (!options.createSocket && !WebSocketClass) {
+      throw new InvalidParameterError('No global WebSocket available, pass createSocket', { parameter: 'createSocket' });
+    }
+    this.createSocket = options.createSocket || ((url) => new WebSocketClass!(url));
+    this.reconnectOptions = { initialDelay: 1000, maxDelay: 60 * 1000, jitter: 'equal', ...options.reconnect };
+    this.sleep = options.sleep || defaultSleep;
+  }
+
+  start(listener: QuoteTransportListener): void {
+    if (this.controller) {
+      return;
+    }
+    this.listener = listener;
+    this.controller = new AbortController();
+    this.connect(this.controller.signal);
+  }
+
+  subscribe(symbols: string[]): void {
+    const added = symbols.filter((symbol) => !this.symbols.has(symbol));
+    added.forEach((symbol) => this.symbols.add(symbol));
+    if (added.length > 0) {
+      this.send(this.options.protocol.subscribe(added));
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.filter((symbol) => this.symbols.delete(symbol));
+    if (removed.length > 0) {
+      this.send(this.options.protocol.unsubscribe(removed));
+    }
+  }
+
+  stop(): void {
+    this.controller?.abort();
+    this.controller = undefined;
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close();
+  }
+
+  /**
+   * Send a message if the connection is open (otherwise the symbols are subscribed on open)
+   */
+  private send(message: string): void {
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  private connect(signal: AbortSignal): void {
+    const { url, protocol } = this.options;
+    let socket: WebSocketLike;
+    try {
+      socket = this.createSocket(url);
+    } catch (error) {
+      this.listener?.onError(new NetworkError(`Failed to connect to ${url}`, { cause: error }));
+      void this.reconnect(signal);
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnects = 0;
+      if (this.symbols.size > 0) {
+        socket.send(protocol.subscribe([...this.symbols]));
+      }
+    };
+    socket.onmessage = (event) => {
+      let quotes;
+      try {
+        quotes = protocol.parse(event.data);
+      } catch (error) {
+        this.listener?.onError(
+          new TradingDataError(`Invalid quote stream message: ${error instanceof Error ? error.message : String(error)}`, {
+            cause: error,
+          })
+        );
+        return;
+      }
+      // The server may still send symbols that were just unsubscribed
+      for (const quote of quotes) {
+        if (this.symbols.has(quote.symbol)) {
+          this.listener?.onQuote(quote);
+        }
+      }
+    };
+    // Socket errors are always followed by a close event, which reports them and reconnects
+    socket.onclose = () => {
+      if (this.socket !== socket || signal.aborted) {
+        return;
+      }
+      this.socket = undefined;
+      this.listener?.onError(new NetworkError(`Quote stream connection to ${url} closed`));
+      void this.reconnect(signal);
+    };
+  }
+
+  private async reconnect(signal: AbortSignal): Promise<void> {
+    this.reconnects++;
+    try {
+      await this.sleep(backoffDelay(this.reconnects, this.reconnectOptions), signal);
+    } catch {
+      return;
+    }
+    if (!signal.aborted) {
+      this.connect(signal);
+    }
+  }
+}
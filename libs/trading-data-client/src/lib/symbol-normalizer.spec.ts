@@ -1,4 +1,4 @@
-import { normalizeSymbol } from './symbol-normalizer';
+import { detectAssetClass, normalizeSymbol } from './symbol-normalizer';
 
 describe('normalizeSymbol', () => {
   describe('Forex pairs', () => {
@@ -66,6 +66,25 @@ describe('normalizeSymbol', () => {
     });
   });
 
+  describe('Instrument registry', () => {
+    it('should not treat every dashed symbol as Yahoo format', () => {
+      expect(normalizeSymbol('EUR-USD')).toBe('EURUSD=X');
+      expect(normalizeSymbol('BRK-B')).toBe('BRK-B');
+    });
+
+    it('should resolve crypto pairs, futures and aliases', () => {
+      expect(normalizeSymbol('BTC/USD')).toBe('BTC-USD');
+      expect(normalizeSymbol('BTCUSDT')).toBe('BTC-USDT');
+      expect(normalizeSymbol('/ES')).toBe('ES=F');
+      expect(normalizeSymbol('SPX')).toBe('^GSPC');
+    });
+
+    it('should recognize all ISO 4217 currencies', () => {
+      expect(normalizeSymbol('USDPLN')).toBe('USDPLN=X');
+      expect(normalizeSymbol('EURCZK')).toBe('EURCZK=X');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle symbols with leading/trailing whitespace', () => {
       expect(normalizeSymbol(' EURUSD ')).toBe('EURUSD=X');
@@ -120,3 +139,23 @@ describe('normalizeSymbol', () => {
     });
   });
 });
+
+describe('detectAssetClass', () => {
+  it('should detect forex pairs in any supported format', () => {
+    expect(detectAssetClass('EURUSD')).toBe('forex');
+    expect(detectAssetClass('EUR/USD')).toBe('forex');
+    expect(detectAssetClass('EURUSD=X')).toBe('forex');
+  });
+
+  it('should detect crypto, indices and futures', () => {
+    expect(detectAssetClass('BTC-USD')).toBe('crypto');
+    expect(detectAssetClass('ETH-EUR')).toBe('crypto');
+    expect(detectAssetClass('^GSPC')).toBe('index');
+    expect(detectAssetClass('ES=F')).toBe('future');
+  });
+
+  it('should treat everything else as stock', () => {
+    expect(detectAssetClass('AAPL')).toBe('stock');
+    expect(detectAssetClass('BRK-B')).toBe('stock');
+  });
+});
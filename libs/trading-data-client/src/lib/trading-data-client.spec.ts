@@ -1,6 +1,7 @@
 import { TradingDataClient } from './trading-data-client';
 import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
 import type { INewsProvider } from './interfaces/news-provider.interface.js';
+import { QuoteStream } from './streaming/quote-stream.js';
 
 describe('TradingDataClient', () => {
   let client: TradingDataClient;
@@ -14,6 +15,8 @@ describe('TradingDataClient', () => {
     mockMarketDataProvider = {
       getHistoricalData: jest.fn(),
       getQuote: jest.fn(),
+      getQuotes: jest.fn(),
+      getHistoricalDataBatch: jest.fn(),
     };
 
     mockNewsProvider = {
@@ -85,6 +88,62 @@ describe('TradingDataClient', () => {
     });
   });
 
+  describe('getQuotes', () => {
+    it('should delegate to the market data provider', async () => {
+      const results = [{ symbol: 'AAPL', data: { symbol: 'AAPL', price: 150.0, timestamp: new Date() } }];
+      const options = { concurrency: 2 };
+      mockMarketDataProvider.getQuotes.mockResolvedValue(results);
+
+      expect(await client.getQuotes(['AAPL'], options)).toBe(results);
+      expect(mockMarketDataProvider.getQuotes).toHaveBeenCalledWith(['AAPL'], options);
+    });
+  });
+
+  describe('getHistoricalDataBatch', () => {
+    it('should delegate to the market data provider', async () => {
+      const paramsList = [{ symbol: 'AAPL', startDate: new Date('2024-01-01') }];
+      const results = [{ symbol: 'AAPL', data: [] }];
+      mockMarketDataProvider.getHistoricalDataBatch.mockResolvedValue(results);
+
+      expect(await client.getHistoricalDataBatch(paramsList)).toBe(results);
+      expect(mockMarketDataProvider.getHistoricalDataBatch).toHaveBeenCalledWith(paramsList, undefined);
+    });
+  });
+
+  describe('subscribeQuotes', () => {
+    it('should subscribe on the injected quote stream', () => {
+      const stream = new QuoteStream({ start: jest.fn(), subscribe: jest.fn(), unsubscribe: jest.fn(), stop: jest.fn() });
+      const subscribe = jest.spyOn(stream, 'subscribe');
+      const handler = jest.fn();
+      client = new TradingDataClient(mockMarketDataProvider, mockNewsProvider, stream);
+
+      const subscription = client.subscribeQuotes(['EUR/USD'], handler, { barInterval: '5m' });
+
+      expect(subscribe).toHaveBeenCalledWith(['EUR/USD'], handler, { barInterval: '5m' });
+      expect(subscription.symbols).toEqual(['EUR/USD']);
+      subscription.unsubscribe();
+    });
+
+    it('should poll the injected market data provider by default', async () => {
+      const timestamp = new Date('2024-01-02T15:00:00Z');
+      mockMarketDataProvider.getQuotes.mockResolvedValue([
+        { symbol: 'AAPL', data: { symbol: 'AAPL', price: 185, timestamp } },
+      ]);
+      const handler = jest.fn();
+
+      const subscription = client.subscribeQuotes(['AAPL'], handler);
+      await new Promise((resolve) => setImmediate(resolve));
+      subscription.unsubscribe();
+
+      expect(mockMarketDataProvider.getQuotes).toHaveBeenCalledWith(['AAPL'], { signal: expect.any(AbortSignal) });
+      expect(handler).toHaveBeenCalledWith({
+        type: 'quote',
+        symbol: 'AAPL',
+        quote: expect.objectContaining({ symbol: 'AAPL', price: 185, timestamp }),
+      });
+    });
+  });
+
   describe('getNews', () => {
     it('should delegate to NewsClient', async () => {
       const params = {
@@ -116,6 +175,8 @@ describe('TradingDataClient', () => {
     it('should implement ITradingDataProvider interface', () => {
       expect(typeof client.getHistoricalData).toBe('function');
       expect(typeof client.getQuote).toBe('function');
+      expect(typeof client.getQuotes).toBe('function');
+      expect(typeof client.getHistoricalDataBatch).toBe('function');
       expect(typeof client.getNews).toBe('function');
     });
   });
@@ -1,16 +1,23 @@
 import type {
+  BatchItemResult,
+  BatchOptions,
   ITradingDataProvider,
   HistoricalDataParams,
   OHLCVData,
   QuoteData,
   NewsParams,
   NewsData,
+  QuoteStreamHandler,
+  QuoteSubscription,
+  SubscribeQuotesOptions,
 } from './types/index.js';
 import type { IMarketDataProvider } from './interfaces/market-data-provider.interface.js';
 import type { INewsProvider } from './interfaces/news-provider.interface.js';
 import { MarketDataClient } from './market-data-client.js';
 import { NewsClient } from './news-client.js';
 import { YahooFinanceAdapter } from './adapters/yahoo-finance.adapter.js';
+import { QuoteStream } from './streaming/quote-stream.js';
+import { PollingQuoteTransport } from './streaming/polling-quote.transport.js';
 
 /**
  * Trading data client implementing the ITradingDataProvider interface
@@ -28,27 +35,28 @@ import { YahooFinanceAdapter } from './adapters/yahoo-finance.adapter.js';
 export class TradingDataClient implements ITradingDataProvider {
   private marketDataProvider: IMarketDataProvider;
   private newsProvider: INewsProvider;
+  private quoteStream: QuoteStream;
 
   /**
    * Constructor with optional dependency injection
-   * If no providers are supplied, defaults to Yahoo Finance-based implementations
+   * Providers not supplied default to Yahoo Finance-based implementations
    * 
    * @param marketDataProvider - Provider for market data (optional)
    * @param newsProvider - Provider for news data (optional)
+   * @param quoteStream - Live quote stream (optional, defaults to polling the market data provider)
    */
   constructor(
     marketDataProvider?: IMarketDataProvider,
-    newsProvider?: INewsProvider
+    newsProvider?: INewsProvider,
+    quoteStream?: QuoteStream
   ) {
-    // Default to Yahoo Finance if no providers specified
-    if (!marketDataProvider || !newsProvider) {
-      const dataSource = new YahooFinanceAdapter();
-      this.marketDataProvider = marketDataProvider || new MarketDataClient(dataSource);
-      this.newsProvider = newsProvider || new NewsClient(dataSource);
-    } else {
-      this.marketDataProvider = marketDataProvider;
-      this.newsProvider = newsProvider;
-    }
+    // Default to Yahoo Finance for the providers not specified
+    let dataSource: YahooFinanceAdapter | undefined;
+    const defaultDataSource = () => (dataSource ??= new YahooFinanceAdapter());
+
+    this.marketDataProvider = marketDataProvider || new MarketDataClient(defaultDataSource());
+    this.newsProvider = newsProvider || new NewsClient(defaultDataSource());
+    this.quoteStream = quoteStream || new QuoteStream(new PollingQuoteTransport(this.marketDataProvider));
   }
 
   /**
@@ -69,6 +77,46 @@ export class TradingDataClient implements ITradingDataProvider {
     return this.marketDataProvider.getQuote(symbol);
   }
 
+  /**
+   * Fetch current quotes of several assets
+   * Failing symbols are reported in their result instead of failing the whole call.
+   * @param symbols - Asset symbols, in any format getQuote accepts
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  async getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]> {
+    return this.marketDataProvider.getQuotes(symbols, options);
+  }
+
+  /**
+   * Fetch historical OHLCV data of several requests with bounded concurrency
+   * Failing requests are reported in their result instead of failing the whole call.
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  async getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]> {
+    return this.marketDataProvider.getHistoricalDataBatch(paramsList, options);
+  }
+
+  /**
+   * Receive live quotes and bar updates until unsubscribed
+   * @param symbols - Asset symbols (e.g., 'EURUSD', 'EUR/USD', or 'EURUSD=X' for Forex)
+   * @param handler - Receives quote, bar and error events
+   * @param options - Bar interval of bar-update events
+   * @returns Handle to end the subscription
+   */
+  subscribeQuotes(
+    symbols: string[],
+    handler: QuoteStreamHandler,
+    options?: SubscribeQuotesOptions
+  ): QuoteSubscription {
+    return this.quoteStream.subscribe(symbols, handler, options);
+  }
+
   /**
    * Fetch news articles for a symbol or search query
    * @param params - Parameters for fetching news
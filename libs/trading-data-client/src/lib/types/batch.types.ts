@@ -0,0 +1,39 @@
+import type { TradingDataError } from '../errors/trading-errors.js';
+
+/**
+ * Outcome of one symbol of a batch request
+ */
+export interface BatchItemResult<T> {
+  /** Symbol as passed by the caller */
+  symbol: string;
+  /** Response, if the request succeeded */
+  data?: T;
+  /** Error, if the request failed */
+  error?: TradingDataError;
+}
+
+/**
+ * Progress of a batch request, reported after each symbol
+ */
+export interface BatchProgress {
+  /** Symbol that just completed */
+  symbol: string;
+  /** Symbols completed so far, including failed ones */
+  completed: number;
+  /** Symbols failed so far */
+  failed: number;
+  /** Symbols in the batch */
+  total: number;
+}
+
+/**
+ * Options of batch requests
+ */
+export interface BatchOptions {
+  /** Maximum number of requests in flight (default: 4) */
+  concurrency?: number;
+  /** Called after each symbol completed or failed */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Stops starting requests; symbols not started yet fail with the abort reason */
+  signal?: AbortSignal;
+}
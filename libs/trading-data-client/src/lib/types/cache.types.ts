@@ -0,0 +1,35 @@
+import type { OHLCVData, TimeInterval } from './market-data.types.js';
+import type { ICandleCacheStore } from '../interfaces/candle-cache-store.interface.js';
+
+/**
+ * Cached historical data for one symbol and interval
+ * Covers a single contiguous date range
+ */
+export interface CandleCacheEntry {
+  /** Start of the cached date range */
+  startDate: Date;
+  /** End of the cached date range */
+  endDate: Date;
+  /** When the most recent part of the range was fetched */
+  fetchedAt: Date;
+  /** Cached candles, sorted by date */
+  data: OHLCVData[];
+}
+
+/**
+ * Time-to-live per interval in milliseconds
+ * Controls how long the most recent (still forming) candles are trusted
+ */
+export type CacheTTLConfig = Partial<Record<TimeInterval, number>>;
+
+/**
+ * Options for the caching market data provider
+ */
+export interface CachingMarketDataProviderOptions {
+  /** Cache backend (default: in-memory LRU store) */
+  store?: ICandleCacheStore;
+  /** TTL overrides per interval in milliseconds */
+  ttl?: CacheTTLConfig;
+  /** Clock used for expiry checks (default: () => new Date()) */
+  now?: () => Date;
+}
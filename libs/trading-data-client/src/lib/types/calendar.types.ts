@@ -0,0 +1,58 @@
+/**
+ * A day an exchange is closed or closes early
+ */
+export interface CalendarHoliday {
+  /** Trading date, 'YYYY-MM-DD' */
+  date: string;
+  /** Holiday name */
+  name: string;
+  /** Local early close time, 'HH:mm' (omitted for full-day closures) */
+  earlyClose?: string;
+}
+
+/**
+ * Trading hours and holidays of an exchange or market
+ */
+export interface TradingCalendarDefinition {
+  /** Calendar identifier (e.g., 'NYSE') */
+  id: string;
+  /** Display name */
+  name: string;
+  /** IANA timezone the session times are given in */
+  timezone: string;
+  /** Local session open, 'HH:mm' */
+  open: string;
+  /**
+   * Local session close, 'HH:mm' ('24:00' for midnight)
+   * A close at or before the open means the session opens the evening before its trading date
+   */
+  close: string;
+  /** Weekdays with a session, 0 = Sunday ... 6 = Saturday (default: Monday to Friday) */
+  weekdays?: number[];
+  /** Holidays and early closes of a year */
+  holidays?: (year: number) => CalendarHoliday[];
+}
+
+/**
+ * A single trading session
+ */
+export interface TradingSession {
+  /** Trading date, 'YYYY-MM-DD' */
+  date: string;
+  /** Session open */
+  open: Date;
+  /** Session close */
+  close: Date;
+  /** Whether the session closes early */
+  earlyClose: boolean;
+}
+
+/**
+ * Range checked by TradingCalendar.findMissingBars
+ */
+export interface MissingBarsOptions {
+  /** Start of the range (default: first candle) */
+  start?: Date;
+  /** End of the range (default: last candle) */
+  end?: Date;
+}
@@ -0,0 +1,75 @@
+import type { TimeInterval } from './market-data.types.js';
+import type { CorporateActions, PriceAdjustment } from './corporate-actions.types.js';
+import type { TradingCalendar } from '../calendar/trading-calendar.js';
+
+/**
+ * A suspicious hole between two consecutive stored candles
+ */
+export interface CandleGap {
+  /** Date of the last candle before the gap */
+  from: Date;
+  /** Date of the first candle after the gap */
+  to: Date;
+}
+
+/**
+ * Metadata kept next to every stored candle series
+ */
+export interface CandleSeriesMetadata {
+  /** Normalized symbol */
+  symbol: string;
+  /** Time interval of the series */
+  interval: TimeInterval;
+  /** Price adjustment of the stored candles (undefined before the first sync) */
+  adjustment?: PriceAdjustment;
+  /** Date of the oldest stored candle */
+  firstDate?: Date;
+  /** Date of the newest stored candle */
+  lastDate?: Date;
+  /** Time of the last successful sync */
+  lastSyncedAt?: Date;
+  /** Gaps detected while syncing */
+  gaps: CandleGap[];
+}
+
+/**
+ * Result of a candle store sync
+ */
+export interface CandleSyncResult {
+  /** Normalized symbol */
+  symbol: string;
+  /** Time interval of the series */
+  interval: TimeInterval;
+  /** Number of new candles appended (excluding the refreshed last candle) */
+  added: number;
+  /** Gaps detected during this sync */
+  newGaps: CandleGap[];
+  /** Metadata after the sync */
+  metadata: CandleSeriesMetadata;
+}
+
+/**
+ * Options for the candle store
+ */
+export interface CandleStoreOptions {
+  /** Directory holding the candle files */
+  directory: string;
+  /** Maximum spacing between candles before a gap is recorded, per interval in milliseconds */
+  maxGap?: Partial<Record<TimeInterval, number>>;
+  /**
+   * Trading calendar of a symbol (e.g., calendarForSymbol)
+   * When set, a gap is recorded wherever the calendar expects bars that are missing, instead of using maxGap
+   */
+  calendar?: (symbol: string) => TradingCalendar;
+  /**
+   * Splits and dividends of a symbol from a date to now
+   * (default: those reported with the candles of a MarketDataClient provider)
+   * With a source, new series are stored unadjusted and every price adjustment is applied when reading.
+   * Without, reads with another adjustment than the stored one are rejected.
+   */
+  corporateActions?: (symbol: string, startDate: Date, endDate: Date) => Promise<CorporateActions>;
+  /** History fetched on the first sync of a series, per interval in days */
+  initialLookbackDays?: Partial<Record<TimeInterval, number>>;
+  /** Clock used for syncing (default: () => new Date()) */
+  now?: () => Date;
+}
@@ -0,0 +1,90 @@
+/**
+ * Asset class of an instrument (see InstrumentRegistry)
+ */
+export type AssetClass = 'stock' | 'forex' | 'crypto' | 'index' | 'future';
+
+/**
+ * Selects the symbols a route applies to
+ * - Asset class or list of asset classes (see detectAssetClass)
+ * - Regular expression tested against the normalized symbol
+ * - Predicate receiving the normalized symbol
+ */
+export type ProviderMatcher = AssetClass | AssetClass[] | RegExp | ((symbol: string) => boolean);
+
+/**
+ * Routing rule: which providers serve matching symbols, in order of preference
+ */
+export interface ProviderRoute {
+  /** Symbols this route applies to */
+  match: ProviderMatcher;
+  /** Names of the providers to try, in order */
+  providers: string[];
+}
+
+/**
+ * A provider registered under a name used for routing and reporting
+ */
+export interface NamedProvider<T> {
+  /** Unique name, e.g. 'yahoo' or 'backfill' */
+  name: string;
+  /** The provider or adapter */
+  provider: T;
+}
+
+/**
+ * Outcome of one provider tried for a request
+ */
+export interface ProviderAttempt {
+  /** Provider name */
+  provider: string;
+  /** Error thrown by the provider, if it failed */
+  error?: unknown;
+  /** True if the provider answered without data */
+  empty?: boolean;
+}
+
+/**
+ * Which provider served a request and what was tried before
+ */
+export interface ProviderReport {
+  /** Called method, e.g. 'chart' or 'getHistoricalData' */
+  operation: string;
+  /** Symbol or query of the request */
+  symbol: string;
+  /** Provider that served the response */
+  provider: string;
+  /** All providers tried, including the serving one (last) */
+  attempts: ProviderAttempt[];
+}
+
+/**
+ * Response together with the provider that served it
+ */
+export interface ProviderResult<T> {
+  /** Response of the serving provider */
+  data: T;
+  /** Provider that served the response */
+  provider: string;
+  /** All providers tried, including the serving one (last) */
+  attempts: ProviderAttempt[];
+}
+
+/**
+ * Options for composite / fallback providers
+ */
+export interface FallbackOptions {
+  /**
+   * Routing rules, the first matching route decides the providers and their order
+   * Symbols without a matching route use all providers in registration order
+   */
+  routes?: ProviderRoute[];
+  /**
+   * Whether to try the next provider after an error
+   * (default: every error except invalid parameters and aborts)
+   */
+  shouldFallback?: (error: unknown, provider: string) => boolean;
+  /** Try the next provider if a provider returns no data (default: true) */
+  fallbackOnEmpty?: boolean;
+  /** Called with the serving provider of every successful request */
+  onServed?: (report: ProviderReport) => void;
+}
@@ -0,0 +1,37 @@
+/**
+ * Adjustment of historical prices for corporate actions
+ * - 'none': prices as traded
+ * - 'splits': prices and volumes back-adjusted for stock splits
+ * - 'splits+dividends': additionally back-adjusted for cash dividends (total return series)
+ */
+export type PriceAdjustment = 'none' | 'splits' | 'splits+dividends';
+
+/**
+ * A stock split (a 4-for-1 split has numerator 4 and denominator 1)
+ */
+export interface SplitEvent {
+  /** Ex-date: the first bar trading on the new share basis */
+  date: Date;
+  /** New shares */
+  numerator: number;
+  /** Old shares */
+  denominator: number;
+}
+
+/**
+ * A cash dividend
+ */
+export interface DividendEvent {
+  /** Ex-date: the first bar trading without the dividend */
+  date: Date;
+  /** Amount per share as paid, not adjusted for later splits */
+  amount: number;
+}
+
+/**
+ * Splits and dividends of one symbol, sorted by date
+ */
+export interface CorporateActions {
+  splits: SplitEvent[];
+  dividends: DividendEvent[];
+}
@@ -0,0 +1,100 @@
+import type { OHLCVData, TimeInterval } from './market-data.types.js';
+import type { CorporateActions } from './corporate-actions.types.js';
+import type { TradingCalendar } from '../calendar/trading-calendar.js';
+
+/**
+ * Handling of invalid bars
+ * - 'drop': remove the bar
+ * - 'forward-fill': replace it by a flat bar at the previous close
+ * - 'interpolate': replace it by a bar interpolated between its valid neighbours
+ * - 'throw': reject with DataQualityError
+ */
+export type DataQualityPolicy = 'drop' | 'forward-fill' | 'interpolate' | 'throw';
+
+/**
+ * Kind of data quality issue
+ * - 'null-bar': a price is missing (null, undefined or NaN)
+ * - 'zero-price': a price is 0
+ * - 'invalid-range': high below low
+ * - 'duplicate': more than one bar with the same date (the last one is kept)
+ * - 'unsorted': bars not in ascending date order (they are sorted)
+ * - 'spike': prices far away from both neighbouring closes
+ * - 'gap': bars the trading calendar expects but the data lacks
+ */
+export type DataQualityIssueType =
+  | 'null-bar'
+  | 'zero-price'
+  | 'invalid-range'
+  | 'duplicate'
+  | 'unsorted'
+  | 'spike'
+  | 'gap';
+
+/**
+ * A data quality issue found in a candle series
+ */
+export interface DataQualityIssue {
+  /** Kind of issue */
+  type: DataQualityIssueType;
+  /** Date of the affected bar (the first missing bar of a gap) */
+  date: Date;
+  /** Number of affected bars (missing bars of a gap, otherwise 1) */
+  count: number;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Result of validating a candle series
+ */
+export interface DataQualityReport {
+  /** Bars received */
+  received: number;
+  /** Bars returned */
+  returned: number;
+  /** Bars removed (invalid bars under the 'drop' policy and duplicates) */
+  dropped: number;
+  /** Bars replaced by forward-filled or interpolated bars */
+  filled: number;
+  /** Issues found, oldest first per kind */
+  issues: DataQualityIssue[];
+}
+
+/**
+ * Options of validateCandles
+ */
+export interface DataValidationOptions {
+  /** Handling of null, zero-price and high < low bars (default: 'drop') */
+  policy?: DataQualityPolicy;
+  /** Apply the policy to spikes as well instead of only reporting them (default: false) */
+  repairSpikes?: boolean;
+  /** Multiple of the median close-to-close move beyond which a bar counts as a spike (default: 10) */
+  spikeThreshold?: number;
+  /** Calendar to detect missing bars with (default: no gap detection) */
+  calendar?: TradingCalendar;
+  /** Interval of the bars, required for gap detection */
+  interval?: TimeInterval;
+}
+
+/**
+ * Validation of getHistoricalData, or false to return the bars unchecked
+ * Gaps are detected with the trading calendar of the symbol.
+ */
+export type HistoricalDataValidation =
+  | (Omit<DataValidationOptions, 'calendar' | 'interval'> & {
+      /** Report bars missing from the trading calendar (default: true) */
+      checkGaps?: boolean;
+    })
+  | false;
+
+/**
+ * Historical data together with its quality report
+ */
+export interface HistoricalDataResult {
+  /** Validated bars */
+  data: OHLCVData[];
+  /** Quality report of the bars fetched from the data source (before resampling) */
+  quality: DataQualityReport;
+  /** Splits and dividends reported with the bars (set by MarketDataClient, see ChartResult.actions) */
+  actions?: CorporateActions;
+}
@@ -0,0 +1,108 @@
+import type { OHLCVData, TimeInterval } from './market-data.types.js';
+import type { CorporateActions, PriceAdjustment } from './corporate-actions.types.js';
+import type { NewsData } from './news.types.js';
+
+/**
+ * Provider-neutral request and response types of IDataSourceAdapter
+ * Adapters map their provider's payloads to these types; clients never see provider fields
+ */
+
+/**
+ * Request for historical bars
+ */
+export interface ChartRequest {
+  /** Start of the range (inclusive) */
+  period1: Date;
+  /** End of the range (inclusive, default: now) */
+  period2?: Date;
+  /** Bar interval (default: '1d') */
+  interval?: TimeInterval;
+}
+
+/**
+ * A single bar of a chart response
+ * Prices are numbers; adapters decide how to fill gaps in their provider's data
+ * (Yahoo Finance fills missing values with 0, MarketDataClient drops or repairs such bars)
+ */
+export type ChartBar = OHLCVData;
+
+/**
+ * Historical bars of one symbol
+ */
+export interface ChartResult {
+  /** Symbol as known to the provider */
+  symbol: string;
+  /** Bars sorted by date, oldest first */
+  bars: ChartBar[];
+  /** Quote currency (if known) */
+  currency?: string;
+  /** IANA timezone of the exchange (if known) */
+  exchangeTimezone?: string;
+  /** Adjustment the provider applied to the bars (default: 'none') */
+  adjustment?: PriceAdjustment;
+  /**
+   * Splits and dividends from the start of the range (if the provider reports them)
+   * Providers adjusting the bars also report the events after the range they adjusted for.
+   */
+  actions?: CorporateActions;
+}
+
+/**
+ * Latest price information of one symbol
+ */
+export interface QuoteSnapshot {
+  /** Symbol as known to the provider */
+  symbol: string;
+  /** Last price */
+  price: number;
+  /** Previous close price */
+  previousClose?: number;
+  /** Opening price of the current session */
+  open?: number;
+  /** Session high */
+  dayHigh?: number;
+  /** Session low */
+  dayLow?: number;
+  /** Session volume */
+  volume?: number;
+  /** Market capitalization */
+  marketCap?: number;
+  /** Quote currency */
+  currency?: string;
+  /** Time of the last price (if known) */
+  timestamp?: Date;
+}
+
+/**
+ * Request for a symbol and news search
+ */
+export interface SearchRequest {
+  /** Maximum number of symbol hits (default: provider specific) */
+  quotesCount?: number;
+  /** Maximum number of news articles (default: provider specific) */
+  newsCount?: number;
+}
+
+/**
+ * A symbol matching a search query
+ */
+export interface SearchHit {
+  /** Symbol as known to the provider */
+  symbol: string;
+  /** Display name */
+  name?: string;
+  /** Instrument type, e.g. 'EQUITY', 'CURRENCY', 'CRYPTOCURRENCY' */
+  type?: string;
+  /** Exchange code */
+  exchange?: string;
+}
+
+/**
+ * Symbols and news matching a search query
+ */
+export interface SearchResult {
+  /** Matching symbols */
+  hits: SearchHit[];
+  /** Matching news articles */
+  news: NewsData[];
+}
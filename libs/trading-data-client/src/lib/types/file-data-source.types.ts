@@ -0,0 +1,81 @@
+import type { TimeInterval } from './market-data.types.js';
+
+/**
+ * Column reference in a data file: header name (case-insensitive) or zero-based index
+ */
+export type FileColumn = string | number;
+
+/**
+ * Mapping of file columns to OHLCV fields
+ */
+export interface FileColumnMapping {
+  /** Date or date-time column */
+  date?: FileColumn;
+  /** Separate time column (combined with the date column) */
+  time?: FileColumn;
+  /** Opening price */
+  open?: FileColumn;
+  /** Highest price */
+  high?: FileColumn;
+  /** Lowest price */
+  low?: FileColumn;
+  /** Closing price */
+  close?: FileColumn;
+  /** Volume (missing values are read as 0) */
+  volume?: FileColumn;
+  /** Adjusted closing price */
+  adjClose?: FileColumn;
+  /** Single price column for tick data, used for open, high, low and close */
+  price?: FileColumn;
+}
+
+/**
+ * How a data file is parsed
+ */
+export interface FileFormatOptions {
+  /** File format (default: inferred from the file extension, falling back to 'csv') */
+  format?: 'csv' | 'json';
+  /** CSV delimiter (default: detected from the first line) */
+  delimiter?: string;
+  /** Whether the first CSV line is a header (default: true) */
+  hasHeader?: boolean;
+  /** Column mapping (default: common header names such as Date, Open, High, Low, Close, Volume) */
+  columns?: FileColumnMapping;
+  /**
+   * Date format of the date column
+   * - 'auto': ISO 8601 strings, 'YYYY-MM-DD HH:mm:ss' or unix timestamps (default)
+   * - 'unix' / 'unix_ms': unix timestamps in seconds / milliseconds
+   * - a pattern built from YYYY, MM, DD, HH, mm, ss and SSS (e.g., 'DD.MM.YYYY HH:mm:ss.SSS')
+   */
+  dateFormat?: string;
+  /** Pattern of the separate time column (default: 'HH:mm:ss') */
+  timeFormat?: string;
+  /** IANA timezone of dates without an explicit offset (default: 'UTC') */
+  timezone?: string;
+  /**
+   * Interval of the rows (default: '1d')
+   * Longer intervals made of whole rows are resampled, other intervals are rejected. Ignored with aggregate.
+   */
+  interval?: TimeInterval;
+  /** Aggregate rows into candles of the requested interval, e.g. for tick files (default: false) */
+  aggregate?: boolean;
+}
+
+/**
+ * A single data file and its format
+ */
+export interface FileSourceConfig extends FileFormatOptions {
+  /** Path of the CSV or JSON file */
+  path: string;
+}
+
+/**
+ * Options for the file data source adapter
+ * Format options at this level are defaults for every file
+ */
+export interface FileDataSourceOptions extends FileFormatOptions {
+  /** Files per symbol (path or full config) */
+  files?: Record<string, string | FileSourceConfig>;
+  /** Directory searched for `<symbol>.csv` / `<symbol>.json` when a symbol is not listed in files */
+  directory?: string;
+}
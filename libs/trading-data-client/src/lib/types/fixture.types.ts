@@ -0,0 +1,62 @@
+/**
+ * Data source method captured in a fixture
+ */
+export type FixtureMethod = 'search' | 'chart' | 'quote' | 'quotes';
+
+/**
+ * Precision of dates in fixture keys
+ * Requests whose dates round to the same value share a fixture
+ */
+export type FixtureDateResolution = 'exact' | 'minute' | 'hour' | 'day';
+
+/**
+ * How the replay adapter matches chart requests to fixtures
+ * - 'exact': same symbol, options and normalized date range
+ * - 'covering': exact match, or a fixture whose date range covers the request (quotes are filtered)
+ * - 'any': as 'covering', falling back to the latest fixture for the symbol and options regardless of dates
+ */
+export type FixtureRangeMatching = 'exact' | 'covering' | 'any';
+
+/**
+ * A recorded request and its response (or error)
+ */
+export interface FixtureRecord {
+  /** Normalized request key */
+  key: string;
+  /** Data source method */
+  method: FixtureMethod;
+  /** Symbol (chart, quote), comma-separated symbols (quotes) or query (search) */
+  target: string;
+  /** Request options with normalized dates */
+  options?: Record<string, unknown>;
+  /** When the request was recorded */
+  recordedAt: Date;
+  /** Response of the data source */
+  response?: unknown;
+  /** Error thrown by the data source */
+  error?: { name: string; message: string };
+}
+
+/**
+ * Options for the recording adapter
+ */
+export interface RecordingAdapterOptions {
+  /** Directory the fixtures are written to */
+  directory: string;
+  /** Precision of dates in fixture keys (default: 'day') */
+  dateResolution?: FixtureDateResolution;
+  /** Whether failed requests are recorded and replayed as errors (default: true) */
+  recordErrors?: boolean;
+}
+
+/**
+ * Options for the replay adapter
+ */
+export interface ReplayAdapterOptions {
+  /** Directory the fixtures are read from */
+  directory: string;
+  /** Precision of dates in fixture keys, must match the recording (default: 'day') */
+  dateResolution?: FixtureDateResolution;
+  /** How chart requests are matched to fixtures (default: 'covering') */
+  rangeMatching?: FixtureRangeMatching;
+}
@@ -4,6 +4,47 @@ export * from './market-data.types.js';
 // News types
 export * from './news.types.js';
 
+// Data source adapter types
+export * from './data-source.types.js';
+
 // Main provider interface
 export type { ITradingDataProvider } from './trading-data-provider.interface.js';
 
+// Cache types
+export * from './cache.types.js';
+
+// Candle store types
+export * from './candle-store.types.js';
+
+// File data source types
+export * from './file-data-source.types.js';
+
+// Record / replay fixture types
+export * from './fixture.types.js';
+
+// Resilience types
+export * from './resilience.types.js';
+
+// Composite / fallback provider types
+export * from './composite.types.js';
+
+// Resampling types
+export * from './resampling.types.js';
+
+// Trading calendar types
+export * from './calendar.types.js';
+
+// Instrument types
+export * from './instrument.types.js';
+
+// Corporate action types
+export * from './corporate-actions.types.js';
+
+// Data quality types
+export * from './data-quality.types.js';
+
+// Batch request types
+export * from './batch.types.js';
+
+// Quote streaming types
+export * from './streaming.types.js';
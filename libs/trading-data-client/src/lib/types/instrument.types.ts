@@ -0,0 +1,66 @@
+import type { AssetClass } from './composite.types.js';
+
+/**
+ * A tradable instrument with everything needed to fetch, price and round it
+ */
+export interface Instrument {
+  /** Canonical symbol (e.g., 'EURUSD', 'AAPL', 'BTCUSD', '/ES', '^GSPC') */
+  symbol: string;
+  /** Display name */
+  name?: string;
+  /** Asset class */
+  assetClass: AssetClass;
+  /** Listing exchange (e.g., 'NASDAQ', 'LSE', 'CME'), if known */
+  exchange?: string;
+  /** Trading calendar id (see TRADING_CALENDARS) */
+  calendar: string;
+  /** Base currency of currency and crypto pairs (e.g., 'EUR' for EURUSD) */
+  baseCurrency?: string;
+  /** Currency prices are quoted in ('GBp' for pence-quoted London listings) */
+  quoteCurrency: string;
+  /** Minimum price increment */
+  tickSize: number;
+  /** Pip size of currency pairs (0.0001, or 0.01 for JPY pairs) */
+  pipSize?: number;
+  /** Value of one point of price movement, in quote currency units (1 for spot, 50 for E-mini S&P 500) */
+  contractMultiplier: number;
+  /** Symbols used by data providers, keyed by provider name (e.g., { yahoo: 'EURUSD=X' }) */
+  providerSymbols: Record<string, string>;
+  /** Other user inputs resolving to this instrument */
+  aliases: string[];
+}
+
+/**
+ * Instrument as registered in an InstrumentRegistry or listed in an instruments JSON file
+ *
+ * Only the symbol is required: omitted fields are inferred from the symbol like unknown input
+ * (asset class, currencies, calendar, tick and pip size), provider symbols are merged with the
+ * inferred ones.
+ */
+export type InstrumentDefinition = Pick<Instrument, 'symbol'> &
+  Partial<Omit<Instrument, 'symbol' | 'providerSymbols'>> & {
+    providerSymbols?: Record<string, string>;
+  };
+
+/**
+ * Contents of an instruments JSON file: a list of definitions or an object with an `instruments` list
+ */
+export type InstrumentFile = InstrumentDefinition[] | { instruments: InstrumentDefinition[] };
+
+/**
+ * Symbol convention of a data provider, translating between instruments and provider symbols
+ */
+export interface SymbolFormat {
+  /** Provider name, as used in Instrument.providerSymbols (e.g., 'yahoo', 'oanda') */
+  name: string;
+  /**
+   * Provider symbol of an instrument
+   * @returns undefined if the provider does not list instruments of this kind
+   */
+  format(instrument: Instrument): string | undefined;
+  /**
+   * Registry input for a provider symbol, the canonical symbol where it can be told (e.g., 'EUR_USD' -> 'EURUSD')
+   * @returns undefined if the symbol does not follow the provider's convention
+   */
+  parse(symbol: string): string | undefined;
+}
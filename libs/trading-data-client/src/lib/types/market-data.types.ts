@@ -1,3 +1,7 @@
+import type { CandleAlignment } from './resampling.types.js';
+import type { PriceAdjustment } from './corporate-actions.types.js';
+import type { HistoricalDataValidation } from './data-quality.types.js';
+
 /**
  * Represents a time interval for asset data
  */
@@ -8,10 +12,18 @@ export type TimeInterval =
   | '15m'
   | '30m'
   | '1h'
+  | '2h'
+  | '3h'
   | '4h'
+  | '6h'
+  | '8h'
+  | '12h'
   | '1d'
+  | '2d'
+  | '3d'
   | '1wk'
-  | '1mo';
+  | '1mo'
+  | '3mo';
 
 /**
  * Represents a single OHLCV (Open, High, Low, Close, Volume) data point
@@ -29,7 +41,7 @@ export interface OHLCVData {
   close: number;
   /** Trading volume */
   volume: number;
-  /** Adjusted closing price (if available) */
+  /** Adjusted closing price as reported by the provider (if available) */
   adjClose?: number;
 }
 
@@ -37,7 +49,7 @@ export interface OHLCVData {
  * Represents current quote data for an asset
  */
 export interface QuoteData {
-  /** Asset symbol */
+  /** Asset symbol as passed by the caller */
   symbol: string;
   /** Current price */
   price: number;
@@ -69,4 +81,13 @@ export interface HistoricalDataParams {
   endDate?: Date;
   /** Time interval for the data */
   interval?: TimeInterval;
+  /** Bucket alignment for resampled intervals (default: UTC midnight, weeks from Monday) */
+  alignment?: CandleAlignment;
+  /**
+   * Adjustment of all OHLC prices and volumes for splits and dividends (default: 'splits')
+   * Prices are back-adjusted relative to the end of the range
+   */
+  adjustment?: PriceAdjustment;
+  /** Validation of the fetched bars (default: drop invalid bars, report spikes and gaps) */
+  validation?: HistoricalDataValidation;
 }
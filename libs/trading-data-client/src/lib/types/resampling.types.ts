@@ -0,0 +1,31 @@
+/**
+ * Unit of a resampling interval
+ */
+export type IntervalUnit = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Interval of arbitrary length, e.g. { unit: 'hour', count: 6 } or { unit: 'month', count: 3 }
+ */
+export interface IntervalSpec {
+  /** Unit of the interval */
+  unit: IntervalUnit;
+  /** Number of units per bucket (positive integer) */
+  count: number;
+}
+
+/**
+ * Where candle buckets start
+ *
+ * Sessions start every day at `anchor` local time in `timezone`. Intraday buckets are counted
+ * from the session start; daily and longer buckets start with the session of their first day.
+ * Anchors at or after 12:00 open the session on the evening before its trading day,
+ * e.g. the FX Monday session opens Sunday 17:00 New York.
+ */
+export interface CandleAlignment {
+  /** IANA timezone buckets are aligned in (default: 'UTC') */
+  timezone?: string;
+  /** Local session start, 'HH:mm' (default: '00:00') */
+  anchor?: string;
+  /** First day of weekly buckets, 0 = Sunday ... 6 = Saturday (default: 1, Monday) */
+  weekStartsOn?: number;
+}
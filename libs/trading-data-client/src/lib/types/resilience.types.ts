@@ -0,0 +1,76 @@
+/**
+ * Jitter applied to retry delays
+ * - 'full': random delay between 0 and the backoff delay
+ * - 'equal': half the backoff delay plus a random share of the other half
+ * - 'none': exact backoff delay
+ */
+export type RetryJitter = 'full' | 'equal' | 'none';
+
+/**
+ * Options for retries with exponential backoff
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 250) */
+  initialDelay?: number;
+  /** Upper bound of the delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Growth factor of the delay per retry (default: 2) */
+  factor?: number;
+  /** Jitter strategy (default: 'full') */
+  jitter?: RetryJitter;
+  /** Whether an error is worth retrying (default: isTransientError) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Options for the token-bucket rate limiter
+ */
+export interface RateLimitOptions {
+  /** Tokens added per interval */
+  tokensPerInterval: number;
+  /** Interval length in milliseconds (default: 1000) */
+  interval?: number;
+  /** Bucket capacity, i.e. the largest burst (default: tokensPerInterval) */
+  burst?: number;
+}
+
+/**
+ * State of a circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial call in milliseconds (default: 30000) */
+  resetTimeout?: number;
+  /** Whether an error counts as a failure (default: isTransientError) */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Options for the resilient data source adapter
+ */
+export interface ResilienceOptions {
+  /** Retry policy, false to disable (default: 3 retries with full jitter) */
+  retry?: RetryOptions | false;
+  /** Rate limit for upstream calls (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Maximum concurrent upstream calls (default: unlimited) */
+  maxConcurrency?: number;
+  /** Timeout per upstream call in milliseconds, 0 to disable (default: 30000) */
+  timeout?: number;
+  /** Circuit breaker, false to disable (default: disabled) */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Clock (default: () => new Date()) */
+  now?: () => Date;
+  /** Delay function used for backoff and rate limiting (default: timer-based sleep) */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  /** Random source for jitter (default: Math.random) */
+  random?: () => number;
+}
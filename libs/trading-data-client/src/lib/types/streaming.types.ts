@@ -0,0 +1,172 @@
+import type { OHLCVData, QuoteData, TimeInterval } from './market-data.types.js';
+import type { QuoteSnapshot } from './data-source.types.js';
+import type { RetryOptions } from './resilience.types.js';
+import type { CandleAlignment } from './resampling.types.js';
+import type { TradingDataError } from '../errors/trading-errors.js';
+import type { TradingCalendar } from '../calendar/trading-calendar.js';
+
+/**
+ * Price change fed into a BarBuilder (a trade or a quote)
+ */
+export interface PriceUpdate {
+  /** Price */
+  price: number;
+  /** Traded volume, or the session volume so far (see BarBuilderOptions.volume) */
+  volume?: number;
+  /** Time of the price */
+  timestamp: Date;
+}
+
+/**
+ * How BarBuilder reads the volume of price updates
+ * - 'trade': volume of the update itself (ticks)
+ * - 'session': cumulative session volume (quotes); bars get the increase since the previous update
+ */
+export type BarVolumeMode = 'trade' | 'session';
+
+/**
+ * Options of BarBuilder
+ */
+export interface BarBuilderOptions {
+  /** Intervals to build bars for */
+  intervals: TimeInterval[];
+  /** Timezone, session anchor and week start of the buckets (default: UTC midnight, Monday) */
+  alignment?: CandleAlignment;
+  /**
+   * Exchange calendar: bars up to an hour start at the session open, intraday and daily bars
+   * close at the session close, and updates outside sessions are ignored (default: none)
+   */
+  calendar?: TradingCalendar;
+  /** How to read the volume of updates (default: 'trade') */
+  volume?: BarVolumeMode;
+}
+
+/**
+ * Bar built by BarBuilder
+ */
+export interface BarEvent {
+  /** Interval of the bar */
+  interval: TimeInterval;
+  /** Bar built from the updates so far */
+  bar: OHLCVData;
+  /** Whether the bar is final (its interval or session ended) */
+  closed: boolean;
+}
+
+/**
+ * New quote of a subscribed symbol
+ */
+export interface QuoteEvent {
+  type: 'quote';
+  /** Symbol as passed to subscribeQuotes */
+  symbol: string;
+  quote: QuoteData;
+}
+
+/**
+ * Bar of a subscribed symbol, emitted with every quote while it forms and once more when it closes
+ * A bar closes when the first quote of a later bar arrives.
+ */
+export interface BarUpdateEvent extends BarEvent {
+  type: 'bar';
+  /** Symbol as passed to subscribeQuotes */
+  symbol: string;
+}
+
+/**
+ * Failure of the transport, for one symbol or the whole stream
+ * The stream keeps running; the transport retries with backoff.
+ */
+export interface QuoteStreamErrorEvent {
+  type: 'error';
+  /** Symbol as passed to subscribeQuotes, undefined if all symbols are affected */
+  symbol?: string;
+  error: TradingDataError;
+}
+
+/**
+ * Event emitted to quote subscribers
+ */
+export type QuoteStreamEvent = QuoteEvent | BarUpdateEvent | QuoteStreamErrorEvent;
+
+/**
+ * Receives the events of a quote subscription
+ */
+export type QuoteStreamHandler = (event: QuoteStreamEvent) => void;
+
+/**
+ * Handle of a quote subscription
+ */
+export interface QuoteSubscription {
+  /** Symbols as passed to subscribeQuotes */
+  readonly symbols: readonly string[];
+  /** Stop receiving events; the transport stops polling or unsubscribes symbols no one else follows */
+  unsubscribe(): void;
+}
+
+/**
+ * Options of subscribeQuotes
+ */
+export interface SubscribeQuotesOptions {
+  /** Interval(s) of bar-update events, or false for quote events only (default: '1m') */
+  barInterval?: TimeInterval | TimeInterval[] | false;
+  /** Timezone, session anchor and week start of the bars (default: UTC midnight, Monday) */
+  alignment?: CandleAlignment;
+}
+
+/**
+ * Options of PollingQuoteTransport
+ */
+export interface PollingQuoteTransportOptions {
+  /** Delay between polls in milliseconds (default: 5000) */
+  interval?: number;
+  /** Delay before polling a failing symbol again (default: starting at the poll interval, up to 5 minutes, no jitter) */
+  backoff?: Omit<RetryOptions, 'retries' | 'shouldRetry'>;
+  /** Clock, for testing (default: Date.now) */
+  now?: () => number;
+  /** Wait function, for testing (default: sleep) */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Minimal WebSocket client, as implemented by the WHATWG WebSocket and the ws package
+ */
+export interface WebSocketLike {
+  /** 0 connecting, 1 open, 2 closing, 3 closed */
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+/**
+ * Messages of a provider's quote streaming protocol
+ * Symbols are in Yahoo format on both sides; the protocol translates them to the provider's format.
+ */
+export interface QuoteStreamProtocol {
+  /** Message subscribing to symbols */
+  subscribe(symbols: string[]): string;
+  /** Message unsubscribing from symbols */
+  unsubscribe(symbols: string[]): string;
+  /** Quotes in a message (empty for heartbeats and acknowledgements); throws on malformed messages */
+  parse(data: unknown): QuoteSnapshot[];
+}
+
+/**
+ * Options of WebSocketQuoteTransport
+ */
+export interface WebSocketQuoteTransportOptions {
+  /** Server URL */
+  url: string;
+  /** Subscription messages and quote parsing of the provider */
+  protocol: QuoteStreamProtocol;
+  /** Opens a connection (default: the global WebSocket) */
+  createSocket?: (url: string) => WebSocketLike;
+  /** Delay before reconnecting after the connection closed (default: 1 second, doubling up to 1 minute) */
+  reconnect?: Omit<RetryOptions, 'retries' | 'shouldRetry'>;
+  /** Wait function, for testing (default: sleep) */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
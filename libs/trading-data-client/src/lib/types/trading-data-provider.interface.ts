@@ -1,4 +1,5 @@
 import type { HistoricalDataParams, OHLCVData, QuoteData } from './market-data.types.js';
+import type { BatchItemResult, BatchOptions } from './batch.types.js';
 import type { NewsParams, NewsData } from './news.types.js';
 
 /**
@@ -19,6 +20,25 @@ export interface ITradingDataProvider {
    */
   getQuote(symbol: string): Promise<QuoteData>;
 
+  /**
+   * Fetch current quotes of several assets
+   * @param symbols - Asset symbols
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per symbol, in input order
+   */
+  getQuotes(symbols: string[], options?: BatchOptions): Promise<BatchItemResult<QuoteData>[]>;
+
+  /**
+   * Fetch historical OHLCV data of several requests with bounded concurrency
+   * @param paramsList - Parameters of each request
+   * @param options - Concurrency, progress callback and abort signal
+   * @returns Promise resolving to one result per request, in input order
+   */
+  getHistoricalDataBatch(
+    paramsList: HistoricalDataParams[],
+    options?: BatchOptions
+  ): Promise<BatchItemResult<OHLCVData[]>[]>;
+
   /**
    * Fetch news articles for a symbol or search query
    * @param params - Parameters for fetching news
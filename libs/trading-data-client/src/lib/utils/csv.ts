@@ -0,0 +1,63 @@
+/**
+ * Minimal CSV helpers for broker exports
+ */
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Detect the delimiter of a CSV line
+ * @param line - First line of the file
+ * @returns The candidate delimiter that occurs most often (default: ',')
+ */
+export function detectDelimiter(line: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = line.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a CSV line into fields
+ * Supports double-quoted fields with escaped quotes ("")
+ * @param line - CSV line
+ * @param delimiter - Field delimiter
+ */
+export function parseCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (line.startsWith(delimiter, i)) {
+      fields.push(field.trim());
+      field = '';
+      i += delimiter.length - 1;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
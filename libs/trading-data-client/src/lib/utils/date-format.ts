@@ -0,0 +1,163 @@
+import { zonedTimeToDate } from './timezone.js';
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{1,2})',
+  ss: '(\\d{1,2})',
+  SSS: '(\\d{1,3})',
+};
+
+const TOKEN_REGEX = /YYYY|SSS|MM|DD|HH|mm|ss/g;
+
+/**
+ * Date format compiled into a regular expression
+ */
+interface CompiledDateFormat {
+  regex: RegExp;
+  tokens: string[];
+}
+
+const compiledFormats = new Map<string, CompiledDateFormat>();
+
+function compileDateFormat(format: string): CompiledDateFormat {
+  let compiled = compiledFormats.get(format);
+  if (compiled) {
+    return compiled;
+  }
+
+  const tokens: string[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+  for (const match of format.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegex(format.slice(lastIndex, match.index));
+    pattern += TOKEN_PATTERNS[match[0]];
+    tokens.push(match[0]);
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegex(format.slice(lastIndex));
+
+  compiled = { regex: new RegExp(`^${pattern}$`), tokens };
+  compiledFormats.set(format, compiled);
+  return compiled;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+const EXPLICIT_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Parse a date value from a data file
+ * @param value - Raw value (string or number)
+ * @param format - 'auto', 'unix', 'unix_ms' or a pattern such as 'YYYY.MM.DD HH:mm'
+ * @param timeZone - IANA timezone for values without an explicit offset
+ * @returns Parsed date, or null if the value does not match the format
+ */
+export function parseDateValue(
+  value: string | number,
+  format = 'auto',
+  timeZone = 'UTC'
+): Date | null {
+  if (format === 'unix' || format === 'unix_ms') {
+    const timestamp = Number(value);
+    if (!Number.isFinite(timestamp)) {
+      return null;
+    }
+    return new Date(format === 'unix' ? timestamp * 1000 : timestamp);
+  }
+
+  const text = String(value).trim();
+
+  if (format === 'auto') {
+    return parseAutoDate(text, timeZone);
+  }
+
+  const { regex, tokens } = compileDateFormat(format);
+  const match = regex.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const fields: Record<string, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 };
+  tokens.forEach((token, index) => {
+    const raw = match[index + 1];
+    fields[token] = Number(token === 'SSS' ? raw.padEnd(3, '0') : raw);
+  });
+
+  return toValidDate(fields, timeZone);
+}
+
+/**
+ * Parse ISO 8601 strings, plain 'YYYY-MM-DD HH:mm:ss' values and unix timestamps
+ * Numbers below 1e11 are treated as seconds, larger ones as milliseconds
+ */
+function parseAutoDate(text: string, timeZone: string): Date | null {
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const timestamp = Number(text);
+    return new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp);
+  }
+
+  if (EXPLICIT_OFFSET.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = ISO_LOCAL.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, millisecond] = match;
+  return toValidDate(
+    {
+      YYYY: Number(year),
+      MM: Number(month),
+      DD: Number(day),
+      HH: Number(hour ?? 0),
+      mm: Number(minute ?? 0),
+      ss: Number(second ?? 0),
+      SSS: Number((millisecond ?? '0').padEnd(3, '0')),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Convert a chart period (Date, ISO string or unix timestamp) to a Date
+ * Numbers below 1e11 are treated as seconds, larger ones as milliseconds
+ */
+export function toChartDate(value: Date | string | number): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return new Date(value < 1e11 ? value * 1000 : value);
+  }
+  return new Date(value);
+}
+
+function toValidDate(fields: Record<string, number>, timeZone: string): Date | null {
+  if (
+    fields['MM'] < 1 || fields['MM'] > 12 ||
+    fields['DD'] < 1 || fields['DD'] > 31 ||
+    fields['HH'] > 23 || fields['mm'] > 59 || fields['ss'] > 59
+  ) {
+    return null;
+  }
+
+  return zonedTimeToDate(
+    fields['YYYY'],
+    fields['MM'],
+    fields['DD'],
+    fields['HH'],
+    fields['mm'],
+    fields['ss'],
+    fields['SSS'],
+    timeZone
+  );
+}
@@ -0,0 +1,140 @@
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import type { FixtureDateResolution, FixtureMethod } from '../types/index.js';
+import { toChartDate } from './date-format.js';
+
+/**
+ * Helpers shared by the recording and replay adapters
+ */
+
+const DATE_TAG = '$date';
+
+const RESOLUTION_MS: Record<FixtureDateResolution, number> = {
+  exact: 1,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Option keys holding dates even when passed as strings or unix seconds
+ */
+const DATE_OPTION_KEYS = ['period1', 'period2'];
+
+/**
+ * Serialize a fixture to JSON, tagging dates so they survive the round trip
+ */
+export function stringifyFixture(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, current: unknown) {
+      const raw = this[key];
+      if (raw instanceof Date) {
+        return { [DATE_TAG]: isNaN(raw.getTime()) ? null : raw.toISOString() };
+      }
+      return current;
+    },
+    2
+  );
+}
+
+/**
+ * Parse a fixture from JSON, restoring tagged dates
+ */
+export function parseFixture<T>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value) && DATE_TAG in value) {
+      const iso = value[DATE_TAG];
+      return iso === null ? new Date(NaN) : new Date(iso);
+    }
+    return value;
+  });
+}
+
+/**
+ * Normalize request options: dates rounded down to the resolution, keys sorted
+ * @param options - Raw request options
+ * @param resolution - Date precision
+ */
+export function normalizeFixtureOptions(
+  options: unknown,
+  resolution: FixtureDateResolution
+): Record<string, unknown> | undefined {
+  if (!options || typeof options !== 'object') {
+    return undefined;
+  }
+
+  const step = RESOLUTION_MS[resolution];
+  const normalized: Record<string, unknown> = {};
+  for (const key of Object.keys(options).sort()) {
+    const value = (options as Record<string, unknown>)[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (value instanceof Date || (DATE_OPTION_KEYS.includes(key) && value !== null)) {
+      const date = toChartDate(value as Date | string | number);
+      normalized[key] = new Date(Math.floor(date.getTime() / step) * step);
+    } else {
+      normalized[key] = value;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Build the lookup key of a request
+ * @param method - Data source method
+ * @param target - Symbol or search query
+ * @param options - Normalized options (see normalizeFixtureOptions)
+ */
+export function fixtureKey(
+  method: FixtureMethod,
+  target: string,
+  options?: Record<string, unknown>
+): string {
+  return `${method}:${target}:${options ? stringifyCompact(options) : ''}`;
+}
+
+/**
+ * Fixture target of a multi-symbol quote request: the symbols sorted and comma-separated,
+ * so the same set of symbols in any order shares a fixture
+ */
+export function quotesTarget(symbols: string[]): string {
+  return [...symbols].sort().join(',');
+}
+
+/**
+ * Key of a request without its date range, used for covering and latest matches
+ */
+export function fixtureRangeFreeKey(
+  method: FixtureMethod,
+  target: string,
+  options?: Record<string, unknown>
+): string {
+  const rest = { ...options };
+  for (const key of DATE_OPTION_KEYS) {
+    delete rest[key];
+  }
+  return fixtureKey(method, target, rest);
+}
+
+/**
+ * File path of a fixture: <directory>/<method>/<target>-<hash>.json
+ */
+export function fixturePath(
+  directory: string,
+  method: FixtureMethod,
+  target: string,
+  key: string
+): string {
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 12);
+  const name = target.replace(/[^A-Za-z0-9._-]/g, '_').slice(0, 40) || 'empty';
+  return join(directory, method, `${name}-${hash}.json`);
+}
+
+function stringifyCompact(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, current: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? raw.toISOString() : current;
+  });
+}
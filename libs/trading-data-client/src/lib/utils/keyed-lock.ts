@@ -0,0 +1,28 @@
+/**
+ * Serializes asynchronous tasks per key
+ * Tasks sharing a key run one after another, tasks with different keys run concurrently.
+ * A failing task does not block the tasks queued after it.
+ */
+export class KeyedLock {
+  private readonly tails = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run a task once all earlier tasks for the same key have settled
+   * @param key - Lock key
+   * @param task - Task to run
+   * @returns The task's result
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.tails.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.tails.get(key) === current) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import type {
+  FallbackOptions,
+  NamedProvider,
+  ProviderAttempt,
+  ProviderMatcher,
+  ProviderResult,
+  ProviderRoute,
+} from '../types/index.js';
+import { InvalidParameterError } from '../errors/trading-errors.js';
+import { toTradingDataError } from '../errors/classify-error.js';
+import { detectAssetClass, normalizeSymbol } from '../symbol-normalizer.js';
+
+/**
+ * Default fallback policy: every error except caller mistakes and aborts
+ */
+function defaultShouldFallback(error: unknown): boolean {
+  if (error instanceof InvalidParameterError) {
+    return false;
+  }
+  return !(error instanceof Error && error.name === 'AbortError');
+}
+
+function matches(matcher: ProviderMatcher, symbol: string): boolean {
+  if (matcher instanceof RegExp) {
+    return matcher.test(symbol);
+  }
+  if (typeof matcher === 'function') {
+    return matcher(symbol);
+  }
+  const assetClasses = Array.isArray(matcher) ? matcher : [matcher];
+  return assetClasses.includes(detectAssetClass(symbol));
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Ordered, routable list of named providers with fallback
+ * Shared by CompositeDataSourceAdapter and FallbackMarketDataProvider
+ */
+export class ProviderChain<T> {
+  private readonly providers = new Map<string, T>();
+  private readonly routes: ProviderRoute[];
+  private readonly shouldFallback: (error: unknown, provider: string) => boolean;
+  private readonly fallbackOnEmpty: boolean;
+
+  constructor(
+    providers: NamedProvider<T>[],
+    private readonly options: FallbackOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new InvalidParameterError('At least one provider is required', { parameter: 'providers' });
+    }
+    for (const { name, provider } of providers) {
+      if (this.providers.has(name)) {
+        throw new InvalidParameterError(`Duplicate provider name: ${name}`, { parameter: 'providers' });
+      }
+      this.providers.set(name, provider);
+    }
+
+    this.routes = options.routes ?? [];
+    for (const route of this.routes) {
+      if (route.providers.length === 0) {
+        throw new InvalidParameterError('Routes need at least one provider', { parameter: 'routes' });
+      }
+      const unknown = route.providers.find((name) => !this.providers.has(name));
+      if (unknown !== undefined) {
+        throw new InvalidParameterError(`Unknown provider in route: ${unknown}`, { parameter: 'routes' });
+      }
+    }
+
+    this.shouldFallback = options.shouldFallback ?? defaultShouldFallback;
+    this.fallbackOnEmpty = options.fallbackOnEmpty ?? true;
+  }
+
+  /**
+   * Names of the providers to try for a symbol, in order
+   * @param symbol - Symbol in any format supported by normalizeSymbol
+   */
+  resolve(symbol: string): string[] {
+    const normalized = normalizeSymbol(symbol);
+    const route = this.routes.find((candidate) => matches(candidate.match, normalized));
+    return route ? [...route.providers] : [...this.providers.keys()];
+  }
+
+  /**
+   * Call the providers for a symbol in turn until one serves the request
+   *
+   * - Errors the fallback policy rejects are rethrown unchanged
+   * - Empty responses fall through (unless disabled); if no provider has data,
+   *   the first empty response is returned
+   * - If every provider fails, the last error is rethrown as a trading error listing all failures
+   *
+   * @param operation - Method name for the report
+   * @param symbol - Symbol or query used for routing
+   * @param call - Performs the request on one provider
+   * @param isEmpty - Whether a response has no data
+   */
+  async execute<R>(
+    operation: string,
+    symbol: string,
+    call: (provider: T, name: string) => Promise<R>,
+    isEmpty?: (result: R) => boolean
+  ): Promise<ProviderResult<R>> {
+    const attempts: ProviderAttempt[] = [];
+    let firstEmpty: { data: R; provider: string } | undefined;
+    let lastError: unknown;
+
+    for (const name of this.resolve(symbol)) {
+      let data: R;
+      try {
+        data = await call(this.providers.get(name) as T, name);
+      } catch (error) {
+        attempts.push({ provider: name, error });
+        if (!this.shouldFallback(error, name)) {
+          throw error;
+        }
+        lastError = error;
+        continue;
+      }
+
+      if (this.fallbackOnEmpty && isEmpty?.(data)) {
+        attempts.push({ provider: name, empty: true });
+        firstEmpty ??= { data, provider: name };
+        continue;
+      }
+
+      attempts.push({ provider: name });
+      return this.served(operation, symbol, data, name, attempts);
+    }
+
+    if (firstEmpty) {
+      return this.served(operation, symbol, firstEmpty.data, firstEmpty.provider, attempts);
+    }
+
+    const failures = attempts
+      .filter((attempt) => attempt.error !== undefined)
+      .map((attempt) => `${attempt.provider}: ${describeError(attempt.error)}`)
+      .join('; ');
+    throw toTradingDataError(lastError, `All providers failed for ${symbol} (${failures})`, { symbol });
+  }
+
+  /**
+   * Call the providers for several symbols at once until each symbol is served
+   *
+   * Symbols are grouped by their providers. Each provider of a group is called with the symbols
+   * not served yet; symbols missing from its response fall through like empty responses.
+   * Errors the fallback policy rejects are rethrown unchanged. If no symbol could be served and a
+   * provider failed, the last error is rethrown as a trading error listing all failures.
+   *
+   * @param operation - Method name for the reports (one report per served symbol)
+   * @param symbols - Symbols used for routing
+   * @param call - Performs the request on one provider, returning the data by symbol
+   * @returns Data of each served symbol with its provider; unserved symbols are missing
+   */
+  async executeMany<R>(
+    operation: string,
+    symbols: string[],
+    call: (provider: T, name: string, symbols: string[]) => Promise<Map<string, R>>
+  ): Promise<Map<string, ProviderResult<R>>> {
+    const groups = new Map<string, { providers: string[]; symbols: string[] }>();
+    for (const symbol of symbols) {
+      const providers = this.resolve(symbol);
+      const key = providers.join('\n');
+      const group = groups.get(key) ?? { providers, symbols: [] };
+      group.symbols.push(symbol);
+      groups.set(key, group);
+    }
+
+    const results = new Map<string, ProviderResult<R>>();
+    const failures: string[] = [];
+    let lastError: unknown;
+
+    for (const group of groups.values()) {
+      const attempts = new Map(group.symbols.map((symbol) => [symbol, [] as ProviderAttempt[]]));
+      let remaining = group.symbols;
+      let answered = false;
+
+      for (const name of group.providers) {
+        // Without fallback on empty responses, the first provider that answers decides
+        if (remaining.length === 0 || (answered && !this.fallbackOnEmpty)) {
+          break;
+        }
+
+        let data: Map<string, R>;
+        try {
+          data = await call(this.providers.get(name) as T, name, remaining);
+        } catch (error) {
+          for (const symbol of remaining) {
+            attempts.get(symbol)!.push({ provider: name, error });
+          }
+          if (!this.shouldFallback(error, name)) {
+            throw error;
+          }
+          failures.push(`${name}: ${describeError(error)}`);
+          lastError = error;
+          continue;
+        }
+
+        answered = true;
+        for (const symbol of remaining) {
+          const symbolAttempts = attempts.get(symbol)!;
+          if (data.has(symbol)) {
+            symbolAttempts.push({ provider: name });
+            results.set(symbol, this.served(operation, symbol, data.get(symbol) as R, name, symbolAttempts));
+          } else {
+            symbolAttempts.push({ provider: name, empty: true });
+          }
+        }
+        remaining = remaining.filter((symbol) => !data.has(symbol));
+      }
+    }
+
+    if (results.size === 0 && lastError !== undefined) {
+      throw toTradingDataError(lastError, `All providers failed for ${symbols.join(', ')} (${failures.join('; ')})`, {});
+    }
+    return results;
+  }
+
+  private served<R>(
+    operation: string,
+    symbol: string,
+    data: R,
+    provider: string,
+    attempts: ProviderAttempt[]
+  ): ProviderResult<R> {
+    this.options.onServed?.({ operation, symbol, provider, attempts });
+    return { data, provider, attempts };
+  }
+}
@@ -0,0 +1,20 @@
+import type { QuoteData, QuoteSnapshot } from '../types/index.js';
+
+/**
+ * Quote of a symbol, reported as requested rather than in the provider's spelling
+ * @param symbol - Symbol as passed by the caller
+ * @param quote - Quote returned by the data source
+ */
+export function toQuoteData(symbol: string, quote: QuoteSnapshot): QuoteData {
+  return {
+    symbol,
+    price: quote.price,
+    previousClose: quote.previousClose,
+    open: quote.open,
+    dayHigh: quote.dayHigh,
+    dayLow: quote.dayLow,
+    volume: quote.volume,
+    marketCap: quote.marketCap,
+    timestamp: quote.timestamp || new Date(),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Timezone helpers based on Intl (no external date library)
+ */
+
+/**
+ * Calendar and clock fields of a date in a specific timezone
+ */
+export interface ZonedDateParts {
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Day of week (0 = Sunday) */
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Get the wall clock fields of a date in a timezone
+ * @param date - Point in time
+ * @param timeZone - IANA timezone (e.g., 'America/New_York')
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const fields: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    fields[part.type] = part.value;
+  }
+
+  return {
+    year: Number(fields['year']),
+    month: Number(fields['month']),
+    day: Number(fields['day']),
+    hour: Number(fields['hour']),
+    minute: Number(fields['minute']),
+    second: Number(fields['second']),
+    millisecond: date.getUTCMilliseconds(),
+    weekday: WEEKDAYS[fields['weekday']],
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a point in time, in milliseconds
+ * @param date - Point in time
+ * @param timeZone - IANA timezone
+ * @returns Offset (e.g., +3600000 for UTC+1)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  );
+  return asUTC - date.getTime();
+}
+
+/**
+ * Convert a wall clock time in a timezone to a Date
+ * Non-existent times (DST gap) resolve forward, ambiguous times (DST overlap) to the earlier instant
+ * @param year - Year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @param hour - Hour (0-23)
+ * @param minute - Minute
+ * @param second - Second
+ * @param millisecond - Millisecond
+ * @param timeZone - IANA timezone (default: 'UTC')
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  millisecond = 0,
+  timeZone = 'UTC'
+): Date {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  if (timeZone === 'UTC') {
+    return new Date(wallTime);
+  }
+
+  // Offsets on either side of the wall time cover any DST transition in between
+  const HALF_DAY = 12 * 60 * 60 * 1000;
+  const offsetBefore = getTimeZoneOffset(new Date(wallTime - HALF_DAY), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallTime + HALF_DAY), timeZone);
+
+  const candidates = [wallTime - offsetBefore, wallTime - offsetAfter].filter(
+    (candidate) => wallTime - getTimeZoneOffset(new Date(candidate), timeZone) === candidate
+  );
+  const utc = candidates.length > 0 ? Math.min(...candidates) : wallTime - offsetBefore;
+  return new Date(utc);
+}
+
+/**
+ * Check whether a string is a valid IANA timezone
+ * @param timeZone - Timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
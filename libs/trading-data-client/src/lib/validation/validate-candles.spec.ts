@@ -0,0 +1,105 @@
+import { validateCandles } from './validate-candles';
+import { DataQualityError } from '../errors/trading-errors.js';
+import { getTradingCalendar } from '../calendar/calendars.js';
+import type { OHLCVData } from '../types/index.js';
+
+// NYSE daily bars open at 14:30 UTC in winter
+const day = (n: number) => new Date(Date.UTC(2024, 0, n, 14, 30));
+
+const bar = (n: number, close: number, overrides: Partial<OHLCVData> = {}): OHLCVData => ({
+  date: day(n),
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 1000,
+  ...overrides,
+});
+
+const types = (result: { quality: { issues: Array<{ type: string }> } }) => result.quality.issues.map((issue) => issue.type);
+
+describe('validateCandles', () => {
+  it('should sort bars and keep the last bar of duplicate dates', () => {
+    const result = validateCandles([bar(3, 102), bar(1, 100), bar(2, 101), bar(2, 111)]);
+
+    expect(result.data.map((candle) => candle.close)).toEqual([100, 111, 102]);
+    expect(types(result)).toEqual(['unsorted', 'duplicate']);
+    expect(result.quality).toMatchObject({ received: 4, returned: 3, dropped: 1, filled: 0 });
+  });
+
+  it('should drop null, zero-price and high < low bars by default', () => {
+    const candles = [
+      bar(1, 100),
+      bar(2, 101, { open: null as unknown as number }),
+      bar(3, 0, { high: 185.88, low: 0 }),
+      bar(4, 102, { high: 99 }),
+      bar(5, 103),
+    ];
+
+    const result = validateCandles(candles);
+
+    expect(result.data.map((candle) => candle.close)).toEqual([100, 103]);
+    expect(types(result)).toEqual(['null-bar', 'zero-price', 'invalid-range']);
+    expect(result.quality.issues[0]).toMatchObject({ date: day(2), count: 1, message: 'Missing open' });
+    expect(result.quality).toMatchObject({ received: 5, returned: 2, dropped: 3 });
+  });
+
+  it('should forward-fill invalid bars with the previous close', () => {
+    const result = validateCandles([bar(1, 100), bar(2, NaN), bar(3, 104)], { policy: 'forward-fill' });
+
+    expect(result.data[1]).toEqual({ date: day(2), open: 100, high: 100, low: 100, close: 100, volume: 0, adjClose: undefined });
+    expect(result.quality).toMatchObject({ returned: 3, filled: 1, dropped: 0 });
+  });
+
+  it('should interpolate invalid bars between their valid neighbours', () => {
+    const result = validateCandles([bar(1, 0), bar(2, 100), bar(3, 0), bar(4, 0), bar(5, 106)], {
+      policy: 'interpolate',
+    });
+
+    expect(result.data.map((candle) => candle.close)).toEqual([100, 100, 102, 104, 106]);
+    expect(result.data[2]).toMatchObject({ high: 103, low: 101, volume: 0 });
+    expect(result.quality.filled).toBe(3);
+  });
+
+  it('should throw with the report under the throw policy', () => {
+    const candles = [bar(1, 100), bar(2, 0)];
+
+    expect(() => validateCandles(candles, { policy: 'throw' })).toThrow(DataQualityError);
+    try {
+      validateCandles(candles, { policy: 'throw' });
+    } catch (error) {
+      expect((error as DataQualityError).report.issues).toHaveLength(1);
+      expect((error as DataQualityError).message).toBe('1 invalid bars (zero-price: 1)');
+    }
+    expect(validateCandles([bar(1, 100), bar(2, 101)], { policy: 'throw' }).data).toHaveLength(2);
+  });
+
+  it('should report spikes that revert, but not price gaps that hold', () => {
+    const closes = [100, 101, 100, 102, 101, 100, 101, 102, 101, 100];
+    const badTick = closes.map((close, i) => bar(i + 1, close, i === 5 ? { high: 1000 } : {}));
+    const gap = closes.map((close, i) => bar(i + 1, i >= 5 ? close + 50 : close));
+
+    const reported = validateCandles(badTick);
+    const repaired = validateCandles(badTick, { repairSpikes: true, policy: 'forward-fill' });
+
+    expect(types(reported)).toEqual(['spike']);
+    expect(reported.quality.issues[0].date).toEqual(day(6));
+    expect(reported.data).toHaveLength(10);
+    expect(repaired.data[5].high).toBe(101);
+    expect(types(validateCandles(gap))).toEqual([]);
+    expect(types(validateCandles(badTick, { spikeThreshold: 1000 }))).toEqual([]);
+  });
+
+  it('should report bars missing from the trading calendar', () => {
+    // Monday 8th to Friday 12th January 2024 without Wednesday and Thursday
+    const result = validateCandles([bar(8, 100), bar(9, 101), bar(12, 102)], {
+      calendar: getTradingCalendar('NYSE'),
+      interval: '1d',
+    });
+
+    expect(result.quality.issues).toEqual([
+      { type: 'gap', date: expect.any(Date), count: 2, message: `2 missing bars before ${day(12).toISOString()}` },
+    ]);
+    expect(result.data).toHaveLength(3);
+  });
+});
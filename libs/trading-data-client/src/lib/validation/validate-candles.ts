@@ -0,0 +1,239 @@
+import type {
+  DataQualityIssue,
+  DataQualityIssueType,
+  DataQualityReport,
+  DataValidationOptions,
+  HistoricalDataResult,
+  OHLCVData,
+} from '../types/index.js';
+import { DataQualityError } from '../errors/trading-errors.js';
+
+/**
+ * Default multiple of the median close-to-close move beyond which a bar counts as a spike
+ */
+export const DEFAULT_SPIKE_THRESHOLD = 10;
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close'] as const;
+
+/**
+ * Reason a bar cannot be used, if any
+ */
+function invalidBar(candle: OHLCVData): Omit<DataQualityIssue, 'date' | 'count'> | undefined {
+  const missing = PRICE_FIELDS.filter((field) => typeof candle[field] !== 'number' || !Number.isFinite(candle[field]));
+  if (missing.length > 0) {
+    return { type: 'null-bar', message: `Missing ${missing.join(', ')}` };
+  }
+  const zero = PRICE_FIELDS.filter((field) => candle[field] === 0);
+  if (zero.length > 0) {
+    return { type: 'zero-price', message: `Zero ${zero.join(', ')}` };
+  }
+  if (candle.high < candle.low) {
+    return { type: 'invalid-range', message: `High ${candle.high} below low ${candle.low}` };
+  }
+  return undefined;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Indices of bars whose prices are far away from both neighbouring closes
+ * Moves are measured in log returns relative to the median close-to-close move, so a real
+ * price gap (which the next bar confirms) is not a spike, a bad tick that reverts is.
+ */
+function findSpikes(candles: OHLCVData[], valid: number[], threshold: number): number[] {
+  if (valid.length < 3 || valid.some((i) => PRICE_FIELDS.some((field) => candles[i][field] < 0))) {
+    return [];
+  }
+
+  const moves = valid.slice(1).map((i, k) => Math.abs(Math.log(candles[i].close / candles[valid[k]].close)));
+  const limit = threshold * median(moves);
+  if (limit === 0) {
+    return [];
+  }
+
+  const spikes: number[] = [];
+  for (let k = 1; k < valid.length - 1; k++) {
+    const candle = candles[valid[k]];
+    const previous = candles[valid[k - 1]].close;
+    const next = candles[valid[k + 1]].close;
+    const distance = Math.max(
+      ...PRICE_FIELDS.map((field) =>
+        Math.min(Math.abs(Math.log(candle[field] / previous)), Math.abs(Math.log(candle[field] / next)))
+      )
+    );
+    if (distance > limit) {
+      spikes.push(valid[k]);
+    }
+  }
+  return spikes;
+}
+
+/**
+ * Replacement of an invalid bar, or undefined to drop it
+ */
+function fillBar(
+  candle: OHLCVData,
+  previous: OHLCVData | undefined,
+  next: OHLCVData | undefined,
+  interpolate: boolean
+): OHLCVData | undefined {
+  if (interpolate && previous && next) {
+    const weight = (candle.date.getTime() - previous.date.getTime()) / (next.date.getTime() - previous.date.getTime());
+    const at = (from: number, to: number) => from + (to - from) * weight;
+    return {
+      date: candle.date,
+      open: at(previous.open, next.open),
+      high: at(previous.high, next.high),
+      low: at(previous.low, next.low),
+      close: at(previous.close, next.close),
+      volume: 0,
+      adjClose:
+        previous.adjClose === undefined || next.adjClose === undefined
+          ? undefined
+          : at(previous.adjClose, next.adjClose),
+    };
+  }
+
+  const price = previous ? previous.close : interpolate && next ? next.open : undefined;
+  if (price === undefined) {
+    return undefined;
+  }
+  return { date: candle.date, open: price, high: price, low: price, close: price, volume: 0, adjClose: previous?.adjClose };
+}
+
+/**
+ * Index of the nearest bar not to repair in a direction
+ */
+function findValid(repair: Set<number>, from: number, step: 1 | -1, length: number): number | undefined {
+  for (let i = from + step; i >= 0 && i < length; i += step) {
+    if (!repair.has(i)) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Issue counts by type, e.g. 'null-bar: 2, spike: 1'
+ */
+function summarize(issues: DataQualityIssue[]): string {
+  const counts = new Map<DataQualityIssueType, number>();
+  for (const { type } of issues) {
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+  return [...counts].map(([type, count]) => `${type}: ${count}`).join(', ');
+}
+
+/**
+ * Validate a candle series and repair it according to a policy
+ *
+ * Bars are sorted by date and duplicates removed (the last bar of a date wins). Bars with a
+ * missing or zero price or a high below the low are dropped, filled or rejected as configured.
+ * Spikes are reported and only repaired with `repairSpikes`. With a calendar and interval,
+ * bars the calendar expects between the first and last bar are reported as gaps (not filled).
+ *
+ * @param candles - Candles to validate (not modified)
+ * @param options - Policy, spike threshold and calendar
+ * @returns Repaired candles and the quality report
+ * @throws DataQualityError under the 'throw' policy if a bar is invalid
+ */
+export function validateCandles(candles: OHLCVData[], options: DataValidationOptions = {}): HistoricalDataResult {
+  const { policy = 'drop', repairSpikes = false, spikeThreshold = DEFAULT_SPIKE_THRESHOLD, calendar, interval } = options;
+  const issues: DataQualityIssue[] = [];
+  const issue = (type: DataQualityIssueType, date: Date, message: string, count = 1) =>
+    issues.push({ type, date, count, message });
+
+  // Order and duplicates
+  const outOfOrder = candles.filter((candle, i) => i > 0 && candle.date < candles[i - 1].date);
+  if (outOfOrder.length > 0) {
+    issue('unsorted', outOfOrder[0].date, `${outOfOrder.length} bars out of date order`, outOfOrder.length);
+  }
+  const sorted: OHLCVData[] = [];
+  for (const candle of [...candles].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    if (sorted.length > 0 && sorted[sorted.length - 1].date.getTime() === candle.date.getTime()) {
+      issue('duplicate', candle.date, 'Duplicate bar, keeping the last one');
+      sorted[sorted.length - 1] = candle;
+    } else {
+      sorted.push(candle);
+    }
+  }
+
+  // Invalid bars and spikes
+  const repair = new Set<number>();
+  sorted.forEach((candle, i) => {
+    const reason = invalidBar(candle);
+    if (reason) {
+      issue(reason.type, candle.date, reason.message);
+      repair.add(i);
+    }
+  });
+  const valid = sorted.map((_, i) => i).filter((i) => !repair.has(i));
+  for (const i of findSpikes(sorted, valid, spikeThreshold)) {
+    issue('spike', sorted[i].date, `Prices far from both neighbouring closes (${sorted[i].low} - ${sorted[i].high})`);
+    if (repairSpikes) {
+      repair.add(i);
+    }
+  }
+
+  const report: DataQualityReport = {
+    received: candles.length,
+    returned: 0,
+    dropped: candles.length - sorted.length,
+    filled: 0,
+    issues,
+  };
+
+  if (policy === 'throw' && repair.size > 0) {
+    throw new DataQualityError(`${repair.size} invalid bars (${summarize(issues)})`, { report });
+  }
+
+  // Repair, filling from the nearest bars that were valid in the input
+  const data: OHLCVData[] = [];
+  sorted.forEach((candle, i) => {
+    if (!repair.has(i)) {
+      data.push(candle);
+      return;
+    }
+    const nearest = (step: 1 | -1) => {
+      const index = findValid(repair, i, step, sorted.length);
+      return index === undefined ? undefined : sorted[index];
+    };
+    const filled =
+      policy === 'drop'
+        ? undefined
+        : fillBar(
+            candle,
+            policy === 'forward-fill' ? data[data.length - 1] : nearest(-1),
+            nearest(1),
+            policy === 'interpolate'
+          );
+    if (filled) {
+      data.push(filled);
+      report.filled++;
+    } else {
+      report.dropped++;
+    }
+  });
+
+  // Gaps against the trading calendar
+  if (calendar && interval && data.length > 0) {
+    const missing = calendar.findMissingBars(data, interval);
+    let next = 0;
+    for (let i = 1; i < data.length && next < missing.length; i++) {
+      const first = next;
+      while (next < missing.length && missing[next] < data[i].date) {
+        next++;
+      }
+      if (next > first) {
+        issue('gap', missing[first], `${next - first} missing bars before ${data[i].date.toISOString()}`, next - first);
+      }
+    }
+  }
+
+  report.returned = data.length;
+  return { data, quality: report };
+}
@@ -0,0 +1,157 @@
+import type { IDataSourceAdapter } from '../lib/interfaces/data-source-adapter.interface.js';
+import type { ChartRequest } from '../lib/types/index.js';
+import { SymbolNotFoundError } from '../lib/errors/trading-errors.js';
+import { toTradingDataError } from '../lib/errors/classify-error.js';
+import { parseFixture, stringifyFixture } from '../lib/utils/fixtures.js';
+
+/**
+ * Adapter under test and the data it is expected to serve
+ */
+export interface DataSourceAdapterConformanceFixture {
+  /** Adapter under test */
+  adapter: IDataSourceAdapter;
+  /** Symbol with bars in chartRequest and a quote */
+  symbol: string;
+  /** Symbol the adapter does not know */
+  unknownSymbol: string;
+  /** Request returning at least one bar for symbol */
+  chartRequest: ChartRequest;
+  /** Query returning at least one hit or article (search is only checked for shape if omitted) */
+  searchQuery?: string;
+  /** Releases resources (temporary files, servers) after the suite */
+  dispose?: () => Promise<void>;
+}
+
+/**
+ * Conformance suite for IDataSourceAdapter implementations
+ * Checks the contract every adapter must honour so it can be used with MarketDataClient,
+ * NewsClient, the recording/replay adapters and the composite adapter
+ *
+ * Call it from the adapter's spec file:
+ *
+ * @example
+ * describeDataSourceAdapterConformance('MyAdapter', async () => ({
+ *   adapter: new MyAdapter(fakeTransport),
+ *   symbol: 'AAPL',
+ *   unknownSymbol: 'NOPE',
+ *   chartRequest: { period1: new Date('2024-01-01'), period2: new Date('2024-01-31'), interval: '1d' },
+ * }));
+ *
+ * @param name - Adapter name used in the test titles
+ * @param setup - Creates the adapter and its expected data, called once for the suite
+ */
+export function describeDataSourceAdapterConformance(
+  name: string,
+  setup: () => DataSourceAdapterConformanceFixture | Promise<DataSourceAdapterConformanceFixture>
+): void {
+  describe(`${name} (IDataSourceAdapter conformance)`, () => {
+    let fixture: DataSourceAdapterConformanceFixture;
+
+    const expectSymbolNotFound = async (request: Promise<unknown>) => {
+      const error = await request.then(
+        () => undefined,
+        (caught: unknown) => caught
+      );
+      expect(error).toBeDefined();
+      expect(toTradingDataError(error, 'classified', {})).toBeInstanceOf(SymbolNotFoundError);
+    };
+
+    beforeAll(async () => {
+      fixture = await setup();
+    });
+
+    afterAll(async () => {
+      await fixture?.dispose?.();
+    });
+
+    describe('chart', () => {
+      it('should return bars with numeric prices and dates', async () => {
+        const result = await fixture.adapter.chart(fixture.symbol, fixture.chartRequest);
+
+        expect(typeof result.symbol).toBe('string');
+        expect(result.bars.length).toBeGreaterThan(0);
+        for (const bar of result.bars) {
+          expect(bar.date).toBeInstanceOf(Date);
+          expect(isNaN(bar.date.getTime())).toBe(false);
+          for (const value of [bar.open, bar.high, bar.low, bar.close, bar.volume]) {
+            expect(Number.isFinite(value)).toBe(true);
+          }
+          expect(bar.adjClose === undefined || Number.isFinite(bar.adjClose)).toBe(true);
+          expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close, bar.low));
+          expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+          expect(bar.volume).toBeGreaterThanOrEqual(0);
+        }
+      });
+
+      it('should return bars sorted by date within the requested range', async () => {
+        const { period1, period2 } = fixture.chartRequest;
+        const result = await fixture.adapter.chart(fixture.symbol, fixture.chartRequest);
+        const times = result.bars.map((bar) => bar.date.getTime());
+
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+        expect(times[0]).toBeGreaterThanOrEqual(period1.getTime());
+        if (period2) {
+          expect(times[times.length - 1]).toBeLessThanOrEqual(period2.getTime());
+        }
+      });
+
+      it('should reject unknown symbols with a symbol-not-found error', async () => {
+        await expectSymbolNotFound(fixture.adapter.chart(fixture.unknownSymbol, fixture.chartRequest));
+      });
+
+      it('should accept call options', async () => {
+        const controller = new AbortController();
+        const result = await fixture.adapter.chart(fixture.symbol, fixture.chartRequest, {
+          signal: controller.signal,
+        });
+
+        expect(result.bars.length).toBeGreaterThan(0);
+      });
+    });
+
+    describe('quote', () => {
+      it('should return a snapshot with a numeric price', async () => {
+        const quote = await fixture.adapter.quote(fixture.symbol);
+
+        expect(typeof quote.symbol).toBe('string');
+        expect(Number.isFinite(quote.price)).toBe(true);
+        expect(quote.timestamp === undefined || quote.timestamp instanceof Date).toBe(true);
+      });
+
+      it('should reject unknown symbols with a symbol-not-found error', async () => {
+        await expectSymbolNotFound(fixture.adapter.quote(fixture.unknownSymbol));
+      });
+    });
+
+    describe('search', () => {
+      it('should return hits and news lists', async () => {
+        const result = await fixture.adapter.search(fixture.searchQuery ?? fixture.symbol, {
+          quotesCount: 5,
+          newsCount: 5,
+        });
+
+        expect(Array.isArray(result.hits)).toBe(true);
+        expect(Array.isArray(result.news)).toBe(true);
+        if (fixture.searchQuery) {
+          expect(result.hits.length + result.news.length).toBeGreaterThan(0);
+        }
+        for (const hit of result.hits) {
+          expect(typeof hit.symbol).toBe('string');
+        }
+        for (const article of result.news) {
+          expect(typeof article.title).toBe('string');
+          expect(typeof article.link).toBe('string');
+          expect(article.providerPublishTime).toBeInstanceOf(Date);
+        }
+      });
+    });
+
+    it('should return plain data that survives recording', async () => {
+      const chart = await fixture.adapter.chart(fixture.symbol, fixture.chartRequest);
+      const quote = await fixture.adapter.quote(fixture.symbol);
+
+      expect(parseFixture(stringifyFixture(chart))).toEqual(chart);
+      expect(parseFixture(stringifyFixture(quote))).toEqual(quote);
+    });
+  });
+}
@@ -0,0 +1,2 @@
+export * from './data-source-adapter-conformance.js';
+export * from './mock-quote-server.js';
@@ -0,0 +1,109 @@
+import type { WebSocketLike } from '../lib/types/index.js';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Client end of a connection to MockQuoteServer
+ * Opens and closes on the next turn of the event loop, like a real WebSocket.
+ */
+export class MockQuoteServerConnection implements WebSocketLike {
+  readyState = CONNECTING;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  /** Messages the client sent, oldest first */
+  readonly received: string[] = [];
+
+  constructor(readonly url: string, refuse: boolean) {
+    setImmediate(() => {
+      if (refuse) {
+        this.readyState = CLOSED;
+        this.onerror?.({});
+        this.onclose?.({});
+      } else if (this.readyState === CONNECTING) {
+        this.readyState = OPEN;
+        this.onopen?.({});
+      }
+    });
+  }
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.received.push(data);
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    setImmediate(() => this.onclose?.({}));
+  }
+
+  /**
+   * Deliver a message from the server
+   */
+  push(data: unknown): void {
+    if (this.readyState === OPEN) {
+      this.onmessage?.({ data });
+    }
+  }
+}
+
+/**
+ * In-memory quote server for testing push transports without network access
+ *
+ * @example
+ * const server = new MockQuoteServer();
+ * const transport = new WebSocketQuoteTransport({ url: 'ws://mock', protocol, createSocket: server.createSocket });
+ * server.broadcast(JSON.stringify({ quotes: [{ symbol: 'AAPL', price: 185 }] }));
+ * server.disconnect(); // the transport reconnects
+ */
+export class MockQuoteServer {
+  /** Connections opened so far, oldest first */
+  readonly connections: MockQuoteServerConnection[] = [];
+  /** Refuse new connections (they close right away) */
+  refuseConnections = false;
+
+  /**
+   * Open a connection to the server, to pass as createSocket
+   */
+  readonly createSocket = (url: string): WebSocketLike => {
+    const connection = new MockQuoteServerConnection(url, this.refuseConnections);
+    this.connections.push(connection);
+    return connection;
+  };
+
+  /**
+   * Messages received on all connections, oldest first
+   */
+  get received(): string[] {
+    return this.connections.flatMap((connection) => connection.received);
+  }
+
+  /**
+   * Connections currently open
+   */
+  get openConnections(): MockQuoteServerConnection[] {
+    return this.connections.filter((connection) => connection.readyState === OPEN);
+  }
+
+  /**
+   * Send a message to all open connections
+   */
+  broadcast(data: unknown): void {
+    this.openConnections.forEach((connection) => connection.push(data));
+  }
+
+  /**
+   * Close all open connections from the server side
+   */
+  disconnect(): void {
+    this.openConnections.forEach((connection) => connection.close());
+  }
+}
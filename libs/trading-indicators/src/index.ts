@@ -11,20 +11,123 @@ export { TrendlineService } from './lib/services/trendline-service.js';
 export { RSIService } from './lib/services/rsi-service.js';
 export { MACDService } from './lib/services/macd-service.js';
 export { PivotPointsService } from './lib/services/pivot-points-service.js';
+export { ChannelService } from './lib/services/channel-service.js';
+export { OscillatorService } from './lib/services/oscillator-service.js';
+export { ADXService } from './lib/services/adx-service.js';
+export { IchimokuService } from './lib/services/ichimoku-service.js';
+export { VWAPService } from './lib/services/vwap-service.js';
+
+// Functional API (pure, network-free calculations on OHLCV arrays)
+export * as indicators from './lib/functions/index.js';
+export type {
+  EMAOptions,
+  RSIOptions,
+  MACDOptions,
+  MACDValue,
+  MACDSeriesValue,
+  ATROptions,
+  PivotPointLevels,
+  HighLowValue,
+  TrendlineOptions,
+  TrendlinesValue,
+  SupportResistanceOptions,
+  BollingerBandsOptions,
+  BollingerBandsValue,
+  KeltnerChannelsOptions,
+  DonchianChannelsOptions,
+  ChannelValue,
+  SqueezeOptions,
+  SqueezeValue,
+  OscillatorSignal,
+  OscillatorCrossover,
+  OscillatorThresholds,
+  StochasticVariant,
+  StochasticOptions,
+  StochasticRSIOptions,
+  StochasticValue,
+  StochasticSeriesValue,
+  WilliamsROptions,
+  CCIOptions,
+  MFIOptions,
+  ADXOptions,
+  ADXValue,
+  ADXSeriesValue,
+  TrendStrength,
+  TrendStrengthLevels,
+  IchimokuOptions,
+  IchimokuSeriesValue,
+  IchimokuCloudValue,
+  IchimokuValue,
+  CloudColor,
+  CloudPosition,
+  VWAPWeighting,
+  VWAPBandOptions,
+  SessionVWAPOptions,
+  AnchoredVWAPOptions,
+  VWAPBand,
+  VWAPValue,
+} from './lib/functions/index.js';
+
+// Streaming (incremental) indicator states
+export {
+  IndicatorState,
+  EMAState,
+  RSIState,
+  MACDState,
+  ATRState,
+} from './lib/streaming/index.js';
+export type {
+  IndicatorStateSnapshot,
+  EMAStateData,
+  RSIStateData,
+  MACDStateData,
+  ATRStateData,
+} from './lib/streaming/index.js';
 
 // Types
 export type {
   SupportResistanceZone,
   SupportResistanceResult,
   ATRResult,
+  ATRSeriesPoint,
+  ATRSeriesResult,
   AllTimeHighLowResult,
   WeekHighLowResult,
   EMAResult,
+  EMASeriesPoint,
+  EMASeriesResult,
   Trendline,
   TrendlinePoint,
   TrendlineResult,
   RSIResult,
+  RSISeriesPoint,
+  RSISeriesResult,
   MACDResult,
+  MACDSeriesPoint,
+  MACDSeriesResult,
   PivotPointsResult,
+  BollingerBandsResult,
+  KeltnerChannelsResult,
+  DonchianChannelsResult,
+  BandLevels,
+  SqueezeResult,
+  OscillatorName,
+  OscillatorResult,
+  StochasticResult,
+  ADXResult,
+  ADXSeriesPoint,
+  ADXSeriesResult,
+  IchimokuCloudPoint,
+  IchimokuResult,
+  VWAPResult,
+  TradingIndicatorsOptions,
 } from './lib/types/index.js';
 
+
+// Errors thrown by the services and functions (shared with the data client)
+export {
+  TradingDataError,
+  InsufficientDataError,
+  InvalidParameterError,
+  UnsupportedIntervalError,
+} from '@lc-trading-services/trading-data-client';
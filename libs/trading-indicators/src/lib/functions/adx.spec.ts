@@ -0,0 +1,54 @@
+import { adx, adxSeries, getTrendStrength } from './adx.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (high: number, low: number, close: number): OHLCVData => ({
+  date: new Date(2024, 0, 1),
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+const data = [
+  candle(10, 8, 9),
+  candle(12, 9, 11), // +DM 2, TR 3
+  candle(13, 10, 12), // +DM 1, TR 3
+  candle(12, 8, 9), // -DM 2, TR 4
+];
+
+describe('adx functions', () => {
+  it('should derive the directional indicators from Wilder-smoothed directional movement and true range', () => {
+    const series = adxSeries(data, { period: 2 });
+
+    expect(series.slice(0, 2)).toEqual([
+      { adx: null, plusDI: null, minusDI: null },
+      { adx: null, plusDI: null, minusDI: null },
+    ]);
+    // ATR 3, +DM 1.5, -DM 0: DX 100
+    expect(series[2]).toEqual({ adx: null, plusDI: 50, minusDI: 0 });
+    // ATR 3.5, +DM 0.75, -DM 1: DX 14.29, ADX (100 + 14.29) / 2
+    expect(series[3].plusDI).toBeCloseTo(21.4286, 4);
+    expect(series[3].minusDI).toBeCloseTo(28.5714, 4);
+    expect(series[3].adx).toBeCloseTo(57.1429, 4);
+    expect(adx(data, { period: 2 }).adx).toBeCloseTo(57.1429, 4);
+  });
+
+  it('should report a flat market as no direction', () => {
+    const flat = Array.from({ length: 4 }, () => candle(10, 10, 10));
+
+    expect(adx(flat, { period: 2 })).toEqual({ adx: 0, plusDI: 0, minusDI: 0 });
+  });
+
+  it('should classify trend strength', () => {
+    expect(getTrendStrength(15)).toBe('no trend');
+    expect(getTrendStrength(20)).toBe('weak');
+    expect(getTrendStrength(30)).toBe('strong');
+    expect(getTrendStrength(50)).toBe('very strong');
+    expect(getTrendStrength(30, { weak: 10, strong: 35, veryStrong: 60 })).toBe('weak');
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => adx(data)).toThrow('Insufficient data for ADX calculation. Need at least 28 data points, got 4');
+  });
+});
@@ -0,0 +1,147 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import { trueRange, wilderSmoothing } from './atr.js';
+
+/**
+ * Options for the ADX functions
+ */
+export interface ADXOptions {
+  /** Period of the directional indicators and the ADX (default: 14) */
+  period?: number;
+}
+
+/**
+ * ADX and directional indicators for a single candle
+ */
+export interface ADXValue {
+  /** Average Directional Index (0-100), the smoothed DX */
+  adx: number;
+  /** Positive directional indicator (0-100) */
+  plusDI: number;
+  /** Negative directional indicator (0-100) */
+  minusDI: number;
+}
+
+/**
+ * ADX and directional indicators for a single candle, null during warm-up
+ */
+export interface ADXSeriesValue {
+  /** Average Directional Index (null for the first 2 * period - 1 candles) */
+  adx: number | null;
+  /** Positive directional indicator (null for the first 'period' candles) */
+  plusDI: number | null;
+  /** Negative directional indicator (null for the first 'period' candles) */
+  minusDI: number | null;
+}
+
+/**
+ * Trend strength classification of an ADX value
+ */
+export type TrendStrength = 'no trend' | 'weak' | 'strong' | 'very strong';
+
+/**
+ * ADX levels at which a trend counts as weak, strong and very strong
+ */
+export interface TrendStrengthLevels {
+  /** Lowest ADX of a weak trend (below: no trend) */
+  weak: number;
+  /** Lowest ADX of a strong trend */
+  strong: number;
+  /** Lowest ADX of a very strong trend */
+  veryStrong: number;
+}
+
+/**
+ * Default trend strength levels (20 / 25 / 50)
+ */
+export const ADX_TREND_LEVELS: TrendStrengthLevels = { weak: 20, strong: 25, veryStrong: 50 };
+
+/**
+ * Classify the trend strength of an ADX value
+ * @param adx - ADX value (0-100)
+ * @param levels - Trend strength levels (default: 20 / 25 / 50)
+ * @returns Trend strength
+ */
+export function getTrendStrength(adx: number, levels: TrendStrengthLevels = ADX_TREND_LEVELS): TrendStrength {
+  if (adx >= levels.veryStrong) {
+    return 'very strong';
+  } else if (adx >= levels.strong) {
+    return 'strong';
+  } else if (adx >= levels.weak) {
+    return 'weak';
+  }
+  return 'no trend';
+}
+
+/**
+ * Calculate the ADX and directional movement (DMI) series using Wilder smoothing
+ * +DM and -DM are the parts of the candle's range beyond the previous high and low (only the larger
+ * one counts). Smoothed by the same Wilder average as the true range of the ATR, they give
+ * +DI = 100 * +DM / ATR and -DI = 100 * -DM / ATR. The ADX is the Wilder average of
+ * DX = 100 * |+DI - -DI| / (+DI + -DI).
+ * @param candles - OHLCV data points, oldest first
+ * @param options - ADX options
+ * @returns ADX, +DI and -DI aligned with the candles (null during warm-up)
+ */
+export function adxSeries(candles: OHLCVData[], options: ADXOptions = {}): ADXSeriesValue[] {
+  const { period = 14 } = options;
+
+  const requiredDataPoints = period * 2;
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for ADX calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+
+  const trueRanges: number[] = [];
+  const plusDMs: number[] = [];
+  const minusDMs: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const upMove = candles[i].high - candles[i - 1].high;
+    const downMove = candles[i - 1].low - candles[i].low;
+    trueRanges.push(trueRange(candles[i], candles[i - 1]));
+    plusDMs.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDMs.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const atrValues = wilderSmoothing(trueRanges, period);
+  const plusDMValues = wilderSmoothing(plusDMs, period);
+  const minusDMValues = wilderSmoothing(minusDMs, period);
+
+  // Directional indicators by price change (index 0 is the change from candle 0 to 1)
+  const directional = atrValues.map((atr, i) => {
+    if (atr === null) {
+      return null;
+    }
+    // A range of zero has no direction
+    const plusDI = atr === 0 ? 0 : (100 * (plusDMValues[i] as number)) / atr;
+    const minusDI = atr === 0 ? 0 : (100 * (minusDMValues[i] as number)) / atr;
+    const sum = plusDI + minusDI;
+    return { plusDI, minusDI, dx: sum === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / sum };
+  });
+
+  const firstDX = period - 1;
+  const dxValues = directional.slice(firstDX).map((value) => value!.dx);
+  const adxValues = [...new Array(firstDX).fill(null), ...wilderSmoothing(dxValues, period)];
+
+  return [
+    { adx: null, plusDI: null, minusDI: null },
+    ...directional.map((value, i) => ({
+      adx: adxValues[i],
+      plusDI: value?.plusDI ?? null,
+      minusDI: value?.minusDI ?? null,
+    })),
+  ];
+}
+
+/**
+ * Calculate the latest ADX and directional indicators
+ * @param candles - OHLCV data points, oldest first
+ * @param options - ADX options
+ * @returns ADX, +DI and -DI for the last candle
+ */
+export function adx(candles: OHLCVData[], options: ADXOptions = {}): ADXValue {
+  const series = adxSeries(candles, options);
+  return series[series.length - 1] as ADXValue;
+}
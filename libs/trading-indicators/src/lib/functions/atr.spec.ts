@@ -0,0 +1,43 @@
+import { atr, atrSeries, trueRange, wilderSmoothing } from './atr.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (high: number, low: number, close: number): OHLCVData => ({
+  date: new Date(2024, 0, 1),
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+describe('atr functions', () => {
+  it('should use the largest of the three true range components', () => {
+    expect(trueRange(candle(12, 10, 11), candle(11, 9, 10))).toBe(2);
+    expect(trueRange(candle(12, 10, 11), candle(8, 6, 7))).toBe(5);
+    expect(trueRange(candle(12, 10, 11), candle(16, 14, 15))).toBe(5);
+  });
+
+  it('should seed with the average true range and apply Wilder smoothing', () => {
+    const data = [
+      candle(10, 10, 10),
+      candle(12, 10, 11), // TR 2
+      candle(13, 11, 12), // TR 2
+      candle(16, 12, 15), // TR 4
+    ];
+
+    const series = atrSeries(data, { period: 2 });
+
+    expect(series).toEqual([null, null, 2, 3]);
+    expect(atr(data, { period: 2 })).toBe(3);
+  });
+
+  it('should seed Wilder smoothing with the simple average', () => {
+    expect(wilderSmoothing([2, 4, 6, 2], 2)).toEqual([null, 3, 4.5, 3.25]);
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => atr([candle(1, 1, 1)])).toThrow(
+      'Insufficient data for ATR calculation. Need at least 15 data points, got 1'
+    );
+  });
+});
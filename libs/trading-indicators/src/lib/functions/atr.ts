@@ -0,0 +1,82 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Options for the ATR functions
+ */
+export interface ATROptions {
+  /** ATR period (default: 14) */
+  period?: number;
+}
+
+/**
+ * Calculate the True Range of a candle
+ * @param current - Current candle
+ * @param previous - Previous candle
+ * @returns The greatest of high-low, |high-previous close| and |low-previous close|
+ */
+export function trueRange(current: OHLCVData, previous: OHLCVData): number {
+  const highLow = current.high - current.low;
+  const highClose = Math.abs(current.high - previous.close);
+  const lowClose = Math.abs(current.low - previous.close);
+
+  return Math.max(highLow, highClose, lowClose);
+}
+
+/**
+ * Apply Wilder smoothing to a series
+ * The first value is the simple average of the first 'period' values, every further value
+ * (previous * (period - 1) + current) / period
+ * @param values - Values to smooth, oldest first (at least 'period' values)
+ * @param period - Smoothing period
+ * @returns Smoothed values aligned with the input (null for the first period - 1 entries)
+ */
+export function wilderSmoothing(values: number[], period: number): Array<number | null> {
+  const series: Array<number | null> = new Array(period - 1).fill(null);
+
+  let average = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  series.push(average);
+
+  for (let i = period; i < values.length; i++) {
+    average = (average * (period - 1) + values[i]) / period;
+    series.push(average);
+  }
+
+  return series;
+}
+
+/**
+ * Calculate the ATR series using Wilder smoothing
+ * @param candles - OHLCV data points, oldest first
+ * @param options - ATR options
+ * @returns ATR values aligned with the candles (null for the first 'period' entries)
+ */
+export function atrSeries(candles: OHLCVData[], options: ATROptions = {}): Array<number | null> {
+  const { period = 14 } = options;
+
+  if (candles.length < period + 1) {
+    throw new InsufficientDataError(
+      `Insufficient data for ATR calculation. Need at least ${period + 1} data points, got ${candles.length}`,
+      { required: period + 1, actual: candles.length }
+    );
+  }
+
+  // Calculate True Range for each period
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    trueRanges.push(trueRange(candles[i], candles[i - 1]));
+  }
+
+  return [null, ...wilderSmoothing(trueRanges, period)];
+}
+
+/**
+ * Calculate the latest ATR
+ * @param candles - OHLCV data points, oldest first
+ * @param options - ATR options
+ * @returns ATR value for the last candle
+ */
+export function atr(candles: OHLCVData[], options: ATROptions = {}): number {
+  const series = atrSeries(candles, options);
+  return series[series.length - 1] as number;
+}
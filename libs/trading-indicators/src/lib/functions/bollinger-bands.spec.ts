@@ -0,0 +1,45 @@
+import { bollingerBands, bollingerBandsSeries } from './bollinger-bands.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (closes: number[]): OHLCVData[] =>
+  closes.map((close, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+describe('bollinger bands functions', () => {
+  it('should use the simple moving average and the population standard deviation', () => {
+    const bands = bollingerBands(candles([1, 2, 3, 4, 5]), { period: 5 });
+
+    expect(bands.middle).toBe(3);
+    expect(bands.upper).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+    expect(bands.lower).toBeCloseTo(3 - 2 * Math.SQRT2, 10);
+    expect(bands.bandwidth).toBeCloseTo((4 * Math.SQRT2) / 3, 10);
+    expect(bands.percentB).toBeCloseTo((5 - bands.lower) / (bands.upper - bands.lower), 10);
+  });
+
+  it('should return null during warm-up and honor the standard deviation multiplier', () => {
+    const series = bollingerBandsSeries(candles([1, 2, 3, 4]), { period: 3, stdDev: 1 });
+
+    expect(series.slice(0, 2)).toEqual([null, null]);
+    expect(series[2]?.middle).toBe(2);
+    expect(series[3]?.middle).toBe(3);
+    expect(series[3]?.upper).toBeCloseTo(3 + Math.sqrt(2 / 3), 10);
+  });
+
+  it('should place the close in the middle of collapsed bands', () => {
+    const bands = bollingerBands(candles([10, 10, 10]), { period: 3 });
+
+    expect(bands).toEqual({ upper: 10, middle: 10, lower: 10, bandwidth: 0, percentB: 0.5 });
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => bollingerBands(candles([1, 2]))).toThrow(
+      'Insufficient data for Bollinger Bands calculation. Need at least 20 data points, got 2'
+    );
+  });
+});
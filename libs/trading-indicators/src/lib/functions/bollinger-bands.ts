@@ -0,0 +1,108 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Options for the Bollinger Bands functions
+ */
+export interface BollingerBandsOptions {
+  /** Moving average period (default: 20) */
+  period?: number;
+  /** Band width in standard deviations (default: 2) */
+  stdDev?: number;
+}
+
+/**
+ * Bollinger Bands for a single candle
+ */
+export interface BollingerBandsValue {
+  /** Middle band + stdDev standard deviations */
+  upper: number;
+  /** Simple moving average of the closes */
+  middle: number;
+  /** Middle band - stdDev standard deviations */
+  lower: number;
+  /** Band width relative to the middle band: (upper - lower) / middle */
+  bandwidth: number;
+  /** Position of the close within the bands: 0 at the lower band, 1 at the upper band */
+  percentB: number;
+}
+
+/**
+ * Compute the Bollinger Bands series from a price array
+ * Uses the population standard deviation of the window, like John Bollinger's definition
+ * @param prices - Array of closing prices
+ * @param period - Moving average period
+ * @param stdDev - Band width in standard deviations
+ * @returns Bands aligned with prices (null for the first period - 1 entries)
+ */
+export function computeBollingerBandsSeries(
+  prices: number[],
+  period: number,
+  stdDev: number
+): Array<BollingerBandsValue | null> {
+  if (prices.length < period) {
+    throw new InsufficientDataError(`Not enough prices for Bollinger Bands calculation`, {
+      required: period,
+      actual: prices.length,
+    });
+  }
+
+  return prices.map((price, i) => {
+    if (i < period - 1) {
+      return null;
+    }
+
+    const window = prices.slice(i - period + 1, i + 1);
+    const middle = window.reduce((sum, value) => sum + value, 0) / period;
+    const variance = window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period;
+    const deviation = stdDev * Math.sqrt(variance);
+    const upper = middle + deviation;
+    const lower = middle - deviation;
+
+    return {
+      upper,
+      middle,
+      lower,
+      bandwidth: middle === 0 ? 0 : (upper - lower) / middle,
+      // Flat prices collapse the bands; the close is then in the middle of them
+      percentB: upper === lower ? 0.5 : (price - lower) / (upper - lower),
+    };
+  });
+}
+
+/**
+ * Calculate the Bollinger Bands series of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Bollinger Bands options
+ * @returns Bands aligned with the candles (null during the warm-up period)
+ */
+export function bollingerBandsSeries(
+  candles: OHLCVData[],
+  options: BollingerBandsOptions = {}
+): Array<BollingerBandsValue | null> {
+  const { period = 20, stdDev = 2 } = options;
+
+  if (candles.length < period) {
+    throw new InsufficientDataError(
+      `Insufficient data for Bollinger Bands calculation. Need at least ${period} data points, got ${candles.length}`,
+      { required: period, actual: candles.length }
+    );
+  }
+
+  return computeBollingerBandsSeries(
+    candles.map((candle) => candle.close),
+    period,
+    stdDev
+  );
+}
+
+/**
+ * Calculate the latest Bollinger Bands of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Bollinger Bands options
+ * @returns Bands for the last candle
+ */
+export function bollingerBands(candles: OHLCVData[], options: BollingerBandsOptions = {}): BollingerBandsValue {
+  const series = bollingerBandsSeries(candles, options);
+  return series[series.length - 1] as BollingerBandsValue;
+}
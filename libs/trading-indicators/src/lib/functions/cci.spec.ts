@@ -0,0 +1,33 @@
+import { cci, cciSeries } from './cci.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (typicalPrices: number[]): OHLCVData[] =>
+  typicalPrices.map((price, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: price,
+    high: price + 1,
+    low: price - 1,
+    close: price,
+    volume: 1000,
+  }));
+
+describe('cci functions', () => {
+  it('should scale the deviation from the mean typical price', () => {
+    // Mean 2, mean absolute deviation 2/3: (3 - 2) / (0.015 * 2/3) = 100
+    const series = cciSeries(candles([1, 2, 3, 1]), { period: 3 });
+
+    expect(series[0]).toBeNull();
+    expect(series[2]).toBeCloseTo(100, 10);
+    expect(series[3]).toBeCloseTo(-100, 10);
+  });
+
+  it('should return 0 when the typical price did not move', () => {
+    expect(cci(candles([5, 5, 5]), { period: 3 })).toBe(0);
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => cci(candles([1, 2, 3]))).toThrow(
+      'Insufficient data for CCI calculation. Need at least 20 data points, got 3'
+    );
+  });
+});
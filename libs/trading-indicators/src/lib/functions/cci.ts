@@ -0,0 +1,63 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { OscillatorThresholds } from './oscillator-signals.js';
+
+/**
+ * Options for the CCI functions
+ */
+export interface CCIOptions {
+  /** CCI period (default: 20) */
+  period?: number;
+}
+
+/**
+ * Default CCI overbought and oversold levels
+ */
+export const CCI_THRESHOLDS: OscillatorThresholds = { overbought: 100, oversold: -100 };
+
+/**
+ * Lambert's constant, scaling about 70-80% of the values into the -100 to +100 range
+ */
+const CCI_CONSTANT = 0.015;
+
+/**
+ * Calculate the Commodity Channel Index series
+ * CCI = (typical price - SMA of typical price) / (0.015 * mean absolute deviation), with the
+ * typical price (high + low + close) / 3; 0 when the typical price did not move
+ * @param candles - OHLCV data points, oldest first
+ * @param options - CCI options
+ * @returns CCI values aligned with the candles (null for the first period - 1 entries)
+ */
+export function cciSeries(candles: OHLCVData[], options: CCIOptions = {}): Array<number | null> {
+  const { period = 20 } = options;
+
+  if (candles.length < period) {
+    throw new InsufficientDataError(
+      `Insufficient data for CCI calculation. Need at least ${period} data points, got ${candles.length}`,
+      { required: period, actual: candles.length }
+    );
+  }
+
+  const typicalPrices = candles.map((candle) => (candle.high + candle.low + candle.close) / 3);
+
+  return typicalPrices.map((typicalPrice, i) => {
+    if (i < period - 1) {
+      return null;
+    }
+    const window = typicalPrices.slice(i - period + 1, i + 1);
+    const mean = window.reduce((sum, value) => sum + value, 0) / period;
+    const meanDeviation = window.reduce((sum, value) => sum + Math.abs(value - mean), 0) / period;
+    return meanDeviation === 0 ? 0 : (typicalPrice - mean) / (CCI_CONSTANT * meanDeviation);
+  });
+}
+
+/**
+ * Calculate the latest Commodity Channel Index
+ * @param candles - OHLCV data points, oldest first
+ * @param options - CCI options
+ * @returns CCI value for the last candle
+ */
+export function cci(candles: OHLCVData[], options: CCIOptions = {}): number {
+  const series = cciSeries(candles, options);
+  return series[series.length - 1] as number;
+}
@@ -0,0 +1,53 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import { highLow } from './high-low.js';
+import type { ChannelValue } from './keltner-channels.js';
+
+/**
+ * Options for the Donchian Channels functions
+ */
+export interface DonchianChannelsOptions {
+  /** Number of candles of the rolling high and low (default: 20) */
+  period?: number;
+}
+
+/**
+ * Calculate the Donchian Channels series
+ * The upper line is the highest high and the lower line the lowest low of the last 'period'
+ * candles (including the current one); the middle line is halfway between them
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Donchian Channels options
+ * @returns Channels aligned with the candles (null for the first period - 1 entries)
+ */
+export function donchianChannelsSeries(
+  candles: OHLCVData[],
+  options: DonchianChannelsOptions = {}
+): Array<ChannelValue | null> {
+  const { period = 20 } = options;
+
+  if (candles.length < period) {
+    throw new InsufficientDataError(
+      `Insufficient data for Donchian Channels calculation. Need at least ${period} data points, got ${candles.length}`,
+      { required: period, actual: candles.length }
+    );
+  }
+
+  return candles.map((_, i) => {
+    if (i < period - 1) {
+      return null;
+    }
+    const { high, low } = highLow(candles.slice(i - period + 1, i + 1));
+    return { upper: high, middle: (high + low) / 2, lower: low };
+  });
+}
+
+/**
+ * Calculate the latest Donchian Channels
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Donchian Channels options
+ * @returns Channels for the last candle
+ */
+export function donchianChannels(candles: OHLCVData[], options: DonchianChannelsOptions = {}): ChannelValue {
+  const series = donchianChannelsSeries(candles, options);
+  return series[series.length - 1] as ChannelValue;
+}
@@ -0,0 +1,43 @@
+import { computeEMASeries, ema, emaSeries } from './ema.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (closes: number[]): OHLCVData[] =>
+  closes.map((close, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+describe('ema functions', () => {
+  it('should seed the EMA with the SMA of the first period prices', () => {
+    const series = computeEMASeries([1, 2, 3, 4, 5], 3);
+
+    expect(series.slice(0, 2)).toEqual([null, null]);
+    expect(series[2]).toBe(2);
+    // multiplier = 2 / (3 + 1) = 0.5
+    expect(series[3]).toBe(3);
+    expect(series[4]).toBe(4);
+  });
+
+  it('should return the last series value from ema', () => {
+    const data = candles([10, 11, 12, 13, 12, 11, 14]);
+
+    const series = emaSeries(data, { period: 3 });
+
+    expect(ema(data, { period: 3 })).toBe(series[series.length - 1]);
+    expect(series).toHaveLength(data.length);
+  });
+
+  it('should throw with insufficient candles', () => {
+    expect(() => ema(candles([1, 2]), { period: 3 })).toThrow(
+      'Insufficient data for EMA calculation. Need at least 3 data points, got 2'
+    );
+  });
+
+  it('should throw with insufficient prices', () => {
+    expect(() => computeEMASeries([1, 2], 3)).toThrow('Not enough prices for EMA calculation');
+  });
+});
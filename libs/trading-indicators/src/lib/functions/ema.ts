@@ -0,0 +1,76 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Options for the EMA functions
+ */
+export interface EMAOptions {
+  /** EMA period (e.g., 9, 20, 50, 200) */
+  period: number;
+}
+
+/**
+ * Compute the EMA series from a price array
+ * The first EMA value is the SMA of the first 'period' prices
+ * @param prices - Array of prices
+ * @param period - EMA period
+ * @returns EMA values aligned with prices (null for the first period - 1 entries)
+ */
+export function computeEMASeries(prices: number[], period: number): Array<number | null> {
+  if (prices.length < period) {
+    throw new InsufficientDataError(`Not enough prices for EMA calculation`, {
+      required: period,
+      actual: prices.length,
+    });
+  }
+
+  const series: Array<number | null> = new Array(period - 1).fill(null);
+
+  // Calculate initial SMA (Simple Moving Average)
+  const initialSMA = prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
+
+  // Calculate multiplier: (2 / (period + 1))
+  const multiplier = 2 / (period + 1);
+
+  // Start with SMA as the first EMA value
+  let ema = initialSMA;
+  series.push(ema);
+
+  // Calculate EMA for remaining prices
+  for (let i = period; i < prices.length; i++) {
+    ema = (prices[i] - ema) * multiplier + ema;
+    series.push(ema);
+  }
+
+  return series;
+}
+
+/**
+ * Calculate the EMA series of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - EMA options
+ * @returns EMA values aligned with the candles (null during the warm-up period)
+ */
+export function emaSeries(candles: OHLCVData[], options: EMAOptions): Array<number | null> {
+  const { period } = options;
+
+  if (candles.length < period) {
+    throw new InsufficientDataError(
+      `Insufficient data for EMA calculation. Need at least ${period} data points, got ${candles.length}`,
+      { required: period, actual: candles.length }
+    );
+  }
+
+  return computeEMASeries(candles.map((candle) => candle.close), period);
+}
+
+/**
+ * Calculate the latest EMA of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - EMA options
+ * @returns EMA value for the last candle
+ */
+export function ema(candles: OHLCVData[], options: EMAOptions): number {
+  const series = emaSeries(candles, options);
+  return series[series.length - 1] as number;
+}
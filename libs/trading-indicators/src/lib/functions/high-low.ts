@@ -0,0 +1,48 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Highest high and lowest low of a candle range
+ */
+export interface HighLowValue {
+  /** Highest price */
+  high: number;
+  /** Date of the highest price (first occurrence) */
+  highDate: Date;
+  /** Lowest price */
+  low: number;
+  /** Date of the lowest price (first occurrence) */
+  lowDate: Date;
+}
+
+/**
+ * Find the highest high and lowest low of a candle range
+ * @param candles - OHLCV data points, oldest first
+ * @returns Extremes and the dates they occurred
+ */
+export function highLow(candles: OHLCVData[]): HighLowValue {
+  if (candles.length === 0) {
+    throw new InsufficientDataError('Insufficient data for high/low calculation. Need at least 1 data point, got 0', {
+      required: 1,
+      actual: 0,
+    });
+  }
+
+  let high = candles[0].high;
+  let highDate = candles[0].date;
+  let low = candles[0].low;
+  let lowDate = candles[0].date;
+
+  for (const candle of candles) {
+    if (candle.high > high) {
+      high = candle.high;
+      highDate = candle.date;
+    }
+    if (candle.low < low) {
+      low = candle.low;
+      lowDate = candle.date;
+    }
+  }
+
+  return { high, highDate, low, lowDate };
+}
@@ -0,0 +1,61 @@
+import { cloudColor, cloudPosition, ichimoku, ichimokuSeries, kumoBreakout } from './ichimoku.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (close: number): OHLCVData => ({
+  date: new Date(2024, 0, 1),
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 1000,
+});
+
+// Closes 1..6: the midpoint of the last p candles ending at i is i + 1.5 - p / 2
+const data = [1, 2, 3, 4, 5, 6].map(candle);
+const options = { conversionPeriod: 2, basePeriod: 3, spanBPeriod: 4, displacement: 2 };
+
+describe('ichimoku functions', () => {
+  it('should project the cloud forward and shift the Chikou Span back', () => {
+    const series = ichimokuSeries(data, options);
+
+    expect(series[0]).toEqual({ tenkan: null, kijun: null, senkouA: null, senkouB: null, chikou: 3 });
+    expect(series[3]).toEqual({ tenkan: 3.5, kijun: 3, senkouA: null, senkouB: null, chikou: 6 });
+    // The cloud at candle 5 was computed at candle 3
+    expect(series[5]).toEqual({ tenkan: 5.5, kijun: 5, senkouA: 3.25, senkouB: 2.5, chikou: null });
+  });
+
+  it('should return the latest lines and the cloud of the next displacement candles', () => {
+    expect(ichimoku(data, options)).toEqual({
+      tenkan: 5.5,
+      kijun: 5,
+      senkouA: 3.25,
+      senkouB: 2.5,
+      chikou: 6,
+      futureCloud: [
+        { senkouA: 4.25, senkouB: 3.5 },
+        { senkouA: 5.25, senkouB: 4.5 },
+      ],
+    });
+  });
+
+  it('should classify cloud color and price position', () => {
+    expect(cloudColor(2, 1)).toBe('bullish');
+    expect(cloudColor(1, 2)).toBe('bearish');
+    expect(cloudPosition(3, 1, 2)).toBe('above');
+    expect(cloudPosition(1.5, 2, 1)).toBe('inside');
+    expect(cloudPosition(2, 2, 1)).toBe('inside');
+    expect(cloudPosition(0.5, 1, 2)).toBe('below');
+  });
+
+  it('should detect Kumo breakouts', () => {
+    expect(kumoBreakout('inside', 'above')).toBe('bullish');
+    expect(kumoBreakout('above', 'below')).toBe('bearish');
+    expect(kumoBreakout('above', 'above')).toBe('none');
+    expect(kumoBreakout('above', 'inside')).toBe('none');
+    expect(kumoBreakout(null, 'above')).toBe('none');
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => ichimoku(data)).toThrow('Insufficient data for Ichimoku calculation. Need at least 78 data points, got 6');
+  });
+});
@@ -0,0 +1,212 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import { highLow } from './high-low.js';
+import type { OscillatorCrossover } from './oscillator-signals.js';
+
+/**
+ * Options for the Ichimoku Kinko Hyo functions
+ */
+export interface IchimokuOptions {
+  /** Tenkan-sen (conversion line) period (default: 9) */
+  conversionPeriod?: number;
+  /** Kijun-sen (base line) period (default: 26) */
+  basePeriod?: number;
+  /** Senkou Span B period (default: 52) */
+  spanBPeriod?: number;
+  /** Candles the cloud is projected forward and the Chikou Span shifted back (default: 26) */
+  displacement?: number;
+}
+
+/**
+ * Ichimoku lines for a single candle, null during warm-up
+ * The Senkou Spans are the cloud drawn at the candle (computed 'displacement' candles earlier);
+ * the Chikou Span is the close 'displacement' candles later, drawn at the candle
+ */
+export interface IchimokuSeriesValue {
+  /** Tenkan-sen: midpoint of the highest high and lowest low of the conversion period */
+  tenkan: number | null;
+  /** Kijun-sen: midpoint of the highest high and lowest low of the base period */
+  kijun: number | null;
+  /** Senkou Span A: (Tenkan + Kijun) / 2, projected forward */
+  senkouA: number | null;
+  /** Senkou Span B: midpoint of the span B period, projected forward */
+  senkouB: number | null;
+  /** Chikou Span: close shifted back (null for the last 'displacement' candles) */
+  chikou: number | null;
+}
+
+/**
+ * Senkou Spans of one cloud point
+ */
+export interface IchimokuCloudValue {
+  /** Senkou Span A */
+  senkouA: number;
+  /** Senkou Span B */
+  senkouB: number;
+}
+
+/**
+ * Ichimoku lines of the last candle and the cloud ahead of it
+ */
+export interface IchimokuValue {
+  /** Tenkan-sen of the last candle */
+  tenkan: number;
+  /** Kijun-sen of the last candle */
+  kijun: number;
+  /** Senkou Span A of the cloud at the last candle */
+  senkouA: number;
+  /** Senkou Span B of the cloud at the last candle */
+  senkouB: number;
+  /** Latest Chikou Span point: the last close, drawn 'displacement' candles back */
+  chikou: number;
+  /** Cloud of the next 'displacement' candles, nearest first */
+  futureCloud: IchimokuCloudValue[];
+}
+
+/**
+ * Color of the cloud: 'bullish' when Senkou Span A is above Senkou Span B
+ */
+export type CloudColor = 'bullish' | 'bearish';
+
+/**
+ * Position of a price relative to the cloud
+ */
+export type CloudPosition = 'above' | 'inside' | 'below';
+
+/**
+ * Determine the color of a cloud point
+ * @param senkouA - Senkou Span A
+ * @param senkouB - Senkou Span B
+ * @returns 'bullish' when Span A is at or above Span B
+ */
+export function cloudColor(senkouA: number, senkouB: number): CloudColor {
+  return senkouA >= senkouB ? 'bullish' : 'bearish';
+}
+
+/**
+ * Determine the position of a price relative to a cloud point
+ * @param price - Price to compare (e.g. the close)
+ * @param senkouA - Senkou Span A
+ * @param senkouB - Senkou Span B
+ * @returns 'above' or 'below' the cloud, or 'inside' including its edges
+ */
+export function cloudPosition(price: number, senkouA: number, senkouB: number): CloudPosition {
+  if (price > Math.max(senkouA, senkouB)) {
+    return 'above';
+  } else if (price < Math.min(senkouA, senkouB)) {
+    return 'below';
+  }
+  return 'inside';
+}
+
+/**
+ * Detect a Kumo breakout between two candles
+ * @param previous - Position of the previous close relative to its cloud (null if there was no cloud)
+ * @param current - Position of the current close relative to its cloud
+ * @returns 'bullish' when the close moved above the cloud, 'bearish' when it moved below
+ */
+export function kumoBreakout(previous: CloudPosition | null, current: CloudPosition): OscillatorCrossover {
+  if (previous === null || previous === current) {
+    return 'none';
+  }
+  if (current === 'above') {
+    return 'bullish';
+  } else if (current === 'below') {
+    return 'bearish';
+  }
+  return 'none';
+}
+
+/**
+ * Midpoint of the highest high and lowest low of the 'period' candles ending at index i
+ */
+function midpoint(candles: OHLCVData[], i: number, period: number): number | null {
+  if (i < period - 1) {
+    return null;
+  }
+  const { high, low } = highLow(candles.slice(i - period + 1, i + 1));
+  return (high + low) / 2;
+}
+
+/**
+ * Senkou Spans computed at every candle, before projection
+ */
+function senkouSpans(
+  candles: OHLCVData[],
+  conversionPeriod: number,
+  basePeriod: number,
+  spanBPeriod: number
+): Array<IchimokuCloudValue | null> {
+  return candles.map((_, i) => {
+    const tenkan = midpoint(candles, i, conversionPeriod);
+    const kijun = midpoint(candles, i, basePeriod);
+    const senkouB = midpoint(candles, i, spanBPeriod);
+    if (tenkan === null || kijun === null || senkouB === null) {
+      return null;
+    }
+    return { senkouA: (tenkan + kijun) / 2, senkouB };
+  });
+}
+
+/**
+ * Check that there are enough candles for the cloud at the last candle
+ */
+function requireCandles(candles: OHLCVData[], longestPeriod: number, displacement: number): void {
+  const requiredDataPoints = longestPeriod + displacement;
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for Ichimoku calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+}
+
+/**
+ * Calculate the Ichimoku Kinko Hyo series
+ * Tenkan and Kijun are midpoints of the rolling high and low. The cloud drawn at a candle was computed
+ * 'displacement' candles earlier, so it needs spanBPeriod + displacement candles to appear at the last candle.
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Ichimoku options
+ * @returns Ichimoku lines aligned with the candles (null during warm-up)
+ */
+export function ichimokuSeries(candles: OHLCVData[], options: IchimokuOptions = {}): IchimokuSeriesValue[] {
+  const { conversionPeriod = 9, basePeriod = 26, spanBPeriod = 52, displacement = 26 } = options;
+  requireCandles(candles, Math.max(conversionPeriod, basePeriod, spanBPeriod), displacement);
+
+  const spans = senkouSpans(candles, conversionPeriod, basePeriod, spanBPeriod);
+
+  return candles.map((_, i) => {
+    const cloud = i >= displacement ? spans[i - displacement] : null;
+    return {
+      tenkan: midpoint(candles, i, conversionPeriod),
+      kijun: midpoint(candles, i, basePeriod),
+      senkouA: cloud?.senkouA ?? null,
+      senkouB: cloud?.senkouB ?? null,
+      chikou: candles[i + displacement]?.close ?? null,
+    };
+  });
+}
+
+/**
+ * Calculate the latest Ichimoku lines and the cloud projected ahead of the last candle
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Ichimoku options
+ * @returns Ichimoku lines for the last candle and the next 'displacement' cloud points
+ */
+export function ichimoku(candles: OHLCVData[], options: IchimokuOptions = {}): IchimokuValue {
+  const { conversionPeriod = 9, basePeriod = 26, spanBPeriod = 52, displacement = 26 } = options;
+  requireCandles(candles, Math.max(conversionPeriod, basePeriod, spanBPeriod), displacement);
+
+  const spans = senkouSpans(candles, conversionPeriod, basePeriod, spanBPeriod);
+  const last = candles.length - 1;
+  const current = spans[last - displacement] as IchimokuCloudValue;
+
+  return {
+    tenkan: midpoint(candles, last, conversionPeriod) as number,
+    kijun: midpoint(candles, last, basePeriod) as number,
+    senkouA: current.senkouA,
+    senkouB: current.senkouB,
+    chikou: candles[last].close,
+    futureCloud: spans.slice(last - displacement + 1) as IchimokuCloudValue[],
+  };
+}
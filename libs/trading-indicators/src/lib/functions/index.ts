@@ -0,0 +1,21 @@
+export * from './ema.js';
+export * from './rsi.js';
+export * from './macd.js';
+export * from './atr.js';
+export * from './pivot-points.js';
+export * from './high-low.js';
+export * from './swing-points.js';
+export * from './trendlines.js';
+export * from './support-resistance.js';
+export * from './bollinger-bands.js';
+export * from './keltner-channels.js';
+export * from './donchian-channels.js';
+export * from './squeeze.js';
+export * from './oscillator-signals.js';
+export * from './stochastic.js';
+export * from './williams-r.js';
+export * from './cci.js';
+export * from './mfi.js';
+export * from './adx.js';
+export * from './ichimoku.js';
+export * from './vwap.js';
@@ -0,0 +1,58 @@
+import { keltnerChannels, keltnerChannelsSeries } from './keltner-channels.js';
+import { donchianChannels, donchianChannelsSeries } from './donchian-channels.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (high: number, low: number, close: number): OHLCVData => ({
+  date: new Date(2024, 0, 1),
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+const data = [
+  candle(10, 10, 10),
+  candle(12, 10, 11), // TR 2
+  candle(13, 11, 12), // TR 2
+  candle(16, 12, 15), // TR 4
+];
+
+describe('keltner channels functions', () => {
+  it('should place the channels multiplier ATRs around the EMA of the closes', () => {
+    // EMA(2): 10.5, 11.5, 13.8333; ATR(2): 2, 3
+    const series = keltnerChannelsSeries(data, { period: 2, atrPeriod: 2, multiplier: 2 });
+
+    expect(series.slice(0, 2)).toEqual([null, null]);
+    expect(series[2]).toEqual({ upper: 15.5, middle: 11.5, lower: 7.5 });
+    expect(series[3]?.middle).toBeCloseTo(13.8333, 4);
+    expect(series[3]?.upper).toBeCloseTo(19.8333, 4);
+    expect(keltnerChannels(data, { period: 2, atrPeriod: 2 })).toEqual(series[3]);
+  });
+
+  it('should throw with insufficient data for the EMA or the ATR', () => {
+    expect(() => keltnerChannels(data, { period: 2, atrPeriod: 5 })).toThrow(
+      'Insufficient data for Keltner Channels calculation. Need at least 6 data points, got 4'
+    );
+  });
+});
+
+describe('donchian channels functions', () => {
+  it('should use the rolling highest high and lowest low', () => {
+    const series = donchianChannelsSeries(data, { period: 2 });
+
+    expect(series).toEqual([
+      null,
+      { upper: 12, middle: 11, lower: 10 },
+      { upper: 13, middle: 11.5, lower: 10 },
+      { upper: 16, middle: 13.5, lower: 11 },
+    ]);
+    expect(donchianChannels(data, { period: 4 })).toEqual({ upper: 16, middle: 13, lower: 10 });
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => donchianChannels(data)).toThrow(
+      'Insufficient data for Donchian Channels calculation. Need at least 20 data points, got 4'
+    );
+  });
+});
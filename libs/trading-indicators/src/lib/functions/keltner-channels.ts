@@ -0,0 +1,74 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import { computeEMASeries } from './ema.js';
+import { atrSeries } from './atr.js';
+
+/**
+ * Options for the Keltner Channels functions
+ */
+export interface KeltnerChannelsOptions {
+  /** EMA period of the middle line (default: 20) */
+  period?: number;
+  /** ATR period (default: 10) */
+  atrPeriod?: number;
+  /** Channel width in ATRs (default: 2) */
+  multiplier?: number;
+}
+
+/**
+ * Price channel for a single candle
+ */
+export interface ChannelValue {
+  /** Upper channel line */
+  upper: number;
+  /** Middle line */
+  middle: number;
+  /** Lower channel line */
+  lower: number;
+}
+
+/**
+ * Calculate the Keltner Channels series
+ * The middle line is the EMA of the closes (as EMAService.computeEMA), the channel lines are
+ * multiplier ATRs (Wilder smoothing, as ATRService) above and below it
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Keltner Channels options
+ * @returns Channels aligned with the candles (null until both the EMA and the ATR are available)
+ */
+export function keltnerChannelsSeries(
+  candles: OHLCVData[],
+  options: KeltnerChannelsOptions = {}
+): Array<ChannelValue | null> {
+  const { period = 20, atrPeriod = 10, multiplier = 2 } = options;
+
+  const requiredDataPoints = Math.max(period, atrPeriod + 1);
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for Keltner Channels calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+
+  const emaValues = computeEMASeries(candles.map((candle) => candle.close), period);
+  const atrValues = atrSeries(candles, { period: atrPeriod });
+
+  return candles.map((_, i) => {
+    const middle = emaValues[i];
+    const atr = atrValues[i];
+    if (middle === null || atr === null) {
+      return null;
+    }
+    return { upper: middle + multiplier * atr, middle, lower: middle - multiplier * atr };
+  });
+}
+
+/**
+ * Calculate the latest Keltner Channels
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Keltner Channels options
+ * @returns Channels for the last candle
+ */
+export function keltnerChannels(candles: OHLCVData[], options: KeltnerChannelsOptions = {}): ChannelValue {
+  const series = keltnerChannelsSeries(candles, options);
+  return series[series.length - 1] as ChannelValue;
+}
@@ -0,0 +1,51 @@
+import { macd, macdSeries } from './macd.js';
+import { computeEMASeries } from './ema.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (closes: number[]): OHLCVData[] =>
+  closes.map((close, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+describe('macd functions', () => {
+  const closes = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 5) * 5);
+
+  it('should compute the MACD line as fast EMA minus slow EMA', () => {
+    const fast = computeEMASeries(closes, 12);
+    const slow = computeEMASeries(closes, 26);
+
+    const series = macdSeries(candles(closes));
+
+    expect(series[24].macd).toBeNull();
+    expect(series[59].macd).toBeCloseTo((fast[59] as number) - (slow[59] as number), 10);
+  });
+
+  it('should compute the signal line as EMA of the MACD line', () => {
+    const series = macdSeries(candles(closes));
+    const macdLine = series.slice(25).map((value) => value.macd as number);
+    const signal = computeEMASeries(macdLine, 9);
+
+    expect(series[32].signal).toBeNull();
+    expect(series[59].signal).toBeCloseTo(signal[signal.length - 1] as number, 10);
+  });
+
+  it('should return the last series value from macd', () => {
+    const last = macdSeries(candles(closes))[59];
+
+    expect(macd(candles(closes))).toEqual(last);
+  });
+
+  it('should validate periods and data length', () => {
+    expect(() => macd(candles(closes), { fastPeriod: 26, slowPeriod: 12 })).toThrow(
+      'Fast period must be less than slow period'
+    );
+    expect(() => macd(candles(closes.slice(0, 30)))).toThrow(
+      'Insufficient data for MACD calculation. Need at least 35 data points, got 30'
+    );
+  });
+});
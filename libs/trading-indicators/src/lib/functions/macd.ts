@@ -0,0 +1,118 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError, InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import { computeEMASeries } from './ema.js';
+
+/**
+ * Options for the MACD functions
+ */
+export interface MACDOptions {
+  /** Fast EMA period (default: 12) */
+  fastPeriod?: number;
+  /** Slow EMA period (default: 26) */
+  slowPeriod?: number;
+  /** Signal line EMA period (default: 9) */
+  signalPeriod?: number;
+}
+
+/**
+ * MACD components for a single candle
+ */
+export interface MACDValue {
+  /** MACD line value (fast EMA - slow EMA) */
+  macd: number;
+  /** Signal line value (EMA of MACD) */
+  signal: number;
+  /** MACD histogram (MACD - Signal) */
+  histogram: number;
+}
+
+/**
+ * MACD components for a single candle, null during warm-up
+ */
+export interface MACDSeriesValue {
+  /** MACD line value (null until the slow EMA is available) */
+  macd: number | null;
+  /** Signal line value (null until enough MACD values exist) */
+  signal: number | null;
+  /** MACD histogram (null while the signal line is null) */
+  histogram: number | null;
+}
+
+/**
+ * Compute MACD, signal and histogram series from a price array in a single pass
+ * @param prices - Array of closing prices
+ * @param fastPeriod - Fast EMA period
+ * @param slowPeriod - Slow EMA period
+ * @param signalPeriod - Signal line EMA period
+ * @returns MACD components aligned with prices (null during warm-up)
+ */
+export function computeMACDSeries(
+  prices: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): MACDSeriesValue[] {
+  const fastSeries = computeEMASeries(prices, fastPeriod);
+  const slowSeries = computeEMASeries(prices, slowPeriod);
+
+  // MACD is available from the first slow EMA value onward
+  const macdSeries = prices.map((_, i) =>
+    slowSeries[i] === null ? null : (fastSeries[i] as number) - (slowSeries[i] as number)
+  );
+
+  // Signal line is the EMA of the available MACD values
+  const firstMacdIndex = slowPeriod - 1;
+  const signalValues = computeEMASeries(
+    macdSeries.slice(firstMacdIndex) as number[],
+    signalPeriod
+  );
+
+  return macdSeries.map((macd, i) => {
+    const signal = i < firstMacdIndex ? null : signalValues[i - firstMacdIndex];
+    return {
+      macd,
+      signal,
+      histogram: macd === null || signal === null ? null : macd - signal,
+    };
+  });
+}
+
+/**
+ * Calculate the MACD series of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - MACD options
+ * @returns MACD components aligned with the candles (null during warm-up)
+ */
+export function macdSeries(candles: OHLCVData[], options: MACDOptions = {}): MACDSeriesValue[] {
+  const { fastPeriod = 12, slowPeriod = 26, signalPeriod = 9 } = options;
+
+  if (fastPeriod >= slowPeriod) {
+    throw new InvalidParameterError('Fast period must be less than slow period', { parameter: 'fastPeriod' });
+  }
+
+  const requiredDataPoints = slowPeriod + signalPeriod;
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for MACD calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+
+  return computeMACDSeries(
+    candles.map((candle) => candle.close),
+    fastPeriod,
+    slowPeriod,
+    signalPeriod
+  );
+}
+
+/**
+ * Calculate the latest MACD of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - MACD options
+ * @returns MACD components for the last candle
+ */
+export function macd(candles: OHLCVData[], options: MACDOptions = {}): MACDValue {
+  const series = macdSeries(candles, options);
+  return series[series.length - 1] as MACDValue;
+}
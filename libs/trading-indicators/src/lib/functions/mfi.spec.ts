@@ -0,0 +1,40 @@
+import { mfi, mfiSeries } from './mfi.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (data: Array<[number, number]>): OHLCVData[] =>
+  data.map(([price, volume], i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume,
+  }));
+
+describe('mfi functions', () => {
+  it('should compare positive and negative money flow', () => {
+    const data = candles([
+      [10, 100],
+      [11, 100], // +1100
+      [10, 200], // -2000
+      [12, 100], // +1200
+    ]);
+
+    const series = mfiSeries(data, { period: 3 });
+
+    expect(series.slice(0, 3)).toEqual([null, null, null]);
+    expect(series[3]).toBeCloseTo(100 - 100 / (1 + 2300 / 2000), 10);
+    expect(mfi(data, { period: 2 })).toBeCloseTo(100 - 100 / (1 + 1200 / 2000), 10);
+  });
+
+  it('should return 100 without negative flow and 50 without any volume', () => {
+    expect(mfi(candles([[1, 10], [2, 10], [3, 10]]), { period: 2 })).toBe(100);
+    expect(mfi(candles([[1, 0], [2, 0], [1, 0]]), { period: 2 })).toBe(50);
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => mfi(candles([[1, 1]]))).toThrow(
+      'Insufficient data for MFI calculation. Need at least 15 data points, got 1'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { OscillatorThresholds } from './oscillator-signals.js';
+
+/**
+ * Options for the MFI functions
+ */
+export interface MFIOptions {
+  /** MFI period (default: 14) */
+  period?: number;
+}
+
+/**
+ * Default MFI overbought and oversold levels
+ */
+export const MFI_THRESHOLDS: OscillatorThresholds = { overbought: 80, oversold: 20 };
+
+/**
+ * Calculate the Money Flow Index series, a volume-weighted RSI of the typical price
+ * Money flow is typical price * volume, positive when the typical price rose and negative when it
+ * fell. MFI = 100 - 100 / (1 + positive flow / negative flow) over the period; 50 without any
+ * money flow, e.g. for currency pairs without volume.
+ * @param candles - OHLCV data points, oldest first
+ * @param options - MFI options
+ * @returns MFI values (0-100) aligned with the candles (null for the first 'period' entries)
+ */
+export function mfiSeries(candles: OHLCVData[], options: MFIOptions = {}): Array<number | null> {
+  const { period = 14 } = options;
+
+  if (candles.length < period + 1) {
+    throw new InsufficientDataError(
+      `Insufficient data for MFI calculation. Need at least ${period + 1} data points, got ${candles.length}`,
+      { required: period + 1, actual: candles.length }
+    );
+  }
+
+  const typicalPrices = candles.map((candle) => (candle.high + candle.low + candle.close) / 3);
+  // Signed money flow of each candle (0 for the first one)
+  const flows = candles.map((candle, i) => {
+    if (i === 0 || typicalPrices[i] === typicalPrices[i - 1]) {
+      return 0;
+    }
+    const flow = typicalPrices[i] * candle.volume;
+    return typicalPrices[i] > typicalPrices[i - 1] ? flow : -flow;
+  });
+
+  return flows.map((_, i) => {
+    if (i < period) {
+      return null;
+    }
+    const window = flows.slice(i - period + 1, i + 1);
+    const positive = window.reduce((sum, flow) => sum + Math.max(flow, 0), 0);
+    const negative = window.reduce((sum, flow) => sum + Math.max(-flow, 0), 0);
+    if (negative === 0) {
+      return positive === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + positive / negative);
+  });
+}
+
+/**
+ * Calculate the latest Money Flow Index
+ * @param candles - OHLCV data points, oldest first
+ * @param options - MFI options
+ * @returns MFI value (0-100) for the last candle
+ */
+export function mfi(candles: OHLCVData[], options: MFIOptions = {}): number {
+  const series = mfiSeries(candles, options);
+  return series[series.length - 1] as number;
+}
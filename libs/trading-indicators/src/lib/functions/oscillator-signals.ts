@@ -0,0 +1,82 @@
+/**
+ * Zone of an oscillator value
+ */
+export type OscillatorSignal = 'overbought' | 'oversold' | 'neutral';
+
+/**
+ * Crossover on the last candle
+ * - Two-line oscillators (Stochastic, Stochastic RSI): %K crossing %D
+ * - Single-line oscillators: leaving the oversold zone ('bullish') or the overbought zone ('bearish')
+ */
+export type OscillatorCrossover = 'bullish' | 'bearish' | 'none';
+
+/**
+ * Overbought and oversold levels of an oscillator
+ */
+export interface OscillatorThresholds {
+  /** Values at or above this level are overbought */
+  overbought: number;
+  /** Values at or below this level are oversold */
+  oversold: number;
+}
+
+/**
+ * Determine the zone of an oscillator value
+ * @param value - Oscillator value
+ * @param thresholds - Overbought and oversold levels
+ * @returns Signal interpretation
+ */
+export function oscillatorSignal(value: number, thresholds: OscillatorThresholds): OscillatorSignal {
+  if (value >= thresholds.overbought) {
+    return 'overbought';
+  } else if (value <= thresholds.oversold) {
+    return 'oversold';
+  }
+  return 'neutral';
+}
+
+/**
+ * Detect a line crossing another between two candles, e.g. %K crossing %D
+ * @param previous - Line values of the previous candle
+ * @param current - Line values of the current candle
+ * @returns 'bullish' if the line crossed above the signal line, 'bearish' if below
+ */
+export function lineCrossover(
+  previous: { line: number | null; signal: number | null },
+  current: { line: number | null; signal: number | null }
+): OscillatorCrossover {
+  if (previous.line === null || previous.signal === null || current.line === null || current.signal === null) {
+    return 'none';
+  }
+  if (previous.line <= previous.signal && current.line > current.signal) {
+    return 'bullish';
+  }
+  if (previous.line >= previous.signal && current.line < current.signal) {
+    return 'bearish';
+  }
+  return 'none';
+}
+
+/**
+ * Detect an oscillator leaving its oversold or overbought zone between two candles
+ * @param previous - Value of the previous candle
+ * @param current - Value of the current candle
+ * @param thresholds - Overbought and oversold levels
+ * @returns 'bullish' when rising out of oversold, 'bearish' when falling out of overbought
+ */
+export function thresholdCrossover(
+  previous: number | null,
+  current: number | null,
+  thresholds: OscillatorThresholds
+): OscillatorCrossover {
+  if (previous === null || current === null) {
+    return 'none';
+  }
+  if (previous <= thresholds.oversold && current > thresholds.oversold) {
+    return 'bullish';
+  }
+  if (previous >= thresholds.overbought && current < thresholds.overbought) {
+    return 'bearish';
+  }
+  return 'none';
+}
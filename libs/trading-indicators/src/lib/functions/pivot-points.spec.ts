@@ -0,0 +1,44 @@
+import { pivotPoints } from './pivot-points.js';
+import { highLow } from './high-low.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('pivotPoints', () => {
+  it('should use the previous completed candle', () => {
+    const data: OHLCVData[] = [
+      { date: new Date(2024, 0, 1), open: 100, high: 110, low: 90, close: 105, volume: 1 },
+      { date: new Date(2024, 0, 2), open: 105, high: 200, low: 50, close: 150, volume: 1 },
+    ];
+
+    const levels = pivotPoints(data);
+
+    expect(levels.pivotPoint).toBeCloseTo(101.666667, 5);
+    expect(levels.r1).toBeCloseTo(113.333333, 5);
+    expect(levels.s3).toBeCloseTo(73.333333, 5);
+    expect(levels.previousHigh).toBe(110);
+  });
+
+  it('should throw with less than 2 candles', () => {
+    expect(() => pivotPoints([])).toThrow(/Insufficient data for Pivot Points calculation/);
+  });
+});
+
+describe('highLow', () => {
+  it('should return the first occurrence of each extreme', () => {
+    const data: OHLCVData[] = [
+      { date: new Date(2024, 0, 1), open: 1, high: 5, low: 2, close: 3, volume: 1 },
+      { date: new Date(2024, 0, 2), open: 1, high: 7, low: 1, close: 3, volume: 1 },
+      { date: new Date(2024, 0, 3), open: 1, high: 7, low: 1, close: 3, volume: 1 },
+    ];
+
+    expect(highLow(data)).toEqual({
+      high: 7,
+      highDate: data[1].date,
+      low: 1,
+      lowDate: data[1].date,
+    });
+  });
+
+  it('should throw with no candles', () => {
+    expect(() => highLow([])).toThrow(/Insufficient data for high\/low calculation/);
+  });
+});
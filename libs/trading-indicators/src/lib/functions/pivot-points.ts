@@ -0,0 +1,62 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Standard pivot point levels derived from a single candle
+ */
+export interface PivotPointLevels {
+  /** Pivot Point (PP) - central level */
+  pivotPoint: number;
+  /** First resistance level */
+  r1: number;
+  /** Second resistance level */
+  r2: number;
+  /** Third resistance level */
+  r3: number;
+  /** First support level */
+  s1: number;
+  /** Second support level */
+  s2: number;
+  /** Third support level */
+  s3: number;
+  /** High price from previous period */
+  previousHigh: number;
+  /** Low price from previous period */
+  previousLow: number;
+  /** Close price from previous period */
+  previousClose: number;
+}
+
+/**
+ * Calculate Standard Pivot Points from the previous completed candle
+ * The second to last candle is used because the last one might be incomplete (current period)
+ * @param candles - OHLCV data points, oldest first
+ * @returns Pivot point levels
+ */
+export function pivotPoints(candles: OHLCVData[]): PivotPointLevels {
+  if (candles.length < 2) {
+    throw new InsufficientDataError(
+      `Insufficient data for Pivot Points calculation. Need at least 2 data points, got ${candles.length}`,
+      { required: 2, actual: candles.length }
+    );
+  }
+
+  const { high, low, close } = candles[candles.length - 2];
+
+  // Calculate Pivot Point (PP)
+  const pivotPoint = (high + low + close) / 3;
+
+  // Calculate Support and Resistance levels
+  return {
+    pivotPoint,
+    r1: 2 * pivotPoint - low,
+    s1: 2 * pivotPoint - high,
+    r2: pivotPoint + (high - low),
+    s2: pivotPoint - (high - low),
+    r3: high + 2 * (pivotPoint - low),
+    s3: low - 2 * (high - pivotPoint),
+    previousHigh: high,
+    previousLow: low,
+    previousClose: close,
+  };
+}
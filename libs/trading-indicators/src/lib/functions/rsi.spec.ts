@@ -0,0 +1,46 @@
+import { getRSISignal, rsi, rsiSeries } from './rsi.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (closes: number[]): OHLCVData[] =>
+  closes.map((close, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+describe('rsi functions', () => {
+  it('should return 100 when prices only rise', () => {
+    expect(rsi(candles([1, 2, 3, 4, 5]), { period: 3 })).toBe(100);
+  });
+
+  it('should return 0 when prices only fall', () => {
+    expect(rsi(candles([5, 4, 3, 2, 1]), { period: 3 })).toBe(0);
+  });
+
+  it('should apply Wilder smoothing after the initial average', () => {
+    // Changes: +2, -1, +1, -2 -> initial avgGain = 1, avgLoss = 1/3 (period 3)
+    // Next: avgGain = (1 * 2 + 0) / 3 = 2/3, avgLoss = (1/3 * 2 + 2) / 3 = 8/9
+    const series = rsiSeries(candles([10, 12, 11, 12, 10]), { period: 3 });
+
+    expect(series.slice(0, 3)).toEqual([null, null, null]);
+    expect(series[3]).toBeCloseTo(75, 10);
+    expect(series[4]).toBeCloseTo(100 - 100 / (1 + (2 / 3) / (8 / 9)), 10);
+  });
+
+  it('should default to a 14 period', () => {
+    expect(() => rsi(candles(Array(14).fill(1)))).toThrow(
+      'Insufficient data for RSI calculation. Need at least 15 data points, got 14'
+    );
+  });
+
+  it('should classify RSI values', () => {
+    expect(getRSISignal(70)).toBe('overbought');
+    expect(getRSISignal(30)).toBe('oversold');
+    expect(getRSISignal(50)).toBe('neutral');
+    expect(getRSISignal(75, { overbought: 80, oversold: 20 })).toBe('neutral');
+    expect(getRSISignal(20, { overbought: 80, oversold: 20 })).toBe('oversold');
+  });
+});
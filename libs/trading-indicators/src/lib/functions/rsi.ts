@@ -0,0 +1,112 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import { oscillatorSignal, type OscillatorSignal, type OscillatorThresholds } from './oscillator-signals.js';
+
+/**
+ * Options for the RSI functions
+ */
+export interface RSIOptions {
+  /** RSI period (default: 14) */
+  period?: number;
+}
+
+/**
+ * Compute the RSI series from a price array using Wilder smoothing
+ * @param prices - Array of closing prices
+ * @param period - RSI period
+ * @returns RSI values aligned with prices (null for the first 'period' entries)
+ */
+export function computeRSISeries(prices: number[], period: number): Array<number | null> {
+  if (prices.length < period + 1) {
+    throw new InsufficientDataError(`Not enough prices for RSI calculation`, {
+      required: period + 1,
+      actual: prices.length,
+    });
+  }
+
+  // Calculate price changes
+  const changes: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    changes.push(prices[i] - prices[i - 1]);
+  }
+
+  // Separate gains and losses
+  const gains: number[] = changes.map((change) => (change > 0 ? change : 0));
+  const losses: number[] = changes.map((change) => (change < 0 ? Math.abs(change) : 0));
+
+  const series: Array<number | null> = new Array(period).fill(null);
+
+  // Calculate initial average gain and loss (simple average)
+  let avgGain = gains.slice(0, period).reduce((sum, gain) => sum + gain, 0) / period;
+  let avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
+  series.push(toRSI(avgGain, avgLoss));
+
+  // Calculate subsequent averages using exponential moving average
+  for (let i = period; i < gains.length; i++) {
+    avgGain = (avgGain * (period - 1) + gains[i]) / period;
+    avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
+    series.push(toRSI(avgGain, avgLoss));
+  }
+
+  return series;
+}
+
+/**
+ * Convert average gain and loss into an RSI value (0-100)
+ * @param avgGain - Smoothed average gain
+ * @param avgLoss - Smoothed average loss
+ * @returns RSI value
+ */
+export function toRSI(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) {
+    return 100; // No losses means RSI is 100
+  }
+
+  const rs = avgGain / avgLoss;
+  return 100 - 100 / (1 + rs);
+}
+
+/**
+ * Default RSI overbought and oversold levels
+ */
+export const RSI_THRESHOLDS: OscillatorThresholds = { overbought: 70, oversold: 30 };
+
+/**
+ * Determine RSI signal based on value
+ * @param rsi - RSI value (0-100)
+ * @param thresholds - Overbought and oversold levels (default: 70 / 30)
+ * @returns Signal interpretation
+ */
+export function getRSISignal(rsi: number, thresholds: OscillatorThresholds = RSI_THRESHOLDS): OscillatorSignal {
+  return oscillatorSignal(rsi, thresholds);
+}
+
+/**
+ * Calculate the RSI series of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - RSI options
+ * @returns RSI values aligned with the candles (null during the warm-up period)
+ */
+export function rsiSeries(candles: OHLCVData[], options: RSIOptions = {}): Array<number | null> {
+  const { period = 14 } = options;
+
+  if (candles.length < period + 1) {
+    throw new InsufficientDataError(
+      `Insufficient data for RSI calculation. Need at least ${period + 1} data points, got ${candles.length}`,
+      { required: period + 1, actual: candles.length }
+    );
+  }
+
+  return computeRSISeries(candles.map((candle) => candle.close), period);
+}
+
+/**
+ * Calculate the latest RSI of closing prices
+ * @param candles - OHLCV data points, oldest first
+ * @param options - RSI options
+ * @returns RSI value (0-100) for the last candle
+ */
+export function rsi(candles: OHLCVData[], options: RSIOptions = {}): number {
+  const series = rsiSeries(candles, options);
+  return series[series.length - 1] as number;
+}
@@ -0,0 +1,40 @@
+import { squeeze, squeezeSeries } from './squeeze.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (i: number, close: number, range: number): OHLCVData => ({
+  date: new Date(2024, 0, i + 1),
+  open: close,
+  high: close + range,
+  low: close - range,
+  close,
+  volume: 1000,
+});
+
+// Flat closes with wide ranges (collapsed Bollinger Bands), then a breakout candle
+const quiet = Array.from({ length: 25 }, (_, i) => candle(i, 100, 5));
+const breakout = [...quiet, candle(25, 200, 1)];
+
+describe('squeeze functions', () => {
+  it('should detect a squeeze once both indicators are available', () => {
+    const series = squeezeSeries(quiet);
+
+    // Bollinger Bands from the 20th candle, ATR(20) from the 21st
+    expect(series.slice(0, 20).every((value) => value === null)).toBe(true);
+    expect(series.slice(20)).toEqual([true, true, true, true, true]);
+
+    const value = squeeze(quiet);
+    expect(value).toMatchObject({ squeeze: true, bars: 5, released: false });
+    expect(value.bollinger.upper).toBeLessThan(value.keltner.upper);
+    expect(value.bollinger.lower).toBeGreaterThan(value.keltner.lower);
+  });
+
+  it('should report the release of a squeeze', () => {
+    expect(squeeze(breakout)).toMatchObject({ squeeze: false, bars: 0, released: true });
+  });
+
+  it('should apply custom Bollinger Bands and Keltner Channels options', () => {
+    const value = squeeze(breakout, { bollinger: { stdDev: 0.1 }, keltner: { multiplier: 10 } });
+
+    expect(value).toMatchObject({ squeeze: true, bars: 6, released: false });
+  });
+});
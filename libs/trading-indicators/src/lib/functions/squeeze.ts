@@ -0,0 +1,81 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { bollingerBandsSeries, type BollingerBandsOptions, type BollingerBandsValue } from './bollinger-bands.js';
+import { keltnerChannelsSeries, type ChannelValue, type KeltnerChannelsOptions } from './keltner-channels.js';
+
+/**
+ * Options for the squeeze functions
+ */
+export interface SqueezeOptions {
+  /** Bollinger Bands (default: period 20, 2 standard deviations) */
+  bollinger?: BollingerBandsOptions;
+  /** Keltner Channels (default: period 20, ATR period 20, 1.5 ATRs) */
+  keltner?: KeltnerChannelsOptions;
+}
+
+/**
+ * Squeeze state of the last candle
+ */
+export interface SqueezeValue {
+  /** Whether the Bollinger Bands are inside the Keltner Channels */
+  squeeze: boolean;
+  /** Number of consecutive candles in a squeeze, up to and including the last one (0 if not in a squeeze) */
+  bars: number;
+  /** Whether the squeeze ended with the last candle, i.e. the previous candle was in a squeeze */
+  released: boolean;
+  /** Bollinger Bands of the last candle */
+  bollinger: BollingerBandsValue;
+  /** Keltner Channels of the last candle */
+  keltner: ChannelValue;
+}
+
+/**
+ * Bands and channels of both indicators, aligned with the candles
+ */
+function squeezeComponents(candles: OHLCVData[], options: SqueezeOptions) {
+  const bollinger = bollingerBandsSeries(candles, { period: 20, stdDev: 2, ...options.bollinger });
+  const keltner = keltnerChannelsSeries(candles, { period: 20, atrPeriod: 20, multiplier: 1.5, ...options.keltner });
+  const squeezes = candles.map((_, i) => {
+    const bands = bollinger[i];
+    const channels = keltner[i];
+    if (bands === null || channels === null) {
+      return null;
+    }
+    return bands.upper < channels.upper && bands.lower > channels.lower;
+  });
+  return { bollinger, keltner, squeezes };
+}
+
+/**
+ * Calculate the squeeze series: low volatility periods in which the Bollinger Bands sit inside
+ * the Keltner Channels, which often precede a breakout
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Bollinger Bands and Keltner Channels options
+ * @returns Squeeze flags aligned with the candles (null until both indicators are available)
+ */
+export function squeezeSeries(candles: OHLCVData[], options: SqueezeOptions = {}): Array<boolean | null> {
+  return squeezeComponents(candles, options).squeezes;
+}
+
+/**
+ * Detect a squeeze on the last candle
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Bollinger Bands and Keltner Channels options
+ * @returns Squeeze state, its duration and the bands of the last candle
+ */
+export function squeeze(candles: OHLCVData[], options: SqueezeOptions = {}): SqueezeValue {
+  const { bollinger, keltner, squeezes } = squeezeComponents(candles, options);
+  const last = candles.length - 1;
+
+  let bars = 0;
+  while (bars <= last && squeezes[last - bars] === true) {
+    bars++;
+  }
+
+  return {
+    squeeze: squeezes[last] === true,
+    bars,
+    released: squeezes[last] === false && squeezes[last - 1] === true,
+    bollinger: bollinger[last] as BollingerBandsValue,
+    keltner: keltner[last] as ChannelValue,
+  };
+}
@@ -0,0 +1,61 @@
+import { stochastic, stochasticRSI, stochasticRSISeries, stochasticSeries } from './stochastic.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles = (closes: number[]): OHLCVData[] =>
+  closes.map((close, i) => ({
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+const data = candles([1, 2, 3, 4, 5, 4, 3]);
+
+describe('stochastic functions', () => {
+  it('should calculate the fast stochastic from the raw %K', () => {
+    const series = stochasticSeries(data, { variant: 'fast', kPeriod: 3, dPeriod: 2 });
+
+    expect(series.map(({ k }) => k)).toEqual([null, null, 100, 100, 100, 0, 0]);
+    expect(series.map(({ d }) => d)).toEqual([null, null, null, 100, 100, 50, 0]);
+  });
+
+  it('should smooth %K over 3 candles for the slow stochastic', () => {
+    const series = stochasticSeries(data, { kPeriod: 3, dPeriod: 1 });
+
+    expect(series[4].k).toBe(100);
+    expect(series[5].k).toBeCloseTo(200 / 3, 10);
+    expect(stochastic(data, { kPeriod: 3, dPeriod: 1 }).k).toBeCloseTo(100 / 3, 10);
+  });
+
+  it('should use the configured smoothing for the full stochastic', () => {
+    const full = stochastic(data, { variant: 'full', kPeriod: 3, kSmoothing: 2, dPeriod: 1 });
+
+    expect(full).toEqual({ k: 0, d: 0 });
+    expect(() => stochastic(data, { variant: 'full', kPeriod: 3, kSmoothing: 5 })).toThrow(
+      'Insufficient data for Stochastic calculation. Need at least 9 data points, got 7'
+    );
+  });
+
+  it('should apply the stochastic formula to the RSI', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 5);
+    const series = stochasticRSISeries(candles(closes));
+
+    // RSI from candle 14, raw %K from 27, smoothed %K from 29, %D from 31
+    expect(series.findIndex(({ k }) => k !== null)).toBe(29);
+    expect(series.findIndex(({ d }) => d !== null)).toBe(31);
+
+    const { k, d } = stochasticRSI(candles(closes));
+    expect(k).toBeGreaterThanOrEqual(0);
+    expect(k).toBeLessThanOrEqual(100);
+    expect(d).toBeGreaterThanOrEqual(0);
+    expect(d).toBeLessThanOrEqual(100);
+  });
+
+  it('should throw with insufficient data for the Stochastic RSI', () => {
+    expect(() => stochasticRSI(candles(Array(20).fill(1)))).toThrow(
+      'Insufficient data for Stochastic RSI calculation. Need at least 32 data points, got 20'
+    );
+  });
+});
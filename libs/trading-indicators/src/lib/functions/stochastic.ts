@@ -0,0 +1,198 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { OscillatorThresholds } from './oscillator-signals.js';
+import { computeRSISeries } from './rsi.js';
+
+/**
+ * Stochastic Oscillator variant
+ * - 'fast': unsmoothed %K
+ * - 'slow': %K smoothed over 3 candles (the fast %D)
+ * - 'full': %K smoothed over kSmoothing candles
+ */
+export type StochasticVariant = 'fast' | 'slow' | 'full';
+
+/**
+ * Options for the Stochastic Oscillator functions
+ */
+export interface StochasticOptions {
+  /** Variant (default: 'slow') */
+  variant?: StochasticVariant;
+  /** Lookback period of the highest high and lowest low (default: 14) */
+  kPeriod?: number;
+  /** %K smoothing period, used by the 'full' variant (default: 3) */
+  kSmoothing?: number;
+  /** %D period, the moving average of %K (default: 3) */
+  dPeriod?: number;
+}
+
+/**
+ * Options for the Stochastic RSI functions
+ */
+export interface StochasticRSIOptions {
+  /** RSI period (default: 14) */
+  rsiPeriod?: number;
+  /** Lookback period of the highest and lowest RSI (default: 14) */
+  stochPeriod?: number;
+  /** %K smoothing period (default: 3) */
+  kSmoothing?: number;
+  /** %D period, the moving average of %K (default: 3) */
+  dPeriod?: number;
+}
+
+/**
+ * Default Stochastic and Stochastic RSI overbought and oversold levels
+ */
+export const STOCHASTIC_THRESHOLDS: OscillatorThresholds = { overbought: 80, oversold: 20 };
+
+/**
+ * Stochastic %K and %D for a single candle, null during warm-up
+ */
+export interface StochasticSeriesValue {
+  /** %K line (0-100) */
+  k: number | null;
+  /** %D signal line, the moving average of %K (0-100) */
+  d: number | null;
+}
+
+/**
+ * Stochastic %K and %D for a single candle
+ */
+export interface StochasticValue {
+  /** %K line (0-100) */
+  k: number;
+  /** %D signal line, the moving average of %K (0-100) */
+  d: number;
+}
+
+/**
+ * Simple moving average of a series with leading nulls
+ */
+function smoothSeries(values: Array<number | null>, period: number): Array<number | null> {
+  return values.map((_, i) => {
+    const window = values.slice(i - period + 1, i + 1);
+    if (i < period - 1 || window.some((value) => value === null)) {
+      return null;
+    }
+    return (window as number[]).reduce((sum, value) => sum + value, 0) / period;
+  });
+}
+
+/**
+ * Compute the stochastic %K and %D series from high, low and close arrays
+ * Raw %K = 100 * (close - lowest low) / (highest high - lowest low) over kPeriod values,
+ * 50 when the range is flat. %K is the SMA of raw %K over kSmoothing, %D the SMA of %K over dPeriod.
+ * @param highs - Array of high values
+ * @param lows - Array of low values
+ * @param closes - Array of closing values
+ * @param kPeriod - Lookback period of the highest high and lowest low
+ * @param kSmoothing - %K smoothing period (1 for none)
+ * @param dPeriod - %D period
+ * @returns %K and %D aligned with the input (null during warm-up)
+ */
+export function computeStochasticSeries(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number,
+  kSmoothing: number,
+  dPeriod: number
+): StochasticSeriesValue[] {
+  const rawK = closes.map((close, i) => {
+    if (i < kPeriod - 1) {
+      return null;
+    }
+    const highest = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
+    const lowest = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
+    return highest === lowest ? 50 : (100 * (close - lowest)) / (highest - lowest);
+  });
+
+  const k = smoothSeries(rawK, kSmoothing);
+  const d = smoothSeries(k, dPeriod);
+  return k.map((value, i) => ({ k: value, d: d[i] }));
+}
+
+/**
+ * %K smoothing period of a Stochastic Oscillator variant
+ */
+function kSmoothingOf(options: StochasticOptions): number {
+  const { variant = 'slow', kSmoothing = 3 } = options;
+  return variant === 'fast' ? 1 : variant === 'slow' ? 3 : kSmoothing;
+}
+
+/**
+ * Calculate the Stochastic Oscillator series
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Stochastic options
+ * @returns %K and %D aligned with the candles (null during warm-up)
+ */
+export function stochasticSeries(candles: OHLCVData[], options: StochasticOptions = {}): StochasticSeriesValue[] {
+  const { kPeriod = 14, dPeriod = 3 } = options;
+  const kSmoothing = kSmoothingOf(options);
+
+  const requiredDataPoints = kPeriod + kSmoothing + dPeriod - 2;
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for Stochastic calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+
+  return computeStochasticSeries(
+    candles.map((candle) => candle.high),
+    candles.map((candle) => candle.low),
+    candles.map((candle) => candle.close),
+    kPeriod,
+    kSmoothing,
+    dPeriod
+  );
+}
+
+/**
+ * Calculate the latest Stochastic Oscillator
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Stochastic options
+ * @returns %K and %D for the last candle
+ */
+export function stochastic(candles: OHLCVData[], options: StochasticOptions = {}): StochasticValue {
+  const series = stochasticSeries(candles, options);
+  return series[series.length - 1] as StochasticValue;
+}
+
+/**
+ * Calculate the Stochastic RSI series: the stochastic formula applied to the RSI of the closes
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Stochastic RSI options
+ * @returns %K and %D (0-100) aligned with the candles (null during warm-up)
+ */
+export function stochasticRSISeries(
+  candles: OHLCVData[],
+  options: StochasticRSIOptions = {}
+): StochasticSeriesValue[] {
+  const { rsiPeriod = 14, stochPeriod = 14, kSmoothing = 3, dPeriod = 3 } = options;
+
+  const requiredDataPoints = rsiPeriod + stochPeriod + kSmoothing + dPeriod - 2;
+  if (candles.length < requiredDataPoints) {
+    throw new InsufficientDataError(
+      `Insufficient data for Stochastic RSI calculation. Need at least ${requiredDataPoints} data points, got ${candles.length}`,
+      { required: requiredDataPoints, actual: candles.length }
+    );
+  }
+
+  // The RSI is available from candle rsiPeriod onward
+  const rsiValues = computeRSISeries(candles.map((candle) => candle.close), rsiPeriod).slice(rsiPeriod) as number[];
+  const series = computeStochasticSeries(rsiValues, rsiValues, rsiValues, stochPeriod, kSmoothing, dPeriod);
+  const warmUp: StochasticSeriesValue[] = Array.from({ length: rsiPeriod }, () => ({ k: null, d: null }));
+
+  return [...warmUp, ...series];
+}
+
+/**
+ * Calculate the latest Stochastic RSI
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Stochastic RSI options
+ * @returns %K and %D for the last candle
+ */
+export function stochasticRSI(candles: OHLCVData[], options: StochasticRSIOptions = {}): StochasticValue {
+  const series = stochasticRSISeries(candles, options);
+  return series[series.length - 1] as StochasticValue;
+}
@@ -0,0 +1,122 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { SupportResistanceZone } from '../types/index.js';
+import { findPivotHighs, findPivotLows } from './swing-points.js';
+
+/**
+ * Options for the support/resistance function
+ */
+export interface SupportResistanceOptions {
+  /** Price tolerance for zone clustering as a fraction (default: 0.005 = 0.5%) */
+  tolerance?: number;
+  /** Maximum number of zones to return (default: 10) */
+  maxZones?: number;
+}
+
+/**
+ * Identify support and resistance zones by clustering pivot highs and lows
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Support/resistance options
+ * @returns Zones sorted by strength, strongest first
+ */
+export function supportResistance(
+  candles: OHLCVData[],
+  options: SupportResistanceOptions = {}
+): SupportResistanceZone[] {
+  const { tolerance = 0.005, maxZones = 10 } = options;
+
+  if (candles.length < 20) {
+    throw new InsufficientDataError(
+      `Insufficient data for support/resistance calculation. Need at least 20 data points, got ${candles.length}`,
+      { required: 20, actual: candles.length }
+    );
+  }
+
+  const zones = new Map<number, SupportResistanceZone>();
+
+  // Process pivot highs (resistance)
+  for (const pivot of findPivotHighs(candles)) {
+    addToZone(zones, pivot.price, 'resistance', pivot.index, tolerance, candles.length);
+  }
+
+  // Process pivot lows (support)
+  for (const pivot of findPivotLows(candles)) {
+    addToZone(zones, pivot.price, 'support', pivot.index, tolerance, candles.length);
+  }
+
+  return Array.from(zones.values())
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, maxZones);
+}
+
+/**
+ * Add a price level to a zone or create a new zone
+ */
+function addToZone(
+  zones: Map<number, SupportResistanceZone>,
+  price: number,
+  type: 'support' | 'resistance',
+  index: number,
+  tolerance: number,
+  totalPeriods: number
+): void {
+  // Find if there's an existing zone within tolerance
+  let foundZone: SupportResistanceZone | null = null;
+
+  for (const [key, zone] of zones.entries()) {
+    if (Math.abs(key - price) / key <= tolerance) {
+      foundZone = zone;
+      break;
+    }
+  }
+
+  if (foundZone) {
+    // Update existing zone
+    if (type === 'support') {
+      foundZone.supportCount++;
+    } else {
+      foundZone.resistanceCount++;
+    }
+    foundZone.totalTouches++;
+
+    // Recalculate strength
+    foundZone.strength = calculateStrength(
+      foundZone.supportCount,
+      foundZone.resistanceCount,
+      index,
+      totalPeriods
+    );
+  } else {
+    // Create new zone
+    const supportCount = type === 'support' ? 1 : 0;
+    const resistanceCount = type === 'resistance' ? 1 : 0;
+    zones.set(price, {
+      level: Number(price.toFixed(6)),
+      supportCount,
+      resistanceCount,
+      totalTouches: 1,
+      strength: calculateStrength(supportCount, resistanceCount, index, totalPeriods),
+    });
+  }
+}
+
+/**
+ * Calculate zone strength based on touches and recency
+ * @returns Strength score between 0 and 1
+ */
+function calculateStrength(
+  supportCount: number,
+  resistanceCount: number,
+  lastIndex: number,
+  totalPeriods: number
+): number {
+  // Base strength from total touches
+  const totalTouches = supportCount + resistanceCount;
+  const touchStrength = Math.min(totalTouches / 10, 1); // Max out at 10 touches
+
+  // Recency factor (more recent = higher strength)
+  const recencyFactor = lastIndex / totalPeriods;
+
+  // Combined strength with 70% weight on touches, 30% on recency
+  return Number((touchStrength * 0.7 + recencyFactor * 0.3).toFixed(3));
+}
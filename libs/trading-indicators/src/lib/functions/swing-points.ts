@@ -0,0 +1,58 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import type { TrendlinePoint } from '../types/index.js';
+
+/**
+ * Find pivot highs (local maxima)
+ * A candle is a pivot high when no candle within leftBars/rightBars has a higher high
+ * @param candles - OHLCV data points, oldest first
+ * @param leftBars - Number of bars to the left (default: 5)
+ * @param rightBars - Number of bars to the right (default: 5)
+ * @returns Pivot highs in chronological order
+ */
+export function findPivotHighs(candles: OHLCVData[], leftBars = 5, rightBars = 5): TrendlinePoint[] {
+  return findPivots(candles, leftBars, rightBars, (candle) => candle.high, (a, b) => a > b);
+}
+
+/**
+ * Find pivot lows (local minima)
+ * A candle is a pivot low when no candle within leftBars/rightBars has a lower low
+ * @param candles - OHLCV data points, oldest first
+ * @param leftBars - Number of bars to the left (default: 5)
+ * @param rightBars - Number of bars to the right (default: 5)
+ * @returns Pivot lows in chronological order
+ */
+export function findPivotLows(candles: OHLCVData[], leftBars = 5, rightBars = 5): TrendlinePoint[] {
+  return findPivots(candles, leftBars, rightBars, (candle) => candle.low, (a, b) => a < b);
+}
+
+function findPivots(
+  candles: OHLCVData[],
+  leftBars: number,
+  rightBars: number,
+  price: (candle: OHLCVData) => number,
+  exceeds: (a: number, b: number) => boolean
+): TrendlinePoint[] {
+  const pivots: TrendlinePoint[] = [];
+
+  for (let i = leftBars; i < candles.length - rightBars; i++) {
+    const current = price(candles[i]);
+    let isPivot = true;
+
+    for (let j = i - leftBars; j <= i + rightBars; j++) {
+      if (j !== i && exceeds(price(candles[j]), current)) {
+        isPivot = false;
+        break;
+      }
+    }
+
+    if (isPivot) {
+      pivots.push({
+        index: i,
+        price: current,
+        date: candles[i].date,
+      });
+    }
+  }
+
+  return pivots;
+}
@@ -0,0 +1,64 @@
+import { trendlines } from './trendlines.js';
+import { supportResistance } from './support-resistance.js';
+import { findPivotHighs, findPivotLows } from './swing-points.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const wave: OHLCVData[] = Array.from({ length: 60 }, (_, i) => {
+  const close = 100 + Math.sin(i / 3) * 10;
+  return {
+    date: new Date(2024, 0, i + 1),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000,
+  };
+});
+
+describe('swing points', () => {
+  it('should find local maxima and minima', () => {
+    const highs = findPivotHighs(wave);
+    const lows = findPivotLows(wave);
+
+    expect(highs.length).toBeGreaterThan(0);
+    expect(lows.length).toBeGreaterThan(0);
+    for (const pivot of highs) {
+      const window = wave.slice(pivot.index - 5, pivot.index + 6);
+      expect(Math.max(...window.map((candle) => candle.high))).toBe(pivot.price);
+    }
+  });
+});
+
+describe('trendlines', () => {
+  it('should connect pivot pairs and sort by strength', () => {
+    const result = trendlines(wave, { maxTrendlines: 3 });
+
+    expect(result.resistanceTrendlines.length).toBeLessThanOrEqual(3);
+    expect(result.resistanceTrendlines.every((line) => line.type === 'resistance')).toBe(true);
+    expect(result.supportTrendlines.every((line) => line.type === 'support')).toBe(true);
+    for (let i = 1; i < result.supportTrendlines.length; i++) {
+      expect(result.supportTrendlines[i - 1].strength).toBeGreaterThanOrEqual(
+        result.supportTrendlines[i].strength
+      );
+    }
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => trendlines(wave.slice(0, 10))).toThrow(
+      /Insufficient data for trendline calculation/
+    );
+  });
+});
+
+describe('supportResistance', () => {
+  it('should cluster repeated pivots into zones', () => {
+    const zones = supportResistance(wave, { tolerance: 0.01 });
+
+    expect(zones.length).toBeGreaterThan(0);
+    expect(zones.some((zone) => zone.totalTouches > 1)).toBe(true);
+  });
+
+  it('should limit the number of zones', () => {
+    expect(supportResistance(wave, { maxZones: 1 })).toHaveLength(1);
+  });
+});
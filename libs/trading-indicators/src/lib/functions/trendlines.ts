@@ -0,0 +1,124 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { Trendline, TrendlinePoint } from '../types/index.js';
+import { findPivotHighs, findPivotLows } from './swing-points.js';
+
+// Constants for strength calculation
+const TIME_SPAN_WEIGHT = 0.4;
+const PRICE_SPAN_WEIGHT = 0.3;
+const RECENCY_WEIGHT = 0.3;
+const TIME_SPAN_NORMALIZATION_FACTOR = 0.5; // 50% of total periods
+const PRICE_SPAN_NORMALIZATION_FACTOR = 10; // Scale factor for small percentages
+
+/**
+ * Options for the trendline function
+ */
+export interface TrendlineOptions {
+  /** Maximum number of trendlines to return per type (default: 10) */
+  maxTrendlines?: number;
+}
+
+/**
+ * Support and resistance trendlines, strongest first
+ */
+export interface TrendlinesValue {
+  /** Identified support trendlines */
+  supportTrendlines: Trendline[];
+  /** Identified resistance trendlines */
+  resistanceTrendlines: Trendline[];
+}
+
+/**
+ * Calculate trendlines with exactly 2 hits by connecting pivot points
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Trendline options
+ * @returns Support and resistance trendlines sorted by strength
+ */
+export function trendlines(candles: OHLCVData[], options: TrendlineOptions = {}): TrendlinesValue {
+  const { maxTrendlines = 10 } = options;
+
+  if (candles.length < 20) {
+    throw new InsufficientDataError(
+      `Insufficient data for trendline calculation. Need at least 20 data points, got ${candles.length}`,
+      { required: 20, actual: candles.length }
+    );
+  }
+
+  // Resistance trendlines connect pivot highs, support trendlines connect pivot lows
+  const resistanceTrendlines = findTrendlines(findPivotHighs(candles), 'resistance', candles.length);
+  const supportTrendlines = findTrendlines(findPivotLows(candles), 'support', candles.length);
+
+  // Sort by strength and return top trendlines
+  resistanceTrendlines.sort((a, b) => b.strength - a.strength);
+  supportTrendlines.sort((a, b) => b.strength - a.strength);
+
+  return {
+    supportTrendlines: supportTrendlines.slice(0, maxTrendlines),
+    resistanceTrendlines: resistanceTrendlines.slice(0, maxTrendlines),
+  };
+}
+
+/**
+ * Find trendlines by connecting pairs of pivot points
+ * Each trendline connects exactly 2 points (2 hits)
+ */
+function findTrendlines(
+  pivots: TrendlinePoint[],
+  type: 'support' | 'resistance',
+  totalPeriods: number
+): Trendline[] {
+  const result: Trendline[] = [];
+
+  for (let i = 0; i < pivots.length - 1; i++) {
+    for (let j = i + 1; j < pivots.length; j++) {
+      const point1 = pivots[i];
+      const point2 = pivots[j];
+
+      // Calculate slope and intercept
+      const slope = (point2.price - point1.price) / (point2.index - point1.index);
+      const intercept = point1.price - slope * point1.index;
+
+      const strength = calculateTrendlineStrength(point1, point2, totalPeriods);
+
+      result.push({
+        type,
+        point1,
+        point2,
+        slope: Number(slope.toFixed(6)),
+        intercept: Number(intercept.toFixed(6)),
+        strength: Number(strength.toFixed(3)),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate trendline strength based on time span, price relevance, and recency
+ * @returns Strength score between 0 and 1
+ */
+function calculateTrendlineStrength(
+  point1: TrendlinePoint,
+  point2: TrendlinePoint,
+  totalPeriods: number
+): number {
+  // Time span factor (normalized by total periods)
+  const timeSpan = point2.index - point1.index;
+  const timeSpanFactor = Math.min(timeSpan / (totalPeriods * TIME_SPAN_NORMALIZATION_FACTOR), 1);
+
+  // Price span factor (normalized percentage change)
+  const priceSpan = Math.abs(point2.price - point1.price);
+  const avgPrice = (point1.price + point2.price) / 2;
+  const priceSpanFactor = Math.min((priceSpan / avgPrice) * PRICE_SPAN_NORMALIZATION_FACTOR, 1);
+
+  // Recency factor (more recent second point = higher strength)
+  const recencyFactor = point2.index / totalPeriods;
+
+  // Combined strength with weighted factors
+  return (
+    timeSpanFactor * TIME_SPAN_WEIGHT +
+    priceSpanFactor * PRICE_SPAN_WEIGHT +
+    recencyFactor * RECENCY_WEIGHT
+  );
+}
@@ -0,0 +1,86 @@
+import { anchoredVWAP, anchoredVWAPSeries, sessionVWAP, sessionVWAPSeries } from './vwap.js';
+import { getTradingCalendar, InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+// Flat candles: the typical price equals the close
+const candle = (date: string, close: number, volume: number): OHLCVData => ({
+  date: new Date(date),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+});
+
+const daily = [
+  candle('2024-04-08T00:00:00Z', 100, 5),
+  candle('2024-04-09T00:00:00Z', 10, 1),
+  candle('2024-04-10T00:00:00Z', 20, 1),
+  candle('2024-04-11T00:00:00Z', 15, 0),
+];
+const anchor = new Date('2024-04-09T00:00:00Z');
+
+describe('vwap functions', () => {
+  it('should accumulate the anchored VWAP and its bands from the anchor', () => {
+    const series = anchoredVWAPSeries(daily, { anchor });
+
+    expect(series[0]).toBeNull();
+    expect(series[1]).toEqual({
+      vwap: 10,
+      stdDev: 0,
+      bands: [
+        { multiplier: 1, upper: 10, lower: 10 },
+        { multiplier: 2, upper: 10, lower: 10 },
+        { multiplier: 3, upper: 10, lower: 10 },
+      ],
+    });
+    expect(series[2]).toEqual({
+      vwap: 15,
+      stdDev: 5,
+      bands: [
+        { multiplier: 1, upper: 20, lower: 10 },
+        { multiplier: 2, upper: 25, lower: 5 },
+        { multiplier: 3, upper: 30, lower: 0 },
+      ],
+    });
+    // A candle without volume carries no weight
+    expect(anchoredVWAP(daily, { anchor })).toEqual(series[2]);
+  });
+
+  it('should weight every candle equally with equal weighting', () => {
+    const value = anchoredVWAP(daily, { anchor, weighting: 'equal', bandMultipliers: [2] });
+
+    expect(value.vwap).toBe(15);
+    expect(value.stdDev).toBeCloseTo(4.0825, 4);
+    expect(value.bands).toHaveLength(1);
+    expect(value.bands[0].upper).toBeCloseTo(23.165, 3);
+  });
+
+  it('should reset the session VWAP at the session boundary and skip extended hours', () => {
+    const candles = [
+      candle('2024-04-09T19:30:00Z', 10, 1), // 15:30 New York
+      candle('2024-04-09T20:30:00Z', 50, 1), // 16:30, after the close
+      candle('2024-04-10T13:30:00Z', 30, 2), // next session open
+      candle('2024-04-10T14:30:00Z', 60, 1),
+    ];
+    const calendar = getTradingCalendar('NYSE');
+
+    const series = sessionVWAPSeries(candles, { calendar });
+
+    expect(series.map((value) => value?.vwap ?? null)).toEqual([10, null, 30, 40]);
+    expect(sessionVWAP(candles, { calendar }).vwap).toBe(40);
+  });
+
+  it('should reject an anchor after the last candle', () => {
+    expect(() => anchoredVWAP(daily, { anchor: new Date('2024-05-01T00:00:00Z') })).toThrow(InvalidParameterError);
+  });
+
+  it('should throw without volume since the anchor', () => {
+    const noVolume = daily.map((value) => ({ ...value, volume: 0 }));
+
+    expect(() => anchoredVWAP(noVolume, { anchor })).toThrow(
+      'Insufficient data for VWAP calculation. No volume since the anchor'
+    );
+    expect(() => anchoredVWAP([], { anchor })).toThrow('Insufficient data for VWAP calculation. No data points');
+  });
+});
@@ -0,0 +1,180 @@
+import type { OHLCVData, TradingCalendar } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError, InvalidParameterError } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Weighting of the typical prices in a VWAP
+ * - 'volume': weighted by candle volume; candles without volume carry no weight
+ * - 'equal': every candle has the same weight, for symbols without reliable volume (e.g. currency pairs)
+ */
+export type VWAPWeighting = 'volume' | 'equal';
+
+/**
+ * Options shared by the VWAP functions
+ */
+export interface VWAPBandOptions {
+  /** Weighting of the typical prices (default: 'volume') */
+  weighting?: VWAPWeighting;
+  /** Standard deviation multipliers of the bands (default: [1, 2, 3]) */
+  bandMultipliers?: number[];
+}
+
+/**
+ * Options for the session VWAP functions
+ */
+export interface SessionVWAPOptions extends VWAPBandOptions {
+  /** Trading calendar whose sessions reset the VWAP */
+  calendar: TradingCalendar;
+}
+
+/**
+ * Options for the anchored VWAP functions
+ */
+export interface AnchoredVWAPOptions extends VWAPBandOptions {
+  /** Start of the VWAP: the first candle at or after this date */
+  anchor: Date;
+}
+
+/**
+ * Standard deviation band around the VWAP
+ */
+export interface VWAPBand {
+  /** Standard deviation multiplier (e.g., 2 for the 2σ band) */
+  multiplier: number;
+  /** VWAP + multiplier standard deviations */
+  upper: number;
+  /** VWAP - multiplier standard deviations */
+  lower: number;
+}
+
+/**
+ * VWAP and its bands for a single candle
+ */
+export interface VWAPValue {
+  /** Volume-weighted average of the typical price (high + low + close) / 3 */
+  vwap: number;
+  /** Weighted standard deviation of the typical price around the VWAP */
+  stdDev: number;
+  /** Bands in the order of the multipliers */
+  bands: VWAPBand[];
+}
+
+/**
+ * Compute a VWAP series that restarts whenever the segment key changes
+ * Candles without a segment (key null) are left out and get no value
+ */
+function computeVWAPSeries(
+  candles: OHLCVData[],
+  segmentOf: (candle: OHLCVData) => string | null,
+  options: VWAPBandOptions
+): Array<VWAPValue | null> {
+  const { weighting = 'volume', bandMultipliers = [1, 2, 3] } = options;
+  let segment: string | null = null;
+  let weightSum = 0;
+  let priceSum = 0;
+  let squareSum = 0;
+
+  return candles.map((candle) => {
+    const key = segmentOf(candle);
+    if (key === null) {
+      return null;
+    }
+    if (key !== segment) {
+      segment = key;
+      weightSum = priceSum = squareSum = 0;
+    }
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const weight = weighting === 'equal' ? 1 : candle.volume;
+    weightSum += weight;
+    priceSum += weight * typicalPrice;
+    squareSum += weight * typicalPrice * typicalPrice;
+    if (weightSum === 0) {
+      return null;
+    }
+
+    const vwap = priceSum / weightSum;
+    // Rounding can push the variance of a constant price slightly below zero
+    const stdDev = Math.sqrt(Math.max(0, squareSum / weightSum - vwap * vwap));
+    return {
+      vwap,
+      stdDev,
+      bands: bandMultipliers.map((multiplier) => ({
+        multiplier,
+        upper: vwap + multiplier * stdDev,
+        lower: vwap - multiplier * stdDev,
+      })),
+    };
+  });
+}
+
+/**
+ * Last value of a VWAP series
+ */
+function lastValue(series: Array<VWAPValue | null>, reason: string): VWAPValue {
+  const value = series[series.length - 1];
+  if (!value) {
+    throw new InsufficientDataError(
+      `Insufficient data for VWAP calculation. ${series.length === 0 ? 'No data points' : reason}`,
+      { required: 1, actual: 0 }
+    );
+  }
+  return value;
+}
+
+/**
+ * Calculate the session VWAP series
+ * The VWAP restarts at the first candle of every session of the calendar. Candles outside the
+ * sessions (pre- and post-market) are left out.
+ * @param candles - Intraday OHLCV data points, oldest first
+ * @param options - Calendar, weighting and band multipliers
+ * @returns VWAP and bands aligned with the candles (null outside sessions and before the first volume)
+ */
+export function sessionVWAPSeries(candles: OHLCVData[], options: SessionVWAPOptions): Array<VWAPValue | null> {
+  const { calendar } = options;
+  return computeVWAPSeries(candles, (candle) => calendar.sessionAt(candle.date)?.date ?? null, options);
+}
+
+/**
+ * Calculate the VWAP of the session of the last candle
+ * @param candles - Intraday OHLCV data points, oldest first
+ * @param options - Calendar, weighting and band multipliers
+ * @returns VWAP and bands for the last candle
+ */
+export function sessionVWAP(candles: OHLCVData[], options: SessionVWAPOptions): VWAPValue {
+  return lastValue(
+    sessionVWAPSeries(candles, options),
+    'The last candle is outside a session or its session has no volume'
+  );
+}
+
+/**
+ * Calculate the anchored VWAP series
+ * The VWAP accumulates from the first candle at or after the anchor, e.g. the date of an
+ * all-time high, an earnings release or a swing pivot
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Anchor, weighting and band multipliers
+ * @returns VWAP and bands aligned with the candles (null before the anchor and before the first volume)
+ */
+export function anchoredVWAPSeries(candles: OHLCVData[], options: AnchoredVWAPOptions): Array<VWAPValue | null> {
+  const { anchor } = options;
+  if (isNaN(anchor.getTime())) {
+    throw new InvalidParameterError('Invalid anchor date', { parameter: 'anchor' });
+  }
+  if (candles.length > 0 && candles[candles.length - 1].date < anchor) {
+    throw new InvalidParameterError(`Anchor ${anchor.toISOString()} is after the last candle`, {
+      parameter: 'anchor',
+    });
+  }
+
+  return computeVWAPSeries(candles, (candle) => (candle.date >= anchor ? 'anchor' : null), options);
+}
+
+/**
+ * Calculate the anchored VWAP of the last candle
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Anchor, weighting and band multipliers
+ * @returns VWAP and bands for the last candle
+ */
+export function anchoredVWAP(candles: OHLCVData[], options: AnchoredVWAPOptions): VWAPValue {
+  return lastValue(anchoredVWAPSeries(candles, options), 'No volume since the anchor');
+}
@@ -0,0 +1,26 @@
+import { williamsR, williamsRSeries } from './williams-r.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candle = (high: number, low: number, close: number): OHLCVData => ({
+  date: new Date(2024, 0, 1),
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+describe('williams %R functions', () => {
+  it('should measure the close against the highest high of the period', () => {
+    const data = [candle(10, 8, 9), candle(12, 9, 11), candle(11, 7, 8), candle(11, 9, 11)];
+
+    expect(williamsRSeries(data, { period: 3 })).toEqual([null, null, -80, -20]);
+    expect(williamsR([candle(12, 12, 12), candle(12, 12, 12)], { period: 2 })).toBe(-50);
+  });
+
+  it('should throw with insufficient data', () => {
+    expect(() => williamsR([candle(1, 1, 1)])).toThrow(
+      'Insufficient data for Williams %R calculation. Need at least 14 data points, got 1'
+    );
+  });
+});
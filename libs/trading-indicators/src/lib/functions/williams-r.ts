@@ -0,0 +1,56 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { OscillatorThresholds } from './oscillator-signals.js';
+
+/**
+ * Options for the Williams %R functions
+ */
+export interface WilliamsROptions {
+  /** Lookback period of the highest high and lowest low (default: 14) */
+  period?: number;
+}
+
+/**
+ * Default Williams %R overbought and oversold levels
+ */
+export const WILLIAMS_R_THRESHOLDS: OscillatorThresholds = { overbought: -20, oversold: -80 };
+
+/**
+ * Calculate the Williams %R series
+ * %R = -100 * (highest high - close) / (highest high - lowest low), from -100 (at the low)
+ * to 0 (at the high); -50 when the range is flat
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Williams %R options
+ * @returns Williams %R values aligned with the candles (null for the first period - 1 entries)
+ */
+export function williamsRSeries(candles: OHLCVData[], options: WilliamsROptions = {}): Array<number | null> {
+  const { period = 14 } = options;
+
+  if (candles.length < period) {
+    throw new InsufficientDataError(
+      `Insufficient data for Williams %R calculation. Need at least ${period} data points, got ${candles.length}`,
+      { required: period, actual: candles.length }
+    );
+  }
+
+  return candles.map((candle, i) => {
+    if (i < period - 1) {
+      return null;
+    }
+    const window = candles.slice(i - period + 1, i + 1);
+    const highest = Math.max(...window.map((data) => data.high));
+    const lowest = Math.min(...window.map((data) => data.low));
+    return highest === lowest ? -50 : (-100 * (highest - candle.close)) / (highest - lowest);
+  });
+}
+
+/**
+ * Calculate the latest Williams %R
+ * @param candles - OHLCV data points, oldest first
+ * @param options - Williams %R options
+ * @returns Williams %R (-100 to 0) for the last candle
+ */
+export function williamsR(candles: OHLCVData[], options: WilliamsROptions = {}): number {
+  const series = williamsRSeries(candles, options);
+  return series[series.length - 1] as number;
+}
@@ -0,0 +1,94 @@
+import { ADXService } from './adx-service.js';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('ADXService', () => {
+  let mockDataClient: jest.Mocked<TradingDataClient>;
+  let adxService: ADXService;
+
+  const mockData = (closes: number[]): OHLCVData[] =>
+    closes.map((close, i) => ({
+      date: new Date(2024, 0, i + 1),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000000,
+    }));
+
+  beforeEach(() => {
+    mockDataClient = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+    } as unknown as jest.Mocked<TradingDataClient>;
+
+    adxService = new ADXService(mockDataClient);
+  });
+
+  describe('calculateADX', () => {
+    it('should report a very strong bullish trend', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 60 }, (_, i) => 100 + i * 2)));
+
+      const result = await adxService.calculateADX('AAPL');
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        interval: '1d',
+        period: 14,
+        adx: 100,
+        plusDI: expect.any(Number),
+        minusDI: 0,
+        trendStrength: 'very strong',
+        direction: 'bullish',
+        crossover: 'none',
+        timestamp: expect.any(Date),
+      });
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', interval: '1d', adjustment: 'splits+dividends' })
+      );
+    });
+
+    it('should report a DI crossover when the trend reverses', async () => {
+      const closes = [...Array.from({ length: 40 }, (_, i) => 100 + i), 120];
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(closes));
+
+      const result = await adxService.calculateADX('AAPL', 14, '1h');
+
+      expect(result.interval).toBe('1h');
+      expect(result.direction).toBe('bearish');
+      expect(result.crossover).toBe('bearish');
+    });
+
+    it('should apply custom trend strength levels', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 60 }, (_, i) => 100 + i * 2)));
+
+      const result = await adxService.calculateADX('AAPL', 14, '1d', { veryStrong: 101 });
+
+      expect(result.trendStrength).toBe('strong');
+    });
+
+    it('should attach the symbol and interval to insufficient data errors', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([1, 2, 3]));
+
+      const error = await adxService.calculateADX('AAPL').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1d', required: 28, actual: 3 });
+    });
+  });
+
+  describe('calculateADXSeries', () => {
+    it('should return one point per candle with nulls during warm-up', async () => {
+      const data = mockData(Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 4) * 10));
+      mockDataClient.getHistoricalData.mockResolvedValue(data);
+
+      const result = await adxService.calculateADXSeries('AAPL', 14, '1d', new Date(2024, 0, 1));
+
+      expect(result.values).toHaveLength(40);
+      expect(result.values[13]).toEqual({ date: data[13].date, adx: null, plusDI: null, minusDI: null });
+      expect(result.values[14].plusDI).not.toBeNull();
+      expect(result.values[26].adx).toBeNull();
+      expect(result.values[27].adx).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import type { PriceAdjustment, TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
+import type { ADXResult, ADXSeriesResult } from '../types/index.js';
+import { adxSeries, getTrendStrength, ADX_TREND_LEVELS, type TrendStrengthLevels } from '../functions/adx.js';
+import { lineCrossover } from '../functions/oscillator-signals.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
+
+/**
+ * Round an ADX or DI value like RSI values
+ */
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Service for calculating the Average Directional Index (ADX) and Directional Movement Index (DMI)
+ * ADX measures trend strength regardless of direction; +DI and -DI give the direction
+ */
+export class ADXService {
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
+
+  /**
+   * Calculate ADX, +DI and -DI for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - ADX and DI period (default: 14)
+   * @param interval - Time interval (default: '1d')
+   * @param levels - Trend strength levels (default: 20 / 25 / 50)
+   * @returns ADX result with trend strength, direction and DI crossover
+   */
+  async calculateADX(
+    symbol: string,
+    period = 14,
+    interval: TimeInterval = '1d',
+    levels: Partial<TrendStrengthLevels> = {}
+  ): Promise<ADXResult> {
+    // The ADX needs 2 * period candles; the rest lets the Wilder averages settle
+    const endDate = new Date();
+    const startDate = lookbackStartDate(symbol, interval, period * 4, endDate);
+
+    const historicalData = await this.dataClient.getHistoricalData({
+      symbol,
+      startDate,
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+
+    const series = withSymbolContext({ symbol, interval }, () => adxSeries(historicalData, { period }));
+    const current = series[series.length - 1];
+    const previous = series[series.length - 2];
+    const adx = current.adx as number;
+    const plusDI = current.plusDI as number;
+    const minusDI = current.minusDI as number;
+
+    return {
+      symbol,
+      interval,
+      period,
+      adx: round(adx),
+      plusDI: round(plusDI),
+      minusDI: round(minusDI),
+      trendStrength: getTrendStrength(adx, { ...ADX_TREND_LEVELS, ...levels }),
+      direction: plusDI >= minusDI ? 'bullish' : 'bearish',
+      crossover: lineCrossover(
+        { line: previous.plusDI, signal: previous.minusDI },
+        { line: plusDI, signal: minusDI }
+      ),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Calculate the full ADX series for a symbol, one value per candle
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - ADX and DI period (default: 14)
+   * @param interval - Time interval (default: '1d')
+   * @param startDate - Start of the series (default: enough history for the period)
+   * @param endDate - End of the series (default: now)
+   * @returns ADX series result with null values during the warm-up period
+   */
+  async calculateADXSeries(
+    symbol: string,
+    period = 14,
+    interval: TimeInterval = '1d',
+    startDate?: Date,
+    endDate: Date = new Date()
+  ): Promise<ADXSeriesResult> {
+    const fromDate = startDate ?? lookbackStartDate(symbol, interval, period * 4, endDate);
+
+    const historicalData = await this.dataClient.getHistoricalData({
+      symbol,
+      startDate: fromDate,
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+
+    const series = withSymbolContext({ symbol, interval }, () => adxSeries(historicalData, { period }));
+
+    return {
+      symbol,
+      period,
+      interval,
+      values: historicalData.map((data, i) => ({
+        date: data.date,
+        adx: series[i].adx === null ? null : round(series[i].adx!),
+        plusDI: series[i].plusDI === null ? null : round(series[i].plusDI!),
+        minusDI: series[i].minusDI === null ? null : round(series[i].minusDI!),
+      })),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -1,5 +1,9 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { AllTimeHighLowService } from './all-time-high-low-service.js';
-import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+import { CandleStore, TradingDataClient } from '@lc-trading-services/trading-data-client';
+import type { IMarketDataProvider, OHLCVData } from '@lc-trading-services/trading-data-client';
 
 describe('AllTimeHighLowService', () => {
   let mockDataClient: jest.Mocked<TradingDataClient>;
@@ -37,6 +41,21 @@ describe('AllTimeHighLowService', () => {
       expect(result.timestamp).toBeInstanceOf(Date);
     });
 
+    it('should use the split and dividend adjusted series unless configured otherwise', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue([
+        { date: new Date(2020, 0, 1), open: 100, high: 110, low: 90, close: 105, volume: 1000 },
+      ]);
+
+      await service.calculateAllTimeHighLow('AAPL');
+      await new AllTimeHighLowService(mockDataClient, 'none').calculateAllTimeHighLow('AAPL');
+
+      expect(mockDataClient.getHistoricalData).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ adjustment: 'splits+dividends' })
+      );
+      expect(mockDataClient.getHistoricalData).toHaveBeenNthCalledWith(2, expect.objectContaining({ adjustment: 'none' }));
+    });
+
     it('should handle custom lookback period', async () => {
       const mockData: OHLCVData[] = Array.from({ length: 100 }, (_, i) => ({
         date: new Date(2020, 0, i + 1),
@@ -118,4 +137,39 @@ describe('AllTimeHighLowService', () => {
       expect(result.allTimeHighDate).toEqual(new Date(2023, 0, 1));
     });
   });
+
+  describe('with a CandleStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'all-time-high-low-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should read the dividend-adjusted series of a store without corporate actions', async () => {
+      const day = (daysAgo: number) => new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+      const upstream: IMarketDataProvider = {
+        getHistoricalData: jest.fn(async () => [
+          { date: day(3), open: 100, high: 110, low: 90, close: 100, volume: 1000, adjClose: 90 },
+          { date: day(2), open: 100, high: 120, low: 95, close: 100, volume: 1000, adjClose: 95 },
+          { date: day(1), open: 100, high: 105, low: 99, close: 100, volume: 1000, adjClose: 100 },
+        ]),
+        getQuote: jest.fn(),
+        getQuotes: jest.fn(),
+        getHistoricalDataBatch: jest.fn(),
+      };
+      const store = new CandleStore({ directory }, upstream);
+      await store.sync('AAPL', '1d');
+
+      const result = await new AllTimeHighLowService(
+        new TradingDataClient(store, { getNews: jest.fn() })
+      ).calculateAllTimeHighLow('AAPL');
+
+      expect(result.allTimeHigh).toBeCloseTo(114);
+      expect(result.allTimeLow).toBeCloseTo(81);
+    });
+  });
 });
@@ -1,11 +1,18 @@
-import type { TradingDataClient } from '@lc-trading-services/trading-data-client';
+import type { PriceAdjustment, TradingDataClient } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
 import type { AllTimeHighLowResult } from '../types/index.js';
+import { highLow } from '../functions/high-low.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
 
 /**
  * Service for calculating all-time high and low prices
  */
 export class AllTimeHighLowService {
-  constructor(private readonly dataClient: TradingDataClient) {}
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
 
   /**
    * Calculate all-time high and low for a symbol
@@ -27,35 +34,28 @@ export class AllTimeHighLowService {
       startDate,
       endDate,
       interval: '1d',
+      adjustment: this.adjustment,
     });
 
     if (historicalData.length === 0) {
-      throw new Error(`No historical data found for ${symbol}`);
+      throw new InsufficientDataError(`No historical data found for ${symbol}`, {
+        symbol,
+        interval: '1d',
+        required: 1,
+        actual: 0,
+      });
     }
 
-    // Find all-time high and low
-    let allTimeHigh = historicalData[0].high;
-    let allTimeHighDate = historicalData[0].date;
-    let allTimeLow = historicalData[0].low;
-    let allTimeLowDate = historicalData[0].date;
-
-    for (const data of historicalData) {
-      if (data.high > allTimeHigh) {
-        allTimeHigh = data.high;
-        allTimeHighDate = data.date;
-      }
-      if (data.low < allTimeLow) {
-        allTimeLow = data.low;
-        allTimeLowDate = data.date;
-      }
-    }
+    const { high, highDate, low, lowDate } = withSymbolContext({ symbol, interval: '1d' }, () =>
+      highLow(historicalData)
+    );
 
     return {
       symbol,
-      allTimeHigh,
-      allTimeHighDate,
-      allTimeLow,
-      allTimeLowDate,
+      allTimeHigh: high,
+      allTimeHighDate: highDate,
+      allTimeLow: low,
+      allTimeLowDate: lowDate,
       timestamp: new Date(),
     };
   }
@@ -125,5 +125,66 @@ describe('ATRService', () => {
       expect(result).toBeDefined();
       expect(result.atr).toBeGreaterThan(0);
     });
+
+    it('should round to the instrument precision and report pips for currency pairs', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 20 }, (_, i) => ({
+        date: new Date(2024, 0, 1, i),
+        open: 1.1,
+        high: 1.100625,
+        low: 1.099375,
+        close: 1.1,
+        volume: 0,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const eurusd = await atrService.calculateATR('EUR/USD', '1h', 14);
+      const stock = await atrService.calculateATR('AAPL', '1h', 14);
+
+      expect(eurusd.atr).toBe(0.00125);
+      expect(eurusd.pips).toBe(12.5);
+      expect(stock.atr).toBe(0);
+      expect(stock.pips).toBeUndefined();
+    });
+  });
+
+  describe('calculateATRSeries', () => {
+    it('should return one value per candle with null warm-up values', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 20 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const result = await atrService.calculateATRSeries('AAPL', '1d', 14);
+
+      expect(result.period).toBe(14);
+      expect(result.values).toHaveLength(20);
+      expect(result.values.slice(0, 14).every((point) => point.atr === null)).toBe(true);
+      expect(result.values.slice(14).every((point) => point.atr === 10)).toBe(true);
+    });
+
+    it('should end with the same value as calculateATR', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 40 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100 + i,
+        high: 105 + i + (i % 3),
+        low: 95 + i - (i % 4),
+        close: 102 + i,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const series = await atrService.calculateATRSeries('AAPL', '1d');
+      const scalar = await atrService.calculateATR('AAPL', '1d');
+
+      expect(series.values[series.values.length - 1].atr).toBe(scalar.atr);
+    });
   });
 });
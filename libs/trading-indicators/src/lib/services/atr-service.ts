@@ -1,12 +1,21 @@
-import type { TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
-import type { ATRResult } from '../types/index.js';
+import type { PriceAdjustment, TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
+import { getInstrumentRegistry, roundPrice, toPips } from '@lc-trading-services/trading-data-client';
+import type { ATRResult, ATRSeriesResult } from '../types/index.js';
+import { atrSeries } from '../functions/atr.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { priceRounder } from '../utils/precision.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
 
 /**
  * Service for calculating Average True Range (ATR) indicator
  * ATR measures market volatility by decomposing the entire range of an asset price for that period
  */
 export class ATRService {
-  constructor(private readonly dataClient: TradingDataClient) {}
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
 
   /**
    * Calculate Average True Range for a symbol
@@ -22,71 +31,67 @@ export class ATRService {
   ): Promise<ATRResult> {
     // Get historical data - need at least period + 1 data points
     const endDate = new Date();
-    const startDate = new Date();
-    
-    // Calculate start date based on interval to ensure we have enough data
-    const daysNeeded = this.calculateDaysNeeded(interval, period);
-    startDate.setDate(startDate.getDate() - daysNeeded);
+    const startDate = lookbackStartDate(symbol, interval, period * 2, endDate);
 
     const historicalData = await this.dataClient.getHistoricalData({
       symbol,
       startDate,
       endDate,
       interval,
+      adjustment: this.adjustment,
     });
 
-    if (historicalData.length < period + 1) {
-      throw new Error(
-        `Insufficient data for ATR calculation. Need at least ${period + 1} data points, got ${historicalData.length}`
-      );
-    }
-
-    // Calculate True Range for each period
-    const trueRanges: number[] = [];
-    
-    for (let i = 1; i < historicalData.length; i++) {
-      const current = historicalData[i];
-      const previous = historicalData[i - 1];
-      
-      const highLow = current.high - current.low;
-      const highClose = Math.abs(current.high - previous.close);
-      const lowClose = Math.abs(current.low - previous.close);
-      
-      const trueRange = Math.max(highLow, highClose, lowClose);
-      trueRanges.push(trueRange);
-    }
-
-    // Calculate initial ATR (simple average of first 'period' true ranges)
-    let atr = trueRanges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
-
-    // Calculate subsequent ATR values using exponential moving average
-    for (let i = period; i < trueRanges.length; i++) {
-      atr = (atr * (period - 1) + trueRanges[i]) / period;
-    }
+    const series = withSymbolContext({ symbol, interval }, () => atrSeries(historicalData, { period }));
+    const atr = series[series.length - 1] as number;
+    const instrument = getInstrumentRegistry().resolve(symbol);
 
     return {
       symbol,
       interval,
-      atr: Number(atr.toFixed(6)),
+      atr: roundPrice(instrument, atr),
+      pips: instrument.pipSize === undefined ? undefined : toPips(instrument, atr),
       timestamp: new Date(),
     };
   }
 
   /**
-   * Calculate days needed to fetch based on interval
+   * Calculate the full ATR series for a symbol, one value per candle
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval
+   * @param period - ATR period (default: 14)
+   * @param startDate - Start of the series (default: enough history for the period)
+   * @param endDate - End of the series (default: now)
+   * @returns ATR series result with null values during the warm-up period
    */
-  private calculateDaysNeeded(interval: TimeInterval, period: number): number {
-    const multiplier = 2; // Safety multiplier for weekends/holidays
-    
-    switch (interval) {
-      case '1h':
-        // Need period hours, assuming ~6.5 trading hours per day
-        return Math.ceil((period / 6.5) * multiplier);
-      case '1d':
-        // Need period days
-        return period * multiplier;
-      default:
-        return period * multiplier;
-    }
+  async calculateATRSeries(
+    symbol: string,
+    interval: TimeInterval,
+    period = 14,
+    startDate?: Date,
+    endDate: Date = new Date()
+  ): Promise<ATRSeriesResult> {
+    const fromDate = startDate ?? lookbackStartDate(symbol, interval, period * 2, endDate);
+
+    const historicalData = await this.dataClient.getHistoricalData({
+      symbol,
+      startDate: fromDate,
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+
+    const series = withSymbolContext({ symbol, interval }, () => atrSeries(historicalData, { period }));
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      period,
+      values: historicalData.map((data, i) => ({
+        date: data.date,
+        atr: series[i] === null ? null : round(series[i]!),
+      })),
+      timestamp: new Date(),
+    };
   }
 }
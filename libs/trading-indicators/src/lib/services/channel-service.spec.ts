@@ -0,0 +1,108 @@
+import { ChannelService } from './channel-service.js';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('ChannelService', () => {
+  let mockDataClient: jest.Mocked<TradingDataClient>;
+  let channelService: ChannelService;
+
+  const mockData = (length: number, close: (i: number) => number, range = 2): OHLCVData[] =>
+    Array.from({ length }, (_, i) => ({
+      date: new Date(2024, 0, i + 1),
+      open: close(i),
+      high: close(i) + range,
+      low: close(i) - range,
+      close: close(i),
+      volume: 1000000,
+    }));
+
+  beforeEach(() => {
+    mockDataClient = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+    } as unknown as jest.Mocked<TradingDataClient>;
+
+    channelService = new ChannelService(mockDataClient);
+  });
+
+  describe('calculateBollingerBands', () => {
+    it('should calculate rounded bands, bandwidth and %B', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(40, (i) => 100 + (i % 2)));
+
+      const result = await channelService.calculateBollingerBands('AAPL');
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        interval: '1d',
+        period: 20,
+        stdDev: 2,
+        upper: 101.5,
+        middle: 100.5,
+        lower: 99.5,
+        bandwidth: 0.0199,
+        percentB: 0.75,
+        timestamp: expect.any(Date),
+      });
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', interval: '1d', adjustment: 'splits+dividends' })
+      );
+    });
+
+    it('should attach the symbol and interval to insufficient data errors', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(5, () => 100));
+
+      const error = await channelService.calculateBollingerBands('AAPL', 20, 2, '1h').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1h', required: 20, actual: 5 });
+    });
+  });
+
+  describe('calculateKeltnerChannels', () => {
+    it('should calculate channels around the EMA', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(40, () => 1.1, 0.001));
+
+      const result = await channelService.calculateKeltnerChannels('EURUSD');
+
+      expect(result).toMatchObject({
+        symbol: 'EURUSD',
+        period: 20,
+        multiplier: 2,
+        atrPeriod: 10,
+        upper: 1.104,
+        middle: 1.1,
+        lower: 1.096,
+      });
+    });
+  });
+
+  describe('calculateDonchianChannels', () => {
+    it('should calculate the rolling high and low of the period', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(30, (i) => 100 + i));
+
+      const result = await channelService.calculateDonchianChannels('AAPL', 10, '1h');
+
+      expect(result).toMatchObject({ interval: '1h', period: 10, upper: 131, middle: 124.5, lower: 118 });
+    });
+  });
+
+  describe('detectSqueeze', () => {
+    it('should report a squeeze and how long it lasted', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(30, () => 100, 5));
+
+      const result = await channelService.detectSqueeze('AAPL');
+
+      expect(result).toMatchObject({ symbol: 'AAPL', interval: '1d', squeeze: true, bars: 10, released: false });
+      expect(result.bollinger).toEqual({ upper: 100, lower: 100 });
+      expect(result.keltner.upper).toBeGreaterThan(100);
+    });
+
+    it('should report no squeeze in a trending market', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(60, (i) => 100 + i * 3, 1));
+
+      const result = await channelService.detectSqueeze('AAPL', '1d', { keltner: { multiplier: 1 } });
+
+      expect(result).toMatchObject({ squeeze: false, bars: 0, released: false });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import type { OHLCVData, PriceAdjustment, TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
+import type {
+  BollingerBandsResult,
+  DonchianChannelsResult,
+  KeltnerChannelsResult,
+  SqueezeResult,
+} from '../types/index.js';
+import { bollingerBands } from '../functions/bollinger-bands.js';
+import { keltnerChannels } from '../functions/keltner-channels.js';
+import { donchianChannels } from '../functions/donchian-channels.js';
+import { squeeze, type SqueezeOptions } from '../functions/squeeze.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { priceRounder } from '../utils/precision.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
+
+/**
+ * Service for calculating volatility envelopes: Bollinger Bands, Keltner Channels and Donchian Channels
+ * Also detects squeezes, in which the Bollinger Bands contract inside the Keltner Channels
+ */
+export class ChannelService {
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
+
+  /**
+   * Calculate Bollinger Bands for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - Moving average period (default: 20)
+   * @param stdDev - Band width in standard deviations (default: 2)
+   * @param interval - Time interval (default: '1d')
+   * @returns Bollinger Bands result
+   */
+  async calculateBollingerBands(
+    symbol: string,
+    period = 20,
+    stdDev = 2,
+    interval: TimeInterval = '1d'
+  ): Promise<BollingerBandsResult> {
+    const historicalData = await this.fetch(symbol, interval, period * 2);
+
+    const bands = withSymbolContext({ symbol, interval }, () => bollingerBands(historicalData, { period, stdDev }));
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      period,
+      stdDev,
+      upper: round(bands.upper),
+      middle: round(bands.middle),
+      lower: round(bands.lower),
+      bandwidth: Number(bands.bandwidth.toFixed(4)),
+      percentB: Number(bands.percentB.toFixed(4)),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Calculate Keltner Channels for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - EMA period of the middle line (default: 20)
+   * @param multiplier - Channel width in ATRs (default: 2)
+   * @param atrPeriod - ATR period (default: 10)
+   * @param interval - Time interval (default: '1d')
+   * @returns Keltner Channels result
+   */
+  async calculateKeltnerChannels(
+    symbol: string,
+    period = 20,
+    multiplier = 2,
+    atrPeriod = 10,
+    interval: TimeInterval = '1d'
+  ): Promise<KeltnerChannelsResult> {
+    const historicalData = await this.fetch(symbol, interval, Math.max(period, atrPeriod + 1) * 2);
+
+    const channels = withSymbolContext({ symbol, interval }, () =>
+      keltnerChannels(historicalData, { period, atrPeriod, multiplier })
+    );
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      period,
+      multiplier,
+      atrPeriod,
+      upper: round(channels.upper),
+      middle: round(channels.middle),
+      lower: round(channels.lower),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Calculate Donchian Channels for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - Number of candles of the rolling high and low (default: 20)
+   * @param interval - Time interval (default: '1d')
+   * @returns Donchian Channels result
+   */
+  async calculateDonchianChannels(
+    symbol: string,
+    period = 20,
+    interval: TimeInterval = '1d'
+  ): Promise<DonchianChannelsResult> {
+    const historicalData = await this.fetch(symbol, interval, period * 2);
+
+    const channels = withSymbolContext({ symbol, interval }, () => donchianChannels(historicalData, { period }));
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      period,
+      upper: round(channels.upper),
+      middle: round(channels.middle),
+      lower: round(channels.lower),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Detect a squeeze: Bollinger Bands inside Keltner Channels on the last candle
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - Bollinger Bands and Keltner Channels options (default: BB 20/2, KC 20/1.5 ATR 20)
+   * @returns Squeeze state, the number of candles it lasted and the bands of the last candle
+   */
+  async detectSqueeze(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: SqueezeOptions = {}
+  ): Promise<SqueezeResult> {
+    const warmUp = Math.max(
+      options.bollinger?.period ?? 20,
+      options.keltner?.period ?? 20,
+      (options.keltner?.atrPeriod ?? 20) + 1
+    );
+    // Extra history so the duration of a squeeze can be counted
+    const historicalData = await this.fetch(symbol, interval, warmUp * 3);
+
+    const value = withSymbolContext({ symbol, interval }, () => squeeze(historicalData, options));
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      squeeze: value.squeeze,
+      bars: value.bars,
+      released: value.released,
+      bollinger: { upper: round(value.bollinger.upper), lower: round(value.bollinger.lower) },
+      keltner: { upper: round(value.keltner.upper), lower: round(value.keltner.lower) },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fetch the candles needed for a number of bars up to now
+   */
+  private fetch(symbol: string, interval: TimeInterval, bars: number): Promise<OHLCVData[]> {
+    const endDate = new Date();
+    return this.dataClient.getHistoricalData({
+      symbol,
+      startDate: lookbackStartDate(symbol, interval, bars, endDate),
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { EMAService } from './ema-service.js';
 import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
 
 describe('EMAService', () => {
   let mockDataClient: jest.Mocked<TradingDataClient>;
@@ -110,6 +111,23 @@ describe('EMAService', () => {
       );
     });
 
+    it('should throw InsufficientDataError with symbol and counts', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 10 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 102,
+        volume: 1000000,
+      }));
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const error = await emaService.calculateEMA('AAPL', 20, '1h').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1h', required: 20, actual: 10 });
+    });
+
     it('should calculate EMA with custom interval', async () => {
       const mockData: OHLCVData[] = Array.from({ length: 50 }, (_, i) => ({
         date: new Date(2024, 0, 1, i),
@@ -245,4 +263,94 @@ describe('EMAService', () => {
       expect(result.ema).toBeGreaterThan(115);
     });
   });
+
+  describe('calculateEMASeries', () => {
+    it('should return one value per candle with null warm-up values', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 30 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + i * 0.5,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const result = await emaService.calculateEMASeries('AAPL', 9);
+
+      expect(result.symbol).toBe('AAPL');
+      expect(result.period).toBe(9);
+      expect(result.interval).toBe('1d');
+      expect(result.values).toHaveLength(30);
+      expect(result.values.slice(0, 8).every((point) => point.ema === null)).toBe(true);
+      expect(result.values[8].ema).toBeCloseTo(102, 6);
+      expect(result.values[29].date).toEqual(mockData[29].date);
+    });
+
+    it('should end with the same value as calculateEMA', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 60 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + Math.sin(i / 5) * 5,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const series = await emaService.calculateEMASeries('AAPL', 20);
+      const scalar = await emaService.calculateEMA('AAPL', 20);
+
+      expect(series.values[series.values.length - 1].ema).toBe(scalar.ema);
+    });
+
+    it('should use the provided date range', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 10 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100,
+        volume: 1000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const startDate = new Date('2024-01-01');
+      const endDate = new Date('2024-01-31');
+      await emaService.calculateEMASeries('AAPL', 5, '1h', startDate, endDate);
+
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith({
+        symbol: 'AAPL',
+        startDate,
+        endDate,
+        interval: '1h',
+        adjustment: 'splits+dividends',
+      });
+    });
+
+    it('should size the default range with the trading calendar of the symbol', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue([]);
+      const endDate = new Date('2024-01-17T21:00:00Z');
+
+      await emaService.calculateEMASeries('AAPL', 5, '1h', undefined, endDate).catch(() => undefined);
+      await emaService.calculateEMASeries('EURUSD', 5, '1h', undefined, endDate).catch(() => undefined);
+
+      // 10 hourly bars: NYSE has 7 per session, FX trades around the clock
+      expect(mockDataClient.getHistoricalData.mock.calls.map(([params]) => params.startDate)).toEqual([
+        new Date('2024-01-16T18:30:00Z'),
+        new Date('2024-01-17T12:00:00Z'),
+      ]);
+    });
+
+    it('should throw error with insufficient data', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue([]);
+
+      await expect(emaService.calculateEMASeries('AAPL', 20)).rejects.toThrow(
+        /Insufficient data for EMA calculation/
+      );
+    });
+  });
 });
@@ -1,12 +1,21 @@
-import type { TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
-import type { EMAResult } from '../types/index.js';
+import type { PriceAdjustment, TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { EMAResult, EMASeriesResult } from '../types/index.js';
+import { computeEMASeries, emaSeries } from '../functions/ema.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { priceRounder } from '../utils/precision.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
 
 /**
  * Service for calculating Exponential Moving Average (EMA) indicator
  * EMA gives more weight to recent prices, making it more responsive to new information
  */
 export class EMAService {
-  constructor(private readonly dataClient: TradingDataClient) {}
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
 
   /**
    * Calculate EMA for a symbol
@@ -22,34 +31,24 @@ export class EMAService {
   ): Promise<EMAResult> {
     // Get historical data - need at least period * 2 for accuracy
     const endDate = new Date();
-    const startDate = new Date();
-    
-    const daysNeeded = this.calculateDaysNeeded(interval, period);
-    startDate.setDate(startDate.getDate() - daysNeeded);
+    const startDate = lookbackStartDate(symbol, interval, period * 2, endDate);
 
     const historicalData = await this.dataClient.getHistoricalData({
       symbol,
       startDate,
       endDate,
       interval,
+      adjustment: this.adjustment,
     });
 
-    if (historicalData.length < period) {
-      throw new Error(
-        `Insufficient data for EMA calculation. Need at least ${period} data points, got ${historicalData.length}`
-      );
-    }
-
-    // Extract closing prices
-    const prices = historicalData.map((data) => data.close);
-
-    // Calculate EMA
-    const ema = this.computeEMA(prices, period);
+    const series = withSymbolContext({ symbol, interval }, () => emaSeries(historicalData, { period }));
+    const ema = series[series.length - 1] as number;
+    const round = priceRounder(symbol);
 
     return {
       symbol,
       period,
-      ema: Number(ema.toFixed(6)),
+      ema: round(ema),
       timestamp: new Date(),
     };
   }
@@ -70,35 +69,76 @@ export class EMAService {
     
     // Get historical data once for all calculations
     const endDate = new Date();
-    const startDate = new Date();
-    
-    const daysNeeded = this.calculateDaysNeeded(interval, maxPeriod);
-    startDate.setDate(startDate.getDate() - daysNeeded);
+    const startDate = lookbackStartDate(symbol, interval, maxPeriod * 2, endDate);
 
     const historicalData = await this.dataClient.getHistoricalData({
       symbol,
       startDate,
       endDate,
       interval,
+      adjustment: this.adjustment,
     });
 
     if (historicalData.length < maxPeriod) {
-      throw new Error(
-        `Insufficient data for EMA calculation. Need at least ${maxPeriod} data points, got ${historicalData.length}`
+      throw new InsufficientDataError(
+        `Insufficient data for EMA calculation. Need at least ${maxPeriod} data points, got ${historicalData.length}`,
+        { symbol, interval, required: maxPeriod, actual: historicalData.length }
       );
     }
 
     const prices = historicalData.map((data) => data.close);
     const timestamp = new Date();
+    const round = priceRounder(symbol);
 
     return periods.map((period) => ({
       symbol,
       period,
-      ema: Number(this.computeEMA(prices, period).toFixed(6)),
+      ema: round(this.computeEMA(prices, period)),
       timestamp,
     }));
   }
 
+  /**
+   * Calculate the full EMA series for a symbol, one value per candle
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param period - EMA period (e.g., 9, 20, 50, 200)
+   * @param interval - Time interval (default: '1d')
+   * @param startDate - Start of the series (default: enough history for the period)
+   * @param endDate - End of the series (default: now)
+   * @returns EMA series result with null values during the warm-up period
+   */
+  async calculateEMASeries(
+    symbol: string,
+    period: number,
+    interval: TimeInterval = '1d',
+    startDate?: Date,
+    endDate: Date = new Date()
+  ): Promise<EMASeriesResult> {
+    const fromDate = startDate ?? lookbackStartDate(symbol, interval, period * 2, endDate);
+
+    const historicalData = await this.dataClient.getHistoricalData({
+      symbol,
+      startDate: fromDate,
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+
+    const series = withSymbolContext({ symbol, interval }, () => emaSeries(historicalData, { period }));
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      period,
+      interval,
+      values: historicalData.map((data, i) => ({
+        date: data.date,
+        ema: series[i] === null ? null : round(series[i]!),
+      })),
+      timestamp: new Date(),
+    };
+  }
+
   /**
    * Compute EMA from price array
    * @param prices - Array of prices
@@ -106,52 +146,17 @@ export class EMAService {
    * @returns EMA value
    */
   public computeEMA(prices: number[], period: number): number {
-    if (prices.length < period) {
-      throw new Error(`Not enough prices for EMA calculation`);
-    }
-
-    // Calculate initial SMA (Simple Moving Average)
-    const initialSMA = prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
-    
-    // Calculate multiplier: (2 / (period + 1))
-    const multiplier = 2 / (period + 1);
-    
-    // Start with SMA as the first EMA value
-    let ema = initialSMA;
-    
-    // Calculate EMA for remaining prices
-    for (let i = period; i < prices.length; i++) {
-      ema = (prices[i] - ema) * multiplier + ema;
-    }
-    
-    return ema;
+    const series = this.computeEMASeries(prices, period);
+    return series[series.length - 1] as number;
   }
 
   /**
-   * Calculate days needed to fetch based on interval
+   * Compute the EMA series from a price array
+   * @param prices - Array of prices
+   * @param period - EMA period
+   * @returns EMA values aligned with prices (null for the first period - 1 entries)
    */
-  private calculateDaysNeeded(interval: TimeInterval, period: number): number {
-    // Use period * 2 for better accuracy
-    const multiplier = 3; // Safety multiplier for weekends/holidays
-    
-    switch (interval) {
-      case '1m':
-      case '2m':
-      case '5m':
-      case '15m':
-      case '30m':
-        // For minute intervals, we need more calendar days to get enough data points
-        return Math.min(7, period * multiplier); // Max 7 days for intraday
-      case '1h':
-        return Math.ceil((period / 6.5) * multiplier);
-      case '1d':
-        return period * multiplier;
-      case '1wk':
-        return period * 7 * multiplier;
-      case '1mo':
-        return period * 30 * multiplier;
-      default:
-        return period * multiplier;
-    }
+  public computeEMASeries(prices: number[], period: number): Array<number | null> {
+    return computeEMASeries(prices, period);
   }
 }
@@ -0,0 +1,130 @@
+import { IchimokuService } from './ichimoku-service.js';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('IchimokuService', () => {
+  let mockDataClient: jest.Mocked<TradingDataClient>;
+  let ichimokuService: IchimokuService;
+
+  const mockData = (closes: number[], start = Date.UTC(2024, 0, 1), step = 24 * 60 * 60 * 1000): OHLCVData[] =>
+    closes.map((close, i) => ({
+      date: new Date(start + i * step),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000000,
+    }));
+
+  const flat = (length: number) => new Array<number>(length).fill(100);
+
+  beforeEach(() => {
+    mockDataClient = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+    } as unknown as jest.Mocked<TradingDataClient>;
+
+    ichimokuService = new IchimokuService(mockDataClient);
+  });
+
+  describe('calculateIchimoku', () => {
+    it('should report a bullish cloud below a rising price', async () => {
+      // 100 daily candles up to Tuesday 2024-04-09
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 100 }, (_, i) => 100 + i)));
+
+      const result = await ichimokuService.calculateIchimoku('AAPL');
+
+      expect(result).toMatchObject({
+        symbol: 'AAPL',
+        interval: '1d',
+        conversionPeriod: 9,
+        basePeriod: 26,
+        spanBPeriod: 52,
+        displacement: 26,
+        price: 199,
+        tenkan: 195,
+        kijun: 186.5,
+        senkouA: 164.75,
+        senkouB: 147.5,
+        chikou: 199,
+        cloudColor: 'bullish',
+        cloudThickness: 17.25,
+        pricePosition: 'above',
+        tkCross: 'none',
+        kumoBreakout: 'none',
+      });
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', interval: '1d', adjustment: 'splits+dividends' })
+      );
+    });
+
+    it('should date the future cloud with the trading calendar', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 100 }, (_, i) => 100 + i)));
+
+      const { futureCloud } = await ichimokuService.calculateIchimoku('AAPL');
+
+      expect(futureCloud).toHaveLength(26);
+      expect(futureCloud[0]).toEqual({
+        date: new Date('2024-04-10T00:00:00Z'),
+        senkouA: 165.75,
+        senkouB: 148.5,
+        color: 'bullish',
+      });
+      // Friday is followed by Monday
+      expect(futureCloud[3].date).toEqual(new Date('2024-04-15T00:00:00Z'));
+      expect(futureCloud.every(({ date }) => date.getUTCDay() !== 0 && date.getUTCDay() !== 6)).toBe(true);
+    });
+
+    it('should project intraday clouds into the next sessions', async () => {
+      // Last hourly candle starts 15:30 New York, the last bar of the session
+      const start = Date.UTC(2024, 3, 9, 19, 30) - 99 * 60 * 60 * 1000;
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(flat(100), start, 60 * 60 * 1000));
+
+      const result = await ichimokuService.calculateIchimoku('AAPL', '1h');
+
+      expect(result.interval).toBe('1h');
+      expect(result.futureCloud[0].date).toEqual(new Date('2024-04-10T13:30:00Z'));
+      expect(result.futureCloud[7].date).toEqual(new Date('2024-04-11T13:30:00Z'));
+    });
+
+    it('should report a TK cross when the Tenkan rises above the Kijun', async () => {
+      // A dip that leaves the Tenkan window but stays in the Kijun window
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([...flat(80), 90, ...flat(9)]));
+
+      const result = await ichimokuService.calculateIchimoku('AAPL');
+
+      expect(result.tenkan).toBe(100);
+      expect(result.kijun).toBe(95);
+      expect(result.tkCross).toBe('bullish');
+      expect(result.pricePosition).toBe('inside');
+    });
+
+    it('should report a Kumo breakout when the close leaves the cloud', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([...flat(90), 110]));
+
+      const result = await ichimokuService.calculateIchimoku('AAPL');
+
+      expect(result.pricePosition).toBe('above');
+      expect(result.kumoBreakout).toBe('bullish');
+      expect(result.cloudThickness).toBe(0);
+    });
+
+    it('should report a bearish cloud above a falling price', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 100 }, (_, i) => 300 - i)));
+
+      const result = await ichimokuService.calculateIchimoku('AAPL');
+
+      expect(result.cloudColor).toBe('bearish');
+      expect(result.pricePosition).toBe('below');
+    });
+
+    it('should attach the symbol and interval to insufficient data errors', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([1, 2, 3]));
+
+      const error = await ichimokuService.calculateIchimoku('AAPL').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1d', required: 78, actual: 3 });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  calendarForSymbol,
+  type PriceAdjustment,
+  type TradingDataClient,
+  type TimeInterval,
+} from '@lc-trading-services/trading-data-client';
+import type { IchimokuResult } from '../types/index.js';
+import {
+  cloudColor,
+  cloudPosition,
+  ichimoku,
+  ichimokuSeries,
+  kumoBreakout,
+  type IchimokuOptions,
+} from '../functions/ichimoku.js';
+import { lineCrossover } from '../functions/oscillator-signals.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { priceRounder } from '../utils/precision.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
+
+/**
+ * Service for calculating the Ichimoku Kinko Hyo cloud
+ * The projected cloud is dated with the trading calendar of the symbol, so it skips weekends,
+ * holidays and closed hours for every interval
+ */
+export class IchimokuService {
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
+
+  /**
+   * Calculate the Ichimoku lines, cloud and signals for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - Periods and displacement (default: 9 / 26 / 52, displaced 26)
+   * @returns Ichimoku result with the cloud at the last candle, TK cross, Kumo breakout and future cloud
+   */
+  async calculateIchimoku(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: IchimokuOptions = {}
+  ): Promise<IchimokuResult> {
+    const { conversionPeriod = 9, basePeriod = 26, spanBPeriod = 52, displacement = 26 } = options;
+    const requiredBars = Math.max(conversionPeriod, basePeriod, spanBPeriod) + displacement;
+
+    // Twice the required bars leaves room for gaps in the data source
+    const endDate = new Date();
+    const historicalData = await this.dataClient.getHistoricalData({
+      symbol,
+      startDate: lookbackStartDate(symbol, interval, requiredBars * 2, endDate),
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+
+    const { series, latest } = withSymbolContext({ symbol, interval }, () => ({
+      series: ichimokuSeries(historicalData, options),
+      latest: ichimoku(historicalData, options),
+    }));
+    const previous = series[series.length - 2];
+    const price = historicalData[historicalData.length - 1].close;
+    const previousPrice = historicalData[historicalData.length - 2].close;
+    const futureDates = calendarForSymbol(symbol).nextBars(
+      historicalData[historicalData.length - 1].date,
+      displacement,
+      interval
+    );
+    const round = priceRounder(symbol);
+
+    return {
+      symbol,
+      interval,
+      conversionPeriod,
+      basePeriod,
+      spanBPeriod,
+      displacement,
+      price: round(price),
+      tenkan: round(latest.tenkan),
+      kijun: round(latest.kijun),
+      senkouA: round(latest.senkouA),
+      senkouB: round(latest.senkouB),
+      chikou: round(latest.chikou),
+      cloudColor: cloudColor(latest.senkouA, latest.senkouB),
+      cloudThickness: round(Math.abs(latest.senkouA - latest.senkouB)),
+      pricePosition: cloudPosition(price, latest.senkouA, latest.senkouB),
+      tkCross: lineCrossover(
+        { line: previous.tenkan, signal: previous.kijun },
+        { line: latest.tenkan, signal: latest.kijun }
+      ),
+      kumoBreakout: kumoBreakout(
+        previous.senkouA === null || previous.senkouB === null
+          ? null
+          : cloudPosition(previousPrice, previous.senkouA, previous.senkouB),
+        cloudPosition(price, latest.senkouA, latest.senkouB)
+      ),
+      futureCloud: latest.futureCloud.map((cloud, i) => ({
+        date: futureDates[i],
+        senkouA: round(cloud.senkouA),
+        senkouB: round(cloud.senkouB),
+        color: cloudColor(cloud.senkouA, cloud.senkouB),
+      })),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -308,4 +308,59 @@ describe('MACDService', () => {
       expect(typeof result.histogram).toBe('number');
     });
   });
+
+  describe('calculateMACDSeries', () => {
+    it('should return one value per candle with null warm-up values', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 60 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + Math.sin(i / 6) * 4,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const result = await macdService.calculateMACDSeries('AAPL');
+
+      expect(result.interval).toBe('1d');
+      expect(result.values).toHaveLength(60);
+      expect(result.values[24].macd).toBeNull();
+      expect(result.values[25].macd).not.toBeNull();
+      expect(result.values[32].signal).toBeNull();
+      expect(result.values[33].signal).not.toBeNull();
+      // Each value is rounded to cents on its own, so the histogram may differ by one cent
+      expect(
+        Math.abs(result.values[33].histogram! - (result.values[33].macd! - result.values[33].signal!))
+      ).toBeLessThanOrEqual(0.01 + 1e-9);
+    });
+
+    it('should end with the same values as calculateMACD', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 120 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + Math.sin(i / 10) * 10 + i * 0.05,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const series = await macdService.calculateMACDSeries('AAPL');
+      const scalar = await macdService.calculateMACD('AAPL');
+      const last = series.values[series.values.length - 1];
+
+      expect(last.macd).toBe(scalar.macd);
+      expect(last.signal).toBe(scalar.signal);
+      expect(last.histogram).toBeCloseTo(scalar.histogram, 5);
+    });
+
+    it('should throw error when fast period is not less than slow period', async () => {
+      await expect(macdService.calculateMACDSeries('AAPL', 26, 12)).rejects.toThrow(
+        'Fast period must be less than slow period'
+      );
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { OscillatorService } from './oscillator-service.js';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
+import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('OscillatorService', () => {
+  let mockDataClient: jest.Mocked<TradingDataClient>;
+  let oscillatorService: OscillatorService;
+
+  const mockData = (closes: number[], volume = 1000000): OHLCVData[] =>
+    closes.map((close, i) => ({
+      date: new Date(2024, 0, i + 1),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume,
+    }));
+
+  beforeEach(() => {
+    mockDataClient = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+    } as unknown as jest.Mocked<TradingDataClient>;
+
+    oscillatorService = new OscillatorService(mockDataClient);
+  });
+
+  describe('calculateStochastic', () => {
+    it('should return %K, %D and an overbought signal in an uptrend', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 40 }, (_, i) => 100 + i)));
+
+      const result = await oscillatorService.calculateStochastic('AAPL');
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        indicator: 'stochastic',
+        variant: 'slow',
+        period: 14,
+        interval: '1d',
+        value: result.k,
+        k: expect.any(Number),
+        d: expect.any(Number),
+        signal: 'overbought',
+        crossover: 'none',
+        thresholds: { overbought: 80, oversold: 20 },
+        timestamp: expect.any(Date),
+      });
+      expect(result.k).toBeGreaterThanOrEqual(80);
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', interval: '1d', adjustment: 'splits+dividends' })
+      );
+    });
+
+    it('should report %K crossing below %D', async () => {
+      const closes = [...Array.from({ length: 30 }, (_, i) => 100 + i), 120];
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(closes));
+
+      const result = await oscillatorService.calculateStochastic('AAPL', '1h', { variant: 'fast' });
+
+      expect(result.variant).toBe('fast');
+      expect(result.k).toBeLessThan(result.d);
+      expect(result.crossover).toBe('bearish');
+    });
+  });
+
+  describe('calculateStochasticRSI', () => {
+    it('should calculate the Stochastic RSI with custom thresholds', async () => {
+      const closes = Array.from({ length: 80 }, (_, i) => 100 + Math.sin(i / 4) * 5);
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(closes));
+
+      const result = await oscillatorService.calculateStochasticRSI('AAPL', '1d', {}, { overbought: 90 });
+
+      expect(result.indicator).toBe('stochasticRSI');
+      expect(result.thresholds).toEqual({ overbought: 90, oversold: 20 });
+      expect(result.value).toBeGreaterThanOrEqual(0);
+      expect(result.value).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe('calculateWilliamsR', () => {
+    it('should flag oversold values and apply custom thresholds', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 30 }, (_, i) => 200 - i)));
+
+      const defaults = await oscillatorService.calculateWilliamsR('AAPL');
+      const custom = await oscillatorService.calculateWilliamsR('AAPL', '1d', {}, { oversold: -99 });
+
+      expect(defaults).toMatchObject({ indicator: 'williamsR', period: 14, signal: 'oversold' });
+      expect(defaults.value).toBeLessThanOrEqual(-80);
+      expect(custom.signal).toBe('neutral');
+    });
+
+    it('should report leaving the oversold zone as a bullish crossover', async () => {
+      const closes = [...Array.from({ length: 20 }, (_, i) => 200 - i), 190];
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(closes));
+
+      const result = await oscillatorService.calculateWilliamsR('AAPL');
+
+      expect(result.crossover).toBe('bullish');
+    });
+  });
+
+  describe('calculateCCI', () => {
+    it('should calculate CCI with its default thresholds', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 40 }, (_, i) => 100 + i)));
+
+      const result = await oscillatorService.calculateCCI('AAPL');
+
+      expect(result).toMatchObject({ indicator: 'cci', period: 20, signal: 'overbought' });
+      expect(result.thresholds).toEqual({ overbought: 100, oversold: -100 });
+    });
+  });
+
+  describe('calculateMFI', () => {
+    it('should stay neutral at 50 for symbols without volume', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData(Array.from({ length: 30 }, (_, i) => 1.1 + i / 1000), 0));
+
+      const result = await oscillatorService.calculateMFI('EURUSD');
+
+      expect(result).toMatchObject({ indicator: 'mfi', value: 50, signal: 'neutral', crossover: 'none' });
+    });
+
+    it('should attach the symbol and interval to insufficient data errors', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([1, 2, 3]));
+
+      const error = await oscillatorService.calculateMFI('AAPL', '1h').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'AAPL', interval: '1h', required: 15, actual: 3 });
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import type { OHLCVData, PriceAdjustment, TradingDataClient, TimeInterval } from '@lc-trading-services/trading-data-client';
+import type { OscillatorName, OscillatorResult, StochasticResult } from '../types/index.js';
+import {
+  lineCrossover,
+  oscillatorSignal,
+  thresholdCrossover,
+  type OscillatorThresholds,
+} from '../functions/oscillator-signals.js';
+import {
+  STOCHASTIC_THRESHOLDS,
+  stochasticRSISeries,
+  stochasticSeries,
+  type StochasticOptions,
+  type StochasticRSIOptions,
+  type StochasticSeriesValue,
+} from '../functions/stochastic.js';
+import { WILLIAMS_R_THRESHOLDS, williamsRSeries, type WilliamsROptions } from '../functions/williams-r.js';
+import { CCI_THRESHOLDS, cciSeries, type CCIOptions } from '../functions/cci.js';
+import { MFI_THRESHOLDS, mfiSeries, type MFIOptions } from '../functions/mfi.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { lookbackStartDate } from '../utils/lookback.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
+
+/**
+ * Round an oscillator value like RSI values
+ */
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Service for calculating momentum oscillators: Stochastic (fast, slow, full), Stochastic RSI,
+ * Williams %R, CCI and Money Flow Index
+ * Every result has the shape of OscillatorResult, with configurable overbought and oversold
+ * levels and the crossover on the last candle
+ */
+export class OscillatorService {
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
+
+  /**
+   * Calculate the Stochastic Oscillator for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - Variant and periods (default: slow 14/3/3)
+   * @param thresholds - Overbought and oversold levels (default: 80 / 20)
+   * @returns Stochastic result; the crossover is %K crossing %D
+   */
+  async calculateStochastic(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: StochasticOptions = {},
+    thresholds: Partial<OscillatorThresholds> = {}
+  ): Promise<StochasticResult> {
+    const { variant = 'slow', kPeriod = 14, kSmoothing = 3, dPeriod = 3 } = options;
+    const historicalData = await this.fetch(symbol, interval, (kPeriod + kSmoothing + dPeriod) * 2);
+
+    const series = withSymbolContext({ symbol, interval }, () => stochasticSeries(historicalData, options));
+
+    return {
+      ...this.stochasticResult(symbol, 'stochastic', kPeriod, interval, series, thresholds),
+      variant,
+    };
+  }
+
+  /**
+   * Calculate the Stochastic RSI for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - RSI, stochastic and smoothing periods (default: 14/14/3/3)
+   * @param thresholds - Overbought and oversold levels (default: 80 / 20)
+   * @returns Stochastic RSI result (0-100); the crossover is %K crossing %D
+   */
+  async calculateStochasticRSI(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: StochasticRSIOptions = {},
+    thresholds: Partial<OscillatorThresholds> = {}
+  ): Promise<StochasticResult> {
+    const { rsiPeriod = 14, stochPeriod = 14, kSmoothing = 3, dPeriod = 3 } = options;
+    const historicalData = await this.fetch(symbol, interval, (rsiPeriod + stochPeriod + kSmoothing + dPeriod) * 2);
+
+    const series = withSymbolContext({ symbol, interval }, () => stochasticRSISeries(historicalData, options));
+
+    return this.stochasticResult(symbol, 'stochasticRSI', rsiPeriod, interval, series, thresholds);
+  }
+
+  /**
+   * Calculate Williams %R for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - Lookback period (default: 14)
+   * @param thresholds - Overbought and oversold levels (default: -20 / -80)
+   * @returns Williams %R result (-100 to 0)
+   */
+  async calculateWilliamsR(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: WilliamsROptions = {},
+    thresholds: Partial<OscillatorThresholds> = {}
+  ): Promise<OscillatorResult> {
+    const { period = 14 } = options;
+    const historicalData = await this.fetch(symbol, interval, period * 2);
+
+    const series = withSymbolContext({ symbol, interval }, () => williamsRSeries(historicalData, options));
+
+    return this.result(symbol, 'williamsR', period, interval, series, { ...WILLIAMS_R_THRESHOLDS, ...thresholds });
+  }
+
+  /**
+   * Calculate the Commodity Channel Index for a symbol
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - CCI period (default: 20)
+   * @param thresholds - Overbought and oversold levels (default: 100 / -100)
+   * @returns CCI result
+   */
+  async calculateCCI(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: CCIOptions = {},
+    thresholds: Partial<OscillatorThresholds> = {}
+  ): Promise<OscillatorResult> {
+    const { period = 20 } = options;
+    const historicalData = await this.fetch(symbol, interval, period * 2);
+
+    const series = withSymbolContext({ symbol, interval }, () => cciSeries(historicalData, options));
+
+    return this.result(symbol, 'cci', period, interval, series, { ...CCI_THRESHOLDS, ...thresholds });
+  }
+
+  /**
+   * Calculate the Money Flow Index for a symbol
+   * Symbols without volume (e.g. currency pairs) have no money flow and stay at 50
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Time interval (default: '1d')
+   * @param options - MFI period (default: 14)
+   * @param thresholds - Overbought and oversold levels (default: 80 / 20)
+   * @returns MFI result (0-100)
+   */
+  async calculateMFI(
+    symbol: string,
+    interval: TimeInterval = '1d',
+    options: MFIOptions = {},
+    thresholds: Partial<OscillatorThresholds> = {}
+  ): Promise<OscillatorResult> {
+    const { period = 14 } = options;
+    const historicalData = await this.fetch(symbol, interval, period * 2);
+
+    const series = withSymbolContext({ symbol, interval }, () => mfiSeries(historicalData, options));
+
+    return this.result(symbol, 'mfi', period, interval, series, { ...MFI_THRESHOLDS, ...thresholds });
+  }
+
+  /**
+   * Result of a single-line oscillator; the crossover is leaving the overbought or oversold zone
+   */
+  private result(
+    symbol: string,
+    indicator: OscillatorName,
+    period: number,
+    interval: TimeInterval,
+    series: Array<number | null>,
+    thresholds: OscillatorThresholds
+  ): OscillatorResult {
+    const value = series[series.length - 1] as number;
+
+    return {
+      symbol,
+      indicator,
+      period,
+      interval,
+      value: round(value),
+      signal: oscillatorSignal(value, thresholds),
+      crossover: thresholdCrossover(series[series.length - 2] ?? null, value, thresholds),
+      thresholds,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Result of a %K/%D oscillator; the signal is based on %K
+   */
+  private stochasticResult(
+    symbol: string,
+    indicator: 'stochastic' | 'stochasticRSI',
+    period: number,
+    interval: TimeInterval,
+    series: StochasticSeriesValue[],
+    thresholds: Partial<OscillatorThresholds>
+  ): StochasticResult {
+    const levels = { ...STOCHASTIC_THRESHOLDS, ...thresholds };
+    const current = series[series.length - 1];
+    const previous = series[series.length - 2];
+    const k = current.k as number;
+    const d = current.d as number;
+
+    return {
+      symbol,
+      indicator,
+      period,
+      interval,
+      value: round(k),
+      k: round(k),
+      d: round(d),
+      signal: oscillatorSignal(k, levels),
+      crossover: lineCrossover(
+        { line: previous?.k ?? null, signal: previous?.d ?? null },
+        { line: k, signal: d }
+      ),
+      thresholds: levels,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fetch the candles needed for a number of bars up to now
+   */
+  private fetch(symbol: string, interval: TimeInterval, bars: number): Promise<OHLCVData[]> {
+    const endDate = new Date();
+    return this.dataClient.getHistoricalData({
+      symbol,
+      startDate: lookbackStartDate(symbol, interval, bars, endDate),
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+  }
+}
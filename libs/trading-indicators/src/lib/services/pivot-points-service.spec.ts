@@ -50,13 +50,14 @@ describe('PivotPointsService', () => {
       expect(result).toBeDefined();
       expect(result.symbol).toBe('AAPL');
       expect(result.interval).toBe('1d');
-      expect(result.pivotPoint).toBeCloseTo(101.666667, 4);
-      expect(result.r1).toBeCloseTo(113.333333, 4);
-      expect(result.r2).toBeCloseTo(121.666667, 4);
-      expect(result.r3).toBeCloseTo(133.333333, 4);
-      expect(result.s1).toBeCloseTo(93.333333, 4);
-      expect(result.s2).toBeCloseTo(81.666667, 4);
-      expect(result.s3).toBeCloseTo(73.333333, 4);
+      // Levels are rounded to the cent precision of the stock
+      expect(result.pivotPoint).toBe(101.67);
+      expect(result.r1).toBe(113.33);
+      expect(result.r2).toBe(121.67);
+      expect(result.r3).toBe(133.33);
+      expect(result.s1).toBe(93.33);
+      expect(result.s2).toBe(81.67);
+      expect(result.s3).toBe(73.33);
       expect(result.previousHigh).toBe(110);
       expect(result.previousLow).toBe(90);
       expect(result.previousClose).toBe(105);
@@ -205,7 +206,7 @@ describe('PivotPointsService', () => {
 
       expect(result).toBeDefined();
       expect(result.symbol).toBe('BTC-USD');
-      expect(result.pivotPoint).toBeCloseTo(40333.333333, 4);
+      expect(result.pivotPoint).toBe(40333.33);
     });
 
     it('should throw error with insufficient data', async () => {
@@ -118,6 +118,25 @@ describe('RSIService', () => {
       expect(result.signal).toBe('neutral');
     });
 
+    it('should apply custom overbought and oversold thresholds', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 50 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + i * 0.5 + (i % 2 === 0 ? 1 : -1),
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const defaults = await rsiService.calculateRSI('AAPL');
+      const custom = await rsiService.calculateRSI('AAPL', 14, '1d', { overbought: defaults.rsi - 1 });
+
+      expect(defaults.signal).toBe('neutral');
+      expect(custom.signal).toBe('overbought');
+    });
+
     it('should work with different time intervals', async () => {
       const mockData: OHLCVData[] = Array.from({ length: 50 }, (_, i) => ({
         date: new Date(2024, 0, i + 1),
@@ -212,4 +231,53 @@ describe('RSIService', () => {
       expect(decimalPlaces).toBeLessThanOrEqual(2);
     });
   });
+
+  describe('calculateRSISeries', () => {
+    it('should return one value per candle with null warm-up values', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 40 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + Math.sin(i / 3) * 5,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const result = await rsiService.calculateRSISeries('AAPL', 14);
+
+      expect(result.period).toBe(14);
+      expect(result.interval).toBe('1d');
+      expect(result.values).toHaveLength(40);
+      expect(result.values.slice(0, 14).every((point) => point.rsi === null)).toBe(true);
+      expect(result.values.slice(14).every((point) => point.rsi! >= 0 && point.rsi! <= 100)).toBe(true);
+    });
+
+    it('should end with the same value as calculateRSI', async () => {
+      const mockData: OHLCVData[] = Array.from({ length: 50 }, (_, i) => ({
+        date: new Date(2024, 0, i + 1),
+        open: 100,
+        high: 105,
+        low: 95,
+        close: 100 + Math.cos(i / 4) * 3 + i * 0.1,
+        volume: 1000000,
+      }));
+
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData);
+
+      const series = await rsiService.calculateRSISeries('AAPL');
+      const scalar = await rsiService.calculateRSI('AAPL');
+
+      expect(series.values[series.values.length - 1].rsi).toBe(scalar.rsi);
+    });
+
+    it('should throw error with insufficient data', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue([]);
+
+      await expect(rsiService.calculateRSISeries('AAPL', 14)).rejects.toThrow(
+        /Insufficient data for RSI calculation/
+      );
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { TrendlineService } from './trendline-service.js';
 import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+import { UnsupportedIntervalError } from '@lc-trading-services/trading-data-client';
 
 describe('TrendlineService', () => {
   let mockDataClient: jest.Mocked<TradingDataClient>;
@@ -103,9 +104,15 @@ describe('TrendlineService', () => {
     });
 
     it('should throw error for unsupported interval', async () => {
-      await expect(
-        trendlineService.calculateTrendlines('AAPL', '1m' as any)
-      ).rejects.toThrow(/only supports 1d and 1h intervals/);
+      // TimeInterval includes '1m', which trendlines do not support
+      await expect(trendlineService.calculateTrendlines('AAPL', '1m')).rejects.toThrow(
+        /only supports 1d and 1h intervals/
+      );
+      await expect(trendlineService.calculateTrendlines('AAPL', '1m')).rejects.toMatchObject({
+        constructor: UnsupportedIntervalError,
+        interval: '1m',
+        supported: ['1d', '1h'],
+      });
     });
 
     it('should identify trendlines with exactly 2 points', async () => {
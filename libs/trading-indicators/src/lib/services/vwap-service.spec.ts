@@ -0,0 +1,119 @@
+import { VWAPService } from './vwap-service.js';
+import {
+  calendarForSymbol,
+  InsufficientDataError,
+  UnsupportedIntervalError,
+} from '@lc-trading-services/trading-data-client';
+import type { TradingDataClient, OHLCVData } from '@lc-trading-services/trading-data-client';
+
+describe('VWAPService', () => {
+  let mockDataClient: jest.Mocked<TradingDataClient>;
+  let vwapService: VWAPService;
+
+  // 5-minute candles from 09:30 New York on 2024-04-10
+  const mockData = (closes: number[], volume = 1000): OHLCVData[] =>
+    closes.map((close, i) => ({
+      date: new Date(Date.UTC(2024, 3, 10, 13, 30 + i * 5)),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume,
+    }));
+
+  beforeEach(() => {
+    mockDataClient = {
+      getHistoricalData: jest.fn(),
+      getQuote: jest.fn(),
+    } as unknown as jest.Mocked<TradingDataClient>;
+
+    vwapService = new VWAPService(mockDataClient);
+  });
+
+  describe('calculateSessionVWAP', () => {
+    it('should calculate the VWAP of the session with 1σ, 2σ and 3σ bands', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([100, 102, 104, 106, 108]));
+
+      const result = await vwapService.calculateSessionVWAP('AAPL');
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        interval: '5m',
+        type: 'session',
+        anchor: expect.any(Date),
+        weighting: 'volume',
+        price: 108,
+        vwap: 104,
+        stdDev: 2.83,
+        deviation: 1.41,
+        bands: [
+          { multiplier: 1, upper: 106.83, lower: 101.17 },
+          { multiplier: 2, upper: 109.66, lower: 98.34 },
+          { multiplier: 3, upper: 112.49, lower: 95.51 },
+        ],
+        timestamp: expect.any(Date),
+      });
+    });
+
+    it('should fetch from the open of the current or last session', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([100, 102]));
+      const calendar = calendarForSymbol('AAPL');
+      const now = new Date();
+      const session = calendar.sessionAt(now) ?? calendar.previousSession(now);
+
+      const result = await vwapService.calculateSessionVWAP('AAPL', '15m');
+
+      expect(result.anchor).toEqual(session.open);
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          symbol: 'AAPL',
+          startDate: session.open,
+          interval: '15m',
+          adjustment: 'splits+dividends',
+        })
+      );
+    });
+
+    it('should weight currency pairs equally', async () => {
+      const candles = mockData([1.1, 1.2], 0).map((candle) => ({ ...candle, high: candle.close, low: candle.close }));
+      mockDataClient.getHistoricalData.mockResolvedValue(candles);
+
+      const result = await vwapService.calculateSessionVWAP('EURUSD');
+
+      expect(result.weighting).toBe('equal');
+      expect(result.vwap).toBe(1.15);
+      expect(result.stdDev).toBe(0.05);
+    });
+
+    it('should reject daily and longer intervals', async () => {
+      await expect(vwapService.calculateSessionVWAP('AAPL', '1d')).rejects.toThrow(UnsupportedIntervalError);
+      expect(mockDataClient.getHistoricalData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calculateAnchoredVWAP', () => {
+    it('should fetch from the anchor and accumulate up to the last candle', async () => {
+      const anchor = new Date(Date.UTC(2024, 3, 10, 13, 40));
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([90, 95, 100, 110]));
+
+      const result = await vwapService.calculateAnchoredVWAP('AAPL', anchor, '5m', { bandMultipliers: [2] });
+
+      expect(result).toMatchObject({ type: 'anchored', anchor, vwap: 105, stdDev: 5, deviation: 1 });
+      expect(result.bands).toEqual([{ multiplier: 2, upper: 115, lower: 95 }]);
+      expect(mockDataClient.getHistoricalData).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', startDate: anchor, interval: '5m' })
+      );
+    });
+
+    it('should use volume weighting for currency pairs when asked to', async () => {
+      mockDataClient.getHistoricalData.mockResolvedValue(mockData([1.1, 1.2], 0));
+
+      const error = await vwapService
+        .calculateAnchoredVWAP('EURUSD', new Date(Date.UTC(2024, 3, 10)), '5m', { weighting: 'volume' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientDataError);
+      expect(error).toMatchObject({ symbol: 'EURUSD', interval: '5m', required: 1, actual: 0 });
+    });
+  });
+});
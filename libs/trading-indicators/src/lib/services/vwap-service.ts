@@ -0,0 +1,147 @@
+import {
+  calendarForSymbol,
+  getInstrumentRegistry,
+  toIntervalSpec,
+  UnsupportedIntervalError,
+  type OHLCVData,
+  type PriceAdjustment,
+  type TradingDataClient,
+  type TimeInterval,
+} from '@lc-trading-services/trading-data-client';
+import type { VWAPResult } from '../types/index.js';
+import {
+  anchoredVWAP,
+  sessionVWAP,
+  type VWAPBandOptions,
+  type VWAPValue,
+  type VWAPWeighting,
+} from '../functions/vwap.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { priceRounder } from '../utils/precision.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
+
+/**
+ * Service for calculating the session VWAP and anchored VWAP with standard deviation bands
+ *
+ * Volume policy: currency pairs have no central volume (data sources report zero or tick counts),
+ * so they default to 'equal' weighting, a time-weighted average of the typical price. Other symbols
+ * default to 'volume' weighting. The weighting can be set per call and is part of every result.
+ */
+export class VWAPService {
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
+
+  /**
+   * Calculate the VWAP of the current session, or of the last session while the market is closed
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param interval - Intraday time interval (default: '5m')
+   * @param options - Weighting and band multipliers (default: by asset class, 1σ / 2σ / 3σ)
+   * @returns VWAP result anchored at the session open
+   */
+  async calculateSessionVWAP(
+    symbol: string,
+    interval: TimeInterval = '5m',
+    options: VWAPBandOptions = {}
+  ): Promise<VWAPResult> {
+    const { unit } = toIntervalSpec(interval);
+    if (unit !== 'minute' && unit !== 'hour') {
+      throw new UnsupportedIntervalError('Session VWAP only supports intraday intervals', {
+        symbol,
+        interval,
+        supported: ['1m', '2m', '5m', '15m', '30m', '1h', '2h', '3h', '4h', '6h', '8h', '12h'],
+      });
+    }
+
+    const calendar = calendarForSymbol(symbol);
+    const endDate = new Date();
+    const session = calendar.sessionAt(endDate) ?? calendar.previousSession(endDate);
+    const historicalData = await this.fetch(symbol, interval, session.open, endDate);
+
+    const weighting = options.weighting ?? defaultWeighting(symbol);
+    const value = withSymbolContext({ symbol, interval }, () =>
+      sessionVWAP(historicalData, { ...options, weighting, calendar })
+    );
+
+    return this.result(symbol, interval, 'session', session.open, weighting, historicalData, value);
+  }
+
+  /**
+   * Calculate the VWAP anchored at a date, e.g. an all-time high, an earnings release or a swing pivot
+   * @param symbol - Asset symbol (e.g., 'EURUSD', 'AAPL')
+   * @param anchor - Start of the VWAP; the first candle at or after it is included
+   * @param interval - Time interval (default: '1d')
+   * @param options - Weighting and band multipliers (default: by asset class, 1σ / 2σ / 3σ)
+   * @returns VWAP result from the anchor to the last candle
+   */
+  async calculateAnchoredVWAP(
+    symbol: string,
+    anchor: Date,
+    interval: TimeInterval = '1d',
+    options: VWAPBandOptions = {}
+  ): Promise<VWAPResult> {
+    const historicalData = await this.fetch(symbol, interval, anchor, new Date());
+
+    const weighting = options.weighting ?? defaultWeighting(symbol);
+    const value = withSymbolContext({ symbol, interval }, () =>
+      anchoredVWAP(historicalData, { ...options, weighting, anchor })
+    );
+
+    return this.result(symbol, interval, 'anchored', anchor, weighting, historicalData, value);
+  }
+
+  /**
+   * Round a VWAP value into a result
+   */
+  private result(
+    symbol: string,
+    interval: TimeInterval,
+    type: VWAPResult['type'],
+    anchor: Date,
+    weighting: VWAPWeighting,
+    historicalData: OHLCVData[],
+    value: VWAPValue
+  ): VWAPResult {
+    const round = priceRounder(symbol);
+    const price = historicalData[historicalData.length - 1].close;
+
+    return {
+      symbol,
+      interval,
+      type,
+      anchor,
+      weighting,
+      price: round(price),
+      vwap: round(value.vwap),
+      stdDev: round(value.stdDev),
+      deviation: value.stdDev === 0 ? 0 : Number(((price - value.vwap) / value.stdDev).toFixed(2)),
+      bands: value.bands.map(({ multiplier, upper, lower }) => ({
+        multiplier,
+        upper: round(upper),
+        lower: round(lower),
+      })),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fetch the candles of a date range
+   */
+  private fetch(symbol: string, interval: TimeInterval, startDate: Date, endDate: Date): Promise<OHLCVData[]> {
+    return this.dataClient.getHistoricalData({
+      symbol,
+      startDate,
+      endDate,
+      interval,
+      adjustment: this.adjustment,
+    });
+  }
+}
+
+/**
+ * Default weighting of a symbol: 'equal' for currency pairs, 'volume' otherwise
+ */
+function defaultWeighting(symbol: string): VWAPWeighting {
+  return getInstrumentRegistry().resolve(symbol).assetClass === 'forex' ? 'equal' : 'volume';
+}
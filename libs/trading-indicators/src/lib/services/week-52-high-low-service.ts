@@ -1,11 +1,18 @@
-import type { TradingDataClient } from '@lc-trading-services/trading-data-client';
+import type { PriceAdjustment, TradingDataClient } from '@lc-trading-services/trading-data-client';
+import { InsufficientDataError } from '@lc-trading-services/trading-data-client';
 import type { WeekHighLowResult } from '../types/index.js';
+import { highLow } from '../functions/high-low.js';
+import { withSymbolContext } from '../utils/error-context.js';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../utils/price-adjustment.js';
 
 /**
  * Service for calculating 52-week high and low prices
  */
 export class Week52HighLowService {
-  constructor(private readonly dataClient: TradingDataClient) {}
+  constructor(
+    private readonly dataClient: TradingDataClient,
+    private readonly adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+  ) {}
 
   /**
    * Calculate 52-week high and low for a symbol
@@ -23,35 +30,28 @@ export class Week52HighLowService {
       startDate,
       endDate,
       interval: '1d',
+      adjustment: this.adjustment,
     });
 
     if (historicalData.length === 0) {
-      throw new Error(`No historical data found for ${symbol}`);
+      throw new InsufficientDataError(`No historical data found for ${symbol}`, {
+        symbol,
+        interval: '1d',
+        required: 1,
+        actual: 0,
+      });
     }
 
-    // Find 52-week high and low
-    let high52Week = historicalData[0].high;
-    let high52WeekDate = historicalData[0].date;
-    let low52Week = historicalData[0].low;
-    let low52WeekDate = historicalData[0].date;
-
-    for (const data of historicalData) {
-      if (data.high > high52Week) {
-        high52Week = data.high;
-        high52WeekDate = data.date;
-      }
-      if (data.low < low52Week) {
-        low52Week = data.low;
-        low52WeekDate = data.date;
-      }
-    }
+    const { high, highDate, low, lowDate } = withSymbolContext({ symbol, interval: '1d' }, () =>
+      highLow(historicalData)
+    );
 
     return {
       symbol,
-      high52Week,
-      high52WeekDate,
-      low52Week,
-      low52WeekDate,
+      high52Week: high,
+      high52WeekDate: highDate,
+      low52Week: low,
+      low52WeekDate: lowDate,
       timestamp: new Date(),
     };
   }
@@ -0,0 +1,80 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import type { ATROptions } from '../functions/atr.js';
+import { IndicatorState, type IndicatorStateSnapshot } from './indicator-state.js';
+
+/**
+ * Internal ATR state
+ */
+export interface ATRStateData {
+  /** Previous closing price (null before the first candle) */
+  previousClose: number | null;
+  /** Number of true ranges applied */
+  count: number;
+  /** Sum of true ranges during warm-up */
+  trueRangeSum: number;
+  /** Wilder-smoothed ATR (null during warm-up) */
+  atr: number | null;
+}
+
+/**
+ * Incremental Average True Range using Wilder smoothing
+ * Produces exactly the same values as the batch atrSeries function
+ */
+export class ATRState extends IndicatorState<Required<ATROptions>, ATRStateData, number> {
+  constructor(
+    options: ATROptions = {},
+    state: ATRStateData = { previousClose: null, count: 0, trueRangeSum: 0, atr: null },
+    previousState: ATRStateData | null = null
+  ) {
+    const { period = 14 } = options;
+    if (period < 1) {
+      throw new InvalidParameterError('ATR period must be at least 1', { parameter: 'period' });
+    }
+    super({ period }, state, previousState);
+  }
+
+  /**
+   * Restore a state serialized with toJSON()
+   */
+  static fromJSON(snapshot: IndicatorStateSnapshot<Required<ATROptions>, ATRStateData>): ATRState {
+    return new ATRState(snapshot.options, snapshot.state, snapshot.previousState);
+  }
+
+  protected next(state: ATRStateData, candle: OHLCVData): ATRStateData {
+    const { period } = this.options;
+
+    if (state.previousClose === null) {
+      return { ...state, previousClose: candle.close };
+    }
+
+    // Same True Range definition as the batch trueRange function
+    const range = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - state.previousClose),
+      Math.abs(candle.low - state.previousClose)
+    );
+    const count = state.count + 1;
+
+    if (state.atr === null) {
+      const trueRangeSum = state.trueRangeSum + range;
+      return {
+        previousClose: candle.close,
+        count,
+        trueRangeSum,
+        atr: count === period ? trueRangeSum / period : null,
+      };
+    }
+
+    return {
+      ...state,
+      previousClose: candle.close,
+      count,
+      atr: (state.atr * (period - 1) + range) / period,
+    };
+  }
+
+  protected valueOf(state: ATRStateData): number | null {
+    return state.atr;
+  }
+}
@@ -0,0 +1,80 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import type { EMAOptions } from '../functions/ema.js';
+import { IndicatorState, type IndicatorStateSnapshot } from './indicator-state.js';
+
+/**
+ * Internal EMA state
+ */
+export interface EMAStateData {
+  /** Number of prices applied */
+  count: number;
+  /** Sum of the prices applied during warm-up (seed SMA) */
+  sum: number;
+  /** Current EMA (null during warm-up) */
+  ema: number | null;
+}
+
+/**
+ * Apply a price to an EMA state
+ * Mirrors computeEMASeries: SMA seed, then (price - ema) * multiplier + ema
+ * @param state - Current EMA state
+ * @param price - Next price
+ * @param period - EMA period
+ * @returns New EMA state
+ */
+export function nextEMAState(state: EMAStateData, price: number, period: number): EMAStateData {
+  const count = state.count + 1;
+
+  if (state.ema === null) {
+    const sum = state.sum + price;
+    return { count, sum, ema: count === period ? sum / period : null };
+  }
+
+  const multiplier = 2 / (period + 1);
+  return { count, sum: state.sum, ema: (price - state.ema) * multiplier + state.ema };
+}
+
+/**
+ * Initial (empty) EMA state
+ */
+export function initialEMAState(): EMAStateData {
+  return { count: 0, sum: 0, ema: null };
+}
+
+/**
+ * Incremental EMA of closing prices
+ * Produces exactly the same values as the batch emaSeries function
+ *
+ * @example
+ * const ema = new EMAState({ period: 20 });
+ * candles.forEach((candle) => ema.update(candle));
+ * ema.updateLast(formingCandle);
+ */
+export class EMAState extends IndicatorState<EMAOptions, EMAStateData, number> {
+  constructor(
+    options: EMAOptions,
+    state: EMAStateData = initialEMAState(),
+    previousState: EMAStateData | null = null
+  ) {
+    if (options.period < 1) {
+      throw new InvalidParameterError('EMA period must be at least 1', { parameter: 'period' });
+    }
+    super(options, state, previousState);
+  }
+
+  /**
+   * Restore a state serialized with toJSON()
+   */
+  static fromJSON(snapshot: IndicatorStateSnapshot<EMAOptions, EMAStateData>): EMAState {
+    return new EMAState(snapshot.options, snapshot.state, snapshot.previousState);
+  }
+
+  protected next(state: EMAStateData, candle: OHLCVData): EMAStateData {
+    return nextEMAState(state, candle.close, this.options.period);
+  }
+
+  protected valueOf(state: EMAStateData): number | null {
+    return state.ema;
+  }
+}
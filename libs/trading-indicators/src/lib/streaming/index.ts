@@ -0,0 +1,5 @@
+export * from './indicator-state.js';
+export * from './ema-state.js';
+export * from './rsi-state.js';
+export * from './macd-state.js';
+export * from './atr-state.js';
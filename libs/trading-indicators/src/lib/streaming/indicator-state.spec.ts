@@ -0,0 +1,139 @@
+import { EMAState } from './ema-state.js';
+import { RSIState } from './rsi-state.js';
+import { MACDState } from './macd-state.js';
+import { ATRState } from './atr-state.js';
+import { emaSeries } from '../functions/ema.js';
+import { rsiSeries } from '../functions/rsi.js';
+import { macdSeries } from '../functions/macd.js';
+import { atrSeries } from '../functions/atr.js';
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+const candles: OHLCVData[] = Array.from({ length: 120 }, (_, i) => {
+  const close = 100 + Math.sin(i / 7) * 8 + Math.cos(i / 3) * 2 + i * 0.05;
+  return {
+    date: new Date(Date.UTC(2024, 0, i + 1)),
+    open: close - 0.5,
+    high: close + 1 + (i % 3) * 0.25,
+    low: close - 1 - (i % 4) * 0.25,
+    close,
+    volume: 1000 + i,
+  };
+});
+
+describe('streaming indicator states', () => {
+  describe('EMAState', () => {
+    it('should match the batch EMA exactly', () => {
+      const state = new EMAState({ period: 20 });
+      const streamed = candles.map((candle) => state.update(candle));
+
+      expect(streamed).toEqual(emaSeries(candles, { period: 20 }));
+    });
+
+    it('should replace the forming candle with updateLast', () => {
+      const state = new EMAState({ period: 5 });
+      candles.slice(0, 30).forEach((candle) => state.update(candle));
+      state.update({ ...candles[30], close: 50 });
+      state.updateLast({ ...candles[30], close: 60 });
+      const value = state.updateLast(candles[30]);
+
+      expect(value).toBe(emaSeries(candles.slice(0, 31), { period: 5 })[30]);
+    });
+
+    it('should behave like update when no candle was applied yet', () => {
+      const state = new EMAState({ period: 1 });
+
+      expect(state.updateLast(candles[0])).toBe(candles[0].close);
+    });
+
+    it('should reject invalid periods', () => {
+      expect(() => new EMAState({ period: 0 })).toThrow('EMA period must be at least 1');
+    });
+  });
+
+  describe('RSIState', () => {
+    it('should match the batch RSI exactly', () => {
+      const state = new RSIState({ period: 14 });
+      const streamed = candles.map((candle) => state.update(candle));
+
+      expect(streamed).toEqual(rsiSeries(candles, { period: 14 }));
+    });
+
+    it('should replace the forming candle with updateLast', () => {
+      const state = new RSIState();
+      candles.slice(0, 40).forEach((candle) => state.update(candle));
+      state.updateLast({ ...candles[39], close: 1 });
+      const value = state.updateLast(candles[39]);
+
+      expect(value).toBe(rsiSeries(candles.slice(0, 40))[39]);
+    });
+  });
+
+  describe('MACDState', () => {
+    it('should match the batch MACD exactly', () => {
+      const state = new MACDState();
+      const streamed = candles.map((candle) => state.update(candle));
+      const batch = macdSeries(candles);
+
+      streamed.forEach((value, i) => {
+        if (value === null) {
+          expect(batch[i].macd).toBeNull();
+        } else {
+          expect(value).toEqual(batch[i]);
+        }
+      });
+      expect(streamed[streamed.length - 1]).toEqual(batch[batch.length - 1]);
+    });
+
+    it('should reject a fast period that is not less than the slow period', () => {
+      expect(() => new MACDState({ fastPeriod: 26, slowPeriod: 12 })).toThrow(
+        'Fast period must be less than slow period'
+      );
+    });
+  });
+
+  describe('ATRState', () => {
+    it('should match the batch ATR exactly', () => {
+      const state = new ATRState({ period: 14 });
+      const streamed = candles.map((candle) => state.update(candle));
+
+      expect(streamed).toEqual(atrSeries(candles, { period: 14 }));
+    });
+  });
+
+  describe('serialization', () => {
+    it('should resume from a JSON snapshot with identical output', () => {
+      const original = new MACDState({ fastPeriod: 8, slowPeriod: 17, signalPeriod: 9 });
+      candles.slice(0, 60).forEach((candle) => original.update(candle));
+
+      const restored = MACDState.fromJSON(JSON.parse(JSON.stringify(original)));
+      candles.slice(60).forEach((candle) => {
+        expect(restored.update(candle)).toEqual(original.update(candle));
+      });
+    });
+
+    it('should keep the previous state so updateLast works after a restore', () => {
+      const original = new ATRState();
+      candles.slice(0, 30).forEach((candle) => original.update(candle));
+
+      const restored = ATRState.fromJSON(JSON.parse(JSON.stringify(original)));
+      const changed = { ...candles[29], high: candles[29].high + 5 };
+
+      expect(restored.updateLast(changed)).toBe(original.updateLast(changed));
+    });
+
+    it('should restore EMA and RSI states', () => {
+      const ema = new EMAState({ period: 10 });
+      const rsi = new RSIState({ period: 10 });
+      candles.slice(0, 25).forEach((candle) => {
+        ema.update(candle);
+        rsi.update(candle);
+      });
+
+      const restoredEMA = EMAState.fromJSON(JSON.parse(JSON.stringify(ema)));
+      const restoredRSI = RSIState.fromJSON(JSON.parse(JSON.stringify(rsi)));
+
+      expect(restoredEMA.value).toBe(ema.value);
+      expect(restoredRSI.update(candles[25])).toBe(rsi.update(candles[25]));
+    });
+  });
+});
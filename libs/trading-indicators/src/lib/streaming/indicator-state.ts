@@ -0,0 +1,90 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Serialized form of an indicator state
+ * Plain JSON data, safe to persist and restore after a restart
+ */
+export interface IndicatorStateSnapshot<TOptions, TState> {
+  /** Options the state was created with */
+  options: TOptions;
+  /** State after the last candle */
+  state: TState;
+  /** State before the last candle (used by updateLast) */
+  previousState: TState | null;
+}
+
+/**
+ * Base class for incremental (streaming) indicator calculators
+ *
+ * Each candle is applied in O(1). update() appends a new candle, updateLast()
+ * replaces the most recent one, which is what a live (still forming) bar needs.
+ * Subclasses provide a pure transition function so the state before the last
+ * candle can be kept and replayed.
+ */
+export abstract class IndicatorState<TOptions, TState, TValue> {
+  protected state: TState;
+  protected previousState: TState | null;
+
+  protected constructor(
+    protected readonly options: TOptions,
+    state: TState,
+    previousState: TState | null = null
+  ) {
+    this.state = state;
+    this.previousState = previousState;
+  }
+
+  /**
+   * Current indicator value (null during the warm-up period)
+   */
+  get value(): TValue | null {
+    return this.valueOf(this.state);
+  }
+
+  /**
+   * Apply a new candle
+   * @param candle - The next candle, newer than every candle applied so far
+   * @returns Indicator value after the candle
+   */
+  update(candle: OHLCVData): TValue | null {
+    this.previousState = this.state;
+    this.state = this.next(this.state, candle);
+    return this.value;
+  }
+
+  /**
+   * Replace the most recently applied candle (e.g., a bar that is still forming)
+   * Behaves like update() when no candle has been applied yet
+   * @param candle - Updated version of the last candle
+   * @returns Indicator value after the candle
+   */
+  updateLast(candle: OHLCVData): TValue | null {
+    if (this.previousState === null) {
+      return this.update(candle);
+    }
+
+    this.state = this.next(this.previousState, candle);
+    return this.value;
+  }
+
+  /**
+   * Serialize the state so it can be restored later
+   */
+  toJSON(): IndicatorStateSnapshot<TOptions, TState> {
+    return {
+      options: this.options,
+      state: this.state,
+      previousState: this.previousState,
+    };
+  }
+
+  /**
+   * Compute the state after applying a candle, without mutating the input
+   */
+  protected abstract next(state: TState, candle: OHLCVData): TState;
+
+  /**
+   * Derive the indicator value from a state
+   */
+  protected abstract valueOf(state: TState): TValue | null;
+}
@@ -0,0 +1,70 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import type { MACDOptions, MACDSeriesValue } from '../functions/macd.js';
+import { IndicatorState, type IndicatorStateSnapshot } from './indicator-state.js';
+import { initialEMAState, nextEMAState, type EMAStateData } from './ema-state.js';
+
+/**
+ * Internal MACD state
+ */
+export interface MACDStateData {
+  /** Fast EMA of closing prices */
+  fast: EMAStateData;
+  /** Slow EMA of closing prices */
+  slow: EMAStateData;
+  /** EMA of the MACD line */
+  signal: EMAStateData;
+}
+
+/**
+ * Incremental MACD (MACD line, signal line and histogram)
+ * Produces exactly the same values as the batch macdSeries function
+ */
+export class MACDState extends IndicatorState<Required<MACDOptions>, MACDStateData, MACDSeriesValue> {
+  constructor(
+    options: MACDOptions = {},
+    state: MACDStateData = { fast: initialEMAState(), slow: initialEMAState(), signal: initialEMAState() },
+    previousState: MACDStateData | null = null
+  ) {
+    const { fastPeriod = 12, slowPeriod = 26, signalPeriod = 9 } = options;
+    if (fastPeriod >= slowPeriod) {
+      throw new InvalidParameterError('Fast period must be less than slow period', { parameter: 'fastPeriod' });
+    }
+    super({ fastPeriod, slowPeriod, signalPeriod }, state, previousState);
+  }
+
+  /**
+   * Restore a state serialized with toJSON()
+   */
+  static fromJSON(snapshot: IndicatorStateSnapshot<Required<MACDOptions>, MACDStateData>): MACDState {
+    return new MACDState(snapshot.options, snapshot.state, snapshot.previousState);
+  }
+
+  protected next(state: MACDStateData, candle: OHLCVData): MACDStateData {
+    const { fastPeriod, slowPeriod, signalPeriod } = this.options;
+    const fast = nextEMAState(state.fast, candle.close, fastPeriod);
+    const slow = nextEMAState(state.slow, candle.close, slowPeriod);
+
+    // The signal line only starts once the MACD line exists
+    const signal =
+      slow.ema === null
+        ? state.signal
+        : nextEMAState(state.signal, (fast.ema as number) - slow.ema, signalPeriod);
+
+    return { fast, slow, signal };
+  }
+
+  protected valueOf(state: MACDStateData): MACDSeriesValue | null {
+    if (state.slow.ema === null || state.fast.ema === null) {
+      return null;
+    }
+
+    const macd = state.fast.ema - state.slow.ema;
+    const signal = state.signal.ema;
+    return {
+      macd,
+      signal,
+      histogram: signal === null ? null : macd - signal,
+    };
+  }
+}
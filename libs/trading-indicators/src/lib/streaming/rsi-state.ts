@@ -0,0 +1,96 @@
+import type { OHLCVData } from '@lc-trading-services/trading-data-client';
+import { InvalidParameterError } from '@lc-trading-services/trading-data-client';
+import { toRSI, type RSIOptions } from '../functions/rsi.js';
+import { IndicatorState, type IndicatorStateSnapshot } from './indicator-state.js';
+
+/**
+ * Internal RSI state
+ */
+export interface RSIStateData {
+  /** Previous closing price (null before the first candle) */
+  previousClose: number | null;
+  /** Number of price changes applied */
+  count: number;
+  /** Sum of gains during warm-up */
+  gainSum: number;
+  /** Sum of losses during warm-up */
+  lossSum: number;
+  /** Wilder-smoothed average gain (null during warm-up) */
+  avgGain: number | null;
+  /** Wilder-smoothed average loss (null during warm-up) */
+  avgLoss: number | null;
+}
+
+/**
+ * Incremental RSI of closing prices using Wilder smoothing
+ * Produces exactly the same values as the batch rsiSeries function
+ */
+export class RSIState extends IndicatorState<Required<RSIOptions>, RSIStateData, number> {
+  constructor(
+    options: RSIOptions = {},
+    state: RSIStateData = {
+      previousClose: null,
+      count: 0,
+      gainSum: 0,
+      lossSum: 0,
+      avgGain: null,
+      avgLoss: null,
+    },
+    previousState: RSIStateData | null = null
+  ) {
+    const { period = 14 } = options;
+    if (period < 1) {
+      throw new InvalidParameterError('RSI period must be at least 1', { parameter: 'period' });
+    }
+    super({ period }, state, previousState);
+  }
+
+  /**
+   * Restore a state serialized with toJSON()
+   */
+  static fromJSON(snapshot: IndicatorStateSnapshot<Required<RSIOptions>, RSIStateData>): RSIState {
+    return new RSIState(snapshot.options, snapshot.state, snapshot.previousState);
+  }
+
+  protected next(state: RSIStateData, candle: OHLCVData): RSIStateData {
+    const { period } = this.options;
+
+    if (state.previousClose === null) {
+      return { ...state, previousClose: candle.close };
+    }
+
+    const change = candle.close - state.previousClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? Math.abs(change) : 0;
+    const count = state.count + 1;
+
+    if (state.avgGain === null || state.avgLoss === null) {
+      const gainSum = state.gainSum + gain;
+      const lossSum = state.lossSum + loss;
+      const seeded = count === period;
+      return {
+        previousClose: candle.close,
+        count,
+        gainSum,
+        lossSum,
+        avgGain: seeded ? gainSum / period : null,
+        avgLoss: seeded ? lossSum / period : null,
+      };
+    }
+
+    return {
+      ...state,
+      previousClose: candle.close,
+      count,
+      avgGain: (state.avgGain * (period - 1) + gain) / period,
+      avgLoss: (state.avgLoss * (period - 1) + loss) / period,
+    };
+  }
+
+  protected valueOf(state: RSIStateData): number | null {
+    if (state.avgGain === null || state.avgLoss === null) {
+      return null;
+    }
+    return toRSI(state.avgGain, state.avgLoss);
+  }
+}
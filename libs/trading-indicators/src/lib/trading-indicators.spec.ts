@@ -9,6 +9,11 @@ import { TrendlineService } from './services/trendline-service.js';
 import { RSIService } from './services/rsi-service.js';
 import { MACDService } from './services/macd-service.js';
 import { PivotPointsService } from './services/pivot-points-service.js';
+import { ChannelService } from './services/channel-service.js';
+import { OscillatorService } from './services/oscillator-service.js';
+import { ADXService } from './services/adx-service.js';
+import { IchimokuService } from './services/ichimoku-service.js';
+import { VWAPService } from './services/vwap-service.js';
 
 describe('TradingIndicators', () => {
   it('should create instance with default data client', () => {
@@ -24,6 +29,11 @@ describe('TradingIndicators', () => {
     expect(indicators.rsi).toBeInstanceOf(RSIService);
     expect(indicators.macd).toBeInstanceOf(MACDService);
     expect(indicators.pivotPoints).toBeInstanceOf(PivotPointsService);
+    expect(indicators.channels).toBeInstanceOf(ChannelService);
+    expect(indicators.oscillators).toBeInstanceOf(OscillatorService);
+    expect(indicators.adx).toBeInstanceOf(ADXService);
+    expect(indicators.ichimoku).toBeInstanceOf(IchimokuService);
+    expect(indicators.vwap).toBeInstanceOf(VWAPService);
   });
 
   it('should create instance with custom data client', () => {
@@ -40,6 +50,7 @@ describe('TradingIndicators', () => {
     expect(indicators.rsi).toBeInstanceOf(RSIService);
     expect(indicators.macd).toBeInstanceOf(MACDService);
     expect(indicators.pivotPoints).toBeInstanceOf(PivotPointsService);
+    expect(indicators.channels).toBeInstanceOf(ChannelService);
   });
 
   it('should provide access to all indicator services', () => {
@@ -55,5 +66,22 @@ describe('TradingIndicators', () => {
     expect(typeof indicators.rsi.calculateRSI).toBe('function');
     expect(typeof indicators.macd.calculateMACD).toBe('function');
     expect(typeof indicators.pivotPoints.calculatePivotPoints).toBe('function');
+    expect(typeof indicators.channels.detectSqueeze).toBe('function');
+    expect(typeof indicators.oscillators.calculateStochastic).toBe('function');
+    expect(typeof indicators.adx.calculateADX).toBe('function');
+    expect(typeof indicators.ichimoku.calculateIchimoku).toBe('function');
+    expect(typeof indicators.vwap.calculateAnchoredVWAP).toBe('function');
+  });
+
+  it('should pass the price adjustment to all services', async () => {
+    const client = { getHistoricalData: jest.fn().mockResolvedValue([]) } as unknown as TradingDataClient;
+    const indicators = new TradingIndicators(client, { adjustment: 'splits' });
+
+    await expect(indicators.week52HighLow.calculate52WeekHighLow('AAPL')).rejects.toThrow();
+    await expect(indicators.rsi.calculateRSI('AAPL')).rejects.toThrow();
+
+    expect(client.getHistoricalData).toHaveBeenCalledTimes(2);
+    expect(client.getHistoricalData).toHaveBeenNthCalledWith(1, expect.objectContaining({ adjustment: 'splits' }));
+    expect(client.getHistoricalData).toHaveBeenNthCalledWith(2, expect.objectContaining({ adjustment: 'splits' }));
   });
 });
@@ -1,4 +1,5 @@
 import { TradingDataClient } from '@lc-trading-services/trading-data-client';
+import type { TradingIndicatorsOptions } from './types/index.js';
 import { ATRService } from './services/atr-service.js';
 import { EMAService } from './services/ema-service.js';
 import { AllTimeHighLowService } from './services/all-time-high-low-service.js';
@@ -8,6 +9,11 @@ import { TrendlineService } from './services/trendline-service.js';
 import { RSIService } from './services/rsi-service.js';
 import { MACDService } from './services/macd-service.js';
 import { PivotPointsService } from './services/pivot-points-service.js';
+import { ChannelService } from './services/channel-service.js';
+import { OscillatorService } from './services/oscillator-service.js';
+import { ADXService } from './services/adx-service.js';
+import { IchimokuService } from './services/ichimoku-service.js';
+import { VWAPService } from './services/vwap-service.js';
 
 /**
  * Main service class that provides access to all trading indicators
@@ -22,18 +28,33 @@ export class TradingIndicators {
   public readonly rsi: RSIService;
   public readonly macd: MACDService;
   public readonly pivotPoints: PivotPointsService;
+  public readonly channels: ChannelService;
+  public readonly oscillators: OscillatorService;
+  public readonly adx: ADXService;
+  public readonly ichimoku: IchimokuService;
+  public readonly vwap: VWAPService;
 
-  constructor(dataClient?: TradingDataClient) {
+  /**
+   * @param dataClient - Trading data client (defaults to a new TradingDataClient)
+   * @param options - Price adjustment of the series all indicators are calculated on
+   */
+  constructor(dataClient?: TradingDataClient, options: TradingIndicatorsOptions = {}) {
     const client = dataClient || new TradingDataClient();
+    const { adjustment } = options;
     
-    this.atr = new ATRService(client);
-    this.ema = new EMAService(client);
-    this.allTimeHighLow = new AllTimeHighLowService(client);
-    this.week52HighLow = new Week52HighLowService(client);
-    this.supportResistance = new SupportResistanceService(client);
-    this.trendline = new TrendlineService(client);
-    this.rsi = new RSIService(client);
-    this.macd = new MACDService(client, this.ema);
-    this.pivotPoints = new PivotPointsService(client);
+    this.atr = new ATRService(client, adjustment);
+    this.ema = new EMAService(client, adjustment);
+    this.allTimeHighLow = new AllTimeHighLowService(client, adjustment);
+    this.week52HighLow = new Week52HighLowService(client, adjustment);
+    this.supportResistance = new SupportResistanceService(client, adjustment);
+    this.trendline = new TrendlineService(client, adjustment);
+    this.rsi = new RSIService(client, adjustment);
+    this.macd = new MACDService(client, this.ema, adjustment);
+    this.pivotPoints = new PivotPointsService(client, adjustment);
+    this.channels = new ChannelService(client, adjustment);
+    this.oscillators = new OscillatorService(client, adjustment);
+    this.adx = new ADXService(client, adjustment);
+    this.ichimoku = new IchimokuService(client, adjustment);
+    this.vwap = new VWAPService(client, adjustment);
   }
 }
@@ -1,4 +1,13 @@
-import type { TimeInterval } from '@lc-trading-services/trading-data-client';
+import type { PriceAdjustment, TimeInterval } from '@lc-trading-services/trading-data-client';
+import type {
+  OscillatorCrossover,
+  OscillatorSignal,
+  OscillatorThresholds,
+} from '../functions/oscillator-signals.js';
+import type { StochasticVariant } from '../functions/stochastic.js';
+import type { TrendStrength } from '../functions/adx.js';
+import type { CloudColor, CloudPosition } from '../functions/ichimoku.js';
+import type { VWAPBand, VWAPWeighting } from '../functions/vwap.js';
 
 /**
  * Represents a support or resistance zone
@@ -38,8 +47,36 @@ export interface ATRResult {
   symbol: string;
   /** Time interval used */
   interval: TimeInterval;
-  /** Current ATR value */
+  /** Current ATR value, in price units */
   atr: number;
+  /** Current ATR value in pips (currency pairs only) */
+  pips?: number;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Single point of an ATR series
+ */
+export interface ATRSeriesPoint {
+  /** Date of the candle this value belongs to */
+  date: Date;
+  /** ATR value (null during the warm-up period) */
+  atr: number | null;
+}
+
+/**
+ * Average True Range series result, one value per candle
+ */
+export interface ATRSeriesResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** ATR period (e.g., 14) */
+  period: number;
+  /** ATR values aligned with the historical candles */
+  values: ATRSeriesPoint[];
   /** Calculation timestamp */
   timestamp: Date;
 }
@@ -94,6 +131,32 @@ export interface EMAResult {
   timestamp: Date;
 }
 
+/**
+ * Single point of an EMA series
+ */
+export interface EMASeriesPoint {
+  /** Date of the candle this value belongs to */
+  date: Date;
+  /** EMA value (null during the warm-up period) */
+  ema: number | null;
+}
+
+/**
+ * EMA series result, one value per candle
+ */
+export interface EMASeriesResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** EMA period (e.g., 9, 20, 50, 200) */
+  period: number;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** EMA values aligned with the historical candles */
+  values: EMASeriesPoint[];
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
 /**
  * Represents a single trendline connecting exactly 2 price points
  */
@@ -151,7 +214,33 @@ export interface RSIResult {
   /** Current RSI value (0-100) */
   rsi: number;
   /** RSI signal interpretation */
-  signal: 'overbought' | 'oversold' | 'neutral';
+  signal: OscillatorSignal;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Single point of an RSI series
+ */
+export interface RSISeriesPoint {
+  /** Date of the candle this value belongs to */
+  date: Date;
+  /** RSI value (0-100, null during the warm-up period) */
+  rsi: number | null;
+}
+
+/**
+ * RSI series result, one value per candle
+ */
+export interface RSISeriesResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** RSI period (e.g., 14) */
+  period: number;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** RSI values aligned with the historical candles */
+  values: RSISeriesPoint[];
   /** Calculation timestamp */
   timestamp: Date;
 }
@@ -178,6 +267,40 @@ export interface MACDResult {
   timestamp: Date;
 }
 
+/**
+ * Single point of a MACD series
+ */
+export interface MACDSeriesPoint {
+  /** Date of the candle this value belongs to */
+  date: Date;
+  /** MACD line value (null until the slow EMA is available) */
+  macd: number | null;
+  /** Signal line value (null until enough MACD values exist) */
+  signal: number | null;
+  /** MACD histogram (null while the signal line is null) */
+  histogram: number | null;
+}
+
+/**
+ * MACD series result, one value per candle
+ */
+export interface MACDSeriesResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Fast EMA period (default: 12) */
+  fastPeriod: number;
+  /** Slow EMA period (default: 26) */
+  slowPeriod: number;
+  /** Signal period (default: 9) */
+  signalPeriod: number;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** MACD values aligned with the historical candles */
+  values: MACDSeriesPoint[];
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
 /**
  * Pivot Points result with support and resistance levels
  */
@@ -209,3 +332,297 @@ export interface PivotPointsResult {
   /** Calculation timestamp */
   timestamp: Date;
 }
+
+/**
+ * Bollinger Bands result
+ */
+export interface BollingerBandsResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** Moving average period (default: 20) */
+  period: number;
+  /** Band width in standard deviations (default: 2) */
+  stdDev: number;
+  /** Upper band (middle + stdDev standard deviations) */
+  upper: number;
+  /** Middle band (simple moving average of the closes) */
+  middle: number;
+  /** Lower band (middle - stdDev standard deviations) */
+  lower: number;
+  /** Band width relative to the middle band: (upper - lower) / middle */
+  bandwidth: number;
+  /** Position of the last close within the bands (0 at the lower band, 1 at the upper band) */
+  percentB: number;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Keltner Channels result
+ */
+export interface KeltnerChannelsResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** EMA period of the middle line (default: 20) */
+  period: number;
+  /** Channel width in ATRs (default: 2) */
+  multiplier: number;
+  /** ATR period (default: 10) */
+  atrPeriod: number;
+  /** Upper channel line (middle + multiplier ATRs) */
+  upper: number;
+  /** Middle line (EMA of the closes) */
+  middle: number;
+  /** Lower channel line (middle - multiplier ATRs) */
+  lower: number;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Donchian Channels result
+ */
+export interface DonchianChannelsResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** Number of candles of the rolling high and low (default: 20) */
+  period: number;
+  /** Highest high of the period */
+  upper: number;
+  /** Halfway between the upper and lower line */
+  middle: number;
+  /** Lowest low of the period */
+  lower: number;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Upper and lower line of a band or channel
+ */
+export interface BandLevels {
+  /** Upper line */
+  upper: number;
+  /** Lower line */
+  lower: number;
+}
+
+/**
+ * Squeeze (Bollinger Bands inside Keltner Channels) result
+ */
+export interface SqueezeResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** Whether the last candle is in a squeeze */
+  squeeze: boolean;
+  /** Number of consecutive candles in the squeeze, up to the last one (0 if not in a squeeze) */
+  bars: number;
+  /** Whether the squeeze ended with the last candle */
+  released: boolean;
+  /** Bollinger Bands of the last candle */
+  bollinger: BandLevels;
+  /** Keltner Channels of the last candle */
+  keltner: BandLevels;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Oscillators of OscillatorService
+ */
+export type OscillatorName = 'stochastic' | 'stochasticRSI' | 'williamsR' | 'cci' | 'mfi';
+
+/**
+ * Oscillator result, shaped like RSIResult with the value under a common name
+ */
+export interface OscillatorResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Oscillator the value belongs to */
+  indicator: OscillatorName;
+  /** Main lookback period (e.g., 14) */
+  period: number;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** Current oscillator value (%K for the stochastic oscillators) */
+  value: number;
+  /** Zone of the value */
+  signal: OscillatorSignal;
+  /** Crossover on the last candle (%K/%D cross, or leaving the overbought/oversold zone) */
+  crossover: OscillatorCrossover;
+  /** Overbought and oversold levels the signal is based on */
+  thresholds: OscillatorThresholds;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Stochastic Oscillator and Stochastic RSI result
+ */
+export interface StochasticResult extends OscillatorResult {
+  indicator: 'stochastic' | 'stochasticRSI';
+  /** Variant (Stochastic Oscillator only) */
+  variant?: StochasticVariant;
+  /** %K line (0-100), same as value */
+  k: number;
+  /** %D signal line (0-100) */
+  d: number;
+}
+
+/**
+ * ADX (Average Directional Index) and DMI result
+ */
+export interface ADXResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** ADX and DI period (e.g., 14) */
+  period: number;
+  /** Current ADX value (0-100) */
+  adx: number;
+  /** Positive directional indicator (0-100) */
+  plusDI: number;
+  /** Negative directional indicator (0-100) */
+  minusDI: number;
+  /** Trend strength classification of the ADX */
+  trendStrength: TrendStrength;
+  /** Trend direction: 'bullish' when +DI is above -DI */
+  direction: 'bullish' | 'bearish';
+  /** DI crossover on the last candle: +DI crossing above ('bullish') or below ('bearish') -DI */
+  crossover: OscillatorCrossover;
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Single point of an ADX series
+ */
+export interface ADXSeriesPoint {
+  /** Date of the candle this value belongs to */
+  date: Date;
+  /** ADX value (null during the warm-up period) */
+  adx: number | null;
+  /** Positive directional indicator (null during the warm-up period) */
+  plusDI: number | null;
+  /** Negative directional indicator (null during the warm-up period) */
+  minusDI: number | null;
+}
+
+/**
+ * ADX series result, one value per candle
+ */
+export interface ADXSeriesResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** ADX and DI period (e.g., 14) */
+  period: number;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** ADX values aligned with the historical candles */
+  values: ADXSeriesPoint[];
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Point of the projected Ichimoku cloud
+ */
+export interface IchimokuCloudPoint {
+  /** Date of the future bar, from the trading calendar of the symbol */
+  date: Date;
+  /** Senkou Span A */
+  senkouA: number;
+  /** Senkou Span B */
+  senkouB: number;
+  /** Cloud color at this bar */
+  color: CloudColor;
+}
+
+/**
+ * Ichimoku Kinko Hyo result
+ */
+export interface IchimokuResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** Tenkan-sen period (default: 9) */
+  conversionPeriod: number;
+  /** Kijun-sen period (default: 26) */
+  basePeriod: number;
+  /** Senkou Span B period (default: 52) */
+  spanBPeriod: number;
+  /** Candles the cloud is projected forward (default: 26) */
+  displacement: number;
+  /** Close of the last candle */
+  price: number;
+  /** Tenkan-sen (conversion line) */
+  tenkan: number;
+  /** Kijun-sen (base line) */
+  kijun: number;
+  /** Senkou Span A of the cloud at the last candle */
+  senkouA: number;
+  /** Senkou Span B of the cloud at the last candle */
+  senkouB: number;
+  /** Latest Chikou Span point (the last close, drawn 'displacement' candles back) */
+  chikou: number;
+  /** Color of the cloud at the last candle */
+  cloudColor: CloudColor;
+  /** Thickness of the cloud at the last candle: |Senkou Span A - Senkou Span B| */
+  cloudThickness: number;
+  /** Position of the last close relative to the cloud */
+  pricePosition: CloudPosition;
+  /** TK cross on the last candle: Tenkan crossing above ('bullish') or below ('bearish') Kijun */
+  tkCross: OscillatorCrossover;
+  /** Kumo breakout on the last candle: close moving above ('bullish') or below ('bearish') the cloud */
+  kumoBreakout: OscillatorCrossover;
+  /** Cloud of the next 'displacement' bars, nearest first */
+  futureCloud: IchimokuCloudPoint[];
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Session or anchored VWAP result
+ */
+export interface VWAPResult {
+  /** Symbol analyzed */
+  symbol: string;
+  /** Time interval used */
+  interval: TimeInterval;
+  /** 'session' for the VWAP of the current session, 'anchored' for a VWAP from an anchor date */
+  type: 'session' | 'anchored';
+  /** Start of the VWAP: the session open or the anchor date */
+  anchor: Date;
+  /** Weighting used: 'equal' for symbols without reliable volume */
+  weighting: VWAPWeighting;
+  /** Close of the last candle */
+  price: number;
+  /** Current VWAP */
+  vwap: number;
+  /** Weighted standard deviation of the typical price around the VWAP */
+  stdDev: number;
+  /** Distance of the last close from the VWAP in standard deviations (0 without deviation) */
+  deviation: number;
+  /** Standard deviation bands (default: 1σ, 2σ and 3σ) */
+  bands: VWAPBand[];
+  /** Calculation timestamp */
+  timestamp: Date;
+}
+
+/**
+ * Options of TradingIndicators
+ */
+export interface TradingIndicatorsOptions {
+  /** Price adjustment of the fetched series (default: 'splits+dividends') */
+  adjustment?: PriceAdjustment;
+}
@@ -0,0 +1,14 @@
+import { withErrorContext, type ErrorContext } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Run a calculation and attach the symbol and interval to trading errors it throws
+ * @param context - Symbol and interval of the calculation
+ * @param calculate - Calculation on already fetched data
+ */
+export function withSymbolContext<T>(context: ErrorContext, calculate: () => T): T {
+  try {
+    return calculate();
+  } catch (error) {
+    throw withErrorContext(error, context);
+  }
+}
@@ -0,0 +1,19 @@
+import { calendarForSymbol, type TimeInterval } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Start date for fetching a number of bars up to an end date
+ * Uses the trading calendar of the symbol, so weekends, holidays, early closes and
+ * 24/5 or 24/7 markets are accounted for exactly
+ * @param symbol - Asset symbol
+ * @param interval - Bar interval
+ * @param bars - Number of bars needed
+ * @param endDate - End of the range (default: now)
+ */
+export function lookbackStartDate(
+  symbol: string,
+  interval: TimeInterval,
+  bars: number,
+  endDate: Date = new Date()
+): Date {
+  return calendarForSymbol(symbol).lookbackStart(endDate, bars, interval);
+}
@@ -0,0 +1,11 @@
+import { getInstrumentRegistry, roundPrice } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Rounding function for price-valued results (averages, levels, ranges) of a symbol
+ * Rounds to the precision of the symbol's instrument, e.g. 5 decimals for EURUSD and 2 for AAPL
+ * @param symbol - Asset symbol in any format supported by the instrument registry
+ */
+export function priceRounder(symbol: string): (value: number) => number {
+  const instrument = getInstrumentRegistry().resolve(symbol);
+  return (value) => roundPrice(instrument, value);
+}
@@ -0,0 +1,7 @@
+import type { PriceAdjustment } from '@lc-trading-services/trading-data-client';
+
+/**
+ * Price adjustment of the series indicators are calculated on
+ * Adjusted for splits and dividends, so corporate actions neither show up as price moves nor as levels
+ */
+export const DEFAULT_PRICE_ADJUSTMENT: PriceAdjustment = 'splits+dividends';